@@ -1,29 +1,53 @@
 import { Document, IndexOptions } from './types';
 import { logger } from './logger';
+import { DataIntegrityError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { SortedIndex, IndexRange, rangeFromCondition, multikeyRange } from './sorted-index';
+import { getValueByPath, indexKeys, isMultikeyPath } from './utils';
+
+/**
+ * Public description of an advanced index
+ */
+export interface AdvancedIndexInfo {
+  name: string;
+  fields: string[];
+  directions: Array<1 | -1>;
+  unique: boolean;
+  sparse: boolean;
+  options: IndexOptions;
+}
 
 /**
  * Advanced Indexing Engine for Monarch Database
  * Supports compound indexes, unique constraints, and specialized index types
+ *
+ * Each index is a tree of sorted levels, one per field: equality on a leading prefix
+ * of the fields walks straight down, and a range on the next field walks that level in order.
+ * Fields are dot paths; array values are multikey, so a document is stored under one key per
+ * combination of array elements, and unique indexes reject any key shared with another document.
  */
 export class AdvancedIndexingEngine {
   private indexes = new Map<string, AdvancedIndex>();
 
   /**
    * Create an advanced index
+   *
+   * @param directions - Sort direction per field (default ascending)
    */
-  createIndex(collection: string, fields: string[], options: IndexOptions = {}): string {
+  createIndex(collection: string, fields: string[], options: IndexOptions = {}, directions?: Array<1 | -1>): string {
     const indexName = options.name || `idx_${collection}_${fields.join('_')}_${Date.now()}`;
 
     const index: AdvancedIndex = {
       name: indexName,
       collection,
       fields,
+      directions: directions ?? fields.map(() => 1),
       options,
-      data: new Map(),
+      data: new SortedIndex(),
       unique: options.unique || false,
       sparse: options.sparse || false,
       text: options.text || false,
-      expiresAt: options.expireAfterSeconds ? Date.now() + (options.expireAfterSeconds * 1000) : undefined
+      multikey: false
     };
 
     this.indexes.set(indexName, index);
@@ -32,30 +56,66 @@ export class AdvancedIndexingEngine {
       indexName,
       collection,
       fields,
-      options: { unique: options.unique, sparse: options.sparse, text: options.text }
+      options: { unique: options.unique, sparse: options.sparse, text: options.text, expireAfterSeconds: options.expireAfterSeconds }
     });
 
     return indexName;
   }
 
+  /**
+   * Check whether an index with this name exists
+   */
+  hasIndex(indexName: string): boolean {
+    return this.indexes.has(indexName);
+  }
+
+  /**
+   * Describe all indexes
+   */
+  getIndexes(): AdvancedIndexInfo[] {
+    return Array.from(this.indexes.values()).map(index => ({
+      name: index.name,
+      fields: [...index.fields],
+      directions: [...index.directions],
+      unique: index.unique,
+      sparse: index.sparse,
+      options: { ...index.options }
+    }));
+  }
+
   /**
    * Insert document into all relevant indexes
+   * All-or-nothing: on a unique violation the document is left out of every index
+   *
+   * @throws DataIntegrityError if a unique index already holds the document's key
    */
   insertDocument(docId: string, document: Document): void {
-    for (const index of this.indexes.values()) {
-      if (this.shouldIndexDocument(document, index)) {
-        this.insertIntoIndex(index, docId, document);
-      }
+    const applicable = Array.from(this.indexes.values()).filter(index => this.shouldIndexDocument(document, index));
+
+    for (const index of applicable) {
+      this.assertUnique(index, docId, document);
+    }
+    for (const index of applicable) {
+      this.insertIntoIndex(index, docId, document);
     }
   }
 
   /**
    * Update document in all relevant indexes
+   * Unique constraints are checked before anything changes
+   *
+   * @throws DataIntegrityError if the new version violates a unique index
    */
   updateDocument(docId: string, oldDocument: Document, newDocument: Document): void {
+    for (const index of this.indexes.values()) {
+      if (this.shouldIndexDocument(newDocument, index)) {
+        this.assertUnique(index, docId, newDocument);
+      }
+    }
+
     for (const index of this.indexes.values()) {
       // Remove old document
-      this.removeFromIndex(index, docId);
+      this.removeFromIndex(index, docId, oldDocument);
 
       // Insert new document if it should be indexed
       if (this.shouldIndexDocument(newDocument, index)) {
@@ -67,31 +127,95 @@ export class AdvancedIndexingEngine {
   /**
    * Remove document from all indexes
    */
-  removeDocument(docId: string): void {
+  removeDocument(docId: string, document: Document): void {
+    for (const index of this.indexes.values()) {
+      this.removeFromIndex(index, docId, document);
+    }
+  }
+
+  /**
+   * Drop all indexed entries while keeping the index definitions
+   */
+  clearData(): void {
     for (const index of this.indexes.values()) {
-      this.removeFromIndex(index, docId);
+      index.data = new SortedIndex();
     }
   }
 
   /**
    * Query using index
+   * Supports equality on a leading prefix of the index fields followed by
+   * `$eq`, `$in` or a range on the next field; returns candidate document IDs
    */
   queryIndex(indexName: string, query: any): string[] {
     const index = this.indexes.get(indexName);
     if (!index) {
-      throw new Error(`Index '${indexName}' not found`);
+      throw new Error(ERROR_MESSAGES.INDEX_NOT_FOUND(indexName));
+    }
+
+    // Single-field indexes also accept a bare condition such as { $gt: 5 }
+    if (index.fields.length === 1 && Object.keys(query).some(key => key.startsWith('$'))) {
+      query = { [index.fields[0]]: query };
+    }
+
+    const equalities: any[] = [];
+    for (const field of index.fields) {
+      const condition = query[field];
+      if (condition === undefined) break;
+
+      if (this.isPlainValue(condition)) {
+        equalities.push(condition);
+        continue;
+      }
+      if (this.isPlainValue(condition.$eq)) {
+        equalities.push(condition.$eq);
+        continue;
+      }
+      if (Array.isArray(condition.$in)) {
+        const results = new Set<string>();
+        for (const value of condition.$in) {
+          for (const docId of this.lookup(indexName, [...equalities, value])) {
+            results.add(docId);
+          }
+        }
+        return Array.from(results);
+      }
+
+      const range = rangeFromCondition(condition);
+      return Array.from(new Set(this.lookup(indexName, equalities, range ?? undefined)));
+    }
+
+    return Array.from(new Set(this.lookup(indexName, equalities)));
+  }
+
+  /**
+   * Document IDs under a key prefix, optionally restricted to a range on the next field
+   * IDs are produced lazily in index order
+   *
+   * @param equalities - Values for the leading index fields
+   * @param range - Bounds on the field following the prefix
+   */
+  *lookup(indexName: string, equalities: any[], range?: IndexRange): Generator<string> {
+    const index = this.indexes.get(indexName);
+    if (!index) {
+      throw new Error(ERROR_MESSAGES.INDEX_NOT_FOUND(indexName));
     }
 
-    const results = new Set<string>();
+    let node: SortedIndex<any> | Set<string> | undefined = index.data;
+    for (const value of equalities) {
+      node = (node as SortedIndex<any>).get(this.normalizeKey(value));
+      if (!node) return;
+    }
 
-    // For compound indexes, we need to match all fields
-    if (index.fields.length > 1) {
-      this.queryCompoundIndex(index, query, results);
-    } else {
-      this.querySingleFieldIndex(index, query, results);
+    if (node instanceof Set) {
+      yield* node;
+      return;
     }
 
-    return Array.from(results);
+    const bounds = range && index.multikey ? multikeyRange(range) : range;
+    for (const [, child] of node.range(bounds ?? {})) {
+      yield* this.allIds(child);
+    }
   }
 
   /**
@@ -100,15 +224,15 @@ export class AdvancedIndexingEngine {
   getIndexStats(indexName: string): any {
     const index = this.indexes.get(indexName);
     if (!index) {
-      throw new Error(`Index '${indexName}' not found`);
+      throw new Error(ERROR_MESSAGES.INDEX_NOT_FOUND(indexName));
     }
 
     let totalEntries = 0;
     let uniqueKeys = 0;
 
-    for (const valueMap of index.data.values()) {
+    for (const docIds of this.leaves(index.data)) {
       uniqueKeys++;
-      totalEntries += valueMap.size;
+      totalEntries += docIds.size;
     }
 
     return {
@@ -130,7 +254,7 @@ export class AdvancedIndexingEngine {
   dropIndex(indexName: string): void {
     const index = this.indexes.get(indexName);
     if (!index) {
-      throw new Error(`Index '${indexName}' not found`);
+      throw new Error(ERROR_MESSAGES.INDEX_NOT_FOUND(indexName));
     }
 
     this.indexes.delete(indexName);
@@ -138,166 +262,156 @@ export class AdvancedIndexingEngine {
   }
 
   /**
-   * Clean up expired documents (TTL indexes)
+   * Documents expired under TTL indexes
+   * A document expires `expireAfterSeconds` after the date in its indexed field (a Date or epoch
+   * milliseconds); with an array of dates, after the earliest one. Other values never expire.
+   *
+   * @param now - Reference time in epoch milliseconds
+   * @returns IDs of expired documents, across all TTL indexes
    */
-  cleanupExpiredDocuments(): number {
-    let cleanedCount = 0;
-    const now = Date.now();
+  expiredDocumentIds(now: number = Date.now()): Set<string> {
+    const expired = new Set<string>();
 
     for (const index of this.indexes.values()) {
-      if (index.expiresAt && index.expiresAt <= now) {
-        // This is a TTL index - clean up expired documents
-        const expiredDocIds = new Set<string>();
-
-        for (const [key, docIds] of index.data) {
-          // Check if the key represents an expiration timestamp
-          if (typeof key === 'number' && key <= now) {
-            for (const docId of docIds) {
-              expiredDocIds.add(docId);
-            }
-          }
-        }
-
-        cleanedCount += expiredDocIds.size;
+      if (index.options.expireAfterSeconds === undefined) continue;
 
-        // Remove expired documents from this index
-        for (const docId of expiredDocIds) {
-          this.removeFromIndex(index, docId);
+      const cutoff = now - index.options.expireAfterSeconds * 1000;
+      for (const bound of [new Date(cutoff), cutoff]) {
+        for (const [, child] of index.data.range({ max: bound })) {
+          for (const docId of this.allIds(child)) {
+            expired.add(docId);
+          }
         }
       }
     }
 
-    if (cleanedCount > 0) {
-      logger.info('TTL cleanup completed', { cleanedDocuments: cleanedCount });
-    }
-
-    return cleanedCount;
+    return expired;
   }
 
   private shouldIndexDocument(document: Document, index: AdvancedIndex): boolean {
     if (index.sparse) {
       // For sparse indexes, only index documents that have at least one of the indexed fields
-      return index.fields.some(field => this.getNestedValue(document, field) !== undefined);
+      return index.fields.some(field => getValueByPath(document, field) !== undefined);
     }
     return true;
   }
 
+  private assertUnique(index: AdvancedIndex, docId: string, document: Document): void {
+    if (!index.unique) return;
+
+    for (const key of this.generateIndexKeys(index.fields, document)) {
+      const existing = this.findLeaf(index, key);
+      if (existing && (existing.size > 1 || (existing.size === 1 && !existing.has(docId)))) {
+        throw new DataIntegrityError(
+          ERROR_MESSAGES.INDEX_UNIQUE_VIOLATION(index.name, JSON.stringify(key)),
+          index.collection,
+          docId
+        );
+      }
+    }
+  }
+
   private insertIntoIndex(index: AdvancedIndex, docId: string, document: Document): void {
-    const key = this.generateIndexKey(index.fields, document);
+    if (!index.multikey && index.fields.some(field => isMultikeyPath(document, field))) {
+      index.multikey = true;
+    }
+    for (const key of this.generateIndexKeys(index.fields, document)) {
+      this.insertKey(index, docId, key);
+    }
+  }
 
-    if (!index.data.has(key)) {
-      index.data.set(key, new Set());
+  private removeFromIndex(index: AdvancedIndex, docId: string, document: Document): void {
+    for (const key of this.generateIndexKeys(index.fields, document)) {
+      this.removeKey(index, docId, key);
     }
+  }
 
-    const docIds = index.data.get(key)!;
+  private insertKey(index: AdvancedIndex, docId: string, key: any[]): void {
+    let node: SortedIndex<any> = index.data;
 
-    // Check unique constraint
-    if (index.unique && docIds.size > 0) {
-      throw new Error(`Unique index violation: ${index.name} on key ${key}`);
+    for (let i = 0; i < key.length - 1; i++) {
+      let child = node.get(key[i]);
+      if (!child) {
+        child = new SortedIndex();
+        node.set(key[i], child);
+      }
+      node = child;
     }
 
+    let docIds: Set<string> | undefined = node.get(key[key.length - 1]);
+    if (!docIds) {
+      docIds = new Set();
+      node.set(key[key.length - 1], docIds);
+    }
     docIds.add(docId);
   }
 
-  private removeFromIndex(index: AdvancedIndex, docId: string): void {
-    for (const docIds of index.data.values()) {
-      docIds.delete(docId);
+  private removeKey(index: AdvancedIndex, docId: string, key: any[]): void {
+    const path: Array<SortedIndex<any>> = [index.data];
+
+    for (let i = 0; i < key.length - 1; i++) {
+      const child = path[i].get(key[i]);
+      if (!child) return;
+      path.push(child);
     }
 
-    // Clean up empty entries
-    for (const [key, docIds] of index.data) {
-      if (docIds.size === 0) {
-        index.data.delete(key);
+    const docIds: Set<string> | undefined = path[path.length - 1].get(key[key.length - 1]);
+    if (!docIds || !docIds.delete(docId)) return;
+
+    // Clean up empty entries bottom-up
+    if (docIds.size === 0) {
+      for (let i = path.length - 1; i >= 0; i--) {
+        path[i].delete(key[i]);
+        if (path[i].size > 0 || i === 0) break;
       }
     }
   }
 
-  private generateIndexKey(fields: string[], document: Document): string {
-    const values = fields.map(field => {
-      const value = this.getNestedValue(document, field);
-      return value === undefined ? null : value;
-    });
-
-    return JSON.stringify(values);
+  private findLeaf(index: AdvancedIndex, key: any[]): Set<string> | undefined {
+    let node: any = index.data;
+    for (const value of key) {
+      node = node.get(value);
+      if (!node) return undefined;
+    }
+    return node;
   }
 
-  private querySingleFieldIndex(index: AdvancedIndex, query: any, results: Set<string>): void {
-    const field = index.fields[0];
-
-    for (const [operator, value] of Object.entries(query)) {
-      switch (operator) {
-        case '$eq':
-        case field: // Direct field match
-          const searchValue = operator === field ? value : value;
-          const docIds = index.data.get(JSON.stringify([searchValue]));
-          if (docIds) {
-            docIds.forEach(id => results.add(id));
-          }
-          break;
-
-        case '$in':
-          if (Array.isArray(value)) {
-            value.forEach(val => {
-              const docIds = index.data.get(JSON.stringify([val]));
-              if (docIds) {
-                docIds.forEach(id => results.add(id));
-              }
-            });
-          }
-          break;
-
-        case '$gt':
-        case '$gte':
-        case '$lt':
-        case '$lte':
-          // Range queries - need to scan all keys (inefficient for large indexes)
-          this.performRangeQuery(index, field, operator, value as any, results);
-          break;
-      }
+  private *allIds(node: SortedIndex<any> | Set<string>): Generator<string> {
+    for (const docIds of this.leaves(node)) {
+      yield* docIds;
     }
   }
 
-  private queryCompoundIndex(index: AdvancedIndex, query: any, results: Set<string>): void {
-    // For compound indexes, we need exact matches on all fields for now
-    // More sophisticated compound index queries would require index intersection/union
-    const queryFields = Object.keys(query);
-
-    if (queryFields.length === index.fields.length &&
-        queryFields.every(field => index.fields.includes(field))) {
-
-      const key = this.generateIndexKey(index.fields, query);
-      const docIds = index.data.get(key);
-      if (docIds) {
-        docIds.forEach(id => results.add(id));
-      }
+  private *leaves(node: SortedIndex<any> | Set<string>): Generator<Set<string>> {
+    if (node instanceof Set) {
+      yield node;
+      return;
+    }
+    for (const child of node.values()) {
+      yield* this.leaves(child);
     }
   }
 
-  private performRangeQuery(index: AdvancedIndex, field: string, operator: string, value: any, results: Set<string>): void {
-    // This is a simplified range query - in production, you'd want a more efficient data structure
-    for (const [keyStr, docIds] of index.data) {
-      const keyValues = JSON.parse(keyStr);
-      const fieldValue = keyValues[index.fields.indexOf(field)];
-
-      if (fieldValue !== undefined && fieldValue !== null) {
-        let matches = false;
-
-        switch (operator) {
-          case '$gt': matches = fieldValue > value; break;
-          case '$gte': matches = fieldValue >= value; break;
-          case '$lt': matches = fieldValue < value; break;
-          case '$lte': matches = fieldValue <= value; break;
-        }
-
-        if (matches) {
-          docIds.forEach(id => results.add(id));
-        }
-      }
+  /**
+   * Keys of a document: one part per field, one key per combination of array elements
+   * Missing values (and empty arrays) are indexed as null
+   */
+  private generateIndexKeys(fields: string[], document: Document): any[][] {
+    let keys: any[][] = [[]];
+    for (const field of fields) {
+      const values = indexKeys(document, field);
+      const parts = values.length > 0 ? values.map(value => this.normalizeKey(value)) : [null];
+      keys = keys.flatMap(prefix => parts.map(part => [...prefix, part]));
     }
+    return keys;
+  }
+
+  private normalizeKey(value: any): any {
+    return value === undefined ? null : value;
   }
 
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  private isPlainValue(value: any): boolean {
+    return value === null || (value !== undefined && typeof value !== 'object');
   }
 }
 
@@ -305,10 +419,11 @@ interface AdvancedIndex {
   name: string;
   collection: string;
   fields: string[];
+  directions: Array<1 | -1>;
   options: IndexOptions;
-  data: Map<string, Set<string>>; // key -> Set<docId>
+  data: SortedIndex<any>; // first field value -> ... -> last field value -> Set<docId>
   unique: boolean;
   sparse: boolean;
   text: boolean;
-  expiresAt?: number;
+  multikey: boolean; // Some document was indexed under the elements of an array
 }
@@ -1,200 +1,274 @@
 import { Document } from './types';
 import { logger } from './logger';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { ExpressionEngine } from './expression-engine';
+import { GeospatialEngine } from './geospatial-engine';
+import { getValuesByPath, deepEqual, compareValues, sameTypeBracket } from './utils';
 
 /**
  * Advanced Query Operators Engine
  * Implements MongoDB-style query operators
+ *
+ * This is the single query evaluator: Collection.find (through QueryEngine), aggregation
+ * `$match` and update conditions all match documents here.
+ *
+ * Array semantics follow MongoDB: a path runs through arrays (`items.sku` checks every item),
+ * and a condition on a field holding an array matches when the array itself or any element
+ * matches. `$size`, `$all`, `$elemMatch` and `$exists` look at the array as a whole.
  */
 export class AdvancedQueryEngine {
+  private static readonly BSON_TYPE_ALIASES: Record<number, string> = {
+    1: 'double', 2: 'string', 3: 'object', 4: 'array', 8: 'bool', 9: 'date',
+    10: 'null', 11: 'regex', 16: 'int', 18: 'long', 19: 'decimal'
+  };
+
   /**
    * Execute query with advanced operators
    */
   static executeAdvancedQuery(documents: Document[], query: any): Document[] {
-    return documents.filter(doc => this.matchesAdvancedQuery(doc, query));
+    return documents.filter(doc => this.matches(doc, query));
   }
 
-  private static matchesAdvancedQuery(doc: Document, query: any): boolean {
-    for (const [field, condition] of Object.entries(query)) {
-      if (!this.evaluateCondition(doc, field, condition)) {
+  /**
+   * Check a document against a query
+   * All top-level entries must match: field conditions and `$and`, `$or`, `$nor`,
+   * `$where`, `$text`, `$expr`, `$jsonSchema` and `$comment`
+   *
+   * @param variables - Values of `$$name` references in `$expr` (e.g. `$lookup` `let` variables)
+   * @throws ValidationError for unknown operators or malformed operands
+   */
+  static matches(doc: Document, query: any, variables: Record<string, any> = {}): boolean {
+    for (const [key, condition] of Object.entries(query)) {
+      if (!this.matchesEntry(doc, key, condition, variables)) {
         return false;
       }
     }
     return true;
   }
 
-  private static evaluateCondition(doc: Document, field: string, condition: any): boolean {
-    const value = this.getNestedValue(doc, field);
+  private static matchesEntry(doc: Document, key: string, condition: any, variables: Record<string, any>): boolean {
+    switch (key) {
+      case '$and':
+        return this.subQueries(key, condition).every(subQuery => this.matches(doc, subQuery, variables));
+      case '$or':
+        return this.subQueries(key, condition).some(subQuery => this.matches(doc, subQuery, variables));
+      case '$nor':
+        return !this.subQueries(key, condition).some(subQuery => this.matches(doc, subQuery, variables));
+      case '$where':
+        return this.evaluateWhere(doc, condition);
+      case '$text':
+        return this.matchesText(doc, condition);
+      case '$expr':
+        return ExpressionEngine.isTrue(ExpressionEngine.evaluate(doc, condition, variables));
+      case '$jsonSchema':
+        return this.matchesJsonSchema(doc, condition);
+      case '$comment':
+        return true;
+      default:
+        if (key.startsWith('$')) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_UNKNOWN_OPERATOR(key), 'operator', key);
+        }
+        return this.matchesCondition(this.resolve(doc, key), condition);
+    }
+  }
 
-    if (typeof condition === 'object' && condition !== null) {
-      // Handle operator conditions
+  /**
+   * Candidate values of a path; a missing path is a single undefined candidate
+   */
+  private static resolve(doc: any, path: string): any[] {
+    const values = getValuesByPath(doc, path);
+    return values.length > 0 ? values : [undefined];
+  }
+
+  /**
+   * Match the candidate values of a field against a condition:
+   * a regular expression, an operator object such as `{ $gt: 1 }`, or a value to equal
+   */
+  private static matchesCondition(values: any[], condition: any): boolean {
+    if (condition instanceof RegExp) {
+      return this.anyValue(values, value => this.testRegex(condition, value));
+    }
+
+    if (this.isOperatorObject(condition)) {
       for (const [operator, operand] of Object.entries(condition)) {
-        if (!this.evaluateOperator(doc, value, operator, operand)) {
+        if (!this.evaluateOperator(values, operator, operand, condition)) {
           return false;
         }
       }
-    } else {
-      // Direct equality match
-      return this.deepEqual(value, condition);
+      return true;
     }
 
-    return true;
+    return this.anyValue(values, value => deepEqual(value, condition));
   }
 
-  private static evaluateOperator(doc: Document, value: any, operator: string, operand: any): boolean {
+  private static evaluateOperator(values: any[], operator: string, operand: any, condition: any): boolean {
     switch (operator) {
       case '$eq':
-        return this.deepEqual(value, operand);
+        return this.anyValue(values, value => deepEqual(value, operand));
 
       case '$ne':
-        return !this.deepEqual(value, operand);
+        return !this.anyValue(values, value => deepEqual(value, operand));
 
       case '$gt':
-        return value > operand;
+        return this.anyValue(values, value => this.compare(value, operand, order => order > 0));
 
       case '$gte':
-        return value >= operand;
+        return this.anyValue(values, value => this.compare(value, operand, order => order >= 0));
 
       case '$lt':
-        return value < operand;
+        return this.anyValue(values, value => this.compare(value, operand, order => order < 0));
 
       case '$lte':
-        return value <= operand;
+        return this.anyValue(values, value => this.compare(value, operand, order => order <= 0));
 
       case '$in':
-        if (!Array.isArray(operand)) return false;
-        return operand.some(item => this.deepEqual(value, item));
+        return this.anyValue(values, value => this.inList(operator, operand, value));
 
       case '$nin':
-        if (!Array.isArray(operand)) return false;
-        return !operand.some(item => this.deepEqual(value, item));
+        return !this.anyValue(values, value => this.inList(operator, operand, value));
 
       case '$exists':
-        return (value !== undefined) === operand;
+        return values.some(value => value !== undefined) === Boolean(operand);
 
-      case '$type':
-        return this.checkType(value, operand);
+      case '$type': {
+        const types = Array.isArray(operand) ? operand : [operand];
+        return this.anyValue(values, value => types.some(type => this.matchesType(value, type)));
+      }
+
+      case '$regex': {
+        const regex = this.buildRegex(operand, condition.$options);
+        return this.anyValue(values, value => this.testRegex(regex, value));
+      }
 
-      case '$regex':
-        if (!(operand instanceof RegExp)) return false;
-        return operand.test(String(value));
+      case '$options':
+        // Applied together with $regex
+        if (condition.$regex === undefined) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+        }
+        return true;
 
       case '$size':
-        if (!Array.isArray(value)) return false;
-        return value.length === operand;
+        if (!Number.isInteger(operand) || operand < 0) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+        }
+        return values.some(value => Array.isArray(value) && value.length === operand);
 
       case '$all':
-        if (!Array.isArray(value) || !Array.isArray(operand)) return false;
-        return operand.every(item => value.some(v => this.deepEqual(v, item)));
+        if (!Array.isArray(operand)) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+        }
+        return operand.length > 0 && values.some(value => operand.every(item =>
+          this.isOperatorObject(item) && '$elemMatch' in item
+            ? this.evaluateOperator([value], '$elemMatch', item.$elemMatch, item)
+            : deepEqual(value, item) || (Array.isArray(value) && value.some(element => deepEqual(element, item)))
+        ));
 
       case '$elemMatch':
-        if (!Array.isArray(value)) return false;
-        return value.some(item => this.matchesAdvancedQuery(item, operand));
-
-      case '$and':
-        if (!Array.isArray(operand)) return false;
-        return operand.every(cond => this.matchesAdvancedQuery(value, cond));
-
-      case '$or':
-        if (!Array.isArray(operand)) return false;
-        return operand.some(cond => this.matchesAdvancedQuery(value, cond));
+        if (typeof operand !== 'object' || operand === null || Array.isArray(operand)) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+        }
+        return values.some(value => Array.isArray(value) && value.some(element => this.matchesElement(element, operand)));
 
       case '$not':
-        return !this.matchesAdvancedQuery(value, operand);
-
-      case '$nor':
-        if (!Array.isArray(operand)) return false;
-        return !operand.some(cond => this.matchesAdvancedQuery(value, cond));
-
-      case '$mod':
-        if (!Array.isArray(operand) || operand.length !== 2) return false;
-        const [divisor, remainder] = operand;
-        return Number(value) % divisor === remainder;
-
-      case '$where':
-        if (typeof operand === 'string') {
-          try {
-            // Create a function from the string with 'this' bound to the document
-            const func = new Function('return ' + operand);
-            return func.call(doc);
-          } catch (error) {
-            logger.warn('$where evaluation failed', { error: (error as Error).message });
-            return false;
-          }
-        } else if (typeof operand === 'function') {
-          try {
-            return operand.call(doc);
-          } catch (error) {
-            logger.warn('$where function failed', { error: (error as Error).message });
-            return false;
-          }
+        if (!(operand instanceof RegExp) && !this.isOperatorObject(operand)) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
         }
-        return false;
+        return !this.matchesCondition(values, operand);
 
-      case '$text':
-        // Simplified text search - in production would integrate with full-text search
-        if (typeof operand === 'object' && operand.$search) {
-          const searchTerm = operand.$search.toLowerCase();
-          const fieldValue = String(value).toLowerCase();
-          return fieldValue.includes(searchTerm);
+      case '$mod': {
+        if (!Array.isArray(operand) || operand.length !== 2 || !operand.every(Number.isFinite) || Math.trunc(operand[0]) === 0) {
+          throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
         }
-        return false;
+        const divisor = Math.trunc(operand[0]);
+        const remainder = Math.trunc(operand[1]);
+        return this.anyValue(values, value =>
+          typeof value === 'number' && Number.isFinite(value) && Math.trunc(value) % divisor === remainder
+        );
+      }
 
       case '$bitsAllSet':
-        if (typeof value !== 'number' || !Array.isArray(operand)) return false;
-        return operand.every(bit => (value & (1 << bit)) !== 0);
-
       case '$bitsAllClear':
-        if (typeof value !== 'number' || !Array.isArray(operand)) return false;
-        return operand.every(bit => (value & (1 << bit)) === 0);
-
       case '$bitsAnySet':
-        if (typeof value !== 'number' || !Array.isArray(operand)) return false;
-        return operand.some(bit => (value & (1 << bit)) !== 0);
+      case '$bitsAnyClear': {
+        const positions = this.bitPositions(operator, operand);
+        const wantSet = operator === '$bitsAllSet' || operator === '$bitsAnySet';
+        const all = operator === '$bitsAllSet' || operator === '$bitsAllClear';
+        return this.anyValue(values, value => {
+          if (typeof value !== 'number' || !Number.isInteger(value)) return false;
+          const check = (position: number) => this.bitAt(value, position) === wantSet;
+          return all ? positions.every(check) : positions.some(check);
+        });
+      }
 
-      case '$bitsAnyClear':
-        if (typeof value !== 'number' || !Array.isArray(operand)) return false;
-        return operand.some(bit => (value & (1 << bit)) === 0);
+      case '$near':
+      case '$nearSphere':
+      case '$geoWithin':
+      case '$geoIntersects':
+        // Filters only; Collection.find orders $near results by distance
+        return this.anyValue(values, value => GeospatialEngine.matches(value, operator, operand));
 
-      case '$jsonSchema':
-        // Simplified JSON Schema validation - in production would use a full validator
-        if (typeof operand === 'object' && operand.properties) {
-          for (const [prop, schema] of Object.entries(operand.properties)) {
-            const propValue = (doc as any)[prop];
-            const schemaObj = schema as any;
-            if (schemaObj.required && (propValue === undefined || propValue === null)) {
-              return false;
-            }
-            if (schemaObj.type && typeof propValue !== schemaObj.type) {
-              return false;
-            }
-          }
-          return true;
-        }
-        return false;
+      default:
+        throw new ValidationError(ERROR_MESSAGES.QUERY_UNKNOWN_OPERATOR(operator), 'operator', operator);
+    }
+  }
 
-      case '$expr':
-        // Expression evaluation - simplified version
-        try {
-          return this.evaluateExpression(doc, operand);
-        } catch (error) {
-          logger.warn('$expr evaluation failed', { error: (error as Error).message });
-          return false;
-        }
+  /**
+   * Test a value, or any element of an array value
+   */
+  private static anyValue(values: any[], predicate: (value: any) => boolean): boolean {
+    return values.some(value => predicate(value) || (Array.isArray(value) && value.some(predicate)));
+  }
 
-      default:
-        logger.warn('Unknown query operator', { operator });
-        return false;
+  /**
+   * Range comparison within the operand's type bracket (numbers never match strings)
+   */
+  private static compare(value: any, operand: any, accept: (order: number) => boolean): boolean {
+    if (value === undefined || !sameTypeBracket(value, operand)) return false;
+    return accept(compareValues(value, operand));
+  }
+
+  private static inList(operator: string, operand: any, value: any): boolean {
+    if (!Array.isArray(operand)) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
     }
+    return operand.some(item => (item instanceof RegExp ? this.testRegex(item, value) : deepEqual(value, item)));
   }
 
-  private static checkType(value: any, expectedType: string | string[]): boolean {
-    const actualType = this.getValueType(value);
+  /**
+   * `$elemMatch` element test: operator conditions apply to the element itself,
+   * field conditions treat the element as a document
+   */
+  private static matchesElement(element: any, condition: any): boolean {
+    const keys = Object.keys(condition);
+    const logical = ['$and', '$or', '$nor', '$where', '$expr'];
+    if (keys.length > 0 && keys.every(key => key.startsWith('$') && !logical.includes(key))) {
+      return this.matchesCondition([element], condition);
+    }
+    return typeof element === 'object' && element !== null && !Array.isArray(element) && this.matches(element, condition);
+  }
 
-    if (Array.isArray(expectedType)) {
-      return expectedType.includes(actualType);
+  private static isOperatorObject(value: any): boolean {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) ||
+        value instanceof Date || value instanceof RegExp) {
+      return false;
     }
+    return Object.keys(value).some(key => key.startsWith('$'));
+  }
 
-    return actualType === expectedType;
+  private static subQueries(operator: string, operand: any): any[] {
+    if (!Array.isArray(operand) || operand.length === 0) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+    }
+    return operand;
+  }
+
+  private static matchesType(value: any, type: string | number): boolean {
+    if (value === undefined) return false;
+    const alias = typeof type === 'number' ? this.BSON_TYPE_ALIASES[type] : type;
+    if (alias === 'number') return typeof value === 'number';
+    const actual = this.getValueType(value);
+    return actual === alias || (alias === 'long' && actual === 'int');
   }
 
   private static getValueType(value: any): string {
@@ -218,84 +292,135 @@ export class AdvancedQueryEngine {
     }
   }
 
-  private static deepEqual(a: any, b: any): boolean {
-    if (a === b) return true;
+  /**
+   * Build a RegExp from `$regex` (string or RegExp) and `$options`
+   * Supports the i, m, s and x (extended: whitespace and # comments ignored) options
+   */
+  private static buildRegex(pattern: any, options?: any): RegExp {
+    if (options !== undefined && (typeof options !== 'string' || !/^[imsx]*$/.test(options))) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_REGEX_OPTIONS(String(options)), '$options', options);
+    }
+    if (pattern instanceof RegExp && options === undefined) {
+      return pattern;
+    }
 
-    if (a == null || b == null) return a === b;
+    let source = pattern instanceof RegExp ? pattern.source : pattern;
+    if (typeof source !== 'string') {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$regex'), '$regex', pattern);
+    }
 
-    if (Array.isArray(a) && Array.isArray(b)) {
-      if (a.length !== b.length) return false;
-      for (let i = 0; i < a.length; i++) {
-        if (!this.deepEqual(a[i], b[i])) return false;
+    const flags = new Set((pattern instanceof RegExp ? pattern.flags : '').split('').filter(Boolean));
+    for (const option of options ?? '') {
+      if (option === 'x') {
+        source = source.replace(/\\.|#[^\n]*|\s+/g, (match: string) => (match.startsWith('\\') ? match : ''));
+      } else {
+        flags.add(option);
       }
-      return true;
     }
 
-    if (typeof a === 'object' && typeof b === 'object') {
-      const keysA = Object.keys(a);
-      const keysB = Object.keys(b);
+    try {
+      return new RegExp(source, Array.from(flags).join(''));
+    } catch {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$regex'), '$regex', pattern);
+    }
+  }
 
-      if (keysA.length !== keysB.length) return false;
+  private static testRegex(regex: RegExp, value: any): boolean {
+    if (typeof value !== 'string') return false;
+    // Global and sticky expressions keep state between test() calls
+    regex.lastIndex = 0;
+    return regex.test(value);
+  }
 
-      for (const key of keysA) {
-        if (!(key in b)) return false;
-        if (!this.deepEqual(a[key], b[key])) return false;
+  /**
+   * Bit positions from a list of positions or a numeric bitmask
+   */
+  private static bitPositions(operator: string, operand: any): number[] {
+    if (Array.isArray(operand) && operand.every(position => Number.isInteger(position) && position >= 0)) {
+      return operand;
+    }
+    if (Number.isInteger(operand) && operand >= 0) {
+      const positions: number[] = [];
+      for (let position = 0, mask = operand; mask > 0; position++, mask = Math.floor(mask / 2)) {
+        if (mask % 2 === 1) positions.push(position);
       }
-
-      return true;
+      return positions;
     }
+    throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+  }
 
-    return false;
+  /**
+   * Bit of an integer in 64-bit two's complement; bits past 63 repeat the sign
+   */
+  private static bitAt(value: number, position: number): boolean {
+    if (position > 63) return value < 0;
+    return ((BigInt.asUintN(64, BigInt(value)) >> BigInt(position)) & BigInt(1)) === BigInt(1);
   }
 
-  private static evaluateExpression(doc: Document, expression: any): any {
-    if (typeof expression === 'string' && expression.startsWith('$')) {
-      return this.getNestedValue(doc, expression.substring(1));
+  private static evaluateWhere(doc: Document, operand: any): boolean {
+    try {
+      if (typeof operand === 'string') {
+        // Create a function from the string with 'this' bound to the document
+        const func = new Function('return ' + operand);
+        return Boolean(func.call(doc));
+      }
+      if (typeof operand === 'function') {
+        return Boolean(operand.call(doc, doc));
+      }
+    } catch (error) {
+      logger.warn('$where evaluation failed', { error: (error as Error).message });
+      return false;
     }
+    throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$where'), '$where', operand);
+  }
 
-    if (typeof expression === 'object' && expression !== null) {
-      // Handle expression operators
-      if (expression.$eq) return this.evaluateExpression(doc, expression.$eq);
-      if (expression.$ne) return !this.deepEqual(this.evaluateExpression(doc, expression.$ne), true);
-      if (expression.$gt) return this.evaluateExpression(doc, expression.$gt[0]) > this.evaluateExpression(doc, expression.$gt[1]);
-      if (expression.$gte) return this.evaluateExpression(doc, expression.$gte[0]) >= this.evaluateExpression(doc, expression.$gte[1]);
-      if (expression.$lt) return this.evaluateExpression(doc, expression.$lt[0]) < this.evaluateExpression(doc, expression.$lt[1]);
-      if (expression.$lte) return this.evaluateExpression(doc, expression.$lte[0]) <= this.evaluateExpression(doc, expression.$lte[1]);
-      if (expression.$add) return expression.$add.reduce((sum: number, expr: any) => sum + this.evaluateExpression(doc, expr), 0);
-      if (expression.$subtract) return this.evaluateExpression(doc, expression.$subtract[0]) - this.evaluateExpression(doc, expression.$subtract[1]);
-      if (expression.$multiply) return expression.$multiply.reduce((product: number, expr: any) => product * this.evaluateExpression(doc, expr), 1);
-      if (expression.$divide) return this.evaluateExpression(doc, expression.$divide[0]) / this.evaluateExpression(doc, expression.$divide[1]);
-      if (expression.$mod) return this.evaluateExpression(doc, expression.$mod[0]) % this.evaluateExpression(doc, expression.$mod[1]);
-      if (expression.$cond) {
-        const [condition, trueExpr, falseExpr] = expression.$cond;
-        return this.evaluateExpression(doc, condition) ? this.evaluateExpression(doc, trueExpr) : this.evaluateExpression(doc, falseExpr);
-      }
+  /**
+   * `$text` without a text index: matches documents where any string field
+   * contains one of the search words
+   */
+  private static matchesText(doc: Document, operand: any): boolean {
+    if (typeof operand !== 'object' || operand === null || typeof operand.$search !== 'string') {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$text'), '$text', operand);
     }
 
-    return expression;
-  }
+    const normalize = (text: string) => (operand.$caseSensitive ? text : text.toLowerCase());
+    const terms = new Set(normalize(operand.$search).match(/[\p{L}\p{N}_]+/gu) ?? []);
+    if (terms.size === 0) return false;
 
-  private static getNestedValue(obj: any, path: string): any {
-    if (!path) return obj;
+    const strings: string[] = [];
+    this.collectStrings(doc, strings);
+    return strings.some(text => (normalize(text).match(/[\p{L}\p{N}_]+/gu) ?? []).some(word => terms.has(word)));
+  }
 
-    const parts = path.split('.');
-    let current = obj;
+  private static collectStrings(value: any, strings: string[]): void {
+    if (typeof value === 'string') {
+      strings.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(element => this.collectStrings(element, strings));
+    } else if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      Object.values(value).forEach(element => this.collectStrings(element, strings));
+    }
+  }
 
-    for (const part of parts) {
-      if (current == null) return undefined;
+  private static matchesJsonSchema(doc: Document, schema: any): boolean {
+    // Simplified JSON Schema validation - in production would use a full validator
+    if (typeof schema !== 'object' || schema === null || !schema.properties) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$jsonSchema'), '$jsonSchema', schema);
+    }
 
-      // Handle array indexing
-      if (Array.isArray(current) && /^\d+$/.test(part)) {
-        const index = parseInt(part, 10);
-        current = current[index];
-      } else if (typeof current === 'object') {
-        current = current[part];
-      } else {
-        return undefined;
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    for (const [prop, propertySchema] of Object.entries(schema.properties)) {
+      const propValue = (doc as any)[prop];
+      const schemaObj = propertySchema as any;
+      if ((schemaObj.required || required.includes(prop)) && (propValue === undefined || propValue === null)) {
+        return false;
+      }
+      if (propValue !== undefined && schemaObj.type && typeof propValue !== schemaObj.type &&
+          !(schemaObj.type === 'array' && Array.isArray(propValue))) {
+        return false;
       }
     }
-
-    return current;
+    return true;
   }
 }
 
@@ -1,35 +1,119 @@
-import { Document, AggregationPipeline, AggregationStage, AggregationResult, GroupStage, LookupStage } from './types';
+import {
+  Document, Query, AggregationPipeline, AggregationStage, AggregationResult, AggregationStats,
+  GroupStage, LookupStage, GraphLookupStage, BucketStage, BucketAutoStage, SetWindowFieldsStage, WindowFrame, WindowBound, MergeStage,
+  AggregateOptions, GeoNearStage
+} from './types';
 import { logger } from './logger';
+import { ValidationError, DataIntegrityError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { AdvancedQueryEngine } from './advanced-queries';
+import { ExpressionEngine } from './expression-engine';
+import { AggregationMemory } from './aggregation-memory';
+import { GeospatialEngine } from './geospatial-engine';
+import { getValueByPath, getValuesByPath, compareValues, sameTypeBracket, compareBySort } from './utils';
+
+/**
+ * Collection that `$lookup` can join against
+ */
+export interface LookupSource {
+  find(query?: Query): Document[];
+}
+
+/**
+ * Collection that `$out` and `$merge` write to
+ */
+export interface OutputTarget extends LookupSource {
+  replaceAllDocuments(documents: Document[]): Document[];
+  mergeDocuments(replacements: Array<{ previous: Document; document: Document }>, inserts: Document[]): { inserted: number; updated: number };
+}
+
+/**
+ * Surroundings of a pipeline run
+ */
+export interface AggregationContext extends AggregateOptions {
+  resolveCollection?: (name: string) => LookupSource | undefined; // Collections for $lookup; unknown ones join nothing
+  resolveOutputCollection?: (name: string) => OutputTarget | undefined; // Targets of $out and $merge, created if missing
+  variables?: Record<string, any>; // Values of $$name references (the `let` of an enclosing $lookup)
+}
+
+/**
+ * Where the stages being run sit in the pipeline, for sub-pipeline statistics
+ */
+interface PipelineScope {
+  path: string; // Key prefix of sub-pipelines started here
+  subPipelines: Record<string, AggregationStats>;
+  memory: AggregationMemory; // Budget and spill files of the whole run
+}
+
+/**
+ * Running value of one accumulator (`{ field: { $sum: '$amount' } }`)
+ */
+interface Accumulator {
+  field: string;
+  operator: string;
+  expression: any;
+  state: any;
+  seen: number; // Documents accumulated so far
+}
+
+/**
+ * Group of a `$group` as written to a spill run, runs being ordered by `groupKey`
+ */
+interface SpilledGroup {
+  groupKey: string;
+  key: any;
+  states: Array<{ state: any; seen: number }>; // Per accumulator; `$addToSet` as [key, value] entries
+}
 
 /**
  * Aggregation Engine for Monarch Database
  * Implements MongoDB-style aggregation pipelines
  */
 export class AggregationEngine {
+  // Milliseconds per unit of window ranges and $derivative
+  private static readonly WINDOW_UNITS: Record<string, number> = {
+    week: 7 * 24 * 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    hour: 60 * 60 * 1000,
+    minute: 60 * 1000,
+    second: 1000,
+    millisecond: 1
+  };
+
+  // Estimated bytes held by a `$group` entry and by each of its accumulators, besides `$push`/`$addToSet` values
+  private static readonly GROUP_ENTRY_SIZE = 64;
+
   /**
    * Execute an aggregation pipeline on a collection of documents
+   *
+   * Documents stream through the stages one at a time; only blocking stages ($sort, $group and
+   * the like) hold them, each within `maxMemoryBytes`. Over that budget `$sort` and `$group`
+   * spill to temporary files when `allowDiskUse` is set, other stages fail.
+   *
+   * @param documents - Input, read once and not copied
+   * @param context - Collections reachable from `$lookup`, pipeline variables and memory options
+   * @throws ResourceLimitError if a stage goes over the memory budget and cannot spill
    */
   static async execute(
-    documents: Document[],
-    pipeline: AggregationPipeline
+    documents: Iterable<Document>,
+    pipeline: AggregationPipeline,
+    context: AggregationContext = {}
   ): Promise<AggregationResult> {
     const startTime = performance.now();
-    let result = [...documents];
-    let stagesExecuted = 0;
-    let documentsProcessed = documents.length;
+    const memory = new AggregationMemory(context);
+    const scope: PipelineScope = { path: '', subPipelines: {}, memory };
+    const counts: number[] = [];
 
     try {
-      for (const stage of pipeline.stages) {
-        result = this.executeStage(result, stage);
-        stagesExecuted++;
-        documentsProcessed = Math.max(documentsProcessed, result.length);
-      }
+      this.checkStagePositions(pipeline.stages, true);
+      const result = Array.from(this.runStages(documents, pipeline.stages, context, scope, counts));
+      const stagesExecuted = pipeline.stages.length;
 
       const executionTime = performance.now() - startTime;
 
       logger.info('Aggregation pipeline executed', {
         stagesExecuted,
-        inputDocuments: documents.length,
+        inputDocuments: counts[0],
         outputDocuments: result.length,
         executionTime: `${executionTime.toFixed(2)}ms`
       });
@@ -38,24 +122,85 @@ export class AggregationEngine {
         documents: result,
         executionTime,
         stagesExecuted,
-        documentsProcessed
+        documentsProcessed: Math.max(...counts),
+        memory: memory.getStats(),
+        ...(Object.keys(scope.subPipelines).length > 0 ? { subPipelines: scope.subPipelines } : {})
       };
     } catch (error) {
-      const executionTime = performance.now() - startTime;
-      logger.error('Aggregation pipeline failed', { error: (error as Error).message, stagesExecuted });
+      logger.error('Aggregation pipeline failed', { error: (error as Error).message, stages: pipeline.stages.length });
       throw error;
+    } finally {
+      memory.remove();
     }
   }
 
-  private static executeStage(documents: Document[], stage: AggregationStage): Document[] {
+  /**
+   * Run the stages of a `$facet` or `$lookup` and add their statistics under `scope.path + name`
+   */
+  private static runSubPipeline(
+    documents: Document[],
+    stages: AggregationStage[],
+    context: AggregationContext,
+    scope: PipelineScope,
+    name: string
+  ): Document[] {
+    const key = scope.path + name;
+    const startTime = performance.now();
+    const childScope: PipelineScope = { ...scope, path: `${key}.` };
+    const counts: number[] = [];
+
+    this.checkStagePositions(stages, false);
+    const result = Array.from(this.runStages(documents, stages, context, childScope, counts));
+
+    const stats = scope.subPipelines[key] ?? { executionTime: 0, stagesExecuted: 0, documentsProcessed: 0 };
+    stats.executionTime += performance.now() - startTime;
+    stats.stagesExecuted += stages.length;
+    stats.documentsProcessed += Math.max(...counts);
+    scope.subPipelines[key] = stats;
+    return result;
+  }
+
+  /**
+   * Chain the stages over the input, counting the documents coming out of each in `counts`
+   * (the input first); nothing runs until the result is read
+   */
+  private static runStages(
+    documents: Iterable<Document>,
+    stages: AggregationStage[],
+    context: AggregationContext,
+    scope: PipelineScope,
+    counts: number[]
+  ): Iterable<Document> {
+    counts.push(...new Array(stages.length + 1).fill(0));
+    const counted = function* (source: Iterable<Document>, index: number): Generator<Document> {
+      for (const doc of source) {
+        counts[index]++;
+        yield doc;
+      }
+    };
+
+    let result = counted(documents, 0);
+    stages.forEach((stage, i) => {
+      result = counted(this.executeStage(result, stage, context, scope), i + 1);
+    });
+    return result;
+  }
+
+  private static executeStage(
+    documents: Iterable<Document>,
+    stage: AggregationStage,
+    context: AggregationContext,
+    scope: PipelineScope
+  ): Iterable<Document> {
+    const { memory } = scope;
     if ('$match' in stage) {
-      return this.executeMatchStage(documents, stage.$match);
+      return this.executeMatchStage(documents, stage.$match, context.variables);
     }
     if ('$group' in stage) {
-      return this.executeGroupStage(documents, stage.$group);
+      return this.executeGroupStage(documents, stage.$group, context.variables, memory);
     }
     if ('$sort' in stage) {
-      return this.executeSortStage(documents, stage.$sort);
+      return this.executeSortStage(documents, stage.$sort, memory);
     }
     if ('$limit' in stage) {
       return this.executeLimitStage(documents, stage.$limit);
@@ -64,85 +209,475 @@ export class AggregationEngine {
       return this.executeSkipStage(documents, stage.$skip);
     }
     if ('$project' in stage) {
-      return this.executeProjectStage(documents, stage.$project);
+      return this.executeProjectStage(documents, stage.$project, context.variables);
     }
     if ('$unwind' in stage) {
       return this.executeUnwindStage(documents, stage.$unwind);
     }
     if ('$addFields' in stage) {
-      return this.executeAddFieldsStage(documents, stage.$addFields);
+      return this.executeAddFieldsStage(documents, stage.$addFields, context.variables);
     }
     if ('$replaceRoot' in stage) {
-      return this.executeReplaceRootStage(documents, stage.$replaceRoot);
+      return this.executeReplaceRootStage(documents, stage.$replaceRoot, context.variables);
+    }
+    if ('$lookup' in stage) {
+      return this.executeLookupStage(documents, stage.$lookup, context, scope);
+    }
+    if ('$sortByCount' in stage) {
+      return this.executeSortByCountStage(documents, stage.$sortByCount, memory);
     }
+    if ('$count' in stage) {
+      return this.executeCountStage(documents, stage.$count);
+    }
+
+    // The remaining stages need all their input at once and cannot spill it
+    const name = Object.keys(stage)[0];
+    const held = () => this.collect(documents, name, memory);
+    if ('$geoNear' in stage) {
+      return this.executeGeoNearStage(held(), stage.$geoNear);
+    }
+    if ('$graphLookup' in stage) {
+      return this.executeGraphLookupStage(held(), stage.$graphLookup, context);
+    }
+    if ('$facet' in stage) {
+      return this.executeFacetStage(held(), stage.$facet, context, scope);
+    }
+    if ('$bucket' in stage) {
+      return this.executeBucketStage(held(), stage.$bucket);
+    }
+    if ('$bucketAuto' in stage) {
+      return this.executeBucketAutoStage(held(), stage.$bucketAuto);
+    }
+    if ('$sample' in stage) {
+      return this.executeSampleStage(held(), stage.$sample);
+    }
+    if ('$setWindowFields' in stage) {
+      return this.executeSetWindowFieldsStage(held(), stage.$setWindowFields);
+    }
+    if ('$out' in stage) {
+      return this.executeOutStage(held(), stage.$out, context);
+    }
+    if ('$merge' in stage) {
+      return this.executeMergeStage(held(), stage.$merge, context, scope);
+    }
+
+    throw new Error(`Unsupported aggregation stage: ${name}`);
+  }
 
-    throw new Error(`Unsupported aggregation stage: ${Object.keys(stage)[0]}`);
+  /**
+   * All documents of a stream, within the memory budget of a stage that cannot spill
+   *
+   * @throws ResourceLimitError if they go over the budget
+   */
+  private static collect(documents: Iterable<Document>, stage: string, memory: AggregationMemory): Document[] {
+    const held: Document[] = [];
+    let bytes = 0;
+    for (const doc of documents) {
+      held.push(doc);
+      bytes += AggregationMemory.sizeOf(doc);
+      memory.track(stage, bytes);
+    }
+    return held;
   }
 
-  private static executeMatchStage(documents: Document[], query: any): Document[] {
-    // Simple filtering - in a real implementation, this would use the query engine
-    return documents.filter(doc => this.matchesQuery(doc, query));
+  /**
+   * Documents of a stream transformed one at a time
+   */
+  private static *mapDocuments(documents: Iterable<Document>, transform: (doc: Document) => Document): Generator<Document> {
+    for (const doc of documents) {
+      yield transform(doc);
+    }
   }
 
-  private static executeGroupStage(documents: Document[], group: GroupStage): Document[] {
-    const groups = new Map<string, any>();
+  /**
+   * `$out` and `$merge` may only end the outermost pipeline, `$geoNear` only start it
+   */
+  private static checkStagePositions(stages: AggregationStage[], outermost: boolean): void {
+    stages.forEach((stage, i) => {
+      const name = '$out' in stage ? '$out' : '$merge' in stage ? '$merge' : undefined;
+      if (name && (!outermost || i !== stages.length - 1)) {
+        throw new ValidationError(ERROR_MESSAGES.AGGREGATION_OUTPUT_NOT_LAST(name), name, stage);
+      }
+      if ('$geoNear' in stage && (!outermost || i !== 0)) {
+        throw new ValidationError(ERROR_MESSAGES.AGGREGATION_GEO_NEAR_NOT_FIRST, '$geoNear', stage);
+      }
+    });
+  }
 
+  private static *executeMatchStage(documents: Iterable<Document>, query: any, variables: Record<string, any> = {}): Generator<Document> {
     for (const doc of documents) {
-      const groupKey = this.evaluateExpression(doc, group._id);
-      const key = JSON.stringify(groupKey);
-
-      if (!groups.has(key)) {
-        const groupDoc: any = { _id: groupKey };
-        // Initialize accumulators
-        for (const [field, accumulator] of Object.entries(group)) {
-          if (field !== '_id') {
-            groupDoc[field] = this.initializeAccumulator(accumulator);
-          }
+      if (AdvancedQueryEngine.matches(doc, query, variables)) yield doc;
+    }
+  }
+
+  /**
+   * Documents with a location in `key`, closest to `near` first, each with its distance in `distanceField`
+   * Every document is measured; Collection.aggregate answers a leading `$geoNear` from a
+   * 2dsphere index instead, where `key` can be left out.
+   */
+  private static executeGeoNearStage(documents: Document[], spec: GeoNearStage): Document[] {
+    const { origin, minDistance, maxDistance } = GeospatialEngine.geoNearOptions(spec);
+    if (spec.key === undefined) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$geoNear', 'key is required outside a collection'), '$geoNear', spec);
+    }
+
+    const query = spec.query ?? {};
+    const candidates = documents.filter(doc => AdvancedQueryEngine.matches(doc, query));
+    return GeospatialEngine.geoNearDocuments(GeospatialEngine.nearest(candidates, spec.key, origin, minDistance, maxDistance), spec);
+  }
+
+  /**
+   * Join each document with the matching documents of another collection, stored as an array in `as`
+   *
+   * Equality form: foreign documents whose `foreignField` equals `localField` (any element on
+   * either side for arrays; a missing local field matches null or missing foreign fields).
+   * Pipeline form: `let` expressions are evaluated against each document and the foreign
+   * documents run through `pipeline`, where `$expr` can read them as `$$name`. Both forms combine.
+   * The foreign collection is queried with find(), so its indexes serve the equality match and
+   * a leading `$match` of the pipeline that does not use variables.
+   */
+  private static executeLookupStage(
+    documents: Iterable<Document>,
+    lookup: LookupStage,
+    context: AggregationContext,
+    scope: PipelineScope
+  ): Iterable<Document> {
+    const equality = lookup.localField !== undefined || lookup.foreignField !== undefined;
+    if (typeof lookup.from !== 'string' || typeof lookup.as !== 'string' ||
+        (equality && (typeof lookup.localField !== 'string' || typeof lookup.foreignField !== 'string')) ||
+        (!equality && !Array.isArray(lookup.pipeline)) ||
+        (lookup.pipeline !== undefined && !Array.isArray(lookup.pipeline))) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_LOOKUP_INVALID, '$lookup', lookup);
+    }
+
+    const source = context.resolveCollection?.(lookup.from);
+    let stages = lookup.pipeline ?? [];
+    let pushedMatch: Query = {};
+    if (stages.length > 0 && '$match' in stages[0] && !this.usesExpr(stages[0].$match)) {
+      pushedMatch = stages[0].$match;
+      stages = stages.slice(1);
+    }
+
+    const joinedByKey = new Map<string, Document[]>();
+    const foreignDocuments = (query: Query): Document[] => {
+      if (!source) return [];
+      const key = JSON.stringify(query);
+      if (!joinedByKey.has(key)) {
+        joinedByKey.set(key, source.find(query));
+      }
+      return joinedByKey.get(key)!;
+    };
+
+    return this.mapDocuments(documents, doc => {
+      const conditions: Query[] = Object.keys(pushedMatch).length > 0 ? [pushedMatch] : [];
+      if (equality) {
+        conditions.push(this.lookupEqualityQuery(getValuesByPath(doc, lookup.localField!), lookup.foreignField!));
+      }
+
+      let joined = foreignDocuments(conditions.length === 1 ? conditions[0] : conditions.length > 1 ? { $and: conditions } : {});
+      if (stages.length > 0) {
+        const variables = { ...context.variables };
+        for (const [name, expression] of Object.entries(lookup.let ?? {})) {
+          variables[name] = this.evaluateExpression(doc, expression, context.variables);
         }
-        groups.set(key, groupDoc);
+        joined = this.runSubPipeline(joined, stages, { ...context, variables }, scope, `$lookup.${lookup.as}`);
       }
 
-      const groupDoc = groups.get(key)!;
+      const result = { ...doc };
+      this.setNestedValue(result, lookup.as, joined);
+      return result;
+    });
+  }
+
+  /**
+   * Foreign-side query for the local values of an equality `$lookup`
+   */
+  private static lookupEqualityQuery(localValues: any[], foreignField: string): Query {
+    const values: any[] = [];
+    for (const value of localValues) {
+      if (Array.isArray(value)) values.push(...value);
+      else values.push(value === undefined ? null : value);
+    }
+    if (values.length === 0) values.push(null);
+
+    const byValue: Query = { [foreignField]: { $in: values } };
+    return values.includes(null) ? { $or: [byValue, { [foreignField]: { $exists: false } }] } : byValue;
+  }
+
+  /**
+   * Recursively search another collection, storing every document reached in `as`
+   *
+   * Starting from the `startWith` values, each round finds the documents whose `connectToField`
+   * equals a value of the round and continues with their `connectFromField` values, breadth
+   * first, until nothing new is found or `maxDepth` is reached. Documents are returned once, in
+   * the order reached, with their depth in `depthField`. All input documents search together:
+   * each depth is one find() with `$in`, so an index on `connectToField` serves it.
+   */
+  private static executeGraphLookupStage(documents: Document[], graph: GraphLookupStage, context: AggregationContext): Document[] {
+    const invalid = (reason: string, value?: any) =>
+      new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$graphLookup', reason), '$graphLookup', value);
+    for (const field of ['from', 'connectFromField', 'connectToField', 'as'] as const) {
+      if (typeof graph?.[field] !== 'string' || graph[field].length === 0) {
+        throw invalid(`'${field}' must be a non-empty string`, graph?.[field]);
+      }
+    }
+    if (!('startWith' in graph)) {
+      throw invalid("'startWith' is required");
+    }
+    const { maxDepth, depthField, restrictSearchWithMatch: restrict } = graph;
+    if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+      throw invalid("'maxDepth' must be a non-negative integer", maxDepth);
+    }
+    if (depthField !== undefined && (typeof depthField !== 'string' || depthField.length === 0)) {
+      throw invalid("'depthField' must be a non-empty string", depthField);
+    }
+    if (restrict !== undefined && (typeof restrict !== 'object' || restrict === null || Array.isArray(restrict))) {
+      throw invalid("'restrictSearchWithMatch' must be a query object", restrict);
+    }
+
+    const source = context.resolveCollection?.(graph.from);
+    const valueKey = (value: any) => JSON.stringify(value);
+    // Documents whose connectToField holds a value, by value
+    const matchesByValue = new Map<string, Document[]>();
 
-      // Apply accumulators
-      for (const [field, accumulator] of Object.entries(group)) {
-        if (field !== '_id') {
-          this.applyAccumulator(groupDoc, field, accumulator, doc);
+    const fetch = (values: any[]): void => {
+      const unknown = values.filter(value => !matchesByValue.has(valueKey(value)));
+      unknown.forEach(value => matchesByValue.set(valueKey(value), []));
+      if (!source || unknown.length === 0) return;
+
+      const byValue: Query = { [graph.connectToField]: { $in: unknown } };
+      const query = restrict === undefined ? byValue
+        : graph.connectToField in restrict ? { $and: [restrict, byValue] } : { ...restrict, ...byValue };
+      for (const match of source.find(query)) {
+        const keys = this.connectValues(match, graph.connectToField);
+        for (const key of keys.length > 0 ? keys : [null]) {
+          matchesByValue.get(valueKey(key))?.push(match);
         }
       }
+    };
+
+    // All input documents advance one depth per round
+    const searches = documents.map(doc => {
+      const start = this.evaluateExpression(doc, graph.startWith, context.variables);
+      return {
+        frontier: start === undefined ? [] : Array.isArray(start) ? start : [start],
+        searched: new Set<string>(),
+        reached: new Set<any>(),
+        found: [] as Document[]
+      };
+    });
+
+    for (let depth = 0; maxDepth === undefined || depth <= maxDepth; depth++) {
+      const rounds = searches.map(search => {
+        const values = search.frontier.filter(value => {
+          const key = valueKey(value);
+          if (search.searched.has(key)) return false;
+          search.searched.add(key);
+          return true;
+        });
+        search.frontier = [];
+        return values;
+      });
+      if (rounds.every(values => values.length === 0)) break;
+      fetch(rounds.flat());
+
+      searches.forEach((search, i) => {
+        for (const match of rounds[i].flatMap(value => matchesByValue.get(valueKey(value))!)) {
+          const id = match._id ?? match;
+          if (search.reached.has(id)) continue;
+          search.reached.add(id);
+
+          const result = depthField === undefined ? match : { ...match };
+          if (depthField !== undefined) {
+            this.setNestedValue(result, depthField, depth);
+          }
+          search.found.push(result);
+          search.frontier.push(...this.connectValues(match, graph.connectFromField));
+        }
+      });
+    }
+
+    return documents.map((doc, i) => {
+      const result = { ...doc };
+      this.setNestedValue(result, graph.as, searches[i].found);
+      return result;
+    });
+  }
+
+  /**
+   * Values at a path, with arrays contributing their elements
+   */
+  private static connectValues(doc: Document, field: string): any[] {
+    return getValuesByPath(doc, field).flatMap(value => (Array.isArray(value) ? value : [value]));
+  }
+
+  /**
+   * Whether a query contains `$expr` anywhere (and so may read pipeline variables)
+   */
+  private static usesExpr(query: any): boolean {
+    if (Array.isArray(query)) {
+      return query.some(item => this.usesExpr(item));
     }
+    if (typeof query !== 'object' || query === null) {
+      return false;
+    }
+    return Object.entries(query).some(([key, value]) => key === '$expr' || this.usesExpr(value));
+  }
 
-    return Array.from(groups.values());
+  private static executeGroupStage(
+    documents: Iterable<Document>,
+    group: GroupStage,
+    variables: Record<string, any> = {},
+    memory?: AggregationMemory
+  ): Iterable<Document> {
+    const { _id: idExpression, ...output } = group;
+    const groups = this.groupDocuments(documents, doc => this.evaluateExpression(doc, idExpression, variables), output, variables, memory);
+    return this.mapDocuments(groups, ({ key, fields }) => ({ _id: key, ...fields }));
   }
 
-  private static executeSortStage(documents: Document[], sortSpec: Record<string, 1 | -1>): Document[] {
-    return [...documents].sort((a, b) => {
-      for (const [field, direction] of Object.entries(sortSpec)) {
-        const aVal = this.getNestedValue(a, field);
-        const bVal = this.getNestedValue(b, field);
+  /**
+   * Group documents by a key and run accumulators over each group, in order of first appearance
+   *
+   * With a memory budget, groups over it are written to a run ordered by key and accumulation
+   * starts afresh; the runs are then merged, combining the partial states of each key, and the
+   * groups come out ordered by key instead.
+   */
+  private static *groupDocuments(
+    documents: Iterable<Document>,
+    keyOf: (doc: Document) => any,
+    output: Record<string, any>,
+    variables: Record<string, any> = {},
+    memory?: AggregationMemory
+  ): Generator<{ key: any; fields: Record<string, any> }> {
+    const groups = new Map<string, { key: any; accumulators: Accumulator[] }>();
+    const runs: string[] = [];
+    let bytes = 0;
 
-        let cmp = 0;
-        if (aVal < bVal) cmp = -1;
-        else if (aVal > bVal) cmp = 1;
+    for (const doc of documents) {
+      const key = keyOf(doc);
+      const groupKey = JSON.stringify(key ?? null);
 
-        if (cmp !== 0) {
-          return direction === 1 ? cmp : -cmp;
+      let entry = groups.get(groupKey);
+      if (!entry) {
+        entry = { key: key ?? null, accumulators: this.createAccumulators(output) };
+        groups.set(groupKey, entry);
+        bytes += 2 * groupKey.length + this.GROUP_ENTRY_SIZE * (1 + entry.accumulators.length);
+      }
+
+      for (const accumulator of entry.accumulators) {
+        const value = this.applyAccumulator(accumulator, doc, variables);
+        if (value !== undefined && (accumulator.operator === '$push' || accumulator.operator === '$addToSet')) {
+          bytes += AggregationMemory.sizeOf(value);
         }
       }
-      return 0;
+
+      if (memory?.track('$group', bytes, true)) {
+        runs.push(memory.writeRun(this.spilledGroups(groups)));
+        groups.clear();
+        bytes = 0;
+      }
+    }
+
+    const result = (key: any, accumulators: Accumulator[]) => ({
+      key,
+      fields: Object.fromEntries(accumulators.map(accumulator => [accumulator.field, this.accumulatorResult(accumulator)]))
     });
+
+    if (runs.length === 0) {
+      for (const { key, accumulators } of groups.values()) {
+        yield result(key, accumulators);
+      }
+      return;
+    }
+
+    const sequences = [...runs.map(run => memory!.readRun(run)), this.spilledGroups(groups)];
+    const merged = AggregationMemory.mergeSorted<SpilledGroup>(sequences, (a, b) => (a.groupKey < b.groupKey ? -1 : a.groupKey > b.groupKey ? 1 : 0));
+    let current: { groupKey: string; key: any; accumulators: Accumulator[] } | undefined;
+    for (const spilled of merged) {
+      if (current?.groupKey !== spilled.groupKey) {
+        if (current) yield result(current.key, current.accumulators);
+        current = { groupKey: spilled.groupKey, key: spilled.key, accumulators: this.createAccumulators(output) };
+      }
+      current.accumulators.forEach((accumulator, i) => this.mergeAccumulatorState(accumulator, spilled.states[i]));
+    }
+    if (current) yield result(current.key, current.accumulators);
   }
 
-  private static executeLimitStage(documents: Document[], limit: number): Document[] {
-    return documents.slice(0, limit);
+  /**
+   * Groups as written to a spill run, ordered by key
+   */
+  private static spilledGroups(groups: Map<string, { key: any; accumulators: Accumulator[] }>): SpilledGroup[] {
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([groupKey, { key, accumulators }]) => ({
+        groupKey,
+        key,
+        states: accumulators.map(({ operator, state, seen }) => ({
+          state: operator === '$addToSet' ? Array.from(state.entries()) : state,
+          seen
+        }))
+      }));
   }
 
-  private static executeSkipStage(documents: Document[], skip: number): Document[] {
-    return documents.slice(skip);
+  /**
+   * Sort documents; over the memory budget, sorted runs are written to disk and merged at the end
+   * Equal documents keep their input order
+   */
+  private static *executeSortStage(
+    documents: Iterable<Document>,
+    sortSpec: Record<string, 1 | -1>,
+    memory?: AggregationMemory
+  ): Generator<Document> {
+    const compare = (a: Document, b: Document) => compareBySort(a, b, sortSpec);
+    const runs: string[] = [];
+    let buffer: Document[] = [];
+    let bytes = 0;
+
+    for (const doc of documents) {
+      buffer.push(doc);
+      bytes += AggregationMemory.sizeOf(doc);
+      if (memory?.track('$sort', bytes, true)) {
+        runs.push(memory.writeRun(buffer.sort(compare)));
+        buffer = [];
+        bytes = 0;
+      }
+    }
+
+    buffer.sort(compare);
+    if (runs.length === 0) {
+      yield* buffer;
+      return;
+    }
+    yield* AggregationMemory.mergeSorted([...runs.map(run => memory!.readRun(run)), buffer], compare);
   }
 
-  private static executeProjectStage(documents: Document[], projection: Record<string, any>): Document[] {
-    return documents.map(doc => {
+  private static *executeLimitStage(documents: Iterable<Document>, limit: number): Generator<Document> {
+    if (limit <= 0) return;
+    let count = 0;
+    for (const doc of documents) {
+      yield doc;
+      // Stop reading the input once enough documents have passed
+      if (++count >= limit) return;
+    }
+  }
+
+  private static *executeSkipStage(documents: Iterable<Document>, skip: number): Generator<Document> {
+    let count = 0;
+    for (const doc of documents) {
+      if (count++ >= skip) yield doc;
+    }
+  }
+
+  /**
+   * Keep the fields set to 1 or true and compute the others from expressions
+   * Fields whose expression is missing (or `$$REMOVE`) are left out
+   */
+  private static executeProjectStage(
+    documents: Iterable<Document>,
+    projection: Record<string, any>,
+    variables: Record<string, any> = {}
+  ): Iterable<Document> {
+    return this.mapDocuments(documents, doc => {
       const projected: any = {};
 
       for (const [field, spec] of Object.entries(projection)) {
@@ -150,8 +685,11 @@ export class AggregationEngine {
           projected[field] = this.getNestedValue(doc, field);
         } else if (spec === 0 || spec === false) {
           // Exclude field - handled by only including specified fields
-        } else if (typeof spec === 'object') {
-          projected[field] = this.evaluateExpression(doc, spec);
+        } else {
+          const value = this.evaluateExpression(doc, spec, variables);
+          if (value !== undefined) {
+            projected[field] = value;
+          }
         }
       }
 
@@ -159,25 +697,26 @@ export class AggregationEngine {
     });
   }
 
-  private static executeUnwindStage(documents: Document[], unwindSpec: string | { path: string; preserveNullAndEmptyArrays?: boolean }): Document[] {
+  private static *executeUnwindStage(
+    documents: Iterable<Document>,
+    unwindSpec: string | { path: string; preserveNullAndEmptyArrays?: boolean }
+  ): Generator<Document> {
     const path = typeof unwindSpec === 'string' ? unwindSpec : unwindSpec.path;
     const preserveNullAndEmptyArrays = typeof unwindSpec === 'object' ? unwindSpec.preserveNullAndEmptyArrays : false;
 
-    const result: Document[] = [];
-
     for (const doc of documents) {
       const array = this.getNestedValue(doc, path.substring(1)); // Remove leading $
 
       if (!Array.isArray(array)) {
         if (preserveNullAndEmptyArrays) {
-          result.push({ ...doc });
+          yield { ...doc };
         }
         continue;
       }
 
       if (array.length === 0) {
         if (preserveNullAndEmptyArrays) {
-          result.push({ ...doc });
+          yield { ...doc };
         }
         continue;
       }
@@ -185,149 +724,760 @@ export class AggregationEngine {
       for (const item of array) {
         const unwoundDoc = { ...doc };
         this.setNestedValue(unwoundDoc, path.substring(1), item);
-        result.push(unwoundDoc);
+        yield unwoundDoc;
       }
     }
-
-    return result;
   }
 
-  private static executeAddFieldsStage(documents: Document[], fields: Record<string, any>): Document[] {
-    return documents.map(doc => {
+  private static executeAddFieldsStage(
+    documents: Iterable<Document>,
+    fields: Record<string, any>,
+    variables: Record<string, any> = {}
+  ): Iterable<Document> {
+    return this.mapDocuments(documents, doc => {
       const newDoc = { ...doc };
       for (const [field, expression] of Object.entries(fields)) {
-        this.setNestedValue(newDoc, field, this.evaluateExpression(doc, expression));
+        const value = this.evaluateExpression(doc, expression, variables);
+        if (value === undefined) {
+          this.unsetNestedValue(newDoc, field);
+        } else {
+          this.setNestedValue(newDoc, field, value);
+        }
       }
       return newDoc;
     });
   }
 
-  private static executeReplaceRootStage(documents: Document[], replaceSpec: { newRoot: any }): Document[] {
-    return documents.map(doc => this.evaluateExpression(doc, replaceSpec.newRoot));
+  /**
+   * @throws ValidationError if newRoot does not evaluate to a document
+   */
+  private static executeReplaceRootStage(
+    documents: Iterable<Document>,
+    replaceSpec: { newRoot: any },
+    variables: Record<string, any> = {}
+  ): Iterable<Document> {
+    return this.mapDocuments(documents, doc => {
+      const root = this.evaluateExpression(doc, replaceSpec.newRoot, variables);
+      if (typeof root !== 'object' || root === null || Array.isArray(root) || root instanceof Date) {
+        throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$replaceRoot', 'newRoot must evaluate to a document'), '$replaceRoot', root);
+      }
+      return root;
+    });
   }
 
-  // Helper methods
-  private static matchesQuery(doc: Document, query: any): boolean {
-    // Simple query matching - in a real implementation, this would be more sophisticated
-    for (const [field, condition] of Object.entries(query)) {
-      const value = this.getNestedValue(doc, field);
-      if (typeof condition === 'object' && condition !== null) {
-        for (const [operator, operand] of Object.entries(condition)) {
-          switch (operator) {
-            case '$eq':
-              if (value !== operand) return false;
-              break;
-            case '$ne':
-              if (value === operand) return false;
-              break;
-            case '$gt':
-              if (!(value > operand)) return false;
-              break;
-            case '$gte':
-              if (!(value >= operand)) return false;
-              break;
-            case '$lt':
-              if (!(value < operand)) return false;
-              break;
-            case '$lte':
-              if (!(value <= operand)) return false;
-              break;
-            default:
-              // For now, assume exact match
-              if (value !== condition) return false;
+  /**
+   * Run several sub-pipelines over the same input; outputs one document with an array per facet
+   */
+  private static executeFacetStage(
+    documents: Document[],
+    facets: Record<string, AggregationStage[]>,
+    context: AggregationContext,
+    scope: PipelineScope
+  ): Document[] {
+    if (typeof facets !== 'object' || facets === null || Array.isArray(facets) || Object.keys(facets).length === 0) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$facet', 'expected an object of sub-pipelines'), '$facet', facets);
+    }
+
+    const output: Document = {};
+    for (const [name, stages] of Object.entries(facets)) {
+      if (!Array.isArray(stages)) {
+        throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$facet', `facet '${name}' must be an array of stages`), '$facet', facets);
+      }
+      output[name] = this.runSubPipeline(documents, stages, context, scope, `$facet.${name}`);
+    }
+    return [output];
+  }
+
+  /**
+   * Group documents into buckets between consecutive boundaries, `_id` being the lower bound
+   * Only buckets holding documents are output, in boundary order, followed by the default bucket
+   */
+  private static executeBucketStage(documents: Document[], bucket: BucketStage): Document[] {
+    const { boundaries } = bucket ?? ({} as BucketStage);
+    const ascending = Array.isArray(boundaries) && boundaries.length >= 2 &&
+      boundaries.every((boundary, i) => i === 0 ||
+        (sameTypeBracket(boundary, boundaries[0]) && compareValues(boundaries[i - 1], boundary) < 0));
+    if (!ascending) {
+      throw new ValidationError(
+        ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$bucket', 'boundaries must be at least two ascending values of one type'),
+        'boundaries',
+        boundaries
+      );
+    }
+
+    const hasDefault = 'default' in bucket;
+    const lowerBound = (doc: Document): any => {
+      const value = this.evaluateExpression(doc, bucket.groupBy);
+      if (sameTypeBracket(value, boundaries[0]) && compareValues(value, boundaries[0]) >= 0 &&
+          compareValues(value, boundaries[boundaries.length - 1]) < 0) {
+        let i = 0;
+        while (compareValues(value, boundaries[i + 1]) >= 0) i++;
+        return { bound: boundaries[i], index: i };
+      }
+      if (!hasDefault) {
+        throw new ValidationError(
+          ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$bucket', 'a value is outside the boundaries and no default is given'),
+          'groupBy',
+          value
+        );
+      }
+      return { bound: bucket.default, index: boundaries.length };
+    };
+
+    const positions = new Map<string, number>();
+    const groups = Array.from(this.groupDocuments(documents, doc => {
+      const { bound, index } = lowerBound(doc);
+      positions.set(JSON.stringify(bound ?? null), index);
+      return bound;
+    }, bucket.output ?? { count: { $sum: 1 } }));
+
+    return groups
+      .sort((a, b) => positions.get(JSON.stringify(a.key))! - positions.get(JSON.stringify(b.key))!)
+      .map(({ key, fields }) => ({ _id: key, ...fields }));
+  }
+
+  /**
+   * Spread documents over a number of buckets holding about as many documents each
+   * Equal values stay in one bucket, so fewer buckets may be output. `_id` is `{ min, max }`,
+   * where `max` is the next bucket's `min` (or the largest value for the last bucket).
+   */
+  private static executeBucketAutoStage(documents: Document[], bucketAuto: BucketAutoStage): Document[] {
+    const buckets = bucketAuto?.buckets;
+    if (!Number.isInteger(buckets) || buckets < 1) {
+      throw new ValidationError(
+        ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$bucketAuto', 'buckets must be a positive integer'),
+        'buckets',
+        buckets
+      );
+    }
+
+    const entries = documents
+      .map(doc => ({ doc, value: this.evaluateExpression(doc, bucketAuto.groupBy) ?? null }))
+      .sort((a, b) => compareValues(a.value, b.value));
+    const bucketSize = Math.ceil(entries.length / buckets);
+
+    const ranges: Array<{ min: any; docs: Document[] }> = [];
+    for (let i = 0; i < entries.length;) {
+      const docs: Document[] = [];
+      const min = entries[i].value;
+      while (i < entries.length && (docs.length < bucketSize ||
+          compareValues(entries[i].value, entries[i - 1].value) === 0)) {
+        docs.push(entries[i++].doc);
+      }
+      ranges.push({ min, docs });
+    }
+
+    const output = bucketAuto.output ?? { count: { $sum: 1 } };
+    return ranges.map((range, i) => {
+      const max = i + 1 < ranges.length ? ranges[i + 1].min : entries[entries.length - 1].value;
+      const [{ fields }] = this.groupDocuments(range.docs, () => null, output);
+      const bounds: any = { min: range.min, max };
+      return { _id: bounds, ...fields };
+    });
+  }
+
+  /**
+   * Count documents per value of an expression, most frequent first
+   */
+  private static executeSortByCountStage(documents: Iterable<Document>, expression: any, memory?: AggregationMemory): Iterable<Document> {
+    const groups = this.groupDocuments(documents, doc => this.evaluateExpression(doc, expression), { count: { $sum: 1 } }, {}, memory);
+    const counts = this.mapDocuments(groups, ({ key, fields }) => ({ _id: key, count: fields.count }));
+    return this.executeSortStage(counts, { count: -1 }, memory);
+  }
+
+  /**
+   * One document holding the number of input documents; nothing for empty input
+   */
+  private static executeCountStage(documents: Iterable<Document>, field: string): Document[] {
+    if (typeof field !== 'string' || field.length === 0 || field.startsWith('$') || field.includes('.')) {
+      throw new ValidationError(
+        ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$count', 'expected a non-empty field name without $ or .'),
+        '$count',
+        field
+      );
+    }
+    const iterator = documents[Symbol.iterator]();
+    let count = 0;
+    while (!iterator.next().done) count++;
+    return count > 0 ? [{ [field]: count }] : [];
+  }
+
+  /**
+   * Random documents without repeats (partial Fisher-Yates shuffle)
+   */
+  private static executeSampleStage(documents: Document[], sample: { size: number }): Document[] {
+    const size = sample?.size;
+    if (!Number.isInteger(size) || size < 0) {
+      throw new ValidationError(
+        ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$sample', 'size must be a non-negative integer'),
+        'size',
+        size
+      );
+    }
+
+    const pool = [...documents];
+    const count = Math.min(size, pool.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(Math.random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+  }
+
+  /**
+   * Compute window functions over sorted partitions, adding one field per output to every document
+   *
+   * Ranking ($rank, $denseRank, $documentNumber), $shift and $expMovingAvg follow the sortBy order;
+   * accumulators ($sum, $avg, $min, $max, $count, $push, $addToSet, $first, $last) and $derivative
+   * run over a frame of `documents` or sortBy `range` bounds, the whole partition by default.
+   * Documents are output partition by partition in sortBy order.
+   */
+  private static executeSetWindowFieldsStage(documents: Document[], spec: SetWindowFieldsStage): Document[] {
+    const invalid = (reason: string, value: any = spec) =>
+      new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$setWindowFields', reason), '$setWindowFields', value);
+
+    if (typeof spec?.output !== 'object' || spec.output === null || Object.keys(spec.output).length === 0) {
+      throw invalid('output must name at least one field');
+    }
+
+    const partitions = new Map<string, Document[]>();
+    for (const doc of documents) {
+      const key = JSON.stringify(spec.partitionBy === undefined ? null : this.evaluateExpression(doc, spec.partitionBy) ?? null);
+      if (!partitions.has(key)) partitions.set(key, []);
+      partitions.get(key)!.push(doc);
+    }
+
+    const result: Document[] = [];
+    for (const members of partitions.values()) {
+      const partition = spec.sortBy ? [...members].sort((a, b) => compareBySort(a, b, spec.sortBy!)) : members;
+      const outputs = partition.map(doc => ({ ...doc }));
+
+      for (const [field, definition] of Object.entries(spec.output)) {
+        const values = this.computeWindowField(partition, definition, spec.sortBy, invalid);
+        outputs.forEach((doc, i) => this.setNestedValue(doc, field, values[i]));
+      }
+      result.push(...outputs);
+    }
+    return result;
+  }
+
+  /**
+   * Values of one `$setWindowFields` output for every document of a sorted partition
+   */
+  private static computeWindowField(
+    partition: Document[],
+    definition: { window?: WindowFrame; [operator: string]: any },
+    sortBy: Record<string, 1 | -1> | undefined,
+    invalid: (reason: string, value?: any) => ValidationError
+  ): any[] {
+    const operators = Object.keys(definition ?? {}).filter(key => key !== 'window');
+    if (operators.length !== 1) {
+      throw invalid('each output needs exactly one window operator', definition);
+    }
+
+    const operator = operators[0];
+    const args = definition[operator];
+    const frame = definition.window;
+    const sorted = ['$rank', '$denseRank', '$documentNumber', '$shift', '$expMovingAvg', '$derivative'];
+    if (sorted.includes(operator) && !sortBy) {
+      throw invalid(`${operator} requires sortBy`, definition);
+    }
+    if (frame && ['$rank', '$denseRank', '$documentNumber', '$shift', '$expMovingAvg'].includes(operator)) {
+      throw invalid(`${operator} does not take a window`, definition);
+    }
+
+    switch (operator) {
+      case '$documentNumber':
+        return partition.map((_, i) => i + 1);
+      case '$rank':
+      case '$denseRank': {
+        const ranks: number[] = [];
+        partition.forEach((doc, i) => {
+          if (i === 0) ranks.push(1);
+          else if (compareBySort(partition[i - 1], doc, sortBy!) === 0) ranks.push(ranks[i - 1]);
+          else ranks.push(operator === '$rank' ? i + 1 : ranks[i - 1] + 1);
+        });
+        return ranks;
+      }
+      case '$shift': {
+        if (!Number.isInteger(args?.by)) {
+          throw invalid('$shift requires an integer by', definition);
+        }
+        return partition.map((_, i) => {
+          const target = partition[i + args.by];
+          return target ? this.evaluateExpression(target, args.output) ?? null : args.default ?? null;
+        });
+      }
+      case '$expMovingAvg': {
+        if (args?.N !== undefined ? !(Number.isInteger(args.N) && args.N > 0) : !(typeof args?.alpha === 'number' && args.alpha > 0 && args.alpha < 1)) {
+          throw invalid('$expMovingAvg requires a positive integer N or an alpha between 0 and 1', definition);
+        }
+        const alpha = args.N !== undefined ? 2 / (args.N + 1) : args.alpha;
+        let average: number | null = null;
+        return partition.map(doc => {
+          const value = this.evaluateExpression(doc, args.input);
+          if (typeof value !== 'number') return null;
+          average = average === null ? value : alpha * value + (1 - alpha) * average;
+          return average;
+        });
+      }
+      case '$derivative': {
+        if (!frame) {
+          throw invalid('$derivative requires a window', definition);
+        }
+        const unit = args?.unit === undefined ? 1 : this.WINDOW_UNITS[args.unit];
+        if (!unit) {
+          throw invalid(`unknown unit ${args.unit}`, definition);
+        }
+        const [sortField] = Object.keys(sortBy!);
+        const frames = this.windowFrames(partition, frame, sortBy!, invalid);
+        return partition.map((_, i) => {
+          const [start, end] = frames[i];
+          if (end - start < 1) return null;
+          const rise = this.evaluateExpression(partition[end], args.input) - this.evaluateExpression(partition[start], args.input);
+          const run = (this.windowPosition(partition[end], sortField, invalid) - this.windowPosition(partition[start], sortField, invalid)) / unit;
+          return run === 0 || Number.isNaN(rise) ? null : rise / run;
+        });
+      }
+      default: {
+        const output = { value: { [operator]: args } };
+        this.createAccumulators(output); // Rejects unknown operators before any work
+        const accumulate = (start: number, end: number) => {
+          const [accumulator] = this.createAccumulators(output);
+          for (let j = start; j <= end; j++) {
+            this.applyAccumulator(accumulator, partition[j]);
           }
+          return this.accumulatorResult(accumulator);
+        };
+        // $push results are copied so that documents never share one array
+        const copy = (value: any) => Array.isArray(value) ? [...value] : value;
+
+        if (!frame) {
+          const value = accumulate(0, partition.length - 1);
+          return partition.map(() => copy(value));
         }
-      } else {
-        if (value !== condition) return false;
+
+        // Frame starts and ends never move backwards along the partition
+        const frames = this.windowFrames(partition, frame, sortBy, invalid);
+        if (frames.every(([start]) => start === 0)) {
+          const [accumulator] = this.createAccumulators(output);
+          let next = 0;
+          return frames.map(([, end]) => {
+            for (; next <= end; next++) {
+              this.applyAccumulator(accumulator, partition[next]);
+            }
+            return copy(this.accumulatorResult(accumulator));
+          });
+        }
+        if (['$sum', '$avg', '$count'].includes(operator)) {
+          return this.slidingWindow(partition, operator, args, frames);
+        }
+        return frames.map(([start, end]) => accumulate(start, end));
       }
     }
-    return true;
   }
 
-  private static evaluateExpression(doc: Document, expression: any): any {
-    if (typeof expression === 'string' && expression.startsWith('$')) {
-      return this.getNestedValue(doc, expression.substring(1));
+  /**
+   * `$sum`, `$avg` and `$count` over bounded frames, adding documents as frames end past them
+   * and removing them as frames start past them
+   */
+  private static slidingWindow(partition: Document[], operator: string, args: any, frames: Array<[number, number]>): any[] {
+    const values = partition.map(doc => operator === '$count' ? 1 : this.evaluateExpression(doc, args));
+    let sum = 0;
+    let count = 0;
+    const update = (j: number, sign: 1 | -1) => {
+      if (typeof values[j] !== 'number') return;
+      sum += sign * values[j];
+      count += sign;
+    };
+
+    let added = 0; // The frame holds the documents from removed up to (not including) added
+    let removed = 0;
+    return frames.map(([start, end]) => {
+      for (; removed < start; removed++) {
+        if (removed < added) update(removed, -1);
+      }
+      for (; added <= end; added++) {
+        if (added >= removed) update(added, 1);
+      }
+      if (operator === '$avg') return count > 0 ? sum / count : null;
+      return operator === '$count' ? count : sum;
+    });
+  }
+
+  /**
+   * First and last partition positions inside the frame of each document (end < start if empty)
+   *
+   * Both positions only move forward along the partition, so range frames are found with two pointers.
+   */
+  private static windowFrames(
+    partition: Document[],
+    frame: WindowFrame,
+    sortBy: Record<string, 1 | -1> | undefined,
+    invalid: (reason: string, value?: any) => ValidationError
+  ): Array<[number, number]> {
+    const isBound = (bound: WindowBound) => bound === 'current' || bound === 'unbounded' || typeof bound === 'number';
+    const last = partition.length - 1;
+
+    if (frame.documents) {
+      const [lower, upper] = frame.documents;
+      if (!isBound(lower) || !isBound(upper) || (typeof lower === 'number' && !Number.isInteger(lower)) ||
+          (typeof upper === 'number' && !Number.isInteger(upper))) {
+        throw invalid('documents bounds must be integers, current or unbounded', frame);
+      }
+      return partition.map((_, index) => {
+        const start = lower === 'unbounded' ? 0 : index + (lower === 'current' ? 0 : lower);
+        const end = upper === 'unbounded' ? last : index + (upper === 'current' ? 0 : upper);
+        return [Math.max(0, start), Math.min(last, end)];
+      });
     }
-    if (typeof expression === 'object' && expression !== null) {
-      const result: any = {};
-      for (const [key, value] of Object.entries(expression)) {
-        result[key] = this.evaluateExpression(doc, value);
+
+    if (frame.range) {
+      const sortFields = Object.keys(sortBy ?? {});
+      const [lower, upper] = frame.range;
+      if (sortFields.length !== 1 || !isBound(lower) || !isBound(upper)) {
+        throw invalid('range windows need a single sortBy field and numeric, current or unbounded bounds', frame);
       }
-      return result;
+      const unit = frame.unit === undefined ? 1 : this.WINDOW_UNITS[frame.unit];
+      if (!unit) {
+        throw invalid(`unknown unit ${frame.unit}`, frame);
+      }
+
+      const positions = partition.map(doc => this.windowPosition(doc, sortFields[0], invalid));
+      const ascending = sortBy![sortFields[0]] !== -1;
+      // Ascending partitions open on the first position >= min and close on the last <= max; descending ones the reverse
+      const before = (value: number, min: number, max: number) => ascending ? value < min : value > max;
+      const within = (value: number, min: number, max: number) => ascending ? value <= max : value >= min;
+
+      let start = 0;
+      let end = -1;
+      return positions.map(current => {
+        const min = lower === 'unbounded' ? -Infinity : current + (lower === 'current' ? 0 : lower * unit);
+        const max = upper === 'unbounded' ? Infinity : current + (upper === 'current' ? 0 : upper * unit);
+        while (start <= last && before(positions[start], min, max)) start++;
+        while (end < last && within(positions[end + 1], min, max)) end++;
+        return [start, end];
+      });
     }
-    return expression;
+
+    throw invalid('window needs documents or range bounds', frame);
   }
 
-  private static initializeAccumulator(accumulator: any): any {
-    if (typeof accumulator === 'string') {
-      switch (accumulator) {
-        case '$sum': return 0;
-        case '$count': return 0;
-        case '$avg': return { sum: 0, count: 0 };
-        case '$min': return Infinity;
-        case '$max': return -Infinity;
-        case '$first': return null;
-        case '$last': return null;
-        case '$push': return [];
-        case '$addToSet': return new Set();
+  /**
+   * Numeric position of a document along the sortBy field; dates count in milliseconds
+   */
+  private static windowPosition(doc: Document, field: string, invalid: (reason: string, value?: any) => ValidationError): number {
+    const value = this.getNestedValue(doc, field);
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number') return value;
+    throw invalid(`range windows need numeric or date values in '${field}'`, value);
+  }
+
+  /**
+   * Replace the documents of the target collection with the pipeline output, all or nothing
+   */
+  private static executeOutStage(documents: Document[], spec: string | { coll: string }, context: AggregationContext): Document[] {
+    const name = typeof spec === 'string' ? spec : spec?.coll;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$out', 'expected a collection name or { coll }'), '$out', spec);
+    }
+
+    const stored = this.outputCollection('$out', name, context).replaceAllDocuments(documents);
+    logger.info('$out replaced collection', { collection: name, documents: stored.length });
+    return [];
+  }
+
+  /**
+   * Write the pipeline output into the target collection
+   *
+   * Each output document is matched to a target document by its `on` fields; matched documents
+   * are replaced, merged, kept or rejected (`whenMatched`, or an update pipeline reading the
+   * output document as `$$new`) and unmatched ones inserted, dropped or rejected
+   * (`whenNotMatched`). Later output documents see the writes of earlier ones. All writes are
+   * planned first and applied in one step, so a rejection leaves the target unchanged.
+   */
+  private static executeMergeStage(
+    documents: Document[],
+    spec: string | MergeStage,
+    context: AggregationContext,
+    scope: PipelineScope
+  ): Document[] {
+    const merge: MergeStage = typeof spec === 'string' ? { into: spec } : spec;
+    const invalid = (reason: string, value?: any) =>
+      new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$merge', reason), '$merge', value);
+
+    const name = typeof merge?.into === 'string' ? merge.into : merge?.into?.coll;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw invalid("'into' must be a collection name or { coll }", merge?.into);
+    }
+    const on = merge.on === undefined ? ['_id'] : Array.isArray(merge.on) ? merge.on : [merge.on];
+    if (on.length === 0 || on.some(field => typeof field !== 'string' || field.length === 0)) {
+      throw invalid("'on' must be a field name or an array of field names", merge.on);
+    }
+    const whenMatched = merge.whenMatched ?? 'merge';
+    if (Array.isArray(whenMatched)) {
+      if (whenMatched.some(stage => !('$addFields' in stage || '$project' in stage || '$replaceRoot' in stage))) {
+        throw invalid('a whenMatched pipeline can only use $addFields, $project and $replaceRoot', whenMatched);
       }
+    } else if (!['replace', 'keepExisting', 'merge', 'fail'].includes(whenMatched)) {
+      throw invalid("whenMatched must be 'replace', 'keepExisting', 'merge', 'fail' or a pipeline", whenMatched);
+    }
+    const whenNotMatched = merge.whenNotMatched ?? 'insert';
+    if (!['insert', 'discard', 'fail'].includes(whenNotMatched)) {
+      throw invalid("whenNotMatched must be 'insert', 'discard' or 'fail'", whenNotMatched);
+    }
+
+    if (!context.resolveOutputCollection) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_OUTPUT_UNAVAILABLE('$merge'), '$merge', name);
     }
-    if (typeof accumulator === 'object' && accumulator !== null) {
-      // Handle accumulator objects like { $sum: '$field' }
-      for (const [op, field] of Object.entries(accumulator)) {
-        return this.initializeAccumulator(op);
+    // The target is only created once the writes are known to be valid
+    const existing = context.resolveCollection?.(name);
+    // Target documents touched so far (previous is unset for planned inserts), by 'on' values
+    const planned = new Map<string, { previous?: Document; document: Document }>();
+
+    documents.forEach((doc, i) => {
+      const values = on.map(field => getValueByPath(doc, field));
+      const generatedId = on.length === 1 && on[0] === '_id' && values[0] === undefined;
+      if (!generatedId && values.some(value => value === undefined || value === null || Array.isArray(value))) {
+        throw invalid(`output documents need a single non-null value for ${on.join(', ')}`, doc);
+      }
+
+      // Documents without an _id are always new
+      const key = generatedId ? `new:${i}` : JSON.stringify(Object.fromEntries(on.map((field, j) => [field, values[j]])));
+      let entry = planned.get(key);
+      if (!entry && !generatedId) {
+        const matches = existing?.find(Object.fromEntries(on.map((field, j) => [field, values[j]]))) ?? [];
+        if (matches.length > 1) {
+          throw new DataIntegrityError(ERROR_MESSAGES.AGGREGATION_MERGE_AMBIGUOUS(name, key), name);
+        }
+        if (matches.length === 1) {
+          entry = { previous: matches[0], document: matches[0] };
+          planned.set(key, entry);
+        }
       }
+
+      if (entry) {
+        if (whenMatched === 'fail') {
+          throw new DataIntegrityError(ERROR_MESSAGES.AGGREGATION_MERGE_MATCHED(name, key), name, entry.document._id as string);
+        }
+        entry.document = this.mergedDocument(entry.document, doc, whenMatched, merge.let, context, scope);
+      } else if (whenNotMatched === 'fail') {
+        throw new DataIntegrityError(ERROR_MESSAGES.AGGREGATION_MERGE_NOT_MATCHED(name, key), name);
+      } else if (whenNotMatched === 'insert') {
+        planned.set(key, { document: { ...doc } });
+      }
+    });
+
+    const replacements: Array<{ previous: Document; document: Document }> = [];
+    const inserts: Document[] = [];
+    for (const { previous, document } of planned.values()) {
+      if (!previous) {
+        inserts.push(document);
+      } else if (document !== previous) {
+        replacements.push({ previous, document });
+      }
+    }
+
+    const { inserted, updated } = this.outputCollection('$merge', name, context).mergeDocuments(replacements, inserts);
+    logger.info('$merge wrote documents', { collection: name, inserted, updated });
+    return [];
+  }
+
+  /**
+   * What a matched target document becomes; it always keeps its _id
+   */
+  private static mergedDocument(
+    existing: Document,
+    incoming: Document,
+    whenMatched: Exclude<MergeStage['whenMatched'], 'fail' | undefined>,
+    letVariables: Record<string, any> | undefined,
+    context: AggregationContext,
+    scope: PipelineScope
+  ): Document {
+    const id = existing._id !== undefined ? { _id: existing._id } : {};
+    if (whenMatched === 'keepExisting') {
+      return existing;
     }
-    return accumulator;
+    if (whenMatched === 'replace') {
+      return { ...incoming, ...id };
+    }
+    if (whenMatched === 'merge') {
+      return { ...existing, ...incoming, ...id };
+    }
+
+    const variables: Record<string, any> = { ...context.variables };
+    for (const [name, expression] of Object.entries(letVariables ?? { new: '$$ROOT' })) {
+      variables[name] = this.evaluateExpression(incoming, expression, context.variables);
+    }
+    const result = this.runSubPipeline([existing], whenMatched, { ...context, variables }, scope, '$merge');
+    if (result.length !== 1) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$merge', 'the whenMatched pipeline must produce one document'), '$merge', result);
+    }
+    return { ...result[0], ...id };
+  }
+
+  private static outputCollection(stage: string, name: string, context: AggregationContext): OutputTarget {
+    const target = context.resolveOutputCollection?.(name);
+    if (!target) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_OUTPUT_UNAVAILABLE(stage), stage, name);
+    }
+    return target;
   }
 
-  private static applyAccumulator(groupDoc: any, field: string, accumulator: any, doc: Document): void {
-    const value = typeof accumulator === 'string' && accumulator.startsWith('$')
-      ? this.getNestedValue(doc, accumulator.substring(1))
-      : accumulator;
+  // Helper methods
+  private static evaluateExpression(doc: Document, expression: any, variables: Record<string, any> = {}): any {
+    return ExpressionEngine.evaluate(doc, expression, variables);
+  }
 
-    switch (accumulator) {
+  /**
+   * Accumulators of a `$group` (or bucket `output`) specification
+   *
+   * @throws ValidationError for anything other than `{ field: { $operator: expression } }`
+   */
+  private static createAccumulators(output: Record<string, any>): Accumulator[] {
+    const operators = ['$sum', '$avg', '$min', '$max', '$first', '$last', '$push', '$addToSet', '$count'];
+
+    return Object.entries(output).map(([field, spec]) => {
+      const keys = typeof spec === 'object' && spec !== null && !Array.isArray(spec) ? Object.keys(spec) : [];
+      if (keys.length !== 1 || !operators.includes(keys[0])) {
+        throw new ValidationError(ERROR_MESSAGES.AGGREGATION_ACCUMULATOR_INVALID(field), field, spec);
+      }
+
+      const operator = keys[0];
+      const initial: Record<string, any> = {
+        $sum: 0, $count: 0, $avg: { sum: 0, count: 0 }, $push: [], $addToSet: new Map()
+      };
+      return { field, operator, expression: spec[operator], state: initial[operator], seen: 0 };
+    });
+  }
+
+  /**
+   * Accumulate one document
+   *
+   * @returns The value accumulated (undefined for `$count`)
+   */
+  private static applyAccumulator(accumulator: Accumulator, doc: Document, variables: Record<string, any> = {}): any {
+    const first = accumulator.seen++ === 0;
+    if (accumulator.operator === '$count') {
+      accumulator.state++;
+      return undefined;
+    }
+
+    const value = this.evaluateExpression(doc, accumulator.expression, variables);
+    switch (accumulator.operator) {
       case '$sum':
-        groupDoc[field] += value || 0;
+        if (typeof value === 'number') accumulator.state += value;
+        break;
+      case '$avg':
+        if (typeof value === 'number') {
+          accumulator.state.sum += value;
+          accumulator.state.count++;
+        }
+        break;
+      case '$min':
+      case '$max': {
+        if (value === undefined || value === null) break;
+        const order = accumulator.state === undefined ? 0 : compareValues(value, accumulator.state);
+        if (accumulator.state === undefined || (accumulator.operator === '$min' ? order < 0 : order > 0)) {
+          accumulator.state = value;
+        }
+        break;
+      }
+      case '$first':
+        if (first) accumulator.state = value;
+        break;
+      case '$last':
+        accumulator.state = value;
+        break;
+      case '$push':
+        if (value !== undefined) accumulator.state.push(value);
         break;
+      case '$addToSet':
+        if (value !== undefined) accumulator.state.set(JSON.stringify(value), value);
+        break;
+    }
+    return value;
+  }
+
+  /**
+   * Add the partial state of a group read back from a spill run; runs come in input order
+   */
+  private static mergeAccumulatorState(accumulator: Accumulator, partial: { state: any; seen: number }): void {
+    const { state } = partial;
+    const first = accumulator.seen === 0;
+    accumulator.seen += partial.seen;
+
+    switch (accumulator.operator) {
+      case '$sum':
       case '$count':
-        groupDoc[field]++;
+        accumulator.state += state;
         break;
       case '$avg':
-        groupDoc[field].sum += value || 0;
-        groupDoc[field].count++;
+        accumulator.state.sum += state.sum;
+        accumulator.state.count += state.count;
         break;
       case '$min':
-        groupDoc[field] = Math.min(groupDoc[field], value);
-        break;
-      case '$max':
-        groupDoc[field] = Math.max(groupDoc[field], value);
+      case '$max': {
+        if (state === undefined || state === null) break;
+        const order = accumulator.state === undefined ? 0 : compareValues(state, accumulator.state);
+        if (accumulator.state === undefined || (accumulator.operator === '$min' ? order < 0 : order > 0)) {
+          accumulator.state = state;
+        }
         break;
+      }
       case '$first':
-        if (groupDoc[field] === null) groupDoc[field] = value;
+        if (first) accumulator.state = state;
         break;
       case '$last':
-        groupDoc[field] = value;
+        accumulator.state = state;
         break;
       case '$push':
-        groupDoc[field].push(value);
+        for (const value of state) accumulator.state.push(value);
         break;
       case '$addToSet':
-        groupDoc[field].add(value);
+        for (const [key, value] of state) accumulator.state.set(key, value);
         break;
     }
   }
 
+  private static accumulatorResult(accumulator: Accumulator): any {
+    switch (accumulator.operator) {
+      case '$avg':
+        return accumulator.state.count > 0 ? accumulator.state.sum / accumulator.state.count : null;
+      case '$addToSet':
+        return Array.from(accumulator.state.values());
+      default:
+        return accumulator.state ?? null;
+    }
+  }
+
   private static getNestedValue(obj: any, path: string): any {
     return path.split('.').reduce((current, key) => current?.[key], obj);
   }
 
+  private static unsetNestedValue(obj: any, path: string): void {
+    const keys = path.split('.');
+    const lastKey = keys.pop()!;
+    let parent = obj;
+    for (const key of keys) {
+      if (typeof parent[key] !== 'object' || parent[key] === null || Array.isArray(parent[key])) return;
+      // Copy on the way down so the input document keeps its fields
+      parent[key] = { ...parent[key] };
+      parent = parent[key];
+    }
+    delete parent[lastKey];
+  }
+
   private static setNestedValue(obj: any, path: string, value: any): void {
     const keys = path.split('.');
     const lastKey = keys.pop()!;
     const target = keys.reduce((current, key) => {
-      if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
+      const child = current[key];
+      // Copy on the way down so the input document keeps its values
+      if (typeof child !== 'object' || child === null) {
         current[key] = {};
+      } else {
+        current[key] = Array.isArray(child) ? [...child] : { ...child };
       }
       return current[key];
     }, obj);
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { AggregateOptions, AggregationMemoryStats } from './types';
+import { ValidationError, ResourceLimitError } from './errors';
+import { ERROR_MESSAGES, LIMITS } from './constants';
+import { DocumentValidator } from './validators';
+
+// Spill files are JSON lines; dates are written as { $date: milliseconds } and read back as dates
+function spillReplacer(this: any, key: string, value: any): any {
+  const original = this[key];
+  return original instanceof Date ? { $date: original.getTime() } : value;
+}
+
+function spillReviver(_key: string, value: any): any {
+  if (value !== null && typeof value === 'object' && typeof value.$date === 'number' && Object.keys(value).length === 1) {
+    return new Date(value.$date);
+  }
+  return value;
+}
+
+/**
+ * Aggregation Memory
+ * Memory budget and spill files of one aggregation run.
+ *
+ * Blocking stages report the estimated size of what they hold. Over the budget, `$sort` and
+ * `$group` write what they hold to disk as a sorted run and carry on when disk use is allowed;
+ * otherwise, and for stages that cannot spill, the run fails with a ResourceLimitError. Runs are
+ * read back lazily and merged, and remove() deletes them.
+ */
+export class AggregationMemory {
+  readonly limit: number;
+  readonly allowDiskUse: boolean;
+  private readonly tempDirectory?: string;
+  private directory?: string;
+  private runs = 0;
+  private peakBytes = 0;
+  private spilledBytes = 0;
+
+  /**
+   * @throws ValidationError if maxMemoryBytes is not a positive number
+   */
+  constructor(options: AggregateOptions = {}) {
+    const limit = options.maxMemoryBytes ?? LIMITS.AGGREGATION_MAX_MEMORY;
+    if (typeof limit !== 'number' || !(limit > 0)) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_MEMORY_LIMIT_INVALID, 'maxMemoryBytes', limit);
+    }
+    this.limit = limit;
+    this.allowDiskUse = options.allowDiskUse === true;
+    this.tempDirectory = options.tempDirectory;
+  }
+
+  /**
+   * Estimated in-memory size of a value
+   */
+  static sizeOf(value: any): number {
+    return DocumentValidator.calculateSize(value);
+  }
+
+  /**
+   * Record how much a stage holds
+   *
+   * @param canSpill - Whether the stage can write what it holds to disk
+   * @returns true when the stage is over the budget and should spill now
+   * @throws ResourceLimitError over the budget if the stage cannot spill or disk use is not allowed
+   */
+  track(stage: string, bytes: number, canSpill: boolean = false): boolean {
+    this.peakBytes = Math.max(this.peakBytes, bytes);
+    if (bytes <= this.limit) {
+      return false;
+    }
+    if (canSpill && this.allowDiskUse) {
+      return true;
+    }
+    throw new ResourceLimitError(
+      canSpill
+        ? ERROR_MESSAGES.AGGREGATION_MEMORY_LIMIT_EXCEEDED(stage, this.limit)
+        : ERROR_MESSAGES.AGGREGATION_MEMORY_LIMIT_NO_SPILL(stage, this.limit),
+      'aggregationMemory',
+      this.limit,
+      bytes
+    );
+  }
+
+  /**
+   * Write a run (items already in the order they should be read back) to a temporary file
+   *
+   * @returns Path of the run
+   */
+  writeRun(items: Iterable<any>): string {
+    if (!this.directory) {
+      this.directory = fs.mkdtempSync(path.join(this.tempDirectory ?? os.tmpdir(), 'monarch-aggregation-'));
+    }
+    const file = path.join(this.directory, `run-${this.runs++}.jsonl`);
+
+    const fd = fs.openSync(file, 'w');
+    try {
+      let chunk = '';
+      for (const item of items) {
+        chunk += JSON.stringify(item, spillReplacer) + '\n';
+        if (chunk.length >= LIMITS.AGGREGATION_SPILL_READ_BUFFER) {
+          this.spilledBytes += fs.writeSync(fd, chunk);
+          chunk = '';
+        }
+      }
+      if (chunk.length > 0) {
+        this.spilledBytes += fs.writeSync(fd, chunk);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    return file;
+  }
+
+  /**
+   * Items of a run, read a buffer at a time
+   */
+  *readRun(file: string): Generator<any> {
+    const fd = fs.openSync(file, 'r');
+    const buffer = Buffer.alloc(LIMITS.AGGREGATION_SPILL_READ_BUFFER);
+    const decoder = new StringDecoder('utf8');
+    let pending = '';
+
+    try {
+      let read: number;
+      while ((read = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+        pending += decoder.write(buffer.subarray(0, read));
+        const lines = pending.split('\n');
+        pending = lines.pop()!;
+        for (const line of lines) {
+          if (line.length > 0) yield JSON.parse(line, spillReviver);
+        }
+      }
+      pending += decoder.end();
+      if (pending.length > 0) {
+        yield JSON.parse(pending, spillReviver);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Merge sorted sequences into one sorted sequence; on ties, earlier sequences come first
+   */
+  static *mergeSorted<T>(sequences: Iterable<T>[], compare: (a: T, b: T) => number): Generator<T> {
+    const iterators = sequences.map(sequence => sequence[Symbol.iterator]());
+    const heads = iterators.map(iterator => iterator.next());
+
+    try {
+      for (;;) {
+        let best = -1;
+        for (let i = 0; i < heads.length; i++) {
+          if (!heads[i].done && (best < 0 || compare(heads[i].value, heads[best].value) < 0)) {
+            best = i;
+          }
+        }
+        if (best < 0) return;
+
+        yield heads[best].value;
+        heads[best] = iterators[best].next();
+      }
+    } finally {
+      // Close runs that were not read to the end
+      iterators.forEach(iterator => iterator.return?.());
+    }
+  }
+
+  /**
+   * Delete the spill files
+   */
+  remove(): void {
+    if (this.directory) {
+      fs.rmSync(this.directory, { recursive: true, force: true });
+      this.directory = undefined;
+    }
+  }
+
+  getStats(): AggregationMemoryStats {
+    return { peakBytes: this.peakBytes, spills: this.runs, spilledBytes: this.spilledBytes };
+  }
+}
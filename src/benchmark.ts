@@ -12,6 +12,8 @@
 import { Monarch } from './monarch';
 import { FileSystemAdapter } from './adapters/filesystem';
 import { OptimizedDataStructures } from './optimized-data-structures';
+import { GeospatialEngine, GeospatialIndex } from './geospatial-engine';
+import { Point } from './types';
 import { globalMonitor } from './performance-monitor';
 import { globalProfiler } from './performance-optimizer';
 import { QuantumQueryOptimizer, quantumQueryOptimizer } from './algorithms/quantum-query-optimizer';
@@ -276,6 +278,58 @@ async function benchmarkIndexPerformance(): Promise<BenchmarkResult[]> {
   return results;
 }
 
+/**
+ * Geospatial Index Benchmarks
+ * Box and nearest-neighbour queries on 10K, 100K and 1M points: through the R-tree the query
+ * time grows far slower than the point count, unlike the linear scan shown for comparison
+ */
+async function benchmarkGeospatialIndex(): Promise<BenchmarkResult[]> {
+  console.log('\n🌍 Geospatial Index Benchmarks');
+  console.log('='.repeat(50));
+
+  const results: BenchmarkResult[] = [];
+  const randomPoint = (): Point => ({ type: 'Point', coordinates: [Math.random() * 360 - 180, Math.random() * 170 - 85] });
+  const nearestTimes: number[] = [];
+  const sizes = [10000, 100000, 1000000];
+
+  for (const size of sizes) {
+    const points = Array.from({ length: size }, (_, i) => ({ docId: `p${i}`, geometry: randomPoint() }));
+    const index = new GeospatialIndex();
+    const loadStart = performance.now();
+    index.load(points);
+    console.log(`\n  Bulk Load ${formatNumber(size, 0)} Points: ${formatTime(performance.now() - loadStart)}`);
+
+    const boxResult = await benchmark(`Box Query 1° x 1° (${formatNumber(size, 0)} points)`, 1000, () => {
+      const [lng, lat] = randomPoint().coordinates;
+      index.queryWithin([lng, lat, lng + 1, lat + 1]);
+    }, 100);
+    results.push(boxResult);
+    printResult(boxResult);
+
+    const nearestResult = await benchmark(`Nearest 10 (${formatNumber(size, 0)} points)`, 1000, () => {
+      index.findNearest(randomPoint(), Infinity, 10);
+    }, 100);
+    results.push(nearestResult);
+    printResult(nearestResult);
+    nearestTimes.push(nearestResult.averageTime);
+
+    const scanResult = await benchmark(`Linear Scan Nearest 1 (${formatNumber(size, 0)} points)`, 10, () => {
+      const origin = randomPoint().coordinates;
+      let best = Infinity;
+      for (const { geometry } of points) {
+        best = Math.min(best, GeospatialEngine.haversineDistance(origin, geometry.coordinates));
+      }
+    }, 1);
+    results.push(scanResult);
+    printResult(scanResult);
+  }
+
+  const growth = nearestTimes[nearestTimes.length - 1] / nearestTimes[0];
+  console.log(`\n  Nearest-10 time grew ${growth.toFixed(1)}x for ${sizes[sizes.length - 1] / sizes[0]}x the points`);
+
+  return results;
+}
+
 /**
  * Vector Operations Benchmarks
  */
@@ -481,6 +535,14 @@ export async function runBenchmarks(): Promise<BenchmarkSuite[]> {
       totalTime: indexResults.reduce((sum, r) => sum + r.totalTime, 0)
     });
 
+    // Geospatial index
+    const geoResults = await benchmarkGeospatialIndex();
+    suites.push({
+      name: 'Geospatial Index',
+      results: geoResults,
+      totalTime: geoResults.reduce((sum, r) => sum + r.totalTime, 0)
+    });
+
     // Vector operations
     const vectorResults = await benchmarkVectorOperations();
     suites.push({
@@ -3,10 +3,29 @@ import {
   ChangeStreamOptions,
   ChangeStreamListener,
   EventFilter,
-  Document
+  Document,
+  GeofenceDefinition,
+  GeofenceEvent,
+  GeofenceListenerOptions,
+  GeoWithinQuery
 } from './types';
-import { generateId } from './utils';
+import { generateId, deepEqual } from './utils';
 import { logger } from './logger';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { GeospatialEngine } from './geospatial-engine';
+
+const EARTH_RADIUS = 6371e3; // Meters
+
+/**
+ * A registered geofence, with the time each document inside it entered and whether its
+ * dwell event was emitted
+ */
+interface Geofence {
+  definition: GeofenceDefinition;
+  region: GeoWithinQuery;
+  entered: Map<string, { since: number; dwelled: boolean }>;
+}
 
 export class ChangeStreamsManager {
   private listeners = new Map<string, ChangeStreamListener>();
@@ -15,6 +34,8 @@ export class ChangeStreamsManager {
   private maxPersistentEvents = 10000;
   private eventFilters = new Map<string, EventFilter[]>();
   private resumeTokens = new Map<string, string>();
+  private geofences = new Map<string, Map<string, Geofence>>(); // By collection, then name
+  private geofenceListeners = new Map<string, { options: GeofenceListenerOptions; callback: (event: GeofenceEvent) => void }>();
 
   /**
    * Add a change stream listener
@@ -67,6 +88,8 @@ export class ChangeStreamsManager {
    * Emit a change event to all matching listeners
    */
   emit(event: ChangeEvent): void {
+    this.emitGeofenceEvents(event);
+
     // Store event if persistence is enabled for any listener
     const needsPersistence = Array.from(this.listeners.values()).some(
       listener => listener.options.persistent
@@ -96,6 +119,82 @@ export class ChangeStreamsManager {
     }
   }
 
+  /**
+   * Register a named geofence on a collection
+   * Inserts and updates that move a document's location across the region's boundary emit
+   * `enter` or `exit`; a move that stays inside emits `dwell` once per stay, when the document has
+   * been inside for `dwellTime` ms. Events follow writes: a document that stops moving emits nothing.
+   *
+   * @throws ValidationError if the definition is invalid or the name is taken on the collection
+   */
+  addGeofence(definition: GeofenceDefinition): void {
+    const invalid = (reason: string) => new ValidationError(ERROR_MESSAGES.GEOFENCE_INVALID(reason), 'geofence', definition);
+    if (typeof definition !== 'object' || definition === null) {
+      throw invalid('expected an object with name, collection, field and region');
+    }
+    for (const option of ['name', 'collection', 'field'] as const) {
+      if (typeof definition[option] !== 'string' || definition[option] === '') {
+        throw invalid(`${option} must be a non-empty string`);
+      }
+    }
+    const { dwellTime = 0 } = definition;
+    if (typeof dwellTime !== 'number' || !Number.isFinite(dwellTime) || dwellTime < 0) {
+      throw invalid('dwellTime must be a non-negative number of milliseconds');
+    }
+
+    const fences = this.geofences.get(definition.collection) ?? new Map<string, Geofence>();
+    if (fences.has(definition.name)) {
+      throw new ValidationError(ERROR_MESSAGES.GEOFENCE_EXISTS(definition.name, definition.collection), 'name', definition.name);
+    }
+
+    fences.set(definition.name, { definition: { ...definition }, region: this.geofenceRegion(definition), entered: new Map() });
+    this.geofences.set(definition.collection, fences);
+    logger.info('Geofence added', { name: definition.name, collection: definition.collection, field: definition.field });
+  }
+
+  /**
+   * Remove a geofence
+   */
+  removeGeofence(collection: string, name: string): boolean {
+    const fences = this.geofences.get(collection);
+    if (!fences?.delete(name)) {
+      return false;
+    }
+    if (fences.size === 0) {
+      this.geofences.delete(collection);
+    }
+    logger.info('Geofence removed', { name, collection });
+    return true;
+  }
+
+  /**
+   * Get registered geofences, optionally of one collection
+   */
+  getGeofences(collection?: string): GeofenceDefinition[] {
+    const fences = collection ? [this.geofences.get(collection) ?? new Map<string, Geofence>()] : Array.from(this.geofences.values());
+    return fences.flatMap(byName => Array.from(byName.values(), ({ definition }) => ({ ...definition })));
+  }
+
+  /**
+   * Subscribe to geofence events, optionally of one collection, geofence or event type
+   */
+  addGeofenceListener(options: GeofenceListenerOptions, callback: (event: GeofenceEvent) => void): string {
+    if (this.geofenceListeners.size >= this.maxListeners) {
+      throw new Error('Maximum number of change stream listeners exceeded');
+    }
+
+    const listenerId = generateId();
+    this.geofenceListeners.set(listenerId, { options, callback });
+    return listenerId;
+  }
+
+  /**
+   * Remove a geofence listener
+   */
+  removeGeofenceListener(listenerId: string): boolean {
+    return this.geofenceListeners.delete(listenerId);
+  }
+
   /**
    * Check if an event matches a listener's criteria
    */
@@ -172,6 +271,8 @@ export class ChangeStreamsManager {
     listenersByCollection: Record<string, number>;
     persistentEventsCount: number;
     activeFilters: number;
+    geofences: number;
+    geofenceListeners: number;
   } {
     const listenersByCollection: Record<string, number> = {};
     let persistentEventsCount = 0;
@@ -189,7 +290,9 @@ export class ChangeStreamsManager {
       totalListeners: this.listeners.size,
       listenersByCollection,
       persistentEventsCount,
-      activeFilters: Array.from(this.eventFilters.values()).flat().length
+      activeFilters: Array.from(this.eventFilters.values()).flat().length,
+      geofences: Array.from(this.geofences.values()).reduce((total, fences) => total + fences.size, 0),
+      geofenceListeners: this.geofenceListeners.size
     };
   }
 
@@ -262,6 +365,94 @@ export class ChangeStreamsManager {
   }
 
   // Private helper methods
+
+  /**
+   * `$geoWithin` operand of a geofence region
+   *
+   * @throws ValidationError if the region is not a GeoJSON polygon or a circle
+   */
+  private geofenceRegion({ region }: GeofenceDefinition): GeoWithinQuery {
+    const invalid = () =>
+      new ValidationError(ERROR_MESSAGES.GEOFENCE_INVALID('region must be a GeoJSON Polygon or MultiPolygon, or { center, radius } in meters'), 'region', region);
+    if (typeof region !== 'object' || region === null) {
+      throw invalid();
+    }
+
+    if ('center' in region) {
+      const { center, radius } = region;
+      if (typeof radius !== 'number' || !Number.isFinite(radius) || radius < 0 || GeospatialEngine.toGeometry(center)?.type !== 'Point') {
+        throw invalid();
+      }
+      return { $centerSphere: [center, radius / EARTH_RADIUS] };
+    }
+
+    const geometry = GeospatialEngine.parseGeometry(region, 'region');
+    if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') {
+      throw invalid();
+    }
+    return { $geometry: geometry };
+  }
+
+  /**
+   * Compare the location before and after a write with the geofences of its collection
+   */
+  private emitGeofenceEvents(event: ChangeEvent): void {
+    const fences = this.geofences.get(event.collection);
+    if (!fences) return;
+
+    const docId = String(event.document._id);
+    for (const fence of fences.values()) {
+      if (event.type === 'remove') {
+        fence.entered.delete(docId);
+        continue;
+      }
+
+      const { field, name, dwellTime = 0 } = fence.definition;
+      const location = GeospatialEngine.locate(event.document, field);
+      const previousLocation = event.oldDocument ? GeospatialEngine.locate(event.oldDocument, field) : null;
+      if (event.type === 'update' && deepEqual(location, previousLocation)) {
+        continue;
+      }
+
+      const wasInside = previousLocation !== null && GeospatialEngine.matches(previousLocation, '$geoWithin', fence.region);
+      const isInside = location !== null && GeospatialEngine.matches(location, '$geoWithin', fence.region);
+      const geofenceEvent = { geofence: name, collection: event.collection, document: event.document, location, previousLocation, timestamp: event.timestamp };
+
+      if (isInside && !wasInside) {
+        fence.entered.set(docId, { since: event.timestamp, dwelled: false });
+        this.dispatchGeofenceEvent({ type: 'enter', ...geofenceEvent });
+      } else if (wasInside && !isInside) {
+        fence.entered.delete(docId);
+        this.dispatchGeofenceEvent({ type: 'exit', ...geofenceEvent });
+      } else if (isInside) {
+        // Inside since before the geofence was added: time the stay from now
+        const stay = fence.entered.get(docId) ?? { since: event.timestamp, dwelled: false };
+        fence.entered.set(docId, stay);
+        const elapsed = event.timestamp - stay.since;
+        // One dwell event per stay; the next comes after an exit and a new enter
+        if (!stay.dwelled && elapsed >= dwellTime) {
+          stay.dwelled = true;
+          this.dispatchGeofenceEvent({ type: 'dwell', ...geofenceEvent, dwellTime: elapsed });
+        }
+      }
+    }
+  }
+
+  private dispatchGeofenceEvent(event: GeofenceEvent): void {
+    for (const [listenerId, { options, callback }] of this.geofenceListeners) {
+      if ((options.collection && options.collection !== event.collection) ||
+          (options.geofence && options.geofence !== event.geofence) ||
+          (options.events && !options.events.includes(event.type))) {
+        continue;
+      }
+      try {
+        callback(event);
+      } catch (error) {
+        logger.warn('Geofence listener threw an error', { listenerId }, error as Error);
+      }
+    }
+  }
+
   private storePersistentEvent(event: ChangeEvent): void {
     const collection = event.collection;
     if (!this.persistentEvents.has(collection)) {
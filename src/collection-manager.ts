@@ -6,7 +6,7 @@
  */
 
 import { Collection } from './collection';
-import { PersistenceAdapter } from './types';
+import { PersistenceAdapter, ChangeEvent } from './types';
 import { globalConfig } from './config';
 import { ValidationError, ResourceLimitError } from './errors';
 import { CollectionValidator } from './validators';
@@ -17,9 +17,21 @@ export class CollectionManager {
   private collections: Map<string, Collection> = new Map();
   private accessOrder: string[] = []; // Simple LRU tracking
   private readonly MAX_CACHE_SIZE = 100; // Limit cache size to prevent memory leaks
+  private changeCallback?: (event: ChangeEvent) => void;
 
   constructor(private adapter?: PersistenceAdapter) {}
 
+  /**
+   * Set the change event callback of every collection, including those created later
+   * (used by Monarch for change streams)
+   */
+  setChangeCallback(callback: (event: ChangeEvent) => void): void {
+    this.changeCallback = callback;
+    for (const collection of this.collections.values()) {
+      collection.setChangeCallback(callback);
+    }
+  }
+
   /**
    * Create and register a new collection
    */
@@ -46,6 +58,13 @@ export class CollectionManager {
     }
 
     const collection = new Collection(name);
+    // $lookup reads sibling collections; $out and $merge create their target if needed
+    collection.setCollectionResolver((other, options = {}) =>
+      this.collections.get(other) ?? (options.create ? this.createCollection(other) : undefined)
+    );
+    if (this.changeCallback) {
+      collection.setChangeCallback(this.changeCallback);
+    }
     this.collections.set(name, collection);
 
     return collection;
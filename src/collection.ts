@@ -1,7 +1,15 @@
-import { Document, Query, UpdateOperation, ChangeEvent } from './types';
-import { generateSequentialId, isValidId } from './utils';
+import { Document, Query, UpdateOperation, ChangeEvent, IndexOptions, IndexSpecification, AggregateOptions, TextSearchOptions, Point, GeoNearStage, Geometry } from './types';
+import { generateSequentialId, isValidId, pathsOverlap, compareBySort, indexKeys, isMultikeyPath, isTextScoreMeta } from './utils';
+import { Cursor, CursorTextSearch } from './cursor';
+import { SortedIndex, rangeFromCondition, multikeyRange } from './sorted-index';
 import { QueryEngine } from './query-engine';
+import { AdvancedIndexingEngine, AdvancedIndexInfo } from './advanced-indexing';
+import { UpdateOperatorEngine } from './update-operators';
 import { QueryCache } from './query-cache';
+import { QueryProfiler } from './query-profiler';
+import { AggregationEngine } from './aggregation-engine';
+import { FullTextSearchEngine, TextIndexDefinition } from './full-text-search';
+import { GeospatialEngine, GeospatialIndex, GeoNearMatch } from './geospatial-engine';
 import { globalMonitor } from './performance-monitor';
 import { globalConcurrencyManager } from './concurrency-manager';
 import { CollectionValidator, DocumentValidator, QueryValidator } from './validators';
@@ -9,7 +17,11 @@ import { ValidationError, ResourceLimitError, DataIntegrityError } from './error
 import { LIMITS, ERROR_MESSAGES } from './constants';
 import { logger } from './logger';
 import { QueryPlanCache, fastClone, fastMerge, deepMerge, globalProfiler } from './performance-optimizer';
-import { BulkInsertOptions, BulkInsertResult, BulkDeleteOptions, BulkDeleteResult } from './types';
+import {
+  BulkInsertOptions, BulkInsertResult, BulkDeleteOptions, BulkDeleteResult,
+  FindOptions, UpdateOptions, FindOneAndUpdateOptions, FindOneAndDeleteOptions, SortSpecification,
+  ExplainOptions, ExplainResult, ExplainPlan, ExplainVerbosity, PlanExecutionStats, AggregationStage, AggregationPipeline
+} from './types';
 
 export class Collection {
   // Use Map for O(1) document access and removal
@@ -18,9 +30,14 @@ export class Collection {
   private queryCache: QueryCache = new QueryCache();
   private queryPlanCache: QueryPlanCache = new QueryPlanCache(1000); // Cache query plans
   private queryEngine: QueryEngine = new QueryEngine(); // Reuse engine instance
+  private advancedIndexes: AdvancedIndexingEngine = new AdvancedIndexingEngine(); // Compound / unique / sparse / TTL indexes
+  private textIndexes: FullTextSearchEngine = new FullTextSearchEngine(); // At most one text index, for $text
+  private geoIndexes: Map<string, { field: string; index: GeospatialIndex }> = new Map(); // 2dsphere indexes by name, for geo operators and $geoNear
+  private queryProfiler: QueryProfiler = new QueryProfiler(); // Fed by explain() with executed plans
   private nextId: number = 0;
   private readonly maxDocuments: number = LIMITS.MAX_DOCUMENTS_PER_COLLECTION;
   private changeCallback?: (event: ChangeEvent) => void;
+  private collectionResolver?: (name: string, options?: { create?: boolean }) => Collection | undefined; // Sibling collections, for $lookup, $out and $merge
   
   // Pre-allocated arrays for batch operations (reuse to reduce allocations)
   private batchArrayPool: Document[][] = [];
@@ -36,6 +53,14 @@ export class Collection {
     this.changeCallback = callback;
   }
 
+  /**
+   * Set how other collections of the same database are found, or created with `create`
+   * (used by CollectionManager for $lookup, $out and $merge)
+   */
+  setCollectionResolver(resolver: (name: string, options?: { create?: boolean }) => Collection | undefined): void {
+    this.collectionResolver = resolver;
+  }
+
   /**
    * Calculate collection size in bytes
    * Uses DocumentValidator for consistency
@@ -128,7 +153,7 @@ export class Collection {
       this.checkMemoryLimits();
 
       this.updateIndicesForDocuments(inserted);
-      this.invalidateCacheForIndexedFields();
+      this.invalidateCacheForDocuments(inserted);
 
       // Emit change events (optimized: batch timestamp)
       const timestamp = Date.now();
@@ -300,7 +325,7 @@ export class Collection {
 
       // Batch index updates for better performance
       this.updateIndicesForDocuments(batchInserted);
-      this.invalidateCacheForIndexedFields();
+      this.invalidateCacheForDocuments(batchInserted);
 
       // Check memory limits periodically
       if (batchInserted.length > 0) {
@@ -335,9 +360,14 @@ export class Collection {
     }
   }
 
+  /**
+   * Store a batch of documents, all or nothing
+   * IDs and unique index constraints are checked for the whole batch before any document is stored
+   */
   private storeDocuments(docs: Document[]): Document[] {
     // Pre-allocate array with known size for better performance
     const inserted: Document[] = new Array(docs.length);
+    const batchIds = new Set<string>();
     let insertIndex = 0;
 
     for (const document of docs) {
@@ -365,7 +395,7 @@ export class Collection {
         DocumentValidator.validateId(docId);
       }
 
-      if (this.documents.has(docId)) {
+      if (this.documents.has(docId) || batchIds.has(docId)) {
         throw new ValidationError(
           ERROR_MESSAGES.DOCUMENT_ID_EXISTS(docId),
           'documentId',
@@ -373,10 +403,30 @@ export class Collection {
         );
       }
 
-      this.documents.set(docId, docToInsert);
+      batchIds.add(docId);
       inserted[insertIndex++] = docToInsert;
     }
 
+    this.checkGeoLocations(inserted.slice(0, insertIndex));
+
+    // Add to advanced indexes first: a unique violation rolls back the batch's earlier entries
+    for (let i = 0; i < insertIndex; i++) {
+      try {
+        this.advancedIndexes.insertDocument(inserted[i]._id as string, inserted[i]);
+      } catch (error) {
+        for (let j = i - 1; j >= 0; j--) {
+          this.advancedIndexes.removeDocument(inserted[j]._id as string, inserted[j]);
+        }
+        throw error;
+      }
+    }
+
+    for (let i = 0; i < insertIndex; i++) {
+      this.documents.set(inserted[i]._id as string, inserted[i]);
+    }
+    this.updateTextIndex(inserted.slice(0, insertIndex));
+    this.updateGeoIndexes(inserted.slice(0, insertIndex));
+
     // Return exact size array (no unused slots)
     return inserted.slice(0, insertIndex);
   }
@@ -388,8 +438,7 @@ export class Collection {
       const docId = doc._id as string;
 
       for (const [fieldName] of this.indices) {
-        const value = doc[fieldName];
-        if (value !== undefined) {
+        for (const value of this.indexKeysFor(doc, fieldName)) {
           indexUpdates.push({ field: fieldName, value, docId });
         }
       }
@@ -398,6 +447,29 @@ export class Collection {
     this.batchUpdateIndices(indexUpdates);
   }
 
+  /**
+   * Keys a document adds to the index on a field; marks the index multikey on array values
+   */
+  private indexKeysFor(doc: Document, field: string): any[] {
+    const indexMap = this.indices.get(field);
+    if (indexMap instanceof SortedIndex && !indexMap.multikey && isMultikeyPath(doc, field)) {
+      indexMap.multikey = true;
+    }
+    return indexKeys(doc, field);
+  }
+
+  /**
+   * Invalidate cached queries a newly inserted document could now match
+   * (any query on one of its fields, not only indexed ones)
+   */
+  private invalidateCacheForDocuments(docs: Document[]): void {
+    const fields = new Set<string>();
+    for (const doc of docs) {
+      Object.keys(doc).forEach(field => fields.add(field));
+    }
+    this.invalidateCacheForPaths(fields);
+  }
+
   private invalidateCacheForIndexedFields(): void {
     for (const fieldName of this.indices.keys()) {
       this.queryCache.invalidateByField(fieldName);
@@ -427,15 +499,29 @@ export class Collection {
         return docs;
       }
 
+      // $text is answered by the text index (not cached: results are ordered by relevance)
+      const text = this.textSearch(query);
+      if (text) {
+        globalMonitor.end('find');
+        return text.documents;
+      }
+
+      // Likewise geo conditions with a 2dsphere index, and $near (ordered by distance)
+      const geo = this.geoSearch(query);
+      if (geo) {
+        globalMonitor.end('find');
+        return geo;
+      }
+
       // Check cache first
       const cachedResult = this.queryCache.get(query);
       if (cachedResult) {
         globalMonitor.end('find');
-        return cachedResult;
+        return this.resolveCurrentDocuments(cachedResult);
       }
 
       // Execute query (reuse engine instance for better performance)
-      const result = this.queryEngine.execute(this.documents, this.indices, query);
+      const result = this.queryEngine.execute(this.documents, this.indices, query, this.advancedIndexes);
 
       // Cache the result using encapsulated method
       this.cacheQueryResult(query, result);
@@ -448,21 +534,468 @@ export class Collection {
     }
   }
 
+  /**
+   * Explain how find() answers a query
+   * Reports the chosen access path (index names or a collection scan), the rejected
+   * candidate plans and whether the result is cached. Unless only planning, the query is
+   * executed (the cache is neither read nor filled) and keys examined, documents examined,
+   * documents returned and per-stage timings are reported and recorded in the query profiler.
+   *
+   * @param query - Query to explain
+   * @param options - 'queryPlanner' (default), 'executionStats' or 'allPlansExecution'
+   * @throws ValidationError if the query or verbosity is invalid
+   */
+  explain(query: Query = {}, options: ExplainOptions = {}): ExplainResult {
+    const verbosity = options.verbosity ?? 'queryPlanner';
+    if (!['queryPlanner', 'executionStats', 'allPlansExecution'].includes(verbosity)) {
+      throw new ValidationError(ERROR_MESSAGES.EXPLAIN_VERBOSITY_INVALID(verbosity), 'verbosity', verbosity);
+    }
+
+    const cacheHit = Object.keys(query).length > 0 && this.queryCache.has(query);
+    const explanation = this.explainIndexSearch(query, verbosity) ??
+      this.queryEngine.explain(this.documents, this.indices, query, this.advancedIndexes, verbosity);
+    const stats = explanation.executionStats;
+
+    if (stats) {
+      this.queryProfiler.profileQuery(
+        query,
+        stats.executionTimeMillis,
+        stats.docsExamined,
+        stats.nReturned,
+        explanation.winningPlan.indexes
+      );
+    }
+
+    return { collection: this.name, ...explanation, cacheHit };
+  }
+
+  /**
+   * Explain a query that find() hands to the text or a 2dsphere index rather than the query engine
+   * Keys examined are the index matches and documents examined those fetched to check the
+   * rest of the query.
+   *
+   * @returns null if find() would search neither
+   */
+  private explainIndexSearch(query: Query, verbosity: ExplainVerbosity): Omit<ExplainResult, 'collection' | 'cacheHit'> | null {
+    const winningPlan = this.indexSearchPlan(query);
+    if (!winningPlan) {
+      return null;
+    }
+    QueryValidator.validate(query);
+
+    const explanation: Omit<ExplainResult, 'collection' | 'cacheHit'> = { query, verbosity, winningPlan, rejectedPlans: [] };
+    if (verbosity === 'queryPlanner') {
+      return explanation;
+    }
+
+    const start = performance.now();
+    const examined = { keysExamined: 0, docsExamined: 0 };
+    const nReturned = winningPlan.stage === 'TEXT'
+      ? this.textSearch(query, examined)!.documents.length
+      : this.geoSearch(query, examined)!.length;
+    const executionTimeMillis = performance.now() - start;
+
+    explanation.executionStats = {
+      ...examined,
+      nReturned,
+      executionTimeMillis,
+      stages: [{ stage: winningPlan.stage, executionTimeMillis }]
+    };
+    if (verbosity === 'allPlansExecution') {
+      explanation.allPlansExecution = [];
+    }
+    return explanation;
+  }
+
+  /**
+   * Access path of a query answered by textSearch() or geoSearch(), in the order find() tries them
+   * `$near` without a 2dsphere index measures every location, a collection scan
+   */
+  private indexSearchPlan(query: Query): ExplainPlan | null {
+    const [textIndex] = this.textIndexes.getIndexes();
+    if (textIndex && query.$text !== undefined) {
+      return { stage: 'TEXT', indexes: [textIndex.name] };
+    }
+
+    const geo = this.geoCondition(query);
+    if (!geo) {
+      return null;
+    }
+    if (!geo.index) {
+      return { stage: 'COLLSCAN', indexes: [] };
+    }
+    return { stage: geo.near ? 'GEO_NEAR_2DSPHERE' : 'IXSCAN', indexes: [geo.index] };
+  }
+
+  /**
+   * Query profiler holding the executed plans reported by explain()
+   * Its suggestIndexes() is based on the access paths queries actually took
+   */
+  getQueryProfiler(): QueryProfiler {
+    return this.queryProfiler;
+  }
+
+  /**
+   * Map cached documents to their current versions
+   * Updates replace document instances, so cached entries may hold outdated snapshots;
+   * membership changes are handled by path-based cache invalidation
+   */
+  private resolveCurrentDocuments(cached: Document[]): Document[] {
+    const current: Document[] = [];
+    for (const doc of cached) {
+      const latest = this.documents.get(doc._id as string);
+      if (latest) {
+        current.push(latest);
+      }
+    }
+    return current;
+  }
+
   /**
    * Async version of find with options
+   * Sort, skip and limit are applied while streaming through a cursor
    */
-  async findAsync(query?: Query, options?: { limit?: number; skip?: number }): Promise<Document[]> {
-    const results = this.find(query);
-    let filtered = results;
+  async findAsync(query?: Query, options: FindOptions = {}): Promise<Document[]> {
+    const cursor = this.findCursor(query);
+    if (options.sort) cursor.sort(options.sort);
+    if (options.projection) cursor.project(options.projection);
+    if (options.skip) cursor.skip(options.skip);
+    if (options.limit) cursor.limit(options.limit);
+    return cursor.toArray();
+  }
+
+  /**
+   * Find documents matching the query through a lazily evaluated cursor
+   * Supports chained sort, projection, skip, limit and async iteration
+   */
+  findCursor(query: Query = {}): Cursor {
+    if (Object.keys(query).length > 0) {
+      QueryValidator.validate(query);
+    }
+
+    return new Cursor({
+      scan: q => this.scanDocuments(q),
+      indexScan: (q, field, direction) => this.scanIndexInOrder(q, field, direction),
+      textSearch: q => this.textSearch(q) ?? undefined
+    }, query);
+  }
+
+  /**
+   * Yield matching documents without materializing the result
+   * Uses the query engine's index plan (equality, $in or range) when one applies
+   */
+  private *scanDocuments(query: Query): Generator<Document> {
+    if (Object.keys(query).length === 0) {
+      yield* this.documents.values();
+      return;
+    }
+
+    const text = this.textSearch(query);
+    if (text) {
+      yield* text.documents;
+      return;
+    }
+
+    const geo = this.geoSearch(query);
+    if (geo) {
+      yield* geo;
+      return;
+    }
+
+    const candidates = this.queryEngine.planIndexScan(this.indices, query, this.advancedIndexes);
+    if (candidates) {
+      for (const docId of candidates) {
+        const doc = this.documents.get(docId);
+        if (doc && this.queryEngine.matches(doc, query)) {
+          yield doc;
+        }
+      }
+      return;
+    }
+
+    for (const doc of this.documents.values()) {
+      if (this.queryEngine.matches(doc, query)) {
+        yield doc;
+      }
+    }
+  }
+
+  /**
+   * Answer the top-level `$text` of a query with the text index
+   * The other conditions of the query filter the documents found
+   *
+   * @returns Matching documents by descending score with the score of each by _id and their
+   *   highlights on demand, or null if the query has no `$text` or the collection no text index
+   *   (`$text` then matches words anywhere in a document, without scores)
+   * @param examined - Counts index matches and documents fetched, for explain()
+   * @throws ValidationError if `$text` has no `$search` string
+   */
+  private textSearch(
+    query: Query,
+    examined?: Pick<PlanExecutionStats, 'keysExamined' | 'docsExamined'>
+  ): (CursorTextSearch & { documents: Document[] }) | null {
+    const [index] = this.textIndexes.getIndexes();
+    if (!index || query.$text === undefined) {
+      return null;
+    }
+
+    const operand = query.$text;
+    if (typeof operand !== 'object' || operand === null || typeof operand.$search !== 'string') {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$text'), '$text', operand);
+    }
+
+    const rest: Query = { ...query };
+    delete rest.$text;
+    const options: TextSearchOptions = {
+      language: operand.$language,
+      caseSensitive: operand.$caseSensitive,
+      diacriticSensitive: operand.$diacriticSensitive,
+      boosts: operand.$boosts,
+      highlight: operand.$highlight
+    };
+
+    const documents: Document[] = [];
+    const scores = new Map<string, number>();
+    for (const { document, score } of this.textIndexes.search(index.name, operand.$search, options)) {
+      const doc = this.documents.get(document._id as string);
+      if (examined) {
+        examined.keysExamined++;
+        if (doc) examined.docsExamined++;
+      }
+      if (doc && this.queryEngine.matches(doc, rest)) {
+        documents.push(doc);
+        scores.set(doc._id as string, score);
+      }
+    }
+    return {
+      documents,
+      scores,
+      highlights: doc => this.textIndexes.highlight(index.name, operand.$search, doc, options)
+    };
+  }
+
+  /**
+   * Answer the geo condition of a query with a 2dsphere index
+   * `$near` and `$nearSphere` walk the index outward from their point, so documents come closest
+   * first (without an index every location is measured). `$geoWithin` and `$geoIntersects` on an
+   * indexed field only look at the documents whose bounding box overlaps the region's.
+   * The whole query filters the documents found.
+   *
+   * @param examined - Counts index matches and documents fetched, for explain()
+   * @returns Matching documents, or null if the query has neither `$near`/`$nearSphere` nor
+   *   another geo condition on an indexed field
+   * @throws ValidationError if a geo operand is malformed
+   */
+  private geoSearch(query: Query, examined?: Pick<PlanExecutionStats, 'keysExamined' | 'docsExamined'>): Document[] | null {
+    const geo = this.geoCondition(query);
+    if (!geo) {
+      return null;
+    }
+
+    const { field, operand } = geo;
+    if (geo.near) {
+      const { point, minDistance, maxDistance } = GeospatialEngine.nearQuery(geo.operator, operand);
+      return this.nearestDocuments(field, point, minDistance, maxDistance, examined)
+        .map(({ document }) => document)
+        .filter(doc => this.queryEngine.matches(doc, query));
+    }
+
+    const index = this.geoIndexOn(field)!;
+    const documents: Document[] = [];
+    for (const docId of index.queryWithin(GeospatialEngine.queryBounds(geo.operator, operand))) {
+      const doc = this.documents.get(docId);
+      if (examined) {
+        examined.keysExamined++;
+        if (doc) examined.docsExamined++;
+      }
+      if (doc && this.queryEngine.matches(doc, query)) {
+        documents.push(doc);
+      }
+    }
+    return documents;
+  }
+
+  /**
+   * The geo condition geoSearch() answers: `$near`/`$nearSphere` on any field, otherwise the
+   * first other geo condition on a 2dsphere-indexed field
+   *
+   * @returns The condition with the name of its field's 2dsphere index, or null if there is none
+   */
+  private geoCondition(query: Query): ({ field: string; operand: any; index?: string } & (
+    { near: true; operator: '$near' | '$nearSphere' } | { near: false; operator: '$geoWithin' | '$geoIntersects' }
+  )) | null {
+    const conditions = Object.entries(query).filter(([field, condition]) =>
+      !field.startsWith('$') && typeof condition === 'object' && condition !== null && !Array.isArray(condition) &&
+      GeospatialEngine.OPERATORS.some(operator => operator in condition));
+
+    const near = conditions.find(([, condition]) => '$near' in condition || '$nearSphere' in condition);
+    if (near) {
+      const [field, condition] = near;
+      const operator = '$near' in condition ? '$near' : '$nearSphere';
+      return { field, operator, operand: condition[operator], near: true, index: this.geoIndexNameOn(field) };
+    }
+
+    for (const [field, condition] of conditions) {
+      const index = this.geoIndexNameOn(field);
+      if (!index) continue;
+
+      const operator = '$geoWithin' in condition ? '$geoWithin' : '$geoIntersects';
+      return { field, operator, operand: condition[operator], near: false, index };
+    }
+    return null;
+  }
+
+  /**
+   * Documents with a location in `field`, closest to a point first
+   * Uses the field's 2dsphere index if it has one
+   *
+   * @param minDistance - In meters
+   * @param maxDistance - In meters
+   * @param examined - Counts index matches and documents fetched, for explain()
+   */
+  private nearestDocuments(
+    field: string,
+    origin: Point,
+    minDistance: number,
+    maxDistance: number,
+    examined?: Pick<PlanExecutionStats, 'keysExamined' | 'docsExamined'>
+  ): GeoNearMatch[] {
+    const index = this.geoIndexOn(field);
+    if (!index) {
+      if (examined) examined.docsExamined += this.documents.size;
+      return GeospatialEngine.nearest(this.documents.values(), field, origin, minDistance, maxDistance);
+    }
+
+    const matches: GeoNearMatch[] = [];
+    for (const { docId, distance } of index.findNearest(origin, maxDistance, Infinity)) {
+      const document = this.documents.get(docId);
+      if (examined) {
+        examined.keysExamined++;
+        if (document) examined.docsExamined++;
+      }
+      if (document && distance >= minDistance) {
+        matches.push({ document, distance, location: GeospatialEngine.locate(document, field)! });
+      }
+    }
+    return matches;
+  }
+
+  private geoIndexOn(field: string): GeospatialIndex | undefined {
+    const name = this.geoIndexNameOn(field);
+    return name === undefined ? undefined : this.geoIndexes.get(name)!.index;
+  }
 
-    if (options?.skip) {
-      filtered = filtered.slice(options.skip);
+  private geoIndexNameOn(field: string): string | undefined {
+    for (const [name, geoIndex] of this.geoIndexes) {
+      if (geoIndex.field === field) return name;
     }
-    if (options?.limit) {
-      filtered = filtered.slice(0, options.limit);
+    return undefined;
+  }
+
+  /**
+   * Check that documents hold valid GeoJSON (or nothing) in every 2dsphere-indexed field
+   *
+   * @throws ValidationError naming the field and what is wrong with its value
+   */
+  private checkGeoLocations(documents: Document[]): void {
+    for (const { field } of this.geoIndexes.values()) {
+      documents.forEach(doc => GeospatialEngine.readLocation(doc, field));
     }
+  }
 
-    return filtered;
+  /**
+   * (Re-)index document locations in the 2dsphere indexes; documents without one are left out
+   */
+  private updateGeoIndexes(documents: Document[]): void {
+    for (const { field, index } of this.geoIndexes.values()) {
+      for (const doc of documents) {
+        const geometry = GeospatialEngine.readLocation(doc, field);
+        if (geometry) {
+          index.insert(doc._id as string, geometry);
+        } else {
+          index.remove(doc._id as string);
+        }
+      }
+    }
+  }
+
+  /**
+   * Bulk load the locations of all documents into an empty 2dsphere index
+   *
+   * @throws ValidationError if a document holds invalid GeoJSON in the field
+   */
+  private loadGeoIndex(field: string, index: GeospatialIndex): void {
+    const locations: Array<{ docId: string; geometry: Geometry }> = [];
+    for (const [docId, doc] of this.documents) {
+      const geometry = GeospatialEngine.readLocation(doc, field);
+      if (geometry) {
+        locations.push({ docId, geometry });
+      }
+    }
+    index.load(locations);
+  }
+
+  /**
+   * (Re-)index documents in the text index
+   */
+  private updateTextIndex(documents: Document[]): void {
+    for (const { name } of this.textIndexes.getIndexes()) {
+      for (const doc of documents) {
+        this.textIndexes.updateIndex(name, doc);
+      }
+    }
+  }
+
+  /**
+   * Yield matching documents grouped by value of an indexed field, groups in sort order
+   * Documents without the field sort before all values (after them when descending).
+   * A range condition on the same field narrows the walk to that range.
+   * A document with an array value is yielded once, at its first key in walk order.
+   *
+   * @returns null if the field has no sorted index
+   */
+  private scanIndexInOrder(query: Query, field: string, direction: 1 | -1): Iterable<Document[]> | null {
+    const indexMap = this.indices.get(field);
+    if (!(indexMap instanceof SortedIndex) || (query.$text !== undefined && this.textIndexes.getIndexes().length > 0)) {
+      return null;
+    }
+
+    const hasConditions = Object.keys(query).length > 0;
+    const range = rangeFromCondition(query[field]);
+    const documents = this.documents;
+    const queryEngine = this.queryEngine;
+
+    const missing = function* (): Generator<Document[]> {
+      if (range) return; // A document without the field cannot satisfy a range
+      const group: Document[] = [];
+      for (const doc of documents.values()) {
+        if (indexKeys(doc, field).length === 0 && (!hasConditions || queryEngine.matches(doc, query))) {
+          group.push(doc);
+        }
+      }
+      if (group.length > 0) yield group;
+    };
+
+    return (function* (): Generator<Document[]> {
+      if (direction === 1) yield* missing();
+
+      const seen = new Set<string>();
+      const bounds = range && indexMap.multikey ? multikeyRange(range) : range;
+      for (const [, ids] of indexMap.range(bounds ?? {}, direction === -1)) {
+        const group: Document[] = [];
+        for (const docId of ids) {
+          if (seen.has(docId)) continue;
+          seen.add(docId);
+          const doc = documents.get(docId);
+          if (doc && (!hasConditions || queryEngine.matches(doc, query))) {
+            group.push(doc);
+          }
+        }
+        if (group.length > 0) yield group;
+      }
+
+      if (direction === -1) yield* missing();
+    })();
   }
 
   /**
@@ -497,64 +1030,234 @@ export class Collection {
     return Array.from(values);
   }
 
+  /**
+   * Run an aggregation pipeline over this collection
+   * A leading `$match` is answered by find(), so it uses indexes and the query cache, and a
+   * leading `$geoNear` by the 2dsphere index on its key (by default the only one);
+   * `$lookup` joins against other collections of the same database, and a final `$out` or
+   * `$merge` writes into one (created if missing) like insert() and update() would.
+   * Documents are streamed from the collection without being copied first.
+   *
+   * @param pipeline - Stages, as an array or `{ stages }`
+   * @param options - Memory budget of blocking stages and whether `$sort`/`$group` may spill to disk
+   * @returns Documents produced by the last stage (none after `$out` and `$merge`)
+   * @throws ResourceLimitError if a stage goes over the memory budget and cannot spill
+   */
+  async aggregate(pipeline: AggregationStage[] | AggregationPipeline, options: AggregateOptions = {}): Promise<Document[]> {
+    let stages = Array.isArray(pipeline) ? pipeline : pipeline?.stages;
+    if (!Array.isArray(stages)) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_PIPELINE_INVALID, 'pipeline', pipeline);
+    }
+
+    // The leading stage is taken off below, so check here that no other $geoNear would follow
+    const laterGeoNear = stages.slice(1).find(stage => '$geoNear' in stage);
+    if (laterGeoNear) {
+      throw new ValidationError(ERROR_MESSAGES.AGGREGATION_GEO_NEAR_NOT_FIRST, '$geoNear', laterGeoNear);
+    }
+
+    let input: Iterable<Document>;
+    if (stages.length > 0 && '$match' in stages[0]) {
+      input = this.find(stages[0].$match);
+      stages = stages.slice(1);
+    } else if (stages.length > 0 && '$geoNear' in stages[0]) {
+      input = this.geoNear(stages[0].$geoNear);
+      stages = stages.slice(1);
+    } else {
+      input = this.documents.values();
+    }
+
+    const result = await AggregationEngine.execute(input, { stages }, {
+      ...options,
+      resolveCollection: name => this.collectionResolver?.(name),
+      resolveOutputCollection: name => this.collectionResolver?.(name, { create: true })
+    });
+    return result.documents;
+  }
+
+  /**
+   * Documents of a leading `$geoNear` stage, closest first with their distance
+   *
+   * @throws ValidationError if the stage is malformed, or has no key while the collection does
+   *   not have exactly one 2dsphere index
+   */
+  private geoNear(spec: GeoNearStage): Document[] {
+    const { origin, minDistance, maxDistance } = GeospatialEngine.geoNearOptions(spec);
+    const indexed = Array.from(this.geoIndexes.values(), ({ field }) => field);
+    const key = spec.key ?? (indexed.length === 1 ? indexed[0] : undefined);
+    if (key === undefined) {
+      throw new ValidationError(
+        ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$geoNear', 'key is required unless the collection has exactly one 2dsphere index'),
+        '$geoNear',
+        spec
+      );
+    }
+
+    const query = spec.query ?? {};
+    if (Object.keys(query).length > 0) {
+      QueryValidator.validate(query);
+    }
+    const matches = this.nearestDocuments(key, origin, minDistance, maxDistance)
+      .filter(({ document }) => this.queryEngine.matches(document, query));
+    return GeospatialEngine.geoNearDocuments(matches, spec);
+  }
+
   /**
    * Create index (synchronous)
+   *
+   * Accepts a field name or a specification such as `{ a: 1, b: -1 }`. A single field without
+   * options gets a sorted value index; compound, unique, sparse and TTL indexes are kept by the
+   * advanced indexing engine and named like `a_1_b_-1` unless `options.name` is given.
+   * A TTL index (`expireAfterSeconds`) is on a single date field; see removeExpired().
+   * A text index (`{ title: 'text', body: 'text' }`, optionally with `weights`) answers `$text`
+   * queries; a collection has at most one. Its `defaultLanguage` (a language or registered
+   * TextAnalyzer) can be overridden per document by the field named in `languageOverride`.
+   * A 2dsphere index (`{ location: '2dsphere' }`) keeps GeoJSON or `[longitude, latitude]`
+   * locations in an R-tree for the geo query operators and `$geoNear`; documents without a
+   * location are left out, and writes of invalid GeoJSON to the field are rejected.
+   *
+   * @returns The index name
+   * @throws ValidationError if the specification, TTL, weights or language are invalid, a second text
+   *   index is requested, or a 2dsphere field holds invalid GeoJSON
+   * @throws DataIntegrityError if a unique index cannot be built over the existing documents
    */
-  createIndex(field: string, options?: { unique?: boolean }): void {
-    if (this.indices.has(field)) {
+  createIndex(spec: string | IndexSpecification, options: IndexOptions = {}): string {
+    const fields = typeof spec === 'string' ? [spec] : Object.keys(spec ?? {});
+    const directions = fields.map(field => (typeof spec === 'string' ? 1 : spec[field]));
+    const text = directions.length > 0 && directions.every(direction => direction === 'text');
+    const geo = fields.length === 1 && directions[0] === '2dsphere';
+    if (fields.length === 0 || (!text && !geo && directions.some(direction => direction !== 1 && direction !== -1))) {
+      throw new ValidationError(ERROR_MESSAGES.INDEX_SPEC_INVALID, 'indexSpecification', spec);
+    }
+
+    const ttl = options.expireAfterSeconds;
+    if (ttl !== undefined && (fields.length > 1 || typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl < 0)) {
+      throw new ValidationError(ERROR_MESSAGES.INDEX_TTL_INVALID, 'expireAfterSeconds', ttl);
+    }
+
+    const [textIndex] = this.textIndexes.getIndexes();
+    if (text && textIndex) {
+      throw new ValidationError(ERROR_MESSAGES.INDEX_TEXT_EXISTS(textIndex.name), 'indexSpecification', spec);
+    }
+
+    const advanced = fields.length > 1 || Boolean(options.unique || options.sparse) || ttl !== undefined;
+    const name = advanced || text || geo
+      ? options.name || fields.map((field, i) => `${field}_${directions[i]}`).join('_')
+      : fields[0];
+
+    if (this.indices.has(name) || this.advancedIndexes.hasIndex(name) || this.textIndexes.hasIndex(name) || this.geoIndexes.has(name)) {
       throw new ValidationError(
-        ERROR_MESSAGES.INDEX_ALREADY_EXISTS(field),
+        ERROR_MESSAGES.INDEX_ALREADY_EXISTS(name),
         'indexField',
-        field
+        name
       );
     }
 
-    if (this.indices.size >= LIMITS.MAX_INDICES_PER_COLLECTION) {
+    const indexCount = this.indices.size + this.advancedIndexes.getIndexes().length + this.textIndexes.getIndexes().length + this.geoIndexes.size;
+    if (indexCount >= LIMITS.MAX_INDICES_PER_COLLECTION) {
       throw new ResourceLimitError(
         ERROR_MESSAGES.INDEX_TOO_MANY(LIMITS.MAX_INDICES_PER_COLLECTION),
         'indices',
         LIMITS.MAX_INDICES_PER_COLLECTION,
-        this.indices.size + 1
+        indexCount + 1
       );
     }
 
-    const indexMap = new Map<any, Set<string>>();
-    this.indices.set(field, indexMap);
-
-    // Build index for existing documents
-    for (const [docId, doc] of this.documents) {
-      const value = doc[field];
-      if (value !== undefined) {
-        if (!indexMap.has(value)) {
-          indexMap.set(value, new Set());
+    if (text) {
+      this.buildTextIndex(name, fields, options);
+    } else if (geo) {
+      this.buildGeoIndex(name, fields[0]);
+    } else if (advanced) {
+      this.buildAdvancedIndex(name, fields, directions as Array<1 | -1>, options);
+    } else {
+      const field = fields[0];
+      const indexMap = new SortedIndex();
+      this.indices.set(field, indexMap);
+
+      // Build index for existing documents
+      for (const [docId, doc] of this.documents) {
+        for (const value of this.indexKeysFor(doc, field)) {
+          if (!indexMap.has(value)) {
+            indexMap.set(value, new Set());
+          }
+          indexMap.get(value)!.add(docId);
         }
-        indexMap.get(value)!.add(docId);
       }
     }
 
     // Invalidate cache since indexing changes query performance
     this.queryCache.clear();
+    return name;
+  }
+
+  /**
+   * Register an advanced index and index the existing documents
+   * The index is dropped again if the documents violate its unique constraint
+   */
+  private buildAdvancedIndex(name: string, fields: string[], directions: Array<1 | -1>, options: IndexOptions): void {
+    this.advancedIndexes.createIndex(this.name, fields, { ...options, name }, directions);
+
+    try {
+      for (const [docId, doc] of this.documents) {
+        this.advancedIndexes.insertDocument(docId, doc);
+      }
+    } catch (error) {
+      this.advancedIndexes.dropIndex(name);
+      throw error;
+    }
+  }
+
+  /**
+   * Register the text index and index the existing documents
+   */
+  private buildTextIndex(name: string, fields: string[], options: IndexOptions): void {
+    this.textIndexes.createTextIndex(this.name, fields, {
+      name,
+      weights: options.weights,
+      defaultLanguage: options.defaultLanguage,
+      languageOverride: options.languageOverride,
+      bm25: options.bm25
+    });
+    this.updateTextIndex(Array.from(this.documents.values()));
+  }
+
+  /**
+   * Register a 2dsphere index and index the existing documents
+   */
+  private buildGeoIndex(name: string, field: string): void {
+    const index = new GeospatialIndex();
+    this.loadGeoIndex(field, index);
+    this.geoIndexes.set(name, { field, index });
   }
 
   /**
    * Create index (async)
    */
-  async createIndexAsync(field: string, options?: { unique?: boolean }): Promise<void> {
-    return this.createIndex(field, options);
+  async createIndexAsync(spec: string | IndexSpecification, options: IndexOptions = {}): Promise<string> {
+    return this.createIndex(spec, options);
   }
 
   /**
-   * Drop index
+   * Drop index by name (the field name for single-field indexes)
    */
-  async dropIndex(field: string): Promise<void> {
-    this.indices.delete(field);
+  async dropIndex(name: string): Promise<void> {
+    if (this.advancedIndexes.hasIndex(name)) {
+      this.advancedIndexes.dropIndex(name);
+    } else if (this.textIndexes.hasIndex(name)) {
+      this.textIndexes.dropIndex(name);
+    } else if (this.geoIndexes.has(name)) {
+      this.geoIndexes.delete(name);
+    } else {
+      this.indices.delete(name);
+    }
+    this.queryCache.clear();
   }
 
   /**
    * Update documents matching the query with the provided changes
    * Creates new document instances instead of mutating existing ones to minimize side effects
+   * With `upsert`, a document built from the query's equality fields is inserted when nothing matches
    */
-  update(query: Query, changes: UpdateOperation): number {
+  update(query: Query, changes: UpdateOperation, options: UpdateOptions = {}): number {
     if (!query) {
       throw new ValidationError(ERROR_MESSAGES.QUERY_REQUIRED, 'query', query);
     }
@@ -571,59 +1274,32 @@ export class Collection {
 
     try {
       const matchingDocs = this.find(query);
-      let updatedCount = 0;
 
-      // Collect index updates for batch processing
-      const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
-      const indexAdditions: Array<{ field: string; value: any; docId: string }> = [];
-
-      for (const doc of matchingDocs) {
-        const docId = doc._id as string;
-
-        // Collect current index values for removal
-        for (const [fieldName] of this.indices) {
-          const oldValue = doc[fieldName];
-          if (oldValue !== undefined) {
-            indexRemovals.push({ field: fieldName, value: oldValue, docId });
-          }
-        }
-
-        // Create new document instance using fastMerge for better performance
-        const updatedDoc = fastMerge(doc, changes);
-        this.documents.set(docId, updatedDoc);
-        updatedCount++;
-
-        // Collect new index values for addition
-        for (const [fieldName] of this.indices) {
-          const newValue = updatedDoc[fieldName];
-          if (newValue !== undefined) {
-            indexAdditions.push({ field: fieldName, value: newValue, docId });
-          }
-        }
+      if (matchingDocs.length === 0 && options.upsert) {
+        this.upsertDocument(query, changes);
+        globalMonitor.end('update');
+        return 1;
       }
 
-      // Batch apply index updates
-      this.batchRemoveFromIndices(indexRemovals);
-      this.batchUpdateIndices(indexAdditions);
+      // Create new document instances (fastMerge for plain changes, copy-on-write for operators)
+      const updates = matchingDocs.map(doc => ({ previous: doc, ...this.applyChanges(doc, changes, false) }));
+      this.commitUpdates(updates);
+      const updatedCount = updates.length;
 
-      // Invalidate cache for affected fields
-      const affectedFields = new Set(Object.keys(changes));
-      for (const fieldName of affectedFields) {
-        this.queryCache.invalidateByField(fieldName);
-      }
       // Also invalidate by query fields
       for (const fieldName of Object.keys(query)) {
         this.queryCache.invalidateByField(fieldName);
       }
 
       // Emit change events for updated documents (using current document state)
-      for (const docId of matchingDocs.map(d => d._id as string)) {
-        const updatedDoc = this.documents.get(docId);
+      for (const oldDoc of matchingDocs) {
+        const updatedDoc = this.documents.get(oldDoc._id as string);
         if (updatedDoc) {
           this.emitChangeEvent({
             type: 'update',
             collection: this.name,
             document: { ...updatedDoc },
+            oldDocument: { ...oldDoc },
             timestamp: Date.now()
           });
         }
@@ -650,62 +1326,32 @@ export class Collection {
       throw new ValidationError(ERROR_MESSAGES.UPDATE_CHANGES_REQUIRED, 'changes', changes);
     }
 
-    // Allow nested object updates for this method
-    if (!changes || typeof changes !== 'object') {
-      // This should never happen due to the check above, but TypeScript needs it
-      throw new ValidationError(ERROR_MESSAGES.UPDATE_CHANGES_REQUIRED, 'changes', changes);
+    // Allow nested object updates for this method; operator updates are validated as usual
+    if (UpdateOperatorEngine.isOperatorUpdate(changes)) {
+      QueryValidator.validateUpdateOperation(changes);
     }
 
     globalMonitor.start('updateDeep');
 
     try {
       const matchingDocs = this.find(query);
-      let updatedCount = 0;
-
-      // Collect index updates for batch processing
-      const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
-      const indexAdditions: Array<{ field: string; value: any; docId: string }> = [];
-
-      for (const doc of matchingDocs) {
-        const docId = doc._id as string;
-
-        // Collect current index values for removal
-        for (const [fieldName] of this.indices) {
-          const oldValue = doc[fieldName];
-          if (oldValue !== undefined) {
-            indexRemovals.push({ field: fieldName, value: oldValue, docId });
-          }
-        }
 
-        // Create new document instance using deepMerge for nested object support
-        const updatedDoc = deepMerge(doc, changes);
-        this.documents.set(docId, updatedDoc);
-        updatedCount++;
+      // Create new document instances using deepMerge for nested object support
+      const updates = matchingDocs.map(doc => ({ previous: doc, ...this.applyChanges(doc, changes, true) }));
+      this.commitUpdates(updates);
+      const updatedCount = updates.length;
 
-        // Collect new index values for addition
-        for (const [fieldName] of this.indices) {
-          const newValue = updatedDoc[fieldName];
-          if (newValue !== undefined) {
-            indexAdditions.push({ field: fieldName, value: newValue, docId });
-          }
-        }
-
-        // Emit change event
+      // Emit change events
+      for (const { previous, document } of updates) {
         this.emitChangeEvent({
           type: 'update',
           collection: this.name,
-          document: { ...updatedDoc },
+          document: { ...document },
+          oldDocument: { ...previous },
           timestamp: Date.now()
         });
       }
 
-      // Batch apply index updates
-      this.batchRemoveFromIndices(indexRemovals);
-      this.batchUpdateIndices(indexAdditions);
-
-      // Invalidate cache
-      this.invalidateCacheForIndexedFields();
-
       logger.info('Deep update completed', {
         collection: this.name,
         matched: matchingDocs.length,
@@ -721,52 +1367,331 @@ export class Collection {
   }
 
   /**
-   * Remove documents matching the query
+   * Atomically find one document, apply an update to it and return it
+   * The sort decides which document is modified when several match
+   *
+   * @returns The document before (default) or after the update, or null if nothing matched and no upsert happened
    */
-  remove(query: Query): number {
+  async findOneAndUpdate(query: Query, changes: UpdateOperation, options: FindOneAndUpdateOptions = {}): Promise<Document | null> {
+    if (!changes || typeof changes !== 'object') {
+      throw new ValidationError(ERROR_MESSAGES.UPDATE_CHANGES_REQUIRED, 'changes', changes);
+    }
+    QueryValidator.validateUpdateOperation(changes);
+
+    return this.findOneAndModify(query, options, doc => this.applyChanges(doc, changes, false), changes);
+  }
+
+  /**
+   * Atomically find one document and replace it entirely, keeping its _id
+   *
+   * @returns The document before (default) or after the replacement, or null if nothing matched and no upsert happened
+   */
+  async findOneAndReplace(query: Query, replacement: Document, options: FindOneAndUpdateOptions = {}): Promise<Document | null> {
+    DocumentValidator.validate(replacement);
+    if (UpdateOperatorEngine.isOperatorUpdate(replacement)) {
+      throw new ValidationError(ERROR_MESSAGES.REPLACEMENT_OPERATORS_FORBIDDEN, 'replacement', replacement);
+    }
+
+    const fields: Document = { ...replacement };
+    delete fields._id;
+    return this.findOneAndModify(query, options, doc => {
+      const document = { ...fields, _id: doc._id };
+      const touchedPaths = Array.from(new Set([...Object.keys(doc), ...Object.keys(fields)]))
+        .filter(key => key !== '_id');
+      return { document, touchedPaths };
+    }, fields);
+  }
+
+  /**
+   * Atomically find one document and remove it
+   *
+   * @returns The removed document, or null if nothing matched
+   */
+  async findOneAndDelete(query: Query, options: FindOneAndDeleteOptions = {}): Promise<Document | null> {
     if (!query) {
       throw new ValidationError(ERROR_MESSAGES.QUERY_REQUIRED, 'query', query);
     }
+    QueryValidator.validate(query);
+
+    const target = this.selectOne(query, options.sort);
+    if (!target) {
+      return null;
+    }
+
+    this.removeDocuments([target], true);
+    return target;
+  }
 
+  /**
+   * Shared implementation of findOneAndUpdate / findOneAndReplace
+   * Runs synchronously end to end, so no other write can interleave
+   */
+  private findOneAndModify(
+    query: Query,
+    options: FindOneAndUpdateOptions,
+    modify: (doc: Document) => { document: Document; touchedPaths: string[] },
+    upsertChanges: UpdateOperation
+  ): Document | null {
+    if (!query) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_REQUIRED, 'query', query);
+    }
     QueryValidator.validate(query);
 
-    globalMonitor.start('remove');
+    const returnAfter = options.returnDocument === 'after';
+    const target = this.selectOne(query, options.sort);
 
-    try {
-      const matchingDocs = this.find(query);
-      let removedCount = 0;
+    if (!target) {
+      if (!options.upsert) {
+        return null;
+      }
+      const inserted = this.upsertDocument(query, upsertChanges);
+      return returnAfter ? inserted : null;
+    }
 
-      // Collect index removals for batch processing
-      const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
+    const { document: updatedDoc, touchedPaths } = modify(target);
+    this.commitUpdates([{ previous: target, document: updatedDoc, touchedPaths }]);
 
-      // Emit change events for documents being removed
-      for (const doc of matchingDocs) {
-        this.emitChangeEvent({
-          type: 'remove',
-          collection: this.name,
-          document: { ...doc },
-          timestamp: Date.now()
-        });
+    this.emitChangeEvent({
+      type: 'update',
+      collection: this.name,
+      document: { ...updatedDoc },
+      oldDocument: { ...target },
+      timestamp: Date.now()
+    });
+
+    return returnAfter ? updatedDoc : target;
+  }
+
+  /**
+   * Pick the first matching document in sort order (or insertion order without a sort)
+   * Single pass over the matches, no full sort
+   */
+  private selectOne(query: Query, sort?: SortSpecification): Document | null {
+    const matches = this.find(query);
+    if (matches.length === 0) return null;
+    if (!sort || Object.keys(sort).length === 0) return matches[0];
+
+    let scores: Map<string, number> | undefined;
+    if (Object.values(sort).some(isTextScoreMeta)) {
+      scores = this.textSearch(query)?.scores;
+      if (!scores) {
+        throw new ValidationError(ERROR_MESSAGES.TEXT_SCORE_WITHOUT_TEXT, 'sort', sort);
       }
+    }
 
-      for (const doc of matchingDocs) {
-        const docId = doc._id as string;
+    let best = matches[0];
+    for (let i = 1; i < matches.length; i++) {
+      if (compareBySort(matches[i], best, sort, doc => scores?.get(doc._id) ?? 0) < 0) {
+        best = matches[i];
+      }
+    }
+    return best;
+  }
 
-        // Collect index values for removal
-        for (const [fieldName] of this.indices) {
-          const value = doc[fieldName];
-          if (value !== undefined) {
-            indexRemovals.push({ field: fieldName, value, docId });
-          }
+  /**
+   * Insert the document an upsert produces when nothing matched
+   */
+  private upsertDocument(query: Query, changes: UpdateOperation): Document {
+    const seed = UpdateOperatorEngine.buildUpsertDocument(query, changes);
+    return this.insert(seed)[0];
+  }
+
+  /**
+   * Apply an update to a document without mutating it
+   * Operator updates ($set, $inc, ...) go through UpdateOperatorEngine, plain objects are merged
+   */
+  private applyChanges(doc: Document, changes: UpdateOperation, deep: boolean): { document: Document; touchedPaths: string[] } {
+    if (UpdateOperatorEngine.isOperatorUpdate(changes)) {
+      return UpdateOperatorEngine.apply(doc, changes);
+    }
+    return {
+      document: deep ? deepMerge(doc, changes) : fastMerge(doc, changes),
+      touchedPaths: Object.keys(changes)
+    };
+  }
+
+  /**
+   * Store updated document versions and keep indexes and the query cache in sync
+   * Unique constraints are checked for every document before any of them is stored
+   *
+   * @throws DataIntegrityError if an update violates a unique index (nothing is changed)
+   * @throws ValidationError if an update leaves invalid GeoJSON in a 2dsphere-indexed field (nothing is changed)
+   */
+  private commitUpdates(updates: Array<{ previous: Document; document: Document; touchedPaths: string[] }>): void {
+    this.checkGeoLocations(updates.map(({ document }) => document));
+    for (let i = 0; i < updates.length; i++) {
+      try {
+        this.advancedIndexes.updateDocument(updates[i].previous._id as string, updates[i].previous, updates[i].document);
+      } catch (error) {
+        for (let j = i - 1; j >= 0; j--) {
+          this.advancedIndexes.updateDocument(updates[j].previous._id as string, updates[j].document, updates[j].previous);
         }
+        throw error;
+      }
+    }
+
+    // Collect index updates for batch processing
+    const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
+    const indexAdditions: Array<{ field: string; value: any; docId: string }> = [];
+    const touchedPaths = new Set<string>();
+
+    for (const { previous, document, touchedPaths: paths } of updates) {
+      this.documents.set(previous._id as string, document);
+      this.collectIndexChanges(previous, document, paths, indexRemovals, indexAdditions);
+      paths.forEach(path => touchedPaths.add(path));
+    }
+
+    const [textIndex] = this.textIndexes.getIndexes();
+    if (textIndex) {
+      // Re-index documents whose text or language changed
+      const textPaths = [...textIndex.fields, textIndex.languageOverride];
+      this.updateTextIndex(updates
+        .filter(({ touchedPaths: paths }) => paths.some(path => textPaths.some(field => pathsOverlap(path, field))))
+        .map(({ document }) => document));
+    }
+
+    if (this.geoIndexes.size > 0) {
+      // Re-index documents whose location moved
+      const geoFields = Array.from(this.geoIndexes.values(), ({ field }) => field);
+      this.updateGeoIndexes(updates
+        .filter(({ touchedPaths: paths }) => paths.some(path => geoFields.some(field => pathsOverlap(path, field))))
+        .map(({ document }) => document));
+    }
+
+    // Batch apply index updates
+    this.batchRemoveFromIndices(indexRemovals);
+    this.batchUpdateIndices(indexAdditions);
+
+    // Invalidate cache for affected paths
+    this.invalidateCacheForPaths(touchedPaths);
+  }
 
-        // Remove from documents map (O(1))
-        this.documents.delete(docId);
-        removedCount++;
+  /**
+   * Collect index removals/additions for the indexed fields affected by the touched paths
+   */
+  private collectIndexChanges(
+    oldDoc: Document,
+    newDoc: Document,
+    touchedPaths: string[],
+    removals: Array<{ field: string; value: any; docId: string }>,
+    additions: Array<{ field: string; value: any; docId: string }>
+  ): void {
+    const docId = oldDoc._id as string;
+
+    for (const [fieldName] of this.indices) {
+      if (!touchedPaths.some(path => pathsOverlap(path, fieldName))) continue;
+
+      for (const value of indexKeys(oldDoc, fieldName)) {
+        removals.push({ field: fieldName, value, docId });
+      }
+      for (const value of this.indexKeysFor(newDoc, fieldName)) {
+        additions.push({ field: fieldName, value, docId });
       }
+    }
+  }
+
+  private invalidateCacheForPaths(paths: Iterable<string>): void {
+    for (const path of paths) {
+      this.queryCache.invalidateByPath(path);
+    }
+  }
+
+  /**
+   * Replace all documents of the collection in one step (aggregation `$out`)
+   * Indexes are kept and hold the new documents afterwards. If a document is invalid or violates
+   * a unique index, the collection is left as it was. Emits a remove event per previous document
+   * and an insert event per new one.
+   *
+   * @returns The stored documents
+   */
+  replaceAllDocuments(documents: Document[]): Document[] {
+    for (const document of documents) {
+      DocumentValidator.validate(document);
+    }
+
+    const previous = this.getAllDocuments();
+    this.removeDocuments(previous, false);
+
+    let stored: Document[] = [];
+    try {
+      stored = this.storeDocuments(documents);
+      this.updateIndicesForDocuments(stored);
+      this.checkMemoryLimits();
+    } catch (error) {
+      this.removeDocuments(stored, false);
+      this.updateIndicesForDocuments(this.storeDocuments(previous));
+      this.queryCache.clear();
+      throw error;
+    }
+    this.queryCache.clear();
+
+    const timestamp = Date.now();
+    for (const doc of previous) {
+      this.emitChangeEvent({ type: 'remove', collection: this.name, document: { ...doc }, timestamp });
+    }
+    for (const doc of stored) {
+      this.emitChangeEvent({ type: 'insert', collection: this.name, document: fastClone(doc), timestamp });
+    }
+    return stored;
+  }
+
+  /**
+   * Replace some documents and insert others in one step (aggregation `$merge`)
+   * Each replacement keeps the `_id` of the document it replaces. If a document is invalid or
+   * violates a unique index, nothing is written. Emits update and insert events.
+   *
+   * @param replacements - Stored documents and what they become
+   * @param inserts - New documents
+   */
+  mergeDocuments(replacements: Array<{ previous: Document; document: Document }>, inserts: Document[]): { inserted: number; updated: number } {
+    for (const document of [...replacements.map(replacement => replacement.document), ...inserts]) {
+      DocumentValidator.validate(document);
+    }
+
+    const updates = replacements.map(({ previous, document }) => ({
+      previous,
+      document: { ...document, _id: previous._id },
+      touchedPaths: Array.from(new Set([...Object.keys(previous), ...Object.keys(document)])).filter(key => key !== '_id')
+    }));
+    this.commitUpdates(updates);
+
+    let inserted: Document[] = [];
+    try {
+      inserted = this.storeDocuments(inserts);
+      this.updateIndicesForDocuments(inserted);
+      this.checkMemoryLimits();
+    } catch (error) {
+      this.removeDocuments(inserted, false);
+      this.commitUpdates(updates.map(({ previous, document, touchedPaths }) => ({ previous: document, document: previous, touchedPaths })));
+      throw error;
+    }
+    this.invalidateCacheForDocuments(inserted);
 
-      // Batch remove from indices
-      this.batchRemoveFromIndices(indexRemovals);
+    const timestamp = Date.now();
+    for (const { previous, document } of updates) {
+      this.emitChangeEvent({ type: 'update', collection: this.name, document: { ...document }, oldDocument: { ...previous }, timestamp });
+    }
+    for (const doc of inserted) {
+      this.emitChangeEvent({ type: 'insert', collection: this.name, document: fastClone(doc), timestamp });
+    }
+    return { inserted: inserted.length, updated: updates.length };
+  }
+
+  /**
+   * Remove documents matching the query
+   */
+  remove(query: Query): number {
+    if (!query) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_REQUIRED, 'query', query);
+    }
+
+    QueryValidator.validate(query);
+
+    globalMonitor.start('remove');
+
+    try {
+      const matchingDocs = this.find(query);
+      const removedCount = this.removeDocuments(matchingDocs, true);
 
       // Invalidate cache for affected fields
       for (const fieldName of Object.keys(query)) {
@@ -781,6 +1706,75 @@ export class Collection {
     }
   }
 
+  /**
+   * Remove documents whose TTL index date has passed
+   * Called by the database's TTL sweeper; each removal emits a remove change event
+   *
+   * @param now - Reference time in epoch milliseconds
+   * @returns Number of documents removed
+   */
+  removeExpired(now: number = Date.now()): number {
+    const expired: Document[] = [];
+    for (const docId of this.advancedIndexes.expiredDocumentIds(now)) {
+      const doc = this.documents.get(docId);
+      if (doc) expired.push(doc);
+    }
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const removedCount = this.removeDocuments(expired, true);
+    this.queryCache.clear();
+    logger.debug('Expired documents removed', { collection: this.name, removed: removedCount });
+    return removedCount;
+  }
+
+  /**
+   * Remove the given documents, keeping indices in sync and optionally emitting remove events
+   *
+   * @returns Number of documents removed
+   */
+  private removeDocuments(docs: Document[], emitEvents: boolean): number {
+    // Collect index removals for batch processing
+    const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
+    let removedCount = 0;
+
+    for (const doc of docs) {
+      const docId = doc._id as string;
+
+      // Collect index values for removal
+      for (const [fieldName] of this.indices) {
+        for (const value of indexKeys(doc, fieldName)) {
+          indexRemovals.push({ field: fieldName, value, docId });
+        }
+      }
+
+      if (emitEvents) {
+        this.emitChangeEvent({
+          type: 'remove',
+          collection: this.name,
+          document: { ...doc },
+          timestamp: Date.now()
+        });
+      }
+
+      // Remove from documents map (O(1))
+      this.documents.delete(docId);
+      this.advancedIndexes.removeDocument(docId, doc);
+      for (const { name } of this.textIndexes.getIndexes()) {
+        this.textIndexes.removeFromIndex(name, docId);
+      }
+      for (const { index } of this.geoIndexes.values()) {
+        index.remove(docId);
+      }
+      removedCount++;
+    }
+
+    // Batch remove from indices
+    this.batchRemoveFromIndices(indexRemovals);
+    return removedCount;
+  }
+
   /**
    * Bulk delete multiple documents with optimized performance
    * Designed for large-scale deletion operations
@@ -811,42 +1805,8 @@ export class Collection {
         return { deletedCount: 0, deletedIds: [] };
       }
 
-      let removedCount = 0;
-      const deletedIds: string[] = [];
-
-      // Collect index removals for batch processing
-      const indexRemovals: Array<{ field: string; value: any; docId: string }> = [];
-
-      // Emit change events for documents being removed
-      for (const doc of matchingDocs) {
-        const docId = doc._id as string;
-
-        // Collect current index values for removal
-        for (const [fieldName] of this.indices) {
-          const value = doc[fieldName];
-          if (value !== undefined) {
-            indexRemovals.push({ field: fieldName, value, docId });
-          }
-        }
-
-        // Emit change event if requested
-        if (emitEvents) {
-          this.emitChangeEvent({
-            type: 'remove',
-            collection: this.name,
-            document: { ...doc },
-            timestamp: Date.now()
-          });
-        }
-
-        // Remove from documents map
-        this.documents.delete(docId);
-        deletedIds.push(docId);
-        removedCount++;
-      }
-
-      // Batch remove from indices
-      this.batchRemoveFromIndices(indexRemovals);
+      const removedCount = this.removeDocuments(matchingDocs, emitEvents);
+      const deletedIds = matchingDocs.map(doc => doc._id as string);
 
       // Invalidate cache
       this.invalidateCacheForIndexedFields();
@@ -878,6 +1838,37 @@ export class Collection {
     return Array.from(this.indices.keys());
   }
 
+  /**
+   * Describe every index: single-field indexes by field name, then advanced indexes
+   */
+  listIndexes(): AdvancedIndexInfo[] {
+    const single: AdvancedIndexInfo[] = Array.from(this.indices.keys()).map(field => ({
+      name: field,
+      fields: [field],
+      directions: [1],
+      unique: false,
+      sparse: false,
+      options: {}
+    }));
+    const text: AdvancedIndexInfo[] = this.textIndexes.getIndexes().map(({ name, fields, weights, defaultLanguage, languageOverride, bm25 }) => ({
+      name,
+      fields,
+      directions: fields.map(() => 1),
+      unique: false,
+      sparse: false,
+      options: { text: true, weights, defaultLanguage, languageOverride, bm25 }
+    }));
+    const geo: AdvancedIndexInfo[] = Array.from(this.geoIndexes, ([name, { field }]) => ({
+      name,
+      fields: [field],
+      directions: [1],
+      unique: false,
+      sparse: false,
+      options: { geo: true }
+    }));
+    return [...single, ...this.advancedIndexes.getIndexes(), ...text, ...geo];
+  }
+
   /**
    * Get collection statistics
    */
@@ -885,7 +1876,7 @@ export class Collection {
     const memoryUsage = this.calculateCollectionSize();
     return {
       documentCount: this.documents.size,
-      indexCount: this.indices.size,
+      indexCount: this.indices.size + this.advancedIndexes.getIndexes().length + this.textIndexes.getIndexes().length + this.geoIndexes.size,
       cacheSize: this.queryCache.getStats().size,
       memoryUsage
     };
@@ -912,6 +1903,9 @@ export class Collection {
       }
 
       this.indices.clear();
+      this.advancedIndexes = new AdvancedIndexingEngine();
+      this.textIndexes = new FullTextSearchEngine();
+      this.geoIndexes.clear();
       this.queryCache.clear();
       this.nextId = 0;
 
@@ -975,14 +1969,28 @@ export class Collection {
 
     for (const [docId, doc] of this.documents) {
       for (const [fieldName] of this.indices) {
-        const value = doc[fieldName];
-        if (value !== undefined) {
+        for (const value of this.indexKeysFor(doc, fieldName)) {
           indexUpdates.push({ field: fieldName, value, docId });
         }
       }
     }
 
     this.batchUpdateIndices(indexUpdates);
+
+    this.advancedIndexes.clearData();
+    for (const [docId, doc] of this.documents) {
+      this.advancedIndexes.insertDocument(docId, doc);
+    }
+
+    for (const { name } of this.textIndexes.getIndexes()) {
+      this.textIndexes.clearData(name);
+    }
+    this.updateTextIndex(Array.from(this.documents.values()));
+
+    for (const { field, index } of this.geoIndexes.values()) {
+      index.clear();
+      this.loadGeoIndex(field, index);
+    }
   }
 
   /**
@@ -1126,6 +2134,9 @@ export class Collection {
           Array.from(docIds)
         ])
       ]),
+      advancedIndexes: this.advancedIndexes.getIndexes(),
+      textIndexes: this.textIndexes.getIndexes(),
+      geoIndexes: Array.from(this.geoIndexes, ([name, { field }]) => ({ name, field })),
       nextId: this.nextId,
       queryCache: this.queryCache.serialize()
     };
@@ -1150,14 +2161,40 @@ export class Collection {
     // Restore indices
     if (data.indices) {
       for (const [field, valueMapData] of data.indices) {
-        const valueMap = new Map();
+        const valueMap = new SortedIndex();
         for (const [value, docIds] of valueMapData) {
           valueMap.set(value, new Set(docIds));
         }
+        valueMap.multikey = Array.from(this.documents.values()).some(doc => isMultikeyPath(doc, field));
         this.indices.set(field, valueMap);
       }
     }
 
+    // Rebuild advanced indexes from their definitions
+    if (data.advancedIndexes) {
+      for (const index of data.advancedIndexes as AdvancedIndexInfo[]) {
+        this.buildAdvancedIndex(index.name, index.fields, index.directions, index.options);
+      }
+    }
+
+    // Text indexes likewise; only their definitions are stored
+    if (data.textIndexes) {
+      for (const index of data.textIndexes as TextIndexDefinition[]) {
+        this.buildTextIndex(index.name, index.fields, {
+          weights: index.weights,
+          defaultLanguage: index.defaultLanguage,
+          languageOverride: index.languageOverride,
+          bm25: index.bm25
+        });
+      }
+    }
+
+    if (data.geoIndexes) {
+      for (const { name, field } of data.geoIndexes as Array<{ name: string; field: string }>) {
+        this.buildGeoIndex(name, field);
+      }
+    }
+
     // Restore ID counter
     if (data.nextId) {
       this.nextId = data.nextId;
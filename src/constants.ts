@@ -39,6 +39,25 @@ export const LIMITS = {
   MAX_MEMORY_USAGE: 2048 * 1024 * 1024, // 2GB memory limit
   MAX_CACHE_SIZE: 500 * 1024 * 1024, // 500MB cache limit
 
+  // Cursor limits
+  DEFAULT_CURSOR_BATCH_SIZE: 1000, // Documents produced per async iteration batch
+
+  // TTL limits
+  TTL_SWEEP_INTERVAL: 60000, // 1 minute between TTL sweeps
+  MIN_TTL_SWEEP_INTERVAL: 10, // Shortest allowed sweep interval (ms)
+
+  // Text search limits
+  TEXT_MAX_FUZZINESS: 2, // Largest edit distance of a fuzzy term (`term~2`)
+  TEXT_MAX_TERM_EXPANSIONS: 64, // Indexed terms a prefix or fuzzy term matches at most (most frequent first)
+  TEXT_BM25_K1: 1.2, // Default BM25 term frequency saturation
+  TEXT_BM25_B: 0.75, // Default BM25 field length normalization (0 = none, 1 = full)
+  TEXT_HIGHLIGHT_FRAGMENT_SIZE: 100, // Characters of text per highlight fragment
+  TEXT_HIGHLIGHT_MAX_FRAGMENTS: 3, // Highlight fragments returned per document
+
+  // Aggregation limits
+  AGGREGATION_MAX_MEMORY: 100 * 1024 * 1024, // 100MB held by one blocking stage ($sort, $group, ...)
+  AGGREGATION_SPILL_READ_BUFFER: 64 * 1024, // Bytes read at a time from a spill file
+
   // Timeout limits
   DEFAULT_OPERATION_TIMEOUT: 30000, // 30 seconds
   BULK_OPERATION_TIMEOUT: 600000, // 10 minutes for bulk ops
@@ -78,12 +97,54 @@ export const ERROR_MESSAGES = {
   QUERY_TOO_LARGE: (maxSize: number) => `Query too complex (max ${maxSize} bytes)`,
   QUERY_INVALID_OPERATORS: (operators: string[]) => `Invalid query operators: ${operators.join(', ')}`,
   QUERY_UNKNOWN_OPERATOR: (operator: string) => `Unknown operator: ${operator}`,
+  QUERY_INVALID_OPERAND: (operator: string) => `Invalid operand for ${operator}`,
+  QUERY_INVALID_REGEX_OPTIONS: (options: string) => `Invalid $regex options: ${options} (allowed: i, m, s, x)`,
+  EXPRESSION_UNDEFINED_VARIABLE: (name: string) => `Use of undefined variable: $$${name}`,
+  EXPRESSION_UNKNOWN_OPERATOR: (operator: string) => `Unrecognized expression operator: ${operator}`,
+  EXPRESSION_OPERATOR_OBJECT_INVALID: (keys: string[]) => `An expression object must have exactly one operator field, got ${keys.join(', ')}`,
+  EXPRESSION_ARGUMENTS_INVALID: (operator: string, reason: string) => `Invalid arguments for ${operator}: ${reason}`,
+  EXPRESSION_CONVERSION_FAILED: (operator: string, value: any, to: string) => `${operator} cannot convert ${JSON.stringify(value)} to ${to}`,
+  EXPRESSION_TIMEZONE_INVALID: (timezone: string) => `Unrecognized time zone: ${timezone}`,
+  AGGREGATION_PIPELINE_INVALID: 'Aggregation pipeline must be an array of stages',
+  AGGREGATION_LOOKUP_INVALID: '$lookup requires from, as and either localField with foreignField or a pipeline',
+  AGGREGATION_STAGE_INVALID: (stage: string, reason: string) => `Invalid ${stage} stage: ${reason}`,
+  AGGREGATION_MEMORY_LIMIT_INVALID: 'maxMemoryBytes must be a positive number',
+  AGGREGATION_MEMORY_LIMIT_EXCEEDED: (stage: string, limit: number) => `${stage} exceeded the aggregation memory limit of ${limit} bytes; pass allowDiskUse: true to spill to disk`,
+  AGGREGATION_MEMORY_LIMIT_NO_SPILL: (stage: string, limit: number) => `${stage} exceeded the aggregation memory limit of ${limit} bytes and cannot spill to disk`,
+  AGGREGATION_OUTPUT_NOT_LAST: (stage: string) => `${stage} can only be the last stage of the outermost pipeline`,
+  AGGREGATION_GEO_NEAR_NOT_FIRST: '$geoNear can only be the first stage of the outermost pipeline',
+  AGGREGATION_OUTPUT_UNAVAILABLE: (stage: string) => `${stage} needs a database to write to; run the pipeline with Collection.aggregate`,
+  AGGREGATION_MERGE_MATCHED: (collection: string, key: string) => `$merge found a document in '${collection}' for ${key} and whenMatched is 'fail'`,
+  AGGREGATION_MERGE_NOT_MATCHED: (collection: string, key: string) => `$merge found no document in '${collection}' for ${key} and whenNotMatched is 'fail'`,
+  AGGREGATION_MERGE_AMBIGUOUS: (collection: string, key: string) => `$merge found several documents in '${collection}' for ${key}; 'on' fields must identify one document`,
+  AGGREGATION_ACCUMULATOR_INVALID: (field: string) => `Invalid accumulator for '${field}' (expected { $sum | $avg | $min | $max | $first | $last | $push | $addToSet | $count: expression })`,
+  EXPLAIN_VERBOSITY_INVALID: (verbosity: string) => `Invalid explain verbosity '${verbosity}' (expected queryPlanner, executionStats or allPlansExecution)`,
   
   // Update validation
   UPDATE_CHANGES_REQUIRED: 'Changes object required for update operation',
   UPDATE_MUST_SPECIFY_FIELD: 'Update operation must specify at least one field to change',
   UPDATE_ID_FORBIDDEN: 'Cannot update _id field',
   UPDATE_NESTED_NOT_SUPPORTED: 'Nested object updates not supported',
+  UPDATE_UNKNOWN_OPERATOR: (operator: string) => `Unknown update operator: ${operator}`,
+  UPDATE_MIXED_OPERATORS: 'Update cannot mix update operators with plain field values',
+  UPDATE_OPERATOR_ARGUMENT_INVALID: (operator: string) => `Update operator ${operator} requires a non-empty object of field paths`,
+  UPDATE_PATH_CONFLICT: (path: string, other: string) => `Updating the path '${path}' would create a conflict at '${other}'`,
+  UPDATE_VALUE_INVALID: (operator: string, path: string, expected: string) =>
+    `${operator} on '${path}' requires ${expected}`,
+  UPDATE_NON_NUMERIC_FIELD: (operator: string, path: string) =>
+    `Cannot apply ${operator} to non-numeric field '${path}'`,
+  UPDATE_NON_ARRAY_FIELD: (operator: string, path: string) =>
+    `Cannot apply ${operator} to non-array field '${path}'`,
+  UPDATE_PATH_NOT_TRAVERSABLE: (path: string) => `Cannot create field in path '${path}': parent is not an object`,
+  REPLACEMENT_OPERATORS_FORBIDDEN: 'Replacement document cannot contain update operators',
+  
+  // Cursor
+  CURSOR_ALREADY_STARTED: 'Cursor options cannot be changed after iteration has started',
+  CURSOR_INVALID_NUMBER: (option: string) => `Cursor ${option} must be a non-negative integer`,
+  CURSOR_INVALID_SORT: (field: string) => `Sort direction for '${field}' must be 1, -1 or { $meta: 'textScore' }`,
+  PROJECTION_MIXED: 'Projection cannot mix inclusion and exclusion (except for _id)',
+  PROJECTION_META_INVALID: (field: string) => `Projection of '${field}' must be 0, 1, { $meta: 'textScore' } or { $meta: 'textHighlights' }`,
+  TEXT_SCORE_WITHOUT_TEXT: "{ $meta: 'textScore' } and { $meta: 'textHighlights' } need a $text query",
   
   // Transaction
   TRANSACTION_NOT_FOUND: (id: string) => `Transaction ${id} not found`,
@@ -113,6 +174,25 @@ export const ERROR_MESSAGES = {
   INDEX_ALREADY_EXISTS: (field: string) => `Index already exists for field: ${field}`,
   INDEX_TOO_MANY: (max: number) => `Too many indices in collection (max ${max})`,
   INDEX_FIELD_MUST_BE_STRING: 'Index field must be a string',
+  INDEX_SPEC_INVALID: "Index specification must be a field name or an object of field directions (1 or -1), of 'text' fields only, or of one '2dsphere' field",
+  INDEX_NOT_FOUND: (name: string) => `Index '${name}' not found`,
+  INDEX_TTL_INVALID: 'expireAfterSeconds must be a non-negative number on a single-field index',
+  INDEX_TEXT_EXISTS: (name: string) => `Collection already has the text index '${name}'; only one is allowed`,
+  INDEX_TEXT_WEIGHT_INVALID: (field: string) => `Text index weight of '${field}' must be a positive number for an indexed field`,
+  TEXT_QUERY_FUZZINESS_INVALID: (term: string, max: number) => `Fuzziness of '${term}' must be at most ${max}`,
+  TEXT_QUERY_FIELD_UNKNOWN: (field: string, index: string) => `Field '${field}' is not part of the text index '${index}'`,
+  TEXT_BM25_INVALID: 'BM25 k1 must be a non-negative number and b a number between 0 and 1',
+  TEXT_BOOST_INVALID: (field: string) => `Text search boost of '${field}' must be a positive number for an indexed field`,
+  TEXT_HIGHLIGHT_INVALID: 'Highlight fragmentSize and maxFragments must be positive integers and tags strings',
+  TEXT_LANGUAGE_UNKNOWN: (language: string) => `Unknown text search language or analyzer '${language}'`,
+  TEXT_ANALYZER_BUILTIN: (name: string) => `Text analyzer '${name}' is built in and cannot be replaced`,
+  TEXT_ANALYZER_INVALID: (reason: string) => `Invalid text analyzer: ${reason}`,
+  GEO_JSON_INVALID: (reason: string) => `Invalid GeoJSON geometry: ${reason}`,
+  GEOFENCE_INVALID: (reason: string) => `Invalid geofence: ${reason}`,
+  GEOFENCE_EXISTS: (name: string, collection: string) => `Geofence '${name}' already exists on collection '${collection}'`,
+  VECTOR_HNSW_OPTIONS_INVALID: 'HNSW M must be an integer of at least 2, and efConstruction and efSearch positive integers',
+  INDEX_UNIQUE_VIOLATION: (name: string, key: string) => `Duplicate key for unique index '${name}': ${key}`,
+  TTL_SWEEP_INTERVAL_INVALID: (min: number) => `TTL sweep interval must be a number of at least ${min} ms`,
   
   // Deserialization
   TOO_MANY_COLLECTIONS: (max: number) => `Too many collections in database file (max ${max})`,
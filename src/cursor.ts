@@ -0,0 +1,280 @@
+import { Document, Query, SortSpecification, Projection } from './types';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES, LIMITS } from './constants';
+import { compareBySort, projectDocument, isTextScoreMeta, isTextHighlightsMeta } from './utils';
+
+/**
+ * Document access a cursor needs from its collection
+ */
+export interface CursorSource {
+  /** Documents matching the query, in storage order */
+  scan(query: Query): Iterable<Document>;
+  /**
+   * Documents matching the query grouped by equal values of an indexed field,
+   * groups in sort order; null when the field has no index
+   */
+  indexScan(query: Query, field: string, direction: 1 | -1): Iterable<Document[]> | null;
+  /** Outcome of the query's `$text` search; undefined without one */
+  textSearch?(query: Query): CursorTextSearch | undefined;
+}
+
+export interface CursorTextSearch {
+  scores: Map<string, number>; // Relevance of the matching documents by _id
+  highlights(doc: Document): string[]; // Fragments around the words the search matched
+}
+
+/**
+ * Cursor
+ * Lazily evaluated query result with chainable sort, projection, skip and limit.
+ * Nothing is read until the cursor is iterated; documents are then streamed,
+ * so `limit` stops the scan early and sorted top-N queries keep only N documents.
+ */
+export class Cursor implements AsyncIterable<Document> {
+  private sortSpec?: SortSpecification;
+  private projection?: Projection;
+  private skipCount = 0;
+  private limitCount = 0;
+  private batch: number = LIMITS.DEFAULT_CURSOR_BATCH_SIZE;
+  private started = false;
+  private text?: CursorTextSearch;
+
+  constructor(private source: CursorSource, private query: Query) {}
+
+  /**
+   * Order results, e.g. `{ age: -1, name: 1 }` or `{ score: { $meta: 'textScore' } }` (most relevant first)
+   * A sort whose first field is indexed walks the index instead of sorting all matches
+   */
+  sort(spec: SortSpecification): this {
+    this.assertNotStarted();
+    for (const [field, direction] of Object.entries(spec)) {
+      if (direction !== 1 && direction !== -1 && !isTextScoreMeta(direction)) {
+        throw new ValidationError(ERROR_MESSAGES.CURSOR_INVALID_SORT(field), 'sort', direction);
+      }
+    }
+    this.sortSpec = { ...spec };
+    return this;
+  }
+
+  /**
+   * Include (`{ name: 1 }`) or exclude (`{ password: 0 }`) fields
+   * `{ score: { $meta: 'textScore' } }` adds the relevance of a `$text` search, in either mode,
+   * and `{ snippets: { $meta: 'textHighlights' } }` the text fragments it matched
+   */
+  project(projection: Projection): this {
+    this.assertNotStarted();
+    for (const [field, spec] of Object.entries(projection)) {
+      if (typeof spec === 'object' && !isTextMeta(spec)) {
+        throw new ValidationError(ERROR_MESSAGES.PROJECTION_META_INVALID(field), 'projection', projection);
+      }
+    }
+    const modes = new Set(
+      Object.entries(projection)
+        .filter(([field, spec]) => field !== '_id' && !isTextMeta(spec))
+        .map(([, spec]) => Boolean(spec))
+    );
+    if (modes.size > 1) {
+      throw new ValidationError(ERROR_MESSAGES.PROJECTION_MIXED, 'projection', projection);
+    }
+    this.projection = { ...projection };
+    return this;
+  }
+
+  /**
+   * Skip the first n results
+   */
+  skip(n: number): this {
+    this.assertNotStarted();
+    this.skipCount = this.requireCount('skip', n);
+    return this;
+  }
+
+  /**
+   * Return at most n results (0 means no limit)
+   */
+  limit(n: number): this {
+    this.assertNotStarted();
+    this.limitCount = this.requireCount('limit', n);
+    return this;
+  }
+
+  /**
+   * Number of documents produced per batch during async iteration
+   * The event loop is released between batches
+   */
+  batchSize(n: number): this {
+    this.assertNotStarted();
+    this.batch = Math.max(1, this.requireCount('batchSize', n));
+    return this;
+  }
+
+  /**
+   * Count matching documents
+   *
+   * @param applySkipLimit - Take skip and limit into account (default: false, like MongoDB)
+   */
+  async count(applySkipLimit = false): Promise<number> {
+    let total = 0;
+    const matches = this.source.scan(this.query)[Symbol.iterator]();
+    while (!matches.next().done) {
+      total++;
+    }
+    if (!applySkipLimit) return total;
+
+    const remaining = Math.max(0, total - this.skipCount);
+    return this.limitCount > 0 ? Math.min(remaining, this.limitCount) : remaining;
+  }
+
+  /**
+   * Read all remaining results into an array
+   */
+  async toArray(): Promise<Document[]> {
+    this.started = true;
+    return Array.from(this.results());
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Document> {
+    this.started = true;
+    let produced = 0;
+
+    for (const doc of this.results()) {
+      yield doc;
+      if (++produced % this.batch === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  }
+
+  /**
+   * Stream the final results: ordered, windowed by skip/limit, then projected
+   */
+  private *results(): Generator<Document> {
+    let skipped = 0;
+    let returned = 0;
+
+    const projection = this.projection && Object.fromEntries(Object.entries(this.projection).filter(([, spec]) => !isTextMeta(spec)));
+    const metaFields = Object.entries(this.projection ?? {}).filter(([, spec]) => isTextMeta(spec));
+    if (metaFields.length > 0 || Object.values(this.sortSpec ?? {}).some(isTextScoreMeta)) {
+      this.textSearch();
+    }
+
+    for (const doc of this.ordered()) {
+      if (skipped < this.skipCount) {
+        skipped++;
+        continue;
+      }
+      yield this.projectResult(doc, projection, metaFields);
+      if (this.limitCount > 0 && ++returned >= this.limitCount) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Apply the projection and add text scores and highlights
+   */
+  private projectResult(doc: Document, projection: Projection | undefined, metaFields: Array<[string, Projection[string]]>): Document {
+    if (metaFields.length === 0) {
+      return projection ? projectDocument(doc, projection) : doc;
+    }
+
+    const projected = projection && Object.keys(projection).length > 0 ? projectDocument(doc, projection) : { ...doc };
+    metaFields.forEach(([field, spec]) => {
+      projected[field] = isTextScoreMeta(spec) ? this.textScore(doc) : this.textSearch().highlights(doc);
+    });
+    return projected;
+  }
+
+  /**
+   * Relevance of a document to the query's `$text` search
+   */
+  private textScore(doc: Document): number {
+    return this.textSearch().scores.get(doc._id as string) ?? 0;
+  }
+
+  /**
+   * @throws ValidationError if the query has no `$text` answered by a text index
+   */
+  private textSearch(): CursorTextSearch {
+    if (!this.text) {
+      this.text = this.source.textSearch?.(this.query);
+      if (!this.text) {
+        throw new ValidationError(ERROR_MESSAGES.TEXT_SCORE_WITHOUT_TEXT, 'query', this.query);
+      }
+    }
+    return this.text;
+  }
+
+  private *ordered(): Generator<Document> {
+    const sort = this.sortSpec;
+    if (!sort || Object.keys(sort).length === 0) {
+      yield* this.source.scan(this.query);
+      return;
+    }
+
+    const compare = (a: Document, b: Document) => compareBySort(a, b, sort, doc => this.textScore(doc));
+    const [firstField, firstDirection] = Object.entries(sort)[0];
+    const groups = isTextScoreMeta(firstDirection) ? null : this.source.indexScan(this.query, firstField, firstDirection);
+    if (groups) {
+      const needsTieBreak = Object.keys(sort).length > 1;
+      for (const group of groups) {
+        yield* needsTieBreak ? group.sort(compare) : group;
+      }
+      return;
+    }
+
+    if (this.limitCount > 0) {
+      yield* this.topN(compare, this.skipCount + this.limitCount);
+      return;
+    }
+
+    yield* Array.from(this.source.scan(this.query)).sort(compare);
+  }
+
+  /**
+   * Keep only the first n documents in sort order while scanning (stable for ties)
+   */
+  private topN(compare: (a: Document, b: Document) => number, n: number): Document[] {
+    const best: Document[] = [];
+
+    for (const doc of this.source.scan(this.query)) {
+      if (best.length === n && compare(doc, best[n - 1]) >= 0) {
+        continue;
+      }
+
+      // Insert after any equal documents so earlier matches win ties
+      let low = 0;
+      let high = best.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (compare(best[mid], doc) <= 0) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      best.splice(low, 0, doc);
+      if (best.length > n) {
+        best.pop();
+      }
+    }
+
+    return best;
+  }
+
+  private requireCount(option: string, n: number): number {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new ValidationError(ERROR_MESSAGES.CURSOR_INVALID_NUMBER(option), option, n);
+    }
+    return n;
+  }
+
+  private assertNotStarted(): void {
+    if (this.started) {
+      throw new ValidationError(ERROR_MESSAGES.CURSOR_ALREADY_STARTED, 'cursor', this.query);
+    }
+  }
+}
+
+function isTextMeta(value: unknown): boolean {
+  return isTextScoreMeta(value) || isTextHighlightsMeta(value);
+}
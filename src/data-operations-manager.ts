@@ -6,7 +6,7 @@
  */
 
 import { Collection } from './collection';
-import { Query, UpdateOperation, TransactionOptions } from './types';
+import { Query, UpdateOperation, TransactionOptions, FindOptions, IndexOptions, IndexSpecification } from './types';
 import { CollectionManager } from './collection-manager';
 import { OptimizedDataStructures } from './optimized-data-structures';
 import { errorUtils } from './errors';
@@ -63,7 +63,7 @@ export class DataOperationsManager {
   /**
    * Find documents in a collection
    */
-  async find(collectionName: string, query?: Query, options?: { limit?: number; skip?: number }): Promise<any[]> {
+  async find(collectionName: string, query?: Query, options?: FindOptions): Promise<any[]> {
     const startTime = Date.now();
     try {
       const collection = this.getCollection(collectionName);
@@ -119,17 +119,17 @@ export class DataOperationsManager {
   /**
    * Create an index on a collection
    */
-  async createIndex(collectionName: string, field: string, options?: { unique?: boolean }): Promise<void> {
+  async createIndex(collectionName: string, spec: string | IndexSpecification, options?: IndexOptions): Promise<string> {
     const collection = this.getCollection(collectionName);
-    return collection.createIndex(field, options);
+    return collection.createIndex(spec, options);
   }
 
   /**
    * Drop an index from a collection
    */
-  async dropIndex(collectionName: string, field: string): Promise<void> {
+  async dropIndex(collectionName: string, name: string): Promise<void> {
     const collection = this.getCollection(collectionName);
-    return collection.dropIndex(field);
+    return collection.dropIndex(name);
   }
 
   // ===== TRANSACTION OPERATIONS =====
@@ -0,0 +1,861 @@
+import { Document } from './types';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { compareValues } from './utils';
+
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  dayOfWeek: number; // 1 (Sunday) - 7 (Saturday)
+  offset: number; // Milliseconds east of UTC
+}
+
+/**
+ * Expression Engine
+ * Evaluates MongoDB-style aggregation expressions. This is the single expression evaluator:
+ * `$expr` in queries and every expression of an aggregation pipeline (`$project`, `$addFields`,
+ * `$group` keys and accumulators, `$lookup` `let`, window functions) are computed here.
+ *
+ * `'$path'` reads the current document, running through arrays (`'$items.price'` is the array
+ * of prices). `'$$name'` reads a variable: `$$ROOT`/`$$CURRENT` (the document), `$$NOW`,
+ * `$$REMOVE` (omits the field it is assigned to) and those bound by the caller, `$let`, `$map`,
+ * `$filter` and `$reduce`. Like MongoDB, most operators return null when an argument is null or
+ * missing instead of failing.
+ */
+export class ExpressionEngine {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Units of $dateTrunc measured in milliseconds; week, month, quarter and year follow the calendar
+  private static readonly FIXED_DATE_UNITS: Record<string, number> = {
+    day: 24 * 60 * 60 * 1000,
+    hour: 60 * 60 * 1000,
+    minute: 60 * 1000,
+    second: 1000,
+    millisecond: 1
+  };
+
+  private static readonly WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+  // $dateTrunc bins with a binSize greater than one are counted from 2000-01-01, as in MongoDB
+  private static readonly BIN_REFERENCE = Date.UTC(2000, 0, 1);
+
+  // Target types of the $to* shorthands
+  private static readonly CONVERSIONS: Record<string, string> = {
+    $toInt: 'int', $toLong: 'long', $toDouble: 'double', $toDecimal: 'decimal',
+    $toString: 'string', $toBool: 'bool', $toDate: 'date'
+  };
+
+  private static readonly timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Evaluate an expression against a document
+   *
+   * @param variables - Values of `$$name` references
+   * @throws ValidationError for unknown operators, malformed arguments, failed conversions and
+   *         references to undefined variables
+   */
+  static evaluate(doc: Document, expression: any, variables: Record<string, any> = {}): any {
+    if (typeof expression === 'string' && expression.startsWith('$$')) {
+      return this.resolveVariable(doc, expression.substring(2), variables);
+    }
+    if (typeof expression === 'string' && expression.startsWith('$')) {
+      return this.resolvePath(doc, expression.substring(1).split('.'));
+    }
+
+    if (Array.isArray(expression)) {
+      return expression.map(item => this.evaluate(doc, item, variables));
+    }
+    if (!this.isPlainObject(expression)) {
+      return expression;
+    }
+
+    const keys = Object.keys(expression);
+    if (keys.length > 0 && keys[0].startsWith('$')) {
+      if (keys.length > 1) {
+        throw new ValidationError(ERROR_MESSAGES.EXPRESSION_OPERATOR_OBJECT_INVALID(keys), 'expression', expression);
+      }
+      return this.applyOperator(doc, keys[0], expression[keys[0]], variables);
+    }
+
+    // Object literal: evaluate each field, leaving out missing values
+    const result: Record<string, any> = {};
+    for (const key of keys) {
+      const value = this.evaluate(doc, expression[key], variables);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Truth value of an expression result: null, missing, false and 0 are false, everything else
+   * (including empty strings and arrays) is true
+   */
+  static isTrue(value: any): boolean {
+    return value !== null && value !== undefined && value !== false && value !== 0 && !Number.isNaN(value);
+  }
+
+  private static applyOperator(doc: Document, operator: string, args: any, variables: Record<string, any>): any {
+    const evaluate = (arg: any, scope: Record<string, any> = variables) => this.evaluate(doc, arg, scope);
+    const list = (min: number, max: number = min) => this.argumentList(operator, args, min, max).map(arg => evaluate(arg));
+    const named = (required: string[]) => this.namedArguments(operator, args, required);
+
+    switch (operator) {
+      case '$literal':
+        return args;
+
+      // Comparison and boolean
+      case '$eq': case '$ne': case '$gt': case '$gte': case '$lt': case '$lte': case '$cmp': {
+        const [a, b] = list(2);
+        return this.compare(operator, compareValues(a ?? null, b ?? null));
+      }
+      case '$and':
+        return this.argumentList(operator, args, 0, Infinity).every(arg => this.isTrue(evaluate(arg)));
+      case '$or':
+        return this.argumentList(operator, args, 0, Infinity).some(arg => this.isTrue(evaluate(arg)));
+      case '$not':
+        return !this.isTrue(list(1)[0]);
+
+      // Arithmetic
+      case '$add': case '$subtract': case '$multiply': case '$divide': case '$mod': case '$pow':
+      case '$abs': case '$ceil': case '$floor': case '$sqrt': case '$round': case '$trunc':
+        return this.arithmetic(operator, list(...this.arithmeticArity(operator)));
+
+      // Conditionals
+      case '$cond': {
+        const { if: condition, then: whenTrue, else: whenFalse } = Array.isArray(args)
+          ? { if: args[0], then: args[1], else: args[2] }
+          : named(['if', 'then', 'else']);
+        if (Array.isArray(args) && args.length !== 3) {
+          throw this.invalid(operator, 'expected [if, then, else]', args);
+        }
+        return this.isTrue(evaluate(condition)) ? evaluate(whenTrue) : evaluate(whenFalse);
+      }
+      case '$ifNull': {
+        const expressions = this.argumentList(operator, args, 2, Infinity);
+        for (const expression of expressions.slice(0, -1)) {
+          const value = evaluate(expression);
+          if (value !== null && value !== undefined) return value;
+        }
+        return evaluate(expressions[expressions.length - 1]);
+      }
+      case '$switch': {
+        const { branches, default: fallback } = named(['branches']);
+        if (!Array.isArray(branches) || branches.some(branch => !this.isPlainObject(branch) || !('case' in branch) || !('then' in branch))) {
+          throw this.invalid(operator, 'branches must be an array of { case, then }', branches);
+        }
+        const branch = branches.find(candidate => this.isTrue(evaluate(candidate.case)));
+        if (branch) return evaluate(branch.then);
+        if (!('default' in args)) {
+          throw this.invalid(operator, 'no branch matched and there is no default', args);
+        }
+        return evaluate(fallback);
+      }
+      case '$let': {
+        const { vars, in: body } = named(['vars', 'in']);
+        if (!this.isPlainObject(vars)) {
+          throw this.invalid(operator, 'vars must be an object', vars);
+        }
+        const scope = { ...variables };
+        for (const [name, expression] of Object.entries(vars)) {
+          scope[name] = evaluate(expression);
+        }
+        return evaluate(body, scope);
+      }
+
+      // Strings
+      case '$concat': case '$substr': case '$substrCP': case '$toLower': case '$toUpper':
+      case '$split': case '$strLenCP':
+        return this.stringOperator(operator, list(...this.stringArity(operator)));
+      case '$trim': case '$ltrim': case '$rtrim': {
+        const { input, chars } = named(['input']);
+        return this.trim(operator, evaluate(input), chars === undefined ? undefined : evaluate(chars));
+      }
+      case '$regexMatch': {
+        const { input, regex, options } = named(['input', 'regex']);
+        return this.regexMatch(evaluate(input), evaluate(regex), options === undefined ? undefined : evaluate(options));
+      }
+
+      // Arrays
+      case '$size': case '$arrayElemAt': case '$first': case '$last': case '$in':
+      case '$concatArrays': case '$slice': case '$isArray':
+        return this.arrayOperator(operator, list(...this.arrayArity(operator)));
+      case '$sum': case '$avg': case '$min': case '$max': {
+        const values = this.argumentList(operator, args, 1, Infinity).map(arg => evaluate(arg));
+        return this.arrayAggregate(operator, values.length === 1 && Array.isArray(values[0]) ? values[0] : values);
+      }
+      case '$map': case '$filter': case '$reduce':
+        return this.iterate(doc, operator, args, variables);
+
+      // Dates
+      case '$year': case '$month': case '$dayOfMonth': case '$dayOfYear': case '$dayOfWeek':
+      case '$hour': case '$minute': case '$second': case '$millisecond': {
+        const { date, timezone } = this.isPlainObject(args) && 'date' in args
+          ? named(['date'])
+          : { date: Array.isArray(args) ? this.argumentList(operator, args, 1)[0] : args, timezone: undefined };
+        const value = this.toDateArgument(operator, evaluate(date));
+        return value === null ? null : this.datePart(operator, this.dateParts(value, evaluate(timezone)));
+      }
+      case '$dateToString': {
+        const { date, format, timezone, onNull } = named(['date']);
+        const value = this.toDateArgument(operator, evaluate(date));
+        if (value === null) {
+          return onNull === undefined ? null : evaluate(onNull);
+        }
+        return this.formatDate(value, format === undefined ? '%Y-%m-%dT%H:%M:%S.%LZ' : evaluate(format), evaluate(timezone));
+      }
+      case '$dateTrunc': {
+        const { date, unit, binSize, timezone, startOfWeek } = named(['date', 'unit']);
+        const value = this.toDateArgument(operator, evaluate(date));
+        const size = binSize === undefined ? 1 : evaluate(binSize);
+        if (value === null || size === null || size === undefined) return null;
+        return this.truncateDate(value, evaluate(unit), size, evaluate(timezone), startOfWeek === undefined ? 'sunday' : evaluate(startOfWeek));
+      }
+
+      // Type conversion
+      case '$toInt': case '$toLong': case '$toDouble': case '$toDecimal': case '$toString': case '$toBool': case '$toDate':
+        return this.convert(operator, this.CONVERSIONS[operator], list(1)[0]);
+      case '$convert': {
+        const { input, to, onError, onNull } = named(['input', 'to']);
+        const value = evaluate(input);
+        if (value === null || value === undefined) {
+          return onNull === undefined ? null : evaluate(onNull);
+        }
+        try {
+          return this.convert(operator, evaluate(to), value);
+        } catch (error) {
+          if (onError === undefined) throw error;
+          return evaluate(onError);
+        }
+      }
+
+      default:
+        throw new ValidationError(ERROR_MESSAGES.EXPRESSION_UNKNOWN_OPERATOR(operator), 'operator', operator);
+    }
+  }
+
+  /**
+   * Value of `$$name` or `$$name.path`
+   *
+   * @throws ValidationError if the variable is not defined
+   */
+  private static resolveVariable(doc: Document, reference: string, variables: Record<string, any>): any {
+    const [name, ...path] = reference.split('.');
+    let value: any;
+    if (name in variables) {
+      value = variables[name];
+    } else if (name === 'ROOT' || name === 'CURRENT') {
+      value = doc;
+    } else if (name === 'NOW') {
+      value = new Date();
+    } else if (name === 'REMOVE') {
+      value = undefined;
+    } else {
+      throw new ValidationError(ERROR_MESSAGES.EXPRESSION_UNDEFINED_VARIABLE(name), 'variable', name);
+    }
+    return path.length > 0 ? this.resolvePath(value, path) : value;
+  }
+
+  /**
+   * Value at a dot-notation path; a path through an array yields the array of values found
+   */
+  private static resolvePath(value: any, path: string[]): any {
+    let current = value;
+    for (let i = 0; i < path.length; i++) {
+      if (Array.isArray(current)) {
+        const rest = path.slice(i);
+        return current.map(element => this.resolvePath(element, rest)).filter(element => element !== undefined);
+      }
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      current = current[path[i]];
+    }
+    return current;
+  }
+
+  private static compare(operator: string, order: number): boolean | number {
+    switch (operator) {
+      case '$eq': return order === 0;
+      case '$ne': return order !== 0;
+      case '$gt': return order > 0;
+      case '$gte': return order >= 0;
+      case '$lt': return order < 0;
+      case '$lte': return order <= 0;
+      default: return Math.sign(order);
+    }
+  }
+
+  private static arithmeticArity(operator: string): [number, number] {
+    switch (operator) {
+      case '$add': case '$multiply': return [0, Infinity];
+      case '$abs': case '$ceil': case '$floor': case '$sqrt': return [1, 1];
+      case '$round': case '$trunc': return [1, 2];
+      default: return [2, 2];
+    }
+  }
+
+  /**
+   * Numeric operators; `$add` also offsets a date by milliseconds and `$subtract` returns the
+   * milliseconds between two dates or moves a date back
+   */
+  private static arithmetic(operator: string, values: any[]): any {
+    if (values.some(value => value === null || value === undefined)) {
+      return null;
+    }
+
+    if (operator === '$add') {
+      const dates = values.filter(value => value instanceof Date);
+      if (dates.length > 1) {
+        throw this.invalid(operator, 'only one date can be added', values);
+      }
+      const total = values.reduce((sum, value) => sum + this.numberArgument(operator, value instanceof Date ? value.getTime() : value), 0);
+      return dates.length === 1 ? new Date(total) : total;
+    }
+    if (operator === '$subtract') {
+      const [a, b] = values;
+      if (a instanceof Date) {
+        return b instanceof Date ? a.getTime() - b.getTime() : new Date(a.getTime() - this.numberArgument(operator, b));
+      }
+      return this.numberArgument(operator, a) - this.numberArgument(operator, b);
+    }
+
+    const numbers = values.map(value => this.numberArgument(operator, value));
+    const [a, b] = numbers;
+    switch (operator) {
+      case '$multiply':
+        return numbers.reduce((product, value) => product * value, 1);
+      case '$divide':
+      case '$mod':
+        if (b === 0) {
+          throw this.invalid(operator, 'cannot divide by zero', values);
+        }
+        return operator === '$divide' ? a / b : a % b;
+      case '$pow':
+        return Math.pow(a, b);
+      case '$abs':
+        return Math.abs(a);
+      case '$ceil':
+        return Math.ceil(a);
+      case '$floor':
+        return Math.floor(a);
+      case '$sqrt':
+        if (a < 0) {
+          throw this.invalid(operator, 'argument must be non-negative', a);
+        }
+        return Math.sqrt(a);
+      default:
+        return this.round(operator, a, b ?? 0);
+    }
+  }
+
+  /**
+   * `$round` (half to even, like MongoDB) and `$trunc` to a number of decimal places
+   */
+  private static round(operator: string, value: number, place: number): number {
+    if (!Number.isInteger(place) || place < -20 || place > 100) {
+      throw this.invalid(operator, 'place must be an integer between -20 and 100', place);
+    }
+    const factor = Math.pow(10, place);
+    const scaled = value * factor;
+    if (operator === '$trunc') {
+      return Math.trunc(scaled) / factor;
+    }
+    const rounded = Math.abs(scaled % 1) === 0.5 ? 2 * Math.round(scaled / 2) : Math.round(scaled);
+    return rounded / factor;
+  }
+
+  private static stringArity(operator: string): [number, number] {
+    switch (operator) {
+      case '$concat': return [0, Infinity];
+      case '$substr': case '$substrCP': return [3, 3];
+      case '$split': return [2, 2];
+      default: return [1, 1];
+    }
+  }
+
+  private static stringOperator(operator: string, values: any[]): any {
+    switch (operator) {
+      case '$concat':
+        if (values.some(value => value === null || value === undefined)) return null;
+        return values.map(value => this.stringArgument(operator, value)).join('');
+      case '$substr':
+      case '$substrCP': {
+        const [input, start, length] = values;
+        const characters = Array.from(input === null || input === undefined ? '' : this.stringify(operator, input));
+        const from = this.numberArgument(operator, start);
+        const count = this.numberArgument(operator, length);
+        if (from < 0) {
+          throw this.invalid(operator, 'start must be non-negative', start);
+        }
+        return characters.slice(from, count < 0 ? undefined : from + count).join('');
+      }
+      case '$toLower':
+      case '$toUpper': {
+        const [input] = values;
+        const text = input === null || input === undefined ? '' : this.stringify(operator, input);
+        return operator === '$toLower' ? text.toLowerCase() : text.toUpperCase();
+      }
+      case '$split': {
+        const [input, delimiter] = values;
+        if (input === null || input === undefined) return null;
+        const separator = this.stringArgument(operator, delimiter);
+        if (separator.length === 0) {
+          throw this.invalid(operator, 'delimiter must not be empty', delimiter);
+        }
+        return this.stringArgument(operator, input).split(separator);
+      }
+      default:
+        return Array.from(this.stringArgument(operator, values[0])).length;
+    }
+  }
+
+  private static trim(operator: string, input: any, chars?: any): string | null {
+    if (input === null || input === undefined) return null;
+    const text = this.stringArgument(operator, input);
+    const trimmed = new Set(Array.from(chars === undefined || chars === null ? ' \t\n\r\f\v ' : this.stringArgument(operator, chars)));
+    const characters = Array.from(text);
+    let start = 0;
+    let end = characters.length;
+    if (operator !== '$rtrim') {
+      while (start < end && trimmed.has(characters[start])) start++;
+    }
+    if (operator !== '$ltrim') {
+      while (end > start && trimmed.has(characters[end - 1])) end--;
+    }
+    return characters.slice(start, end).join('');
+  }
+
+  private static regexMatch(input: any, pattern: any, options?: any): boolean {
+    if (input === null || input === undefined) return false;
+    const text = this.stringArgument('$regexMatch', input);
+    if (pattern === null || pattern === undefined) return false;
+
+    let regex: RegExp;
+    try {
+      if (pattern instanceof RegExp) {
+        regex = options ? new RegExp(pattern.source, this.stringArgument('$regexMatch', options)) : pattern;
+      } else {
+        regex = new RegExp(this.stringArgument('$regexMatch', pattern), options ? this.stringArgument('$regexMatch', options) : undefined);
+      }
+    } catch (error) {
+      throw this.invalid('$regexMatch', (error as Error).message, pattern);
+    }
+    regex.lastIndex = 0;
+    return regex.test(text);
+  }
+
+  private static arrayArity(operator: string): [number, number] {
+    switch (operator) {
+      case '$concatArrays': return [0, Infinity];
+      case '$arrayElemAt': case '$in': return [2, 2];
+      case '$slice': return [2, 3];
+      // { $size: '$tags' } and { $size: ['$tags'] } are the same
+      default: return [1, 1];
+    }
+  }
+
+  private static arrayOperator(operator: string, values: any[]): any {
+    const [input] = values;
+    switch (operator) {
+      case '$isArray':
+        return Array.isArray(input);
+      case '$size':
+        return this.arrayArgument(operator, input).length;
+      case '$in':
+        return this.arrayArgument(operator, values[1]).some(element => compareValues(element, input ?? null) === 0);
+      case '$concatArrays':
+        if (values.some(value => value === null || value === undefined)) return null;
+        return values.flatMap(value => this.arrayArgument(operator, value));
+      default:
+        break;
+    }
+
+    if (input === null || input === undefined) return null;
+    const array = this.arrayArgument(operator, input);
+    switch (operator) {
+      case '$first':
+        return array[0];
+      case '$last':
+        return array[array.length - 1];
+      case '$arrayElemAt': {
+        const index = this.integerArgument(operator, values[1]);
+        return array[index < 0 ? array.length + index : index];
+      }
+      default: {
+        // $slice: [array, n] takes n from the front (or back when negative), [array, position, n]
+        const numbers = values.slice(1).map(value => this.integerArgument(operator, value));
+        if (numbers.length === 1) {
+          const [count] = numbers;
+          return count < 0 ? array.slice(Math.max(array.length + count, 0)) : array.slice(0, count);
+        }
+        const [position, count] = numbers;
+        if (count <= 0) {
+          throw this.invalid(operator, 'the number of elements must be positive', count);
+        }
+        const start = position < 0 ? Math.max(array.length + position, 0) : position;
+        return array.slice(start, start + count);
+      }
+    }
+  }
+
+  /**
+   * `$sum`, `$avg`, `$min` and `$max` over an array (or the list of arguments);
+   * non-numeric values are ignored by `$sum`/`$avg`, null and missing ones by `$min`/`$max`
+   */
+  private static arrayAggregate(operator: string, values: any[]): any {
+    if (operator === '$sum' || operator === '$avg') {
+      const numbers = values.filter(value => typeof value === 'number');
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      if (operator === '$sum') return sum;
+      return numbers.length > 0 ? sum / numbers.length : null;
+    }
+
+    let result: any = null;
+    for (const value of values) {
+      if (value === null || value === undefined) continue;
+      const order = result === null ? 0 : compareValues(value, result);
+      if (result === null || (operator === '$min' ? order < 0 : order > 0)) {
+        result = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * `$map`, `$filter` and `$reduce`: evaluate a sub-expression per array element
+   * The element is bound to `as` (default `this`); `$reduce` also binds the running `value`
+   */
+  private static iterate(doc: Document, operator: string, args: any, variables: Record<string, any>): any {
+    const required = operator === '$map' ? ['input', 'in'] : operator === '$filter' ? ['input', 'cond'] : ['input', 'initialValue', 'in'];
+    const spec = this.namedArguments(operator, args, required);
+    const input = this.evaluate(doc, spec.input, variables);
+    if (input === null || input === undefined) return null;
+    const array = this.arrayArgument(operator, input);
+
+    if (operator === '$reduce') {
+      let value = this.evaluate(doc, spec.initialValue, variables);
+      for (const element of array) {
+        value = this.evaluate(doc, spec.in, { ...variables, value, this: element });
+      }
+      return value;
+    }
+
+    const name = spec.as ?? 'this';
+    if (typeof name !== 'string' || name.length === 0) {
+      throw this.invalid(operator, "'as' must be a variable name", name);
+    }
+    const scoped = (element: any) => ({ ...variables, [name]: element });
+
+    if (operator === '$map') {
+      return array.map(element => this.evaluate(doc, spec.in, scoped(element)));
+    }
+
+    const limit = spec.limit === undefined ? Infinity : this.integerArgument(operator, this.evaluate(doc, spec.limit, variables));
+    if (limit < 1) {
+      throw this.invalid(operator, 'limit must be a positive integer', limit);
+    }
+    const result: any[] = [];
+    for (const element of array) {
+      if (result.length >= limit) break;
+      if (this.isTrue(this.evaluate(doc, spec.cond, scoped(element)))) {
+        result.push(element);
+      }
+    }
+    return result;
+  }
+
+  private static datePart(operator: string, parts: DateParts): number {
+    switch (operator) {
+      case '$year': return parts.year;
+      case '$month': return parts.month;
+      case '$dayOfMonth': return parts.day;
+      case '$dayOfWeek': return parts.dayOfWeek;
+      case '$dayOfYear': return this.dayOfYear(parts);
+      case '$hour': return parts.hour;
+      case '$minute': return parts.minute;
+      case '$second': return parts.second;
+      default: return parts.millisecond;
+    }
+  }
+
+  private static dayOfYear(parts: DateParts): number {
+    return (Date.UTC(parts.year, parts.month - 1, parts.day) - Date.UTC(parts.year, 0, 1)) / this.DAY_MS + 1;
+  }
+
+  /**
+   * Format a date with `%Y %m %d %H %M %S %L %j %w %u %z %Z %%` specifiers
+   */
+  private static formatDate(date: Date, format: any, timezone: any): string {
+    const text = this.stringArgument('$dateToString', format);
+    const parts = this.dateParts(date, timezone);
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    const offsetMinutes = Math.round(parts.offset / 60000);
+
+    return text.replace(/%(.)/g, (specifier: string, code: string) => {
+      switch (code) {
+        case 'Y': return pad(parts.year, 4);
+        case 'm': return pad(parts.month);
+        case 'd': return pad(parts.day);
+        case 'H': return pad(parts.hour);
+        case 'M': return pad(parts.minute);
+        case 'S': return pad(parts.second);
+        case 'L': return pad(parts.millisecond, 3);
+        case 'j': return pad(this.dayOfYear(parts), 3);
+        case 'w': return String(parts.dayOfWeek);
+        case 'u': return String(parts.dayOfWeek === 1 ? 7 : parts.dayOfWeek - 1);
+        case 'z': return `${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}${pad(Math.abs(offsetMinutes) % 60)}`;
+        case 'Z': return String(offsetMinutes);
+        case '%': return '%';
+        default: throw this.invalid('$dateToString', `unsupported format specifier ${specifier}`, text);
+      }
+    });
+  }
+
+  /**
+   * Start of the `binSize`-unit period containing a date, on the wall clock of `timezone`
+   */
+  private static truncateDate(date: Date, unit: any, binSize: any, timezone: any, startOfWeek: any): Date {
+    if (!Number.isInteger(binSize) || binSize < 1) {
+      throw this.invalid('$dateTrunc', 'binSize must be a positive integer', binSize);
+    }
+
+    const wallTime = date.getTime() + this.timezoneOffset(date.getTime(), timezone);
+    let truncated: number;
+
+    if (typeof unit === 'string' && unit in this.FIXED_DATE_UNITS) {
+      const size = binSize * this.FIXED_DATE_UNITS[unit];
+      truncated = this.BIN_REFERENCE + Math.floor((wallTime - this.BIN_REFERENCE) / size) * size;
+    } else if (unit === 'week') {
+      const weekday = this.WEEKDAYS.findIndex(name => typeof startOfWeek === 'string' &&
+        (name === startOfWeek.toLowerCase() || name.substring(0, 3) === startOfWeek.toLowerCase()));
+      if (weekday < 0) {
+        throw this.invalid('$dateTrunc', 'startOfWeek must be a day of the week', startOfWeek);
+      }
+      // First such weekday on or after the reference date
+      const reference = this.BIN_REFERENCE + ((weekday - new Date(this.BIN_REFERENCE).getUTCDay() + 7) % 7) * this.DAY_MS;
+      const size = binSize * 7 * this.DAY_MS;
+      truncated = reference + Math.floor((wallTime - reference) / size) * size;
+    } else if (unit === 'month' || unit === 'quarter' || unit === 'year') {
+      const wall = new Date(wallTime);
+      const months = (wall.getUTCFullYear() - 2000) * 12 + wall.getUTCMonth();
+      const size = binSize * (unit === 'month' ? 1 : unit === 'quarter' ? 3 : 12);
+      truncated = Date.UTC(2000, Math.floor(months / size) * size, 1);
+    } else {
+      throw this.invalid('$dateTrunc', 'unit must be one of year, quarter, month, week, day, hour, minute, second, millisecond', unit);
+    }
+
+    return new Date(this.fromWallTime(truncated, timezone));
+  }
+
+  /**
+   * Calendar fields of a date in a time zone
+   */
+  private static dateParts(date: Date, timezone: any): DateParts {
+    const offset = this.timezoneOffset(date.getTime(), timezone);
+    const wall = new Date(date.getTime() + offset);
+    return {
+      year: wall.getUTCFullYear(),
+      month: wall.getUTCMonth() + 1,
+      day: wall.getUTCDate(),
+      hour: wall.getUTCHours(),
+      minute: wall.getUTCMinutes(),
+      second: wall.getUTCSeconds(),
+      millisecond: wall.getUTCMilliseconds(),
+      dayOfWeek: wall.getUTCDay() + 1,
+      offset
+    };
+  }
+
+  /**
+   * Milliseconds to add to a UTC time to get the wall-clock time of a time zone
+   * Time zones are Olson names (`'Europe/Paris'`) or UTC offsets (`'+05:30'`, `'-0800'`);
+   * null or missing means UTC
+   *
+   * @throws ValidationError for unknown time zones
+   */
+  private static timezoneOffset(time: number, timezone: any): number {
+    if (timezone === undefined || timezone === null || timezone === 'UTC' || timezone === 'GMT' || timezone === 'Z') {
+      return 0;
+    }
+    if (typeof timezone !== 'string') {
+      throw new ValidationError(ERROR_MESSAGES.EXPRESSION_TIMEZONE_INVALID(String(timezone)), 'timezone', timezone);
+    }
+
+    const offset = /^([+-])(\d{2}):?(\d{2})?$/.exec(timezone);
+    if (offset) {
+      return (offset[1] === '-' ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3] ?? 0)) * 60000;
+    }
+
+    let formatter = this.timezoneFormatters.get(timezone);
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone, hourCycle: 'h23',
+          year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+        });
+      } catch {
+        throw new ValidationError(ERROR_MESSAGES.EXPRESSION_TIMEZONE_INVALID(timezone), 'timezone', timezone);
+      }
+      this.timezoneFormatters.set(timezone, formatter);
+    }
+
+    const fields: Record<string, number> = {};
+    for (const part of formatter.formatToParts(new Date(time))) {
+      if (part.type !== 'literal') fields[part.type] = Number(part.value);
+    }
+    const wholeSeconds = time - (((time % 1000) + 1000) % 1000);
+    return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second) - wholeSeconds;
+  }
+
+  /**
+   * UTC time of a wall-clock time in a time zone
+   */
+  private static fromWallTime(wallTime: number, timezone: any): number {
+    const estimate = wallTime - this.timezoneOffset(wallTime, timezone);
+    return wallTime - this.timezoneOffset(estimate, timezone);
+  }
+
+  /**
+   * Convert a value to `int`, `long`, `double`, `decimal`, `string`, `bool` or `date`
+   *
+   * @throws ValidationError if the value cannot be represented in the target type
+   */
+  private static convert(operator: string, to: any, value: any): any {
+    if (value === null || value === undefined) return null;
+    const fail = () => new ValidationError(ERROR_MESSAGES.EXPRESSION_CONVERSION_FAILED(operator, value, String(to)), operator, value);
+
+    switch (to) {
+      case 'int':
+      case 'long': {
+        let number: number;
+        if (typeof value === 'boolean') number = value ? 1 : 0;
+        else if (typeof value === 'number') number = Math.trunc(value);
+        else if (typeof value === 'string' && /^\s*[+-]?\d+\s*$/.test(value)) number = Number(value);
+        else if (value instanceof Date && to === 'long') number = value.getTime();
+        else throw fail();
+        if (!Number.isFinite(number) || (to === 'int' && (number > 2147483647 || number < -2147483648))) throw fail();
+        return number;
+      }
+      case 'double':
+      case 'decimal': {
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (typeof value === 'number') return value;
+        if (value instanceof Date) return value.getTime();
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        if (Number.isNaN(number)) throw fail();
+        return number;
+      }
+      case 'string':
+        if (value instanceof Date) return value.toISOString();
+        if (typeof value === 'object') throw fail();
+        return String(value);
+      case 'bool':
+        if (typeof value === 'number') return value !== 0;
+        if (typeof value === 'boolean') return value;
+        if (typeof value === 'object' && !(value instanceof Date)) throw fail();
+        return true;
+      case 'date': {
+        if (value instanceof Date) return value;
+        const date = typeof value === 'number' || typeof value === 'string' ? new Date(value) : undefined;
+        if (!date || Number.isNaN(date.getTime())) throw fail();
+        return date;
+      }
+      default:
+        throw this.invalid(operator, "'to' must be one of int, long, double, decimal, string, bool, date", to);
+    }
+  }
+
+  /**
+   * Arguments given as an array (or a single argument for operators that take one)
+   */
+  private static argumentList(operator: string, args: any, min: number, max: number = min): any[] {
+    const list = Array.isArray(args) ? args : [args];
+    if (list.length < min || list.length > max) {
+      const expected = max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+      throw this.invalid(operator, `expected ${expected} argument(s), got ${list.length}`, args);
+    }
+    return list;
+  }
+
+  private static namedArguments(operator: string, args: any, required: string[]): Record<string, any> {
+    if (!this.isPlainObject(args)) {
+      throw this.invalid(operator, `expected an object with ${required.join(', ')}`, args);
+    }
+    const missing = required.filter(name => !(name in args));
+    if (missing.length > 0) {
+      throw this.invalid(operator, `missing ${missing.join(', ')}`, args);
+    }
+    return args;
+  }
+
+  private static numberArgument(operator: string, value: any): number {
+    if (typeof value !== 'number') {
+      throw this.invalid(operator, `expected a number, got ${this.describe(value)}`, value);
+    }
+    return value;
+  }
+
+  private static integerArgument(operator: string, value: any): number {
+    if (!Number.isInteger(value)) {
+      throw this.invalid(operator, `expected an integer, got ${this.describe(value)}`, value);
+    }
+    return value;
+  }
+
+  private static stringArgument(operator: string, value: any): string {
+    if (typeof value !== 'string') {
+      throw this.invalid(operator, `expected a string, got ${this.describe(value)}`, value);
+    }
+    return value;
+  }
+
+  /**
+   * String form of a scalar for the lenient string operators (`$substr`, `$toLower`, ...)
+   */
+  private static stringify(operator: string, value: any): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (value instanceof Date) return value.toISOString();
+    throw this.invalid(operator, `expected a string, got ${this.describe(value)}`, value);
+  }
+
+  private static arrayArgument(operator: string, value: any): any[] {
+    if (!Array.isArray(value)) {
+      throw this.invalid(operator, `expected an array, got ${this.describe(value)}`, value);
+    }
+    return value;
+  }
+
+  private static toDateArgument(operator: string, value: any): Date | null {
+    if (value === null || value === undefined) return null;
+    if (!(value instanceof Date)) {
+      throw this.invalid(operator, `expected a date, got ${this.describe(value)}`, value);
+    }
+    return value;
+  }
+
+  private static describe(value: any): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'missing';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    return typeof value;
+  }
+
+  private static isPlainObject(value: any): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  private static invalid(operator: string, reason: string, value: any): ValidationError {
+    return new ValidationError(ERROR_MESSAGES.EXPRESSION_ARGUMENTS_INVALID(operator, reason), operator, value);
+  }
+}
@@ -1,255 +1,696 @@
-import { Document, TextSearchOptions, TextSearchResult } from './types';
+import { Document, TextBM25Options, TextHighlightOptions, TextSearchOptions, TextSearchResult } from './types';
 import { logger } from './logger';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES, LIMITS } from './constants';
+import { getValuesByPath } from './utils';
+import { TextQueryParser, TextQueryClause } from './text-query';
+import { TextAnalyzer } from './text-analysis';
+
+/**
+ * Public description of a text index
+ */
+export interface TextIndexDefinition {
+  name: string;
+  collection: string;
+  fields: string[];
+  weights: Record<string, number>; // Score multiplier per field
+  defaultLanguage: string;
+  languageOverride: string; // Document field naming the language of that document
+  bm25: Required<TextBM25Options>;
+}
+
+/**
+ * Token positions of a term in one document, per field
+ */
+type TermOccurrences = Map<string, number[]>;
+
+interface IndexedDocument {
+  terms: string[];
+  lengths: Record<string, number>; // Token count per field
+  accents?: Map<string, string>; // accentKey() -> term as written with diacritics, for tokens that had any
+}
+
+interface TextIndex extends TextIndexDefinition {
+  analyzer: TextAnalyzer; // Of defaultLanguage
+  postings: Map<string, Map<string, TermOccurrences>>; // term -> docId -> occurrences
+  documents: Map<string, IndexedDocument>;
+  totalLengths: Record<string, number>; // Token count per field over all documents, for BM25
+}
+
+/**
+ * A query term as searched for: `exact` is its form with diacritics, `expanded` marks
+ * vocabulary terms a prefix or fuzzy term stands for (which match regardless of diacritics)
+ */
+interface QueryTerm {
+  term: string;
+  exact?: string;
+  expanded: boolean;
+  factor: number; // Score multiplier
+}
+
+interface SearchContext {
+  index: TextIndex;
+  analyzer: TextAnalyzer; // Of the query's language
+  diacriticSensitive: boolean;
+  boosts: Record<string, number>;
+}
+
+/**
+ * A positive query clause prepared for highlighting: the fields it applies to and the terms
+ * it matches (with their offsets in the phrase, for phrases)
+ */
+interface HighlightClause {
+  fields: string[];
+  phrase: boolean;
+  terms: Array<QueryTerm & { position?: number }>;
+}
+
+function accentKey(term: string, field: string, position: number): string {
+  return `${field}\u0000${position}\u0000${term}`;
+}
 
 /**
  * Full-Text Search Engine for Monarch Database
- * Implements text indexing and search with scoring
+ * Implements text indexing and search with BM25 scoring and highlighting
+ *
+ * Each index is an inverted index from terms to the documents and field positions holding
+ * them, plus the terms of each document so it can be re-indexed or removed without scanning
+ * the vocabulary. Collections keep their text index current on insert, update and remove.
+ * Terms come from the TextAnalyzer of the index language or, per document, of the language
+ * named in its `languageOverride` field.
  */
 export class FullTextSearchEngine {
   private textIndexes = new Map<string, TextIndex>();
-  private tokenizer = new TextTokenizer();
 
   /**
    * Create a text index on specified fields
+   *
+   * @returns The index name (default like `title_text_body_text`)
+   * @throws ValidationError if a weight is not a positive number for one of the fields, the
+   *   BM25 parameters are out of range or the default language has no analyzer
    */
   createTextIndex(collection: string, fields: string[], options: {
     weights?: Record<string, number>;
     defaultLanguage?: string;
+    languageOverride?: string;
+    bm25?: TextBM25Options;
     name?: string;
-  } = {}): void {
-    const indexName = options.name || `text_${fields.join('_')}`;
-    const weights = options.weights || {};
-
+  } = {}): string {
+    const indexName = options.name || fields.map(field => `${field}_text`).join('_');
+    const weights: Record<string, number> = {};
+    const defaultLanguage = options.defaultLanguage || 'english';
+    const analyzer = TextAnalyzer.get(defaultLanguage);
+
+    for (const [field, weight] of Object.entries(options.weights ?? {})) {
+      if (!fields.includes(field) || typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+        throw new ValidationError(ERROR_MESSAGES.INDEX_TEXT_WEIGHT_INVALID(field), 'weights', options.weights);
+      }
+    }
+    const bm25 = { k1: options.bm25?.k1 ?? LIMITS.TEXT_BM25_K1, b: options.bm25?.b ?? LIMITS.TEXT_BM25_B };
+    if (!isNonNegative(bm25.k1) || !isNonNegative(bm25.b) || bm25.b > 1) {
+      throw new ValidationError(ERROR_MESSAGES.TEXT_BM25_INVALID, 'bm25', options.bm25);
+    }
     // Default weight of 1 for all fields
     fields.forEach(field => {
-      if (!(field in weights)) {
-        weights[field] = 1;
-      }
+      weights[field] = options.weights?.[field] ?? 1;
     });
 
-    this.textIndexes.set(indexName, new Map([
-      ['_fields', fields],
-      ['_weights', weights],
-      ['_language', options.defaultLanguage || 'english'],
-      ['_collection', collection]
-    ] as any));
+    this.textIndexes.set(indexName, {
+      name: indexName,
+      collection,
+      fields: [...fields],
+      weights,
+      defaultLanguage,
+      languageOverride: options.languageOverride || 'language',
+      bm25,
+      analyzer,
+      postings: new Map(),
+      documents: new Map(),
+      totalLengths: Object.fromEntries(fields.map(field => [field, 0]))
+    });
 
     logger.info('Text index created', { indexName, collection, fields, weights });
+    return indexName;
+  }
+
+  hasIndex(indexName: string): boolean {
+    return this.textIndexes.has(indexName);
+  }
+
+  /**
+   * Describe all text indexes
+   */
+  getIndexes(): TextIndexDefinition[] {
+    return Array.from(this.textIndexes.values()).map(index => ({
+      name: index.name,
+      collection: index.collection,
+      fields: [...index.fields],
+      weights: { ...index.weights },
+      defaultLanguage: index.defaultLanguage,
+      languageOverride: index.languageOverride,
+      bm25: { ...index.bm25 }
+    }));
   }
 
   /**
    * Update text index with document changes
+   * Replaces whatever the index held for the document
    */
   updateIndex(indexName: string, document: Document): void {
     const index = this.textIndexes.get(indexName);
     if (!index) return;
 
-    const fields = index.get('_fields') as string[];
-    const weights = index.get('_weights') as Record<string, number>;
-    const data = (index.get('_data') as Map<string, Map<string, TextIndexEntry>>) || new Map();
     const docId = document._id as string;
-
-    // Remove existing entries for this document
-    for (const [term, entries] of data) {
-      entries.delete(docId);
-      if (entries.size === 0) {
-        data.delete(term);
+    this.removeEntries(index, docId);
+
+    const analyzer = this.documentAnalyzer(index, document);
+    const terms = new Set<string>();
+    const accents = new Map<string, string>();
+    const lengths: Record<string, number> = {};
+    for (const field of index.fields) {
+      const tokens = analyzer.analyze(this.extractText(document, field));
+      lengths[field] = tokens.length;
+
+      for (const { term, position, exact } of tokens) {
+        if (exact !== undefined && exact !== term) {
+          accents.set(accentKey(term, field, position), exact);
+        }
+        let entries = index.postings.get(term);
+        if (!entries) {
+          entries = new Map();
+          index.postings.set(term, entries);
+        }
+        let occurrences = entries.get(docId);
+        if (!occurrences) {
+          occurrences = new Map();
+          entries.set(docId, occurrences);
+        }
+        if (!occurrences.has(field)) {
+          occurrences.set(field, []);
+        }
+        occurrences.get(field)!.push(position);
+        terms.add(term);
       }
     }
 
-    // Add new entries
-    fields.forEach(field => {
-      const text = this.extractText(document, field);
-      if (text) {
-        const tokens = this.tokenizer.tokenize(text);
-        const weight = weights[field] || 1;
+    if (terms.size > 0) {
+      index.documents.set(docId, { terms: Array.from(terms), lengths, ...(accents.size > 0 && { accents }) });
+      index.fields.forEach(field => {
+        index.totalLengths[field] += lengths[field];
+      });
+    }
+  }
 
-        tokens.forEach(token => {
-          if (!data.has(token)) {
-            data.set(token, new Map());
-          }
-          const termEntries = data.get(token)!;
-          termEntries.set(docId, {
-            field,
-            weight,
-            positions: this.findPositions(text, token),
-            frequency: (termEntries.get(docId)?.frequency || 0) + 1
-          });
-        });
+  /**
+   * Analyzer of the language a document names in the languageOverride field, else of the index
+   * An unknown language falls back to the index language.
+   */
+  private documentAnalyzer(index: TextIndex, document: Document): TextAnalyzer {
+    const language = document[index.languageOverride];
+    if (typeof language !== 'string' || language === index.defaultLanguage) {
+      return index.analyzer;
+    }
+    if (!TextAnalyzer.has(language)) {
+      logger.warn('Unknown document language, using the text index default', {
+        indexName: index.name,
+        documentId: document._id,
+        language
+      });
+      return index.analyzer;
+    }
+    return TextAnalyzer.get(language);
+  }
+
+  /**
+   * Search text index
+   * The query is parsed by TextQueryParser: words, "phrases", -negations, OR, prefix* and fuzzy~
+   * terms, optionally scoped to a field. Results are ordered by score.
+   * Query words are analyzed in `options.language` (default: the index language). With
+   * `diacriticSensitive`, words and phrases only match terms written with the same diacritics;
+   * prefix and fuzzy terms ignore diacritics either way.
+   * With `options.highlight`, results get highlights() of the documents `getDocument` returns.
+   *
+   * @returns Matches with their score; `document` only carries the `_id`
+   * @throws ValidationError if the index does not exist, the language has no analyzer, a boost
+   *   or the highlight options are invalid, or the query names a field the index does not hold
+   */
+  search(
+    indexName: string,
+    query: string,
+    options: TextSearchOptions = {},
+    getDocument?: (docId: string) => Document | undefined
+  ): TextSearchResult[] {
+    const context = this.searchContext(indexName, options);
+    const alternatives = TextQueryParser.parse(query);
+    const scores = new Map<string, number>();
+    for (const clauses of alternatives) {
+      this.matchAlternative(context, clauses).forEach((score, docId) => {
+        scores.set(docId, (scores.get(docId) ?? 0) + score);
+      });
+    }
+
+    // Sort by score and apply limit
+    const sortedResults: TextSearchResult[] = Array.from(scores, ([docId, score]) => ({ document: { _id: docId } as Document, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? Infinity);
+
+    if (options.highlight && getDocument) {
+      const highlight = highlightOptions(options.highlight);
+      const clauses = this.highlightClauses(context, alternatives);
+      for (const result of sortedResults) {
+        const document = getDocument(result.document._id as string);
+        if (document) {
+          result.highlights = this.highlightDocument(context, clauses, document, highlight);
+        }
       }
+    }
+
+    logger.debug('Text search completed', {
+      indexName,
+      query,
+      alternatives: alternatives.length,
+      results: sortedResults.length
     });
 
-    index.set('_data', data);
+    return sortedResults;
   }
 
   /**
-   * Search text index
+   * Best fragments of a document's indexed text around the words a query matches, each
+   * matched word wrapped in the pre and post tags (default `<em>` and `</em>`)
+   * Fragments are ordered by their number of matches times the field weight; text cut off
+   * on either side is marked with `...`.
+   *
+   * @throws ValidationError as search() does
    */
-  search(indexName: string, query: string, options: TextSearchOptions = {}): TextSearchResult[] {
+  highlight(indexName: string, query: string, document: Document, options: TextSearchOptions = {}): string[] {
+    const context = this.searchContext(indexName, options);
+    const clauses = this.highlightClauses(context, TextQueryParser.parse(query));
+    return this.highlightDocument(context, clauses, document, highlightOptions(options.highlight));
+  }
+
+  private searchContext(indexName: string, options: TextSearchOptions): SearchContext {
     const index = this.textIndexes.get(indexName);
     if (!index) {
-      throw new Error(`Text index '${indexName}' not found`);
+      throw new ValidationError(ERROR_MESSAGES.INDEX_NOT_FOUND(indexName), 'indexName', indexName);
     }
 
-    const data = index.get('_data') as Map<string, Map<string, TextIndexEntry>>;
-    if (!data) {
-      return [];
+    for (const [field, boost] of Object.entries(options.boosts ?? {})) {
+      if (!index.fields.includes(field) || !isNonNegative(boost) || boost === 0) {
+        throw new ValidationError(ERROR_MESSAGES.TEXT_BOOST_INVALID(field), 'boosts', options.boosts);
+      }
     }
 
-    const tokens = this.tokenizer.tokenize(query);
-    const results = new Map<string, TextSearchResult>();
+    return {
+      index,
+      analyzer: options.language ? TextAnalyzer.get(options.language) : index.analyzer,
+      diacriticSensitive: options.diacriticSensitive === true,
+      boosts: options.boosts ?? {}
+    };
+  }
 
-    // Calculate scores for each document
-    tokens.forEach(token => {
-      const termEntries = data.get(token);
-      if (termEntries) {
-        termEntries.forEach((entry, docId) => {
-          if (!results.has(docId)) {
-            results.set(docId, {
-              document: { _id: docId } as Document, // Placeholder - would need document lookup
-              score: 0,
-              highlights: []
-            });
-          }
+  /**
+   * Documents matching one side of an `OR`, with their score
+   * A document must hold every phrase and no negated clause; without phrases it must hold one
+   * of the terms, with phrases the terms only add to the score.
+   */
+  private matchAlternative(context: SearchContext, clauses: TextQueryClause[]): Map<string, number> {
+    const required: Array<Map<string, number>> = [];
+    const optional: Array<Map<string, number>> = [];
+    const excluded = new Set<string>();
+
+    for (const clause of clauses) {
+      const matches = this.matchClause(context, clause);
+      if (!matches) continue; // Only stop words
+      if (clause.negated) {
+        matches.forEach((_, docId) => excluded.add(docId));
+      } else {
+        (clause.kind === 'phrase' ? required : optional).push(matches);
+      }
+    }
 
-          const result = results.get(docId)!;
-          // TF-IDF scoring
-          const tf = entry.frequency / this.getDocumentLength(docId, index);
-          const idf = Math.log(this.getTotalDocuments(index) / termEntries.size);
-          const fieldWeight = entry.weight;
+    const candidates = required.length > 0
+      ? Array.from(required[0].keys())
+      : Array.from(new Set(optional.flatMap(matches => Array.from(matches.keys()))));
 
-          result.score += (tf * idf * fieldWeight);
+    const scores = new Map<string, number>();
+    for (const docId of candidates) {
+      if (excluded.has(docId) || !required.every(matches => matches.has(docId))) continue;
+      const score = [...required, ...optional].reduce((total, matches) => total + (matches.get(docId) ?? 0), 0);
+      scores.set(docId, score);
+    }
+    return scores;
+  }
 
-          // Add highlights (simplified)
-          if (result.highlights!.length < 5) { // Limit highlights
-            result.highlights!.push(`${entry.field}: ...${token}...`);
-          }
-        });
-      }
-    });
+  /**
+   * Documents holding a term or phrase, with its score in them
+   *
+   * @returns null if the clause has no indexable words (e.g. only stop words)
+   */
+  private matchClause(context: SearchContext, clause: TextQueryClause): Map<string, number> | null {
+    const fields = this.clauseFields(context.index, clause);
+    if (clause.kind === 'phrase') {
+      return this.matchPhrase(context, clause.text, fields);
+    }
 
-    // Sort by score and apply limit
-    const sortedResults = Array.from(results.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, options.limit || 10);
+    const terms = this.expandTerm(context, clause);
+    if (!terms) return null;
 
-    logger.info('Text search completed', {
-      indexName,
-      query,
-      tokens: tokens.length,
-      results: sortedResults.length
-    });
+    const scores = new Map<string, number>();
+    for (const queryTerm of terms) {
+      for (const docId of context.index.postings.get(queryTerm.term)?.keys() ?? []) {
+        const score = this.termScore(context, queryTerm, docId, fields);
+        if (score > 0) {
+          scores.set(docId, (scores.get(docId) ?? 0) + score);
+        }
+      }
+    }
+    return scores;
+  }
 
-    return sortedResults;
+  /**
+   * @throws ValidationError if the clause is scoped to a field the index does not hold
+   */
+  private clauseFields(index: TextIndex, clause: TextQueryClause): string[] {
+    if (clause.field === undefined) {
+      return index.fields;
+    }
+    if (!index.fields.includes(clause.field)) {
+      throw new ValidationError(ERROR_MESSAGES.TEXT_QUERY_FIELD_UNKNOWN(clause.field, index.name), '$search', clause.field);
+    }
+    return [clause.field];
   }
 
   /**
-   * Remove document from text index
+   * Indexed terms a query term stands for
+   * Prefix and fuzzy terms keep their LIMITS.TEXT_MAX_TERM_EXPANSIONS most frequent matches,
+   * fuzzier matches scoring lower.
    */
-  removeFromIndex(indexName: string, docId: string): void {
-    const index = this.textIndexes.get(indexName);
-    if (!index) return;
+  private expandTerm(context: SearchContext, clause: TextQueryClause): QueryTerm[] | null {
+    const { index, analyzer } = context;
+    if (clause.prefix) {
+      // Prefixes are matched as written: a partial word would not stem like the whole one
+      const prefixes = analyzer.normalize(clause.text);
+      if (prefixes.length === 0) return null;
+      return this.mostFrequent(index, Array.from(index.postings.keys())
+        .filter(term => prefixes.some(prefix => term.startsWith(prefix)))
+        .map(term => ({ term, expanded: true, factor: 1 })));
+    }
 
-    const data = index.get('_data') as Map<string, Map<string, TextIndexEntry>>;
-    if (!data) return;
+    const tokens = analyzer.analyzeQuery(clause.text);
+    if (tokens.length === 0) return null;
+    if (clause.fuzziness === 0) {
+      return tokens.map(({ term, exact }) => ({ term, exact, expanded: false, factor: 1 }));
+    }
 
-    for (const [term, entries] of data) {
-      entries.delete(docId);
-      if (entries.size === 0) {
-        data.delete(term);
+    // A misspelled word may not stem like the word meant, so the unstemmed words are compared too
+    const words = [...tokens.map(token => token.term), ...analyzer.normalize(clause.text)];
+    const expansions: QueryTerm[] = [];
+    for (const term of index.postings.keys()) {
+      const distance = Math.min(...words.map(word => editDistance(word, term, clause.fuzziness)));
+      if (distance <= clause.fuzziness) {
+        expansions.push({ term, expanded: true, factor: 1 / (1 + distance) });
       }
     }
+    return this.mostFrequent(index, expansions);
+  }
+
+  private mostFrequent(index: TextIndex, terms: QueryTerm[]): QueryTerm[] {
+    return terms
+      .sort((a, b) => index.postings.get(b.term)!.size - index.postings.get(a.term)!.size)
+      .slice(0, LIMITS.TEXT_MAX_TERM_EXPANSIONS);
   }
 
   /**
-   * Drop text index
+   * Documents holding the words of a phrase next to each other in one field
+   * Positions count dropped stop words, so `"cup of tea"` needs a word between cup and tea
    */
-  dropIndex(indexName: string): void {
-    this.textIndexes.delete(indexName);
-    logger.info('Text index dropped', { indexName });
+  private matchPhrase(context: SearchContext, text: string, fields: string[]): Map<string, number> | null {
+    const terms = this.phraseTerms(context, text);
+    if (terms.length === 0) return null;
+
+    const scores = new Map<string, number>();
+    for (const docId of context.index.postings.get(terms[0].term)?.keys() ?? []) {
+      const matchedFields = fields.filter(field => this.phraseStarts(context, terms, docId, field).length > 0);
+      if (matchedFields.length > 0) {
+        scores.set(docId, terms.reduce((total, queryTerm) => total + this.termScore(context, queryTerm, docId, matchedFields), 0));
+      }
+    }
+    return scores;
   }
 
-  private extractText(document: Document, field: string): string {
-    const value = this.getNestedValue(document, field);
-    if (typeof value === 'string') {
-      return value;
-    }
-    if (Array.isArray(value)) {
-      return value.filter(item => typeof item === 'string').join(' ');
+  private phraseTerms(context: SearchContext, text: string): Array<QueryTerm & { position: number }> {
+    return context.analyzer.analyzeQuery(text)
+      .map(({ term, exact, position }) => ({ term, exact, position, expanded: false, factor: 1 }));
+  }
+
+  /**
+   * Positions in a document field where the phrase starts
+   */
+  private phraseStarts(context: SearchContext, terms: Array<QueryTerm & { position: number }>, docId: string, field: string): number[] {
+    const [first, ...rest] = terms;
+    return this.positions(context, first, docId, field).filter(start =>
+      rest.every(queryTerm =>
+        this.positions(context, queryTerm, docId, field).includes(start + queryTerm.position - first.position)));
+  }
+
+  /**
+   * BM25 score of a term in a document over some fields, multiplied by the field weights and boosts
+   * Each field is length-normalized against its own average length.
+   */
+  private termScore(context: SearchContext, queryTerm: QueryTerm, docId: string, fields: string[]): number {
+    const { index, boosts } = context;
+    const entries = index.postings.get(queryTerm.term);
+    if (!entries?.has(docId)) return 0;
+
+    const { k1, b } = index.bm25;
+    const documentCount = index.documents.size;
+    const idf = Math.log(1 + (documentCount - entries.size + 0.5) / (entries.size + 0.5));
+    const { lengths } = index.documents.get(docId)!;
+
+    return fields.reduce((score, field) => {
+      const frequency = this.positions(context, queryTerm, docId, field).length;
+      if (frequency === 0) return score;
+
+      const averageLength = index.totalLengths[field] / documentCount || 1;
+      const saturated = (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * lengths[field]) / averageLength));
+      return score + idf * saturated * index.weights[field] * (boosts[field] ?? 1);
+    }, 0) * queryTerm.factor;
+  }
+
+  /**
+   * Positions of a term in a document field; diacritic-sensitive searches only keep those
+   * where the document wrote the term with the same diacritics as the query
+   */
+  private positions(context: SearchContext, queryTerm: QueryTerm, docId: string, field: string): number[] {
+    const { index } = context;
+    const positions = index.postings.get(queryTerm.term)?.get(docId)?.get(field) ?? [];
+    if (!context.diacriticSensitive || queryTerm.expanded) {
+      return positions;
     }
-    return '';
+
+    const accents = index.documents.get(docId)?.accents;
+    const wanted = queryTerm.exact ?? queryTerm.term;
+    return positions.filter(position => (accents?.get(accentKey(queryTerm.term, field, position)) ?? queryTerm.term) === wanted);
   }
 
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  /**
+   * Resolve the terms of the positive clauses of a query once for highlighting many documents
+   */
+  private highlightClauses(context: SearchContext, alternatives: TextQueryClause[][]): HighlightClause[] {
+    return alternatives.flat()
+      .filter(clause => !clause.negated)
+      .map(clause => ({
+        fields: this.clauseFields(context.index, clause),
+        phrase: clause.kind === 'phrase',
+        terms: clause.kind === 'phrase' ? this.phraseTerms(context, clause.text) : this.expandTerm(context, clause) ?? []
+      }))
+      .filter(clause => clause.terms.length > 0);
   }
 
-  private getDocumentLength(docId: string, index: Map<string, any>): number {
-    let totalTerms = 0;
-    for (const [term, entries] of index) {
-      if (term.startsWith('_')) continue;
-      const entry = entries.get(docId);
-      if (entry) {
-        totalTerms += entry.frequency;
+  private highlightDocument(
+    context: SearchContext,
+    clauses: HighlightClause[],
+    document: Document,
+    options: Required<TextHighlightOptions>
+  ): string[] {
+    const { index } = context;
+    const docId = document._id as string;
+    const fragments: Array<{ text: string; score: number }> = [];
+
+    for (const field of index.fields) {
+      const hits = new Set<number>();
+      for (const { fields, phrase, terms } of clauses) {
+        if (!fields.includes(field)) continue;
+        if (phrase) {
+          const phraseTerms = terms as Array<QueryTerm & { position: number }>;
+          for (const start of this.phraseStarts(context, phraseTerms, docId, field)) {
+            phraseTerms.forEach(({ position }) => hits.add(start + position - phraseTerms[0].position));
+          }
+        } else {
+          terms.forEach(queryTerm => this.positions(context, queryTerm, docId, field).forEach(position => hits.add(position)));
+        }
+      }
+      if (hits.size === 0) continue;
+
+      const text = this.extractText(document, field);
+      const spans = this.documentAnalyzer(index, document).wordSpans(text);
+      const weight = index.weights[field] * (context.boosts[field] ?? 1);
+      const positions = Array.from(hits).filter(position => position < spans.length).sort((a, b) => a - b);
+      for (const fragment of buildFragments(text, spans, positions, options)) {
+        fragments.push({ text: fragment.text, score: fragment.hits * weight });
       }
     }
-    return totalTerms;
+
+    return fragments
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxFragments)
+      .map(fragment => fragment.text);
   }
 
-  private getTotalDocuments(index: Map<string, any>): number {
-    const data = index.get('_data') as Map<string, Map<string, TextIndexEntry>>;
-    if (!data) return 0;
+  /**
+   * Remove document from text index
+   */
+  removeFromIndex(indexName: string, docId: string): void {
+    const index = this.textIndexes.get(indexName);
+    if (index) {
+      this.removeEntries(index, docId);
+    }
+  }
 
-    const docIds = new Set<string>();
-    for (const entries of data.values()) {
-      for (const docId of entries.keys()) {
-        docIds.add(docId);
+  /**
+   * Drop all indexed entries while keeping the index definition
+   */
+  clearData(indexName: string): void {
+    const index = this.textIndexes.get(indexName);
+    if (index) {
+      index.postings.clear();
+      index.documents.clear();
+      index.fields.forEach(field => {
+        index.totalLengths[field] = 0;
+      });
+    }
+  }
+
+  /**
+   * Drop text index
+   */
+  dropIndex(indexName: string): void {
+    this.textIndexes.delete(indexName);
+    logger.info('Text index dropped', { indexName });
+  }
+
+  private removeEntries(index: TextIndex, docId: string): void {
+    const indexed = index.documents.get(docId);
+    if (!indexed) return;
+
+    for (const term of indexed.terms) {
+      const entries = index.postings.get(term);
+      entries?.delete(docId);
+      if (entries?.size === 0) {
+        index.postings.delete(term);
       }
     }
-    return docIds.size;
+    index.fields.forEach(field => {
+      index.totalLengths[field] -= indexed.lengths[field];
+    });
+    index.documents.delete(docId);
+  }
+
+  /**
+   * Strings at a field path, array elements included, joined into one text
+   */
+  private extractText(document: Document, field: string): string {
+    return getValuesByPath(document, field)
+      .flatMap(value => (Array.isArray(value) ? value : [value]))
+      .filter(value => typeof value === 'string')
+      .join(' ');
   }
+}
 
-  private findPositions(text: string, token: string): number[] {
-    const positions: number[] = [];
-    let index = text.toLowerCase().indexOf(token.toLowerCase());
-    while (index !== -1) {
-      positions.push(index);
-      index = text.toLowerCase().indexOf(token.toLowerCase(), index + 1);
+/**
+ * Levenshtein distance between two words, or max + 1 once it is known to exceed max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
     }
-    return positions;
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
   }
+  return Math.min(previous[b.length], max + 1);
 }
 
-interface TextIndexEntry {
-  field: string;
-  weight: number;
-  positions: number[];
-  frequency: number;
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
 }
 
-type TextIndex = Map<string, any>; // key -> metadata or Map<docId, TextIndexEntry>
+/**
+ * Highlight options with defaults
+ *
+ * @throws ValidationError if a size is not a positive integer or a tag not a string
+ */
+function highlightOptions(highlight: boolean | TextHighlightOptions | undefined): Required<TextHighlightOptions> {
+  const options = {
+    preTag: '<em>',
+    postTag: '</em>',
+    fragmentSize: LIMITS.TEXT_HIGHLIGHT_FRAGMENT_SIZE,
+    maxFragments: LIMITS.TEXT_HIGHLIGHT_MAX_FRAGMENTS,
+    ...(typeof highlight === 'object' ? highlight : {})
+  };
+  if (
+    typeof options.preTag !== 'string' || typeof options.postTag !== 'string' ||
+    !Number.isInteger(options.fragmentSize) || options.fragmentSize < 1 ||
+    !Number.isInteger(options.maxFragments) || options.maxFragments < 1
+  ) {
+    throw new ValidationError(ERROR_MESSAGES.TEXT_HIGHLIGHT_INVALID, 'highlight', highlight);
+  }
+  return options;
+}
 
 /**
- * Text Tokenizer for full-text search
+ * Cut a text into fragments around matched words: matches within fragmentSize characters of
+ * each other share a fragment, which is widened with whole words to about fragmentSize
+ *
+ * @param spans - Character range of each word by position
+ * @param positions - Matched word positions, ascending
  */
-class TextTokenizer {
-  private stopWords = new Set([
-    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
-    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
-    'to', 'was', 'will', 'with', 'would'
-  ]);
-
-  tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ') // Remove punctuation
-      .split(/\s+/)
-      .filter(token => token.length > 2 && !this.stopWords.has(token))
-      .map(token => this.stem(token)); // Simple stemming
-  }
-
-  private stem(word: string): string {
-    // Very basic stemming - remove common suffixes
-    return word.replace(/(ing|ly|ed|ies|ied|ies|ied|s)$/, '');
+function buildFragments(
+  text: string,
+  spans: Array<[number, number]>,
+  positions: number[],
+  options: Required<TextHighlightOptions>
+): Array<{ text: string; hits: number }> {
+  const fragments: Array<{ text: string; hits: number }> = [];
+  let i = 0;
+  while (i < positions.length) {
+    const start = spans[positions[i]][0];
+    let j = i + 1;
+    while (j < positions.length && spans[positions[j]][1] - start <= options.fragmentSize) j++;
+    const end = spans[positions[j - 1]][1];
+
+    const padding = Math.max(0, options.fragmentSize - (end - start)) / 2;
+    let from = spans.find(([wordStart]) => wordStart >= start - padding)![0];
+    let to = spans.filter(([, wordEnd]) => wordEnd <= end + padding).pop()![1];
+    if (from === spans[0][0]) from = 0;
+    if (to === spans[spans.length - 1][1]) to = text.length;
+
+    let fragment = '';
+    let cursor = from;
+    for (const position of positions.slice(i, j)) {
+      const [wordStart, wordEnd] = spans[position];
+      fragment += text.slice(cursor, wordStart) + options.preTag + text.slice(wordStart, wordEnd) + options.postTag;
+      cursor = wordEnd;
+    }
+    fragment += text.slice(cursor, to);
+
+    fragments.push({ text: (from > 0 ? '...' : '') + fragment + (to < text.length ? '...' : ''), hits: j - i });
+    i = j;
   }
+  return fragments;
 }
@@ -0,0 +1,368 @@
+import { Geometry } from './types';
+import { BoundingBox } from './rtree';
+
+type Position = [number, number];
+
+/**
+ * A geometry broken into points, lines and polygons (outer ring first, then holes)
+ * Longitudes along each line and ring are unwrapped: an edge spanning more than 180° of
+ * longitude crosses the antimeridian instead, so its far end is moved by 360°.
+ */
+export interface GeometryParts {
+  points: Position[];
+  lines: Position[][];
+  polygons: Position[][][];
+}
+
+// Comparisons against another geometry are repeated with it moved a turn east and west
+const SHIFTS = [0, 360, -360];
+
+/**
+ * Why a value is not a valid GeoJSON geometry or `[longitude, latitude]` pair
+ *
+ * @returns The reason, or null if the value is valid
+ */
+export function geometryError(value: any): string | null {
+  if (Array.isArray(value)) {
+    return isPosition(value) ? null : POSITION_ERROR;
+  }
+  if (typeof value !== 'object' || value === null || typeof value.type !== 'string') {
+    return 'expected a GeoJSON object or a [longitude, latitude] pair';
+  }
+
+  const { type, coordinates } = value;
+  switch (type) {
+    case 'Point':
+      return isPosition(coordinates) ? null : POSITION_ERROR;
+    case 'MultiPoint':
+      return !Array.isArray(coordinates) ? 'MultiPoint coordinates must be an array of positions' : positionsError(coordinates);
+    case 'LineString':
+      return lineError(coordinates);
+    case 'MultiLineString':
+      return !Array.isArray(coordinates) ? 'MultiLineString coordinates must be an array of lines' : firstError(coordinates, lineError);
+    case 'Polygon':
+      return polygonError(coordinates);
+    case 'MultiPolygon':
+      return !Array.isArray(coordinates) ? 'MultiPolygon coordinates must be an array of polygons' : firstError(coordinates, polygonError);
+    case 'GeometryCollection':
+      return !Array.isArray(value.geometries) ? 'a GeometryCollection needs a geometries array' : firstError(value.geometries, geometryError);
+    default:
+      return `unknown geometry type '${type}'`;
+  }
+}
+
+/**
+ * Points, lines and polygons of a geometry, longitudes unwrapped
+ */
+export function geometryParts(geometry: Geometry): GeometryParts {
+  const parts: GeometryParts = { points: [], lines: [], polygons: [] };
+  const add = (member: Geometry): void => {
+    switch (member.type) {
+      case 'Point':
+        parts.points.push(member.coordinates);
+        break;
+      case 'MultiPoint':
+        parts.points.push(...member.coordinates);
+        break;
+      case 'LineString':
+        parts.lines.push(unwrap(member.coordinates));
+        break;
+      case 'MultiLineString':
+        parts.lines.push(...member.coordinates.map(unwrap));
+        break;
+      case 'Polygon':
+        parts.polygons.push(unwrapPolygon(member.coordinates as Position[][]));
+        break;
+      case 'MultiPolygon':
+        parts.polygons.push(...member.coordinates.map(polygon => unwrapPolygon(polygon as Position[][])));
+        break;
+      case 'GeometryCollection':
+        member.geometries.forEach(add);
+        break;
+    }
+  };
+  add(geometry);
+  return parts;
+}
+
+/**
+ * Whether two geometries share at least one point
+ * Either their edges touch, or a point or vertex of one lies on or inside the other.
+ */
+export function partsIntersect(a: GeometryParts, b: GeometryParts): boolean {
+  return SHIFTS.some(shift => {
+    const moved = shiftParts(b, shift);
+    const edgesA = edges(a);
+    const edgesB = edges(moved);
+    return edgesA.some(([p1, p2]) => edgesB.some(([q1, q2]) => segmentsTouch(p1, p2, q1, q2))) ||
+      anchors(a).some(position => touches(moved, position)) ||
+      anchors(moved).some(position => touches(a, position));
+  });
+}
+
+/**
+ * Whether a geometry lies inside the polygons of a region (boundary included)
+ * Each point, line and polygon of the geometry must fit in the region without its edges
+ * leaving it, and no hole of the region may lie inside one of its polygons.
+ */
+export function partsWithin(geometry: GeometryParts, region: GeometryParts): boolean {
+  const inside = (position: Position) => region.polygons.some(polygon => polygonContains(polygon, position) >= 0);
+  const lineInside = (line: Position[]) =>
+    line.every(inside) &&
+    line.slice(1).every((end, i) => inside(midpoint(line[i], end))) &&
+    !edges(region).some(([q1, q2]) => line.slice(1).some((end, i) => segmentsCross(line[i], end, q1, q2)));
+
+  return geometry.points.every(point => SHIFTS.some(shift => inside(shiftPosition(point, shift)))) &&
+    geometry.lines.every(line => SHIFTS.some(shift => lineInside(line.map(position => shiftPosition(position, shift))))) &&
+    geometry.polygons.every(polygon => SHIFTS.some(shift => {
+      const moved = polygon.map(ring => ring.map(position => shiftPosition(position, shift)));
+      return lineInside(moved[0]) &&
+        !region.polygons.some(regionPolygon => regionPolygon.slice(1).some(hole => polygonContains(moved, hole[0]) > 0));
+    }));
+}
+
+/**
+ * Whether a position lies on or inside a geometry
+ */
+export function partsContain(parts: GeometryParts, position: Position): boolean {
+  return SHIFTS.some(shift => touches(parts, shiftPosition(position, shift)));
+}
+
+/**
+ * Every position of the parts, holes included
+ */
+export function partsPositions(parts: GeometryParts): Position[] {
+  return [...parts.points, ...parts.lines.flat(), ...parts.polygons.flat(2)];
+}
+
+/**
+ * Every edge of the lines and polygon rings
+ */
+export function edges(parts: GeometryParts): Array<[Position, Position]> {
+  const result: Array<[Position, Position]> = [];
+  for (const line of [...parts.lines, ...parts.polygons.flat()]) {
+    for (let i = 1; i < line.length; i++) {
+      result.push([line[i - 1], line[i]]);
+    }
+  }
+  return result;
+}
+
+/**
+ * A box as boxes within [-180, 180] of longitude: one reaching past the antimeridian is split.
+ * Longitudes 180 and -180 are the same meridian, so a box with an edge on one of them also
+ * gets a zero-width box on the other.
+ */
+export function splitBox(bbox: BoundingBox): BoundingBox[] {
+  const boxes = splitAtAntimeridian(bbox);
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  if (maxLng - minLng >= 360 || boxes.length > 1) {
+    return boxes;
+  }
+  if (maxLng === 180) {
+    boxes.push([-180, minLat, -180, maxLat]);
+  } else if (minLng === -180) {
+    boxes.push([180, minLat, 180, maxLat]);
+  }
+  return boxes;
+}
+
+function splitAtAntimeridian([minLng, minLat, maxLng, maxLat]: BoundingBox): BoundingBox[] {
+  if (maxLng - minLng >= 360) {
+    return [[-180, minLat, 180, maxLat]];
+  }
+  if (minLng < -180) {
+    return [[minLng + 360, minLat, 180, maxLat], [-180, minLat, maxLng, maxLat]];
+  }
+  if (maxLng > 180) {
+    return [[minLng, minLat, 180, maxLat], [-180, minLat, maxLng - 360, maxLat]];
+  }
+  return [[minLng, minLat, maxLng, maxLat]];
+}
+
+/**
+ * 1 if a position is inside a polygon, 0 on its boundary (holes included), -1 outside or in a hole
+ */
+export function polygonContains(polygon: Position[][], position: Position): number {
+  const [outer, ...holes] = polygon;
+  const shell = ringContains(outer, position);
+  if (shell <= 0) {
+    return shell;
+  }
+  for (const hole of holes) {
+    const inHole = ringContains(hole, position);
+    if (inHole >= 0) {
+      return inHole === 0 ? 0 : -1;
+    }
+  }
+  return 1;
+}
+
+const POSITION_ERROR = 'positions must be [longitude, latitude] with longitude in [-180, 180] and latitude in [-90, 90]';
+
+function isPosition(value: any): value is Position {
+  return Array.isArray(value) && (value.length === 2 || value.length === 3) &&
+    value.every(coordinate => typeof coordinate === 'number' && Number.isFinite(coordinate)) &&
+    value[0] >= -180 && value[0] <= 180 && value[1] >= -90 && value[1] <= 90;
+}
+
+function positionsError(positions: any[]): string | null {
+  return positions.every(isPosition) ? null : POSITION_ERROR;
+}
+
+function lineError(line: any): string | null {
+  if (!Array.isArray(line) || line.length < 2) {
+    return 'a LineString needs at least two positions';
+  }
+  return positionsError(line);
+}
+
+function polygonError(rings: any): string | null {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return 'a Polygon needs an array of rings';
+  }
+  for (const ring of rings) {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      return 'a polygon ring needs at least four positions';
+    }
+    const error = positionsError(ring);
+    if (error) {
+      return error;
+    }
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return 'a polygon ring must end at its first position';
+    }
+  }
+
+  const [outer, ...holes] = unwrapPolygon(rings);
+  if (holes.some(hole => hole.some(position => SHIFTS.every(shift => ringContains(outer, shiftPosition(position, shift)) < 0)))) {
+    return 'a polygon hole must lie inside its outer ring';
+  }
+  return null;
+}
+
+function firstError(values: any[], check: (value: any) => string | null): string | null {
+  for (const value of values) {
+    const error = check(value);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Longitudes of a line made continuous across the antimeridian
+ */
+function unwrap(line: Position[]): Position[] {
+  const result: Position[] = [];
+  let previous: number | undefined;
+  for (const [lng, lat] of line) {
+    let unwrapped = lng;
+    if (previous !== undefined) {
+      while (unwrapped - previous > 180) unwrapped -= 360;
+      while (unwrapped - previous < -180) unwrapped += 360;
+    }
+    result.push([unwrapped, lat]);
+    previous = unwrapped;
+  }
+  return result;
+}
+
+/**
+ * Rings unwrapped, holes moved by a turn when that puts them over the outer ring
+ */
+function unwrapPolygon(rings: Position[][]): Position[][] {
+  const [outer, ...holes] = rings.map(unwrap);
+  return [outer, ...holes.map(hole => {
+    const shift = SHIFTS.find(candidate => ringContains(outer, shiftPosition(hole[0], candidate)) >= 0) ?? 0;
+    return hole.map(position => shiftPosition(position, shift));
+  })];
+}
+
+function shiftParts(parts: GeometryParts, shift: number): GeometryParts {
+  if (shift === 0) return parts;
+  return {
+    points: parts.points.map(position => shiftPosition(position, shift)),
+    lines: parts.lines.map(line => line.map(position => shiftPosition(position, shift))),
+    polygons: parts.polygons.map(polygon => polygon.map(ring => ring.map(position => shiftPosition(position, shift))))
+  };
+}
+
+function shiftPosition([lng, lat]: Position, shift: number): Position {
+  return [lng + shift, lat];
+}
+
+/**
+ * Points, and a vertex of every line and polygon: where one geometry can lie wholly inside another
+ */
+function anchors(parts: GeometryParts): Position[] {
+  return [...parts.points, ...parts.lines.map(line => line[0]), ...parts.polygons.map(polygon => polygon[0][0])];
+}
+
+/**
+ * Whether a position is one of the points, on an edge, or inside a polygon of the parts
+ */
+function touches(parts: GeometryParts, position: Position): boolean {
+  return parts.points.some(point => point[0] === position[0] && point[1] === position[1]) ||
+    edges(parts).some(([a, b]) => side(a, b, position) === 0 && inBox(a, b, position)) ||
+    parts.polygons.some(polygon => polygonContains(polygon, position) >= 0);
+}
+
+/**
+ * Ray casting: 1 inside, 0 on the ring, -1 outside
+ */
+function ringContains(ring: Position[], [lng, lat]: Position): number {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (side(ring[j], ring[i], [lng, lat]) === 0 && inBox(ring[j], ring[i], [lng, lat])) {
+      return 0;
+    }
+    if (((yi > lat) !== (yj > lat)) && (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi)) {
+      inside = !inside;
+    }
+  }
+  return inside ? 1 : -1;
+}
+
+function midpoint([lng1, lat1]: Position, [lng2, lat2]: Position): Position {
+  return [(lng1 + lng2) / 2, (lat1 + lat2) / 2];
+}
+
+/**
+ * Which side of the line through a and b a position is on (0 on the line)
+ */
+function side(a: Position, b: Position, c: Position): number {
+  const cross = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+  const scale = Math.abs(b[0] - a[0]) + Math.abs(b[1] - a[1]) + Math.abs(c[0] - a[0]) + Math.abs(c[1] - a[1]);
+  return Math.abs(cross) <= 1e-12 * scale * scale ? 0 : Math.sign(cross);
+}
+
+function inBox(a: Position, b: Position, c: Position): boolean {
+  return Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1]);
+}
+
+/**
+ * Whether two segments share a point, ends included
+ */
+function segmentsTouch(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const d1 = side(q1, q2, p1);
+  const d2 = side(q1, q2, p2);
+  const d3 = side(p1, p2, q1);
+  const d4 = side(p1, p2, q2);
+  if (d1 * d2 < 0 && d3 * d4 < 0) {
+    return true;
+  }
+  return (d1 === 0 && inBox(q1, q2, p1)) || (d2 === 0 && inBox(q1, q2, p2)) ||
+    (d3 === 0 && inBox(p1, p2, q1)) || (d4 === 0 && inBox(p1, p2, q2));
+}
+
+/**
+ * Whether two segments cross each other's interior (touching does not count)
+ */
+function segmentsCross(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  return side(q1, q2, p1) * side(q1, q2, p2) < 0 && side(p1, p2, q1) * side(p1, p2, q2) < 0;
+}
@@ -1,11 +1,46 @@
-import { Document, Point, Polygon, MultiPolygon, GeoQuery } from './types';
-import { logger } from './logger';
+import { Document, Point, Polygon, MultiPolygon, Geometry, GeoQuery, GeoNearStage } from './types';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { getValuesByPath, splitPath } from './utils';
+import { RTree, BoundingBox } from './rtree';
+import { GeometryParts, geometryError, geometryParts, partsIntersect, partsWithin, partsContain, partsPositions, edges, splitBox } from './geojson';
+
+const EARTH_RADIUS = 6371e3; // Meters
+const RAD = Math.PI / 180;
+
+function haversine(theta: number): number {
+  const s = Math.sin(theta / 2);
+  return s * s;
+}
+
+/**
+ * Region of a `$geoWithin` query
+ */
+type GeoRegion =
+  | { type: 'geometry'; geometry: Geometry; parts: GeometryParts } // A Polygon or MultiPolygon
+  | { type: 'circle'; center: [number, number]; radius: number }; // Radius in meters
+
+/**
+ * Document found by a nearest-first search, with the distance to its location in meters
+ */
+export interface GeoNearMatch {
+  document: Document;
+  distance: number;
+  location: Geometry;
+}
 
 /**
  * Geospatial Engine for Monarch Database
  * Implements MongoDB-style geospatial queries
+ *
+ * Locations are GeoJSON geometries (points, lines, polygons with holes, their multi-part
+ * forms and collections) or legacy `[longitude, latitude]` pairs; distances are great-circle
+ * distances in meters. Edges run straight in longitude/latitude and take the short way
+ * around, so an edge from 179° to -179° crosses the antimeridian.
  */
 export class GeospatialEngine {
+  static readonly OPERATORS = ['$near', '$nearSphere', '$geoWithin', '$geoIntersects'];
+
   /**
    * Check if a point is within a certain distance of another point
    */
@@ -19,96 +54,300 @@ export class GeospatialEngine {
   }
 
   /**
-   * Check if a point is within a polygon
+   * Check if a point is within a polygon (on its boundary counts, inside a hole does not)
    */
   static pointInPolygon(point: Point, polygon: Polygon): boolean {
-    const [lng, lat] = point.coordinates;
-    const coordinates = polygon.coordinates[0]; // Use outer ring
-
-    // Ray casting algorithm
-    let inside = false;
-    for (let i = 0, j = coordinates.length - 1; i < coordinates.length; j = i++) {
-      const [xi, yi] = coordinates[i];
-      const [xj, yj] = coordinates[j];
-
-      if (((yi > lat) !== (yj > lat)) && (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi)) {
-        inside = !inside;
-      }
-    }
-
-    return inside;
+    return partsContain(geometryParts(polygon), point.coordinates);
   }
 
   /**
    * Check if a point is within a multi-polygon
    */
   static pointInMultiPolygon(point: Point, multiPolygon: MultiPolygon): boolean {
-    return multiPolygon.coordinates.some(polygonCoords => {
-      const polygon: Polygon = { type: 'Polygon', coordinates: polygonCoords };
-      return this.pointInPolygon(point, polygon);
-    });
+    return partsContain(geometryParts(multiPolygon), point.coordinates);
   }
 
   /**
    * Execute geospatial query
+   * Every operator of the query must match the location in `field`
    */
   static executeGeoQuery(documents: Document[], field: string, query: GeoQuery): Document[] {
-    const results: Document[] = [];
+    return documents.filter(doc => Object.entries(query).every(([operator, operand]) =>
+      getValuesByPath(doc, field).some(value => this.matches(value, operator, operand))
+    ));
+  }
 
+  /**
+   * Sort documents by distance from a point; documents without a location come last
+   */
+  static sortByDistance(documents: Document[], field: string, point: Point): Document[] {
+    const distances = new Map<Document, number>();
     for (const doc of documents) {
-      const geoValue = this.getNestedValue(doc, field);
-      if (!geoValue || typeof geoValue !== 'object') continue;
-
-      let matches = false;
-
-      if (query.$near) {
-        const point = geoValue as Point;
-        matches = this.pointNear(point, query.$near.$geometry,
-          query.$near.$maxDistance, query.$near.$minDistance);
-      } else if (query.$geoWithin) {
-        const point = geoValue as Point;
-        if (query.$geoWithin.$geometry.type === 'Polygon') {
-          matches = this.pointInPolygon(point, query.$geoWithin.$geometry as Polygon);
-        } else if (query.$geoWithin.$geometry.type === 'MultiPolygon') {
-          matches = this.pointInMultiPolygon(point, query.$geoWithin.$geometry as MultiPolygon);
-        }
-      } else if (query.$geoIntersects) {
-        // Simplified - just check if point is in geometry
-        const point = geoValue as Point;
-        if (query.$geoIntersects.$geometry.type === 'Polygon') {
-          matches = this.pointInPolygon(point, query.$geoIntersects.$geometry as Polygon);
+      const location = this.locate(doc, field);
+      distances.set(doc, location ? this.distance(point.coordinates, location) : Infinity);
+    }
+    return documents.sort((a, b) => (distances.get(a)! - distances.get(b)! || 0));
+  }
+
+  /**
+   * Check a location against a geo query operator
+   *
+   * @param value - Field value: a GeoJSON geometry or `[longitude, latitude]` (anything else never matches)
+   * @param operator - `$near`, `$nearSphere`, `$geoWithin` or `$geoIntersects`
+   * @throws ValidationError if the operand is malformed
+   */
+  static matches(value: any, operator: string, operand: any): boolean {
+    switch (operator) {
+      case '$near':
+      case '$nearSphere': {
+        const { point, minDistance, maxDistance } = this.nearQuery(operator, operand);
+        const geometry = this.toGeometry(value);
+        if (!geometry) return false;
+        const distance = this.distance(point.coordinates, geometry);
+        return distance >= minDistance && distance <= maxDistance;
+      }
+
+      case '$geoWithin': {
+        const region = this.withinRegion(operand);
+        const geometry = this.toGeometry(value);
+        if (!geometry) return false;
+        if (region.type === 'geometry') {
+          return partsWithin(geometryParts(geometry), region.parts);
         }
+        return partsPositions(geometryParts(geometry)).every(position => this.haversineDistance(region.center, position) <= region.radius);
       }
 
-      if (matches) {
-        results.push(doc);
+      case '$geoIntersects': {
+        const target = this.intersectsGeometry(operand);
+        const geometry = this.toGeometry(value);
+        return geometry !== null && partsIntersect(geometryParts(geometry), geometryParts(target));
       }
+
+      default:
+        throw new ValidationError(ERROR_MESSAGES.QUERY_UNKNOWN_OPERATOR(operator), 'operator', operator);
+    }
+  }
+
+  /**
+   * Origin and distance bounds of a `$near` or `$nearSphere` operand
+   * (`{ $geometry, $maxDistance, $minDistance }` in meters, or a bare `[longitude, latitude]`)
+   *
+   * @throws ValidationError if the operand is malformed
+   */
+  static nearQuery(operator: string, operand: any): { point: Point; minDistance: number; maxDistance: number } {
+    const invalid = () => new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND(operator), operator, operand);
+    if (typeof operand !== 'object' || operand === null) {
+      throw invalid();
     }
 
-    return results;
+    const point = this.parseGeometry(Array.isArray(operand) ? operand : operand.$geometry, operator);
+    const { $minDistance: minDistance = 0, $maxDistance: maxDistance = Infinity } = Array.isArray(operand) ? {} : operand;
+    if (point.type !== 'Point' || !isDistance(minDistance) || !isDistance(maxDistance)) {
+      throw invalid();
+    }
+    return { point, minDistance, maxDistance };
   }
 
   /**
-   * Sort documents by distance from a point
+   * Box around the region of a `$geoWithin` or the geometry of a `$geoIntersects` operand,
+   * for looking up candidates in a GeospatialIndex
+   * Longitudes reach past ±180 when the box crosses the antimeridian.
+   *
+   * @throws ValidationError if the operand is malformed
    */
-  static sortByDistance(documents: Document[], field: string, point: Point): Document[] {
-    return documents.sort((a, b) => {
-      const pointA = this.getNestedValue(a, field) as Point;
-      const pointB = this.getNestedValue(b, field) as Point;
+  static queryBounds(operator: '$geoWithin' | '$geoIntersects', operand: any): BoundingBox {
+    if (operator === '$geoIntersects') {
+      return this.boundingBox(this.intersectsGeometry(operand));
+    }
 
-      if (!pointA || !pointB) return 0;
+    const region = this.withinRegion(operand);
+    if (region.type === 'geometry') {
+      return this.boundingBox(region.geometry);
+    }
 
-      const distA = this.haversineDistance(point.coordinates, pointA.coordinates);
-      const distB = this.haversineDistance(point.coordinates, pointB.coordinates);
+    const [lng, lat] = region.center;
+    const angle = region.radius / EARTH_RADIUS;
+    const minLat = lat - angle / RAD;
+    const maxLat = lat + angle / RAD;
+    const spread = Math.sin(angle) / Math.cos(lat * RAD);
+    if (minLat <= -90 || maxLat >= 90 || angle >= Math.PI / 2 || spread >= 1) {
+      return [-180, Math.max(minLat, -90), 180, Math.min(maxLat, 90)];
+    }
+    const lngRadius = Math.asin(spread) / RAD;
+    return [lng - lngRadius, minLat, lng + lngRadius, maxLat];
+  }
 
-      return distA - distB;
+  /**
+   * Geometry of a location value: a GeoJSON geometry, or a `[longitude, latitude]` pair read as a Point
+   *
+   * @returns null if the value is not a valid location
+   */
+  static toGeometry(value: any): Geometry | null {
+    if (geometryError(value) !== null) {
+      return null;
+    }
+    return Array.isArray(value) ? { type: 'Point', coordinates: [value[0], value[1]] } : value;
+  }
+
+  /**
+   * Geometry of a location value, like toGeometry
+   *
+   * @throws ValidationError naming what is wrong if the value is not valid GeoJSON
+   */
+  static parseGeometry(value: any, field: string): Geometry {
+    const error = geometryError(value);
+    if (error !== null) {
+      throw new ValidationError(ERROR_MESSAGES.GEO_JSON_INVALID(error), field, value);
+    }
+    return this.toGeometry(value)!;
+  }
+
+  /**
+   * Location at a dot-notation path of a document (the values of a path through an array
+   * of subdocuments make up a GeometryCollection); values that are not locations are skipped
+   */
+  static locate(doc: Document, field: string): Geometry | null {
+    const geometries: Geometry[] = [];
+    for (const value of getValuesByPath(doc, field)) {
+      const geometry = this.toGeometry(value);
+      if (geometry) geometries.push(geometry);
+    }
+    return collect(geometries);
+  }
+
+  /**
+   * Location at a dot-notation path of a document, for a 2dsphere index
+   *
+   * @returns null if the document has no value (or null) at the path
+   * @throws ValidationError if a value at the path is not valid GeoJSON
+   */
+  static readLocation(doc: Document, field: string): Geometry | null {
+    const geometries = getValuesByPath(doc, field)
+      .filter(value => value !== null)
+      .map(value => this.parseGeometry(value, field));
+    return collect(geometries);
+  }
+
+  /**
+   * Great-circle distance from a point to the closest part of a geometry
+   *
+   * @returns Distance in meters (0 on a line or inside a polygon)
+   */
+  static distance(origin: [number, number], geometry: Geometry): number {
+    if (geometry.type === 'Point') {
+      return this.haversineDistance(origin, geometry.coordinates);
+    }
+
+    const parts = geometryParts(geometry);
+    if (partsContain(parts, origin)) {
+      return 0;
+    }
+    let closest = Infinity;
+    for (const point of parts.points) {
+      closest = Math.min(closest, this.haversineDistance(origin, point));
+    }
+    for (const [start, end] of edges(parts)) {
+      closest = Math.min(closest, this.segmentDistance(origin, start, end));
+    }
+    return closest;
+  }
+
+  /**
+   * Documents with a location in `field`, closest to the origin first
+   * Scans every document; a GeospatialIndex answers the same from its R-tree
+   *
+   * @param minDistance - In meters
+   * @param maxDistance - In meters
+   */
+  static nearest(documents: Iterable<Document>, field: string, origin: Point, minDistance = 0, maxDistance = Infinity): GeoNearMatch[] {
+    const matches: GeoNearMatch[] = [];
+    for (const document of documents) {
+      const location = this.locate(document, field);
+      if (!location) continue;
+      const distance = this.distance(origin.coordinates, location);
+      if (distance >= minDistance && distance <= maxDistance) {
+        matches.push({ document, distance, location });
+      }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Validate a `$geoNear` stage
+   *
+   * @returns Its origin and distance bounds in meters
+   * @throws ValidationError if an option is malformed
+   */
+  static geoNearOptions(spec: GeoNearStage): { origin: Point; minDistance: number; maxDistance: number } {
+    const invalid = (reason: string) =>
+      new ValidationError(ERROR_MESSAGES.AGGREGATION_STAGE_INVALID('$geoNear', reason), '$geoNear', spec);
+    if (typeof spec !== 'object' || spec === null) {
+      throw invalid('expected an object with near and distanceField');
+    }
+
+    const origin = this.toGeometry(spec.near);
+    if (origin?.type !== 'Point') {
+      throw invalid('near must be a GeoJSON Point or a [longitude, latitude] pair');
+    }
+    if (typeof spec.distanceField !== 'string' || spec.distanceField === '') {
+      throw invalid('distanceField must be a field name');
+    }
+    for (const option of ['key', 'includeLocs'] as const) {
+      if (spec[option] !== undefined && (typeof spec[option] !== 'string' || spec[option] === '')) {
+        throw invalid(`${option} must be a field name`);
+      }
+    }
+    const { minDistance = 0, maxDistance = Infinity, distanceMultiplier = 1 } = spec;
+    if (!isDistance(minDistance) || !isDistance(maxDistance)) {
+      throw invalid('minDistance and maxDistance must be non-negative numbers of meters');
+    }
+    if (!isDistance(distanceMultiplier) || distanceMultiplier === 0 || distanceMultiplier === Infinity) {
+      throw invalid('distanceMultiplier must be a positive number');
+    }
+    if (spec.query !== undefined && (typeof spec.query !== 'object' || spec.query === null || Array.isArray(spec.query))) {
+      throw invalid('query must be a query object');
+    }
+    return { origin, minDistance, maxDistance };
+  }
+
+  /**
+   * Output documents of a `$geoNear` stage: copies with the distance in `distanceField`
+   * and, with `includeLocs`, the location it was measured to
+   */
+  static geoNearDocuments(matches: GeoNearMatch[], spec: GeoNearStage): Document[] {
+    const multiplier = spec.distanceMultiplier ?? 1;
+    return matches.map(({ document, distance, location }) => {
+      const output = withField(document, spec.distanceField, distance * multiplier);
+      return spec.includeLocs ? withField(output, spec.includeLocs, location) : output;
     });
   }
 
+  /**
+   * Bounding box of a geometry as [minLng, minLat, maxLng, maxLat]
+   * Longitudes reach past ±180 when the geometry crosses the antimeridian.
+   */
+  static boundingBox(geometry: Geometry): BoundingBox {
+    if (geometry.type === 'Point') {
+      const [lng, lat] = geometry.coordinates;
+      return [lng, lat, lng, lat];
+    }
+
+    let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+    for (const [lng, lat] of partsPositions(geometryParts(geometry))) {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    }
+    return [minLng, minLat, maxLng, maxLat];
+  }
+
   /**
    * Calculate Haversine distance between two points
+   *
+   * @returns Great-circle distance in meters
    */
-  private static haversineDistance(coord1: [number, number], coord2: [number, number]): number {
+  static haversineDistance(coord1: [number, number], coord2: [number, number]): number {
     const [lng1, lat1] = coord1;
     const [lng2, lat2] = coord2;
 
@@ -126,92 +365,229 @@ export class GeospatialEngine {
     return R * c;
   }
 
-  private static getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  /**
+   * Smallest great-circle distance from a point to anything inside a longitude/latitude box
+   * East or west of the box, the closest point lies on its nearer meridian edge: at the
+   * latitude where the great circle through the point meets that meridian at a right angle,
+   * or at a corner when that latitude is outside the box.
+   *
+   * @returns Distance in meters (0 inside the box)
+   */
+  static boxDistance(coordinates: [number, number], bbox: BoundingBox): number {
+    const [lng, lat] = coordinates;
+    const [minLng, minLat, maxLng, maxLat] = bbox;
+
+    let h: number;
+    if (lng >= minLng && lng <= maxLng) {
+      h = lat < minLat ? haversine((minLat - lat) * RAD) : lat > maxLat ? haversine((lat - maxLat) * RAD) : 0;
+    } else {
+      const hLng = Math.min(haversine((lng - minLng) * RAD), haversine((lng - maxLng) * RAD));
+      const cosLng = 1 - 2 * hLng;
+      const extremumLat = cosLng <= 0 ? (lat > 0 ? 90 : -90) : Math.atan(Math.tan(lat * RAD) / cosLng) / RAD;
+      const partial = (edgeLat: number) => Math.cos(lat * RAD) * Math.cos(edgeLat * RAD) * hLng + haversine((lat - edgeLat) * RAD);
+      h = extremumLat > minLat && extremumLat < maxLat
+        ? partial(extremumLat)
+        : Math.min(partial(minLat), partial(maxLat));
+    }
+    return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(Math.min(1, h)));
+  }
+
+  /**
+   * Great-circle distance from a point to the arc between two others, in meters
+   * The closest point of the arc is the foot of the perpendicular when it falls between
+   * the ends, else the nearer end.
+   */
+  private static segmentDistance(point: [number, number], start: [number, number], end: [number, number]): number {
+    const toStart = this.haversineDistance(start, point) / EARTH_RADIUS;
+    const length = this.haversineDistance(start, end) / EARTH_RADIUS;
+    const offset = bearing(start, point) - bearing(start, end);
+    const crossTrack = Math.asin(Math.sin(toStart) * Math.sin(offset));
+    const alongTrack = Math.acos(Math.min(1, Math.cos(toStart) / Math.cos(crossTrack)));
+
+    if (length > 0 && Math.cos(offset) > 0 && alongTrack <= length) {
+      return Math.abs(crossTrack) * EARTH_RADIUS;
+    }
+    return Math.min(this.haversineDistance(point, start), this.haversineDistance(point, end));
+  }
+
+  /**
+   * Region of a `$geoWithin` operand
+   * `$box` and `$polygon` are read as polygons; `$centerSphere` is a circle.
+   *
+   * @throws ValidationError if the operand is malformed
+   */
+  private static withinRegion(operand: any): GeoRegion {
+    const invalid = () => new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$geoWithin'), '$geoWithin', operand);
+    if (typeof operand !== 'object' || operand === null || Object.keys(operand).length !== 1) {
+      throw invalid();
+    }
+
+    let geometry: Geometry;
+    if ('$geometry' in operand) {
+      geometry = this.parseGeometry(operand.$geometry, '$geoWithin');
+      if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') throw invalid();
+    } else if ('$box' in operand) {
+      const box = operand.$box;
+      if (!Array.isArray(box) || box.length !== 2 || !box.every(corner => geometryError(corner) === null)) throw invalid();
+      const [[lng1, lat1], [lng2, lat2]] = box;
+      const [minLng, maxLng] = [Math.min(lng1, lng2), Math.max(lng1, lng2)];
+      const [minLat, maxLat] = [Math.min(lat1, lat2), Math.max(lat1, lat2)];
+      // Midpoints keep each edge under 180° of longitude, so a wide box is not read as crossing the antimeridian
+      const midLng = (minLng + maxLng) / 2;
+      geometry = {
+        type: 'Polygon',
+        coordinates: [[[minLng, minLat], [midLng, minLat], [maxLng, minLat], [maxLng, maxLat], [midLng, maxLat], [minLng, maxLat], [minLng, minLat]]]
+      };
+    } else if ('$polygon' in operand) {
+      const vertices = operand.$polygon;
+      if (!Array.isArray(vertices) || vertices.length < 3) throw invalid();
+      const [first, last] = [vertices[0], vertices[vertices.length - 1]];
+      const closed = Array.isArray(first) && Array.isArray(last) && first[0] === last[0] && first[1] === last[1];
+      geometry = this.parseGeometry({ type: 'Polygon', coordinates: [closed ? vertices : [...vertices, first]] }, '$geoWithin');
+    } else if ('$centerSphere' in operand) {
+      const circle = operand.$centerSphere;
+      if (!Array.isArray(circle) || circle.length !== 2 || geometryError(circle[0]) !== null || !isDistance(circle[1]) || circle[1] === Infinity) {
+        throw invalid();
+      }
+      return { type: 'circle', center: [circle[0][0], circle[0][1]], radius: circle[1] * EARTH_RADIUS };
+    } else {
+      throw invalid();
+    }
+    return { type: 'geometry', geometry, parts: geometryParts(geometry) };
+  }
+
+  /**
+   * Geometry of a `$geoIntersects` operand (`{ $geometry }`)
+   *
+   * @throws ValidationError if the operand is malformed
+   */
+  private static intersectsGeometry(operand: any): Geometry {
+    if (typeof operand !== 'object' || operand === null || !('$geometry' in operand)) {
+      throw new ValidationError(ERROR_MESSAGES.QUERY_INVALID_OPERAND('$geoIntersects'), '$geoIntersects', operand);
+    }
+    return this.parseGeometry(operand.$geometry, '$geoIntersects');
+  }
+}
+
+/**
+ * One geometry from the locations found at a path
+ */
+function collect(geometries: Geometry[]): Geometry | null {
+  if (geometries.length <= 1) {
+    return geometries[0] ?? null;
   }
+  return { type: 'GeometryCollection', geometries };
+}
+
+function isDistance(value: any): value is number {
+  return typeof value === 'number' && value >= 0;
+}
+
+/**
+ * Initial bearing from one point to another, in radians
+ */
+function bearing([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number {
+  const φ1 = lat1 * RAD;
+  const φ2 = lat2 * RAD;
+  const Δλ = (lng2 - lng1) * RAD;
+  return Math.atan2(Math.sin(Δλ) * Math.cos(φ2), Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ));
+}
+
+/**
+ * Copy of a document with a value set at a dot-notation path
+ */
+function withField(doc: Document, path: string, value: any): Document {
+  const [field, ...rest] = splitPath(path);
+  const current = doc[field];
+  const nested = typeof current === 'object' && current !== null && !Array.isArray(current) ? current : {};
+  return { ...doc, [field]: rest.length === 0 ? value : withField(nested, rest.join('.'), value) };
 }
 
 /**
  * Geospatial Index for efficient spatial queries
+ * Keeps the bounding box of each document's geometry in an R-tree, so box queries and
+ * nearest-neighbour searches only visit the nodes that can hold matches. A geometry crossing
+ * the antimeridian is kept under a box on each side of it.
  */
 export class GeospatialIndex {
-  private rtree: Map<string, any> = new Map(); // Simplified R-tree implementation
+  private rtree = new RTree<string>();
+  private entries = new Map<string, { geometry: Geometry; boxes: BoundingBox[] }>();
 
-  /**
-   * Insert a geospatial document into the index
-   */
-  insert(docId: string, geometry: Point | Polygon | MultiPolygon): void {
-    // Simplified bounding box calculation
-    const bbox = this.calculateBoundingBox(geometry);
-    this.rtree.set(docId, { geometry, bbox });
+  get size(): number {
+    return this.entries.size;
   }
 
   /**
-   * Remove document from geospatial index
+   * Insert a geospatial document into the index, replacing its previous geometry
    */
-  remove(docId: string): void {
-    this.rtree.delete(docId);
+  insert(docId: string, geometry: Geometry): void {
+    this.remove(docId);
+    const boxes = splitBox(GeospatialEngine.boundingBox(geometry));
+    this.entries.set(docId, { geometry, boxes });
+    boxes.forEach(bbox => this.rtree.insert(bbox, docId));
   }
 
   /**
-   * Query documents within bounding box
+   * Index many documents at once; an empty index is bulk loaded
    */
-  queryWithin(bbox: [number, number, number, number]): string[] {
-    const results: string[] = [];
-    const [minLng, minLat, maxLng, maxLat] = bbox;
-
-    for (const [docId, entry] of this.rtree) {
-      const [entryMinLng, entryMinLat, entryMaxLng, entryMaxLat] = entry.bbox;
-      if (entryMinLng <= maxLng && entryMaxLng >= minLng &&
-          entryMinLat <= maxLat && entryMaxLat >= minLat) {
-        results.push(docId);
-      }
+  load(documents: Array<{ docId: string; geometry: Geometry }>): void {
+    if (this.entries.size > 0) {
+      documents.forEach(({ docId, geometry }) => this.insert(docId, geometry));
+      return;
     }
 
-    return results;
+    for (const { docId, geometry } of documents) {
+      this.entries.set(docId, { geometry, boxes: splitBox(GeospatialEngine.boundingBox(geometry)) });
+    }
+    this.rtree.load(Array.from(this.entries, ([docId, { boxes }]) => boxes.map(bbox => ({ bbox, value: docId }))).flat());
   }
 
   /**
-   * Find nearest neighbors
+   * Remove document from geospatial index
    */
-  findNearest(point: Point, maxDistance: number, limit: number = 10): Array<{ docId: string; distance: number }> {
-    const results: Array<{ docId: string; distance: number }> = [];
-
-    for (const [docId, entry] of this.rtree) {
-      if (entry.geometry.type === 'Point') {
-        const distance = GeospatialEngine.pointNear(entry.geometry, point, maxDistance) ? 0 : Infinity;
-        if (distance < maxDistance) {
-          results.push({ docId, distance });
-        }
-      }
+  remove(docId: string): void {
+    const entry = this.entries.get(docId);
+    if (entry) {
+      entry.boxes.forEach(bbox => this.rtree.remove(bbox, docId));
+      this.entries.delete(docId);
     }
-
-    return results
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, limit);
   }
 
-  private calculateBoundingBox(geometry: Point | Polygon | MultiPolygon): [number, number, number, number] {
-    let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
-
-    const processCoords = (coords: number[][]) => {
-      for (const [lng, lat] of coords) {
-        minLng = Math.min(minLng, lng);
-        minLat = Math.min(minLat, lat);
-        maxLng = Math.max(maxLng, lng);
-        maxLat = Math.max(maxLat, lat);
-      }
-    };
+  clear(): void {
+    this.rtree.clear();
+    this.entries.clear();
+  }
 
-    if (geometry.type === 'Point') {
-      const [lng, lat] = geometry.coordinates;
-      return [lng, lat, lng, lat];
-    } else if (geometry.type === 'Polygon') {
-      geometry.coordinates.forEach(ring => processCoords(ring));
-    } else if (geometry.type === 'MultiPolygon') {
-      geometry.coordinates.forEach(polygon => polygon.forEach(ring => processCoords(ring)));
+  /**
+   * Query documents whose bounding box intersects the given box
+   * (longitudes past ±180 wrap around the antimeridian)
+   */
+  queryWithin(bbox: [number, number, number, number]): string[] {
+    const docIds = new Set<string>();
+    for (const part of splitBox(bbox)) {
+      this.rtree.search(part).forEach(docId => docIds.add(docId));
     }
+    return Array.from(docIds);
+  }
 
-    return [minLng, minLat, maxLng, maxLat];
+  /**
+   * Find nearest neighbors, closest first, by great-circle distance to their geometry
+   *
+   * @param maxDistance - In meters
+   */
+  findNearest(point: Point, maxDistance: number = Infinity, limit: number = 10): Array<{ docId: string; distance: number }> {
+    const origin = point.coordinates;
+    // A document split over the antimeridian comes back once per box
+    const nearest = new Map<string, number>();
+    const found = this.rtree.nearest(
+      bbox => GeospatialEngine.boxDistance(origin, bbox),
+      docId => GeospatialEngine.distance(origin, this.entries.get(docId)!.geometry),
+      limit * 2,
+      maxDistance
+    );
+    for (const { value, distance } of found) {
+      if (!nearest.has(value)) nearest.set(value, distance);
+    }
+    return Array.from(nearest, ([docId, distance]) => ({ docId, distance })).slice(0, limit);
   }
 }
@@ -0,0 +1,243 @@
+import { MinHeap } from './min-heap';
+
+export interface HNSWOptions {
+  M?: number; // Links per node on each upper layer, 2M on the bottom layer (default 16)
+  efConstruction?: number; // Candidates considered when linking a new node (default 200)
+  efSearch?: number; // Candidates considered by a search, at least k (default 50)
+}
+
+interface HNSWNode<K> {
+  id: K;
+  vector: number[];
+  links: Array<Array<HNSWNode<K>>>; // Neighbours on each layer up to the node's level
+  removed: boolean;
+}
+
+interface Candidate<K> {
+  node: HNSWNode<K>;
+  distance: number;
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin)
+ * Approximate nearest-neighbour index over vectors under any distance where lower is closer.
+ * Each node gets a random level with exponentially fewer nodes per layer; a search descends
+ * greedily through the sparse upper layers and then explores the bottom layer best-first,
+ * keeping `efSearch` candidates. New nodes are linked to neighbours chosen by the heuristic
+ * that favours diverse directions, and removals relink the removed node's neighbours among
+ * themselves, so the graph stays navigable without rebuilding.
+ *
+ * Searches visit O(log n) nodes for well-spread data; larger M and ef trade speed for recall.
+ */
+export class HNSWIndex<K> {
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  private readonly levelFactor: number;
+  private nodes = new Map<K, HNSWNode<K>>();
+  private entryPoint: HNSWNode<K> | null = null;
+
+  constructor(private readonly distance: (a: number[], b: number[]) => number, options: HNSWOptions = {}) {
+    this.M = Math.max(2, Math.floor(options.M ?? 16));
+    this.efConstruction = Math.max(this.M, Math.floor(options.efConstruction ?? 200));
+    this.efSearch = Math.max(1, Math.floor(options.efSearch ?? 50));
+    this.levelFactor = 1 / Math.log(this.M);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Number of layers (0 when empty)
+   */
+  get levels(): number {
+    return this.entryPoint ? this.entryPoint.links.length : 0;
+  }
+
+  has(id: K): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Add a vector, replacing the previous one stored under the id
+   */
+  insert(id: K, vector: number[]): void {
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor);
+    const node: HNSWNode<K> = { id, vector, links: Array.from({ length: level + 1 }, () => []), removed: false };
+    this.nodes.set(id, node);
+
+    const entryPoint = this.entryPoint;
+    if (!entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    let entries = [this.descend(vector, entryPoint, level + 1)];
+    for (let layer = Math.min(level, entryPoint.links.length - 1); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entries, this.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, this.M);
+      node.links[layer] = neighbours.map(({ node: neighbour }) => neighbour);
+      for (const { node: neighbour } of neighbours) {
+        neighbour.links[layer].push(node);
+        if (neighbour.links[layer].length > this.maxLinks(layer)) {
+          this.relink(neighbour, layer, neighbour.links[layer]);
+        }
+      }
+      entries = candidates;
+    }
+
+    if (level >= entryPoint.links.length) {
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Remove a vector; its neighbours are linked to each other in its place
+   */
+  remove(id: K): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+    node.removed = true;
+    node.links.forEach((neighbours, layer) => {
+      for (const neighbour of neighbours) {
+        if (neighbour.removed) continue;
+        const others = neighbours.filter(other => other !== neighbour);
+        this.relink(neighbour, layer, [...neighbour.links[layer], ...others]);
+      }
+    });
+
+    if (this.entryPoint === node) {
+      // The highest node left becomes the entry point
+      this.entryPoint = null;
+      for (const candidate of this.nodes.values()) {
+        if (!this.entryPoint || candidate.links.length > this.entryPoint.links.length) {
+          this.entryPoint = candidate;
+        }
+      }
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+  }
+
+  /**
+   * Approximate k nearest neighbours, closest first
+   *
+   * @param ef - Candidates to consider (default efSearch; never fewer than k)
+   */
+  search(query: number[], k: number, ef: number = this.efSearch): Array<{ id: K; distance: number }> {
+    if (!this.entryPoint || k <= 0) return [];
+
+    const entry = this.descend(query, this.entryPoint, 1);
+    return this.searchLayer(query, [entry], Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(({ node, distance }) => ({ id: node.id, distance }));
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? 2 * this.M : this.M;
+  }
+
+  /**
+   * Greedy walk from the entry point down to `toLayer`, moving to any closer neighbour
+   */
+  private descend(query: number[], entryPoint: HNSWNode<K>, toLayer: number): Candidate<K> {
+    let current: Candidate<K> = { node: entryPoint, distance: this.distance(query, entryPoint.vector) };
+    for (let layer = entryPoint.links.length - 1; layer >= toLayer; layer--) {
+      let moved = true;
+      while (moved) {
+        moved = false;
+        for (const neighbour of current.node.links[layer]) {
+          if (neighbour.removed) continue;
+          const distance = this.distance(query, neighbour.vector);
+          if (distance < current.distance) {
+            current = { node: neighbour, distance };
+            moved = true;
+          }
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer keeping the `ef` closest nodes found
+   *
+   * @returns Those nodes, closest first
+   */
+  private searchLayer(query: number[], entries: Array<Candidate<K>>, ef: number, layer: number): Array<Candidate<K>> {
+    const visited = new Set<HNSWNode<K>>();
+    const candidates = new MinHeap<HNSWNode<K>>();
+    const nearest = new MinHeap<HNSWNode<K>>(); // By negated distance: the farthest on top
+    for (const { node, distance } of entries) {
+      visited.add(node);
+      candidates.push(node, distance);
+      nearest.push(node, -distance);
+    }
+    while (nearest.size > ef) nearest.pop();
+
+    while (candidates.size > 0) {
+      const { item: current, priority } = candidates.pop()!;
+      if (priority > -nearest.peek()!.priority) break;
+
+      for (const neighbour of current.links[layer]) {
+        if (visited.has(neighbour) || neighbour.removed) continue;
+        visited.add(neighbour);
+
+        const distance = this.distance(query, neighbour.vector);
+        if (nearest.size < ef || distance < -nearest.peek()!.priority) {
+          candidates.push(neighbour, distance);
+          nearest.push(neighbour, -distance);
+          if (nearest.size > ef) nearest.pop();
+        }
+      }
+    }
+
+    const results: Array<Candidate<K>> = [];
+    while (nearest.size > 0) {
+      const { item: node, priority } = nearest.pop()!;
+      results.push({ node, distance: -priority });
+    }
+    return results.reverse();
+  }
+
+  /**
+   * Neighbour selection heuristic: a candidate is kept only if it is closer to the node than
+   * to every neighbour kept so far, so links spread in different directions. Pruned candidates
+   * fill any remaining slots.
+   *
+   * @param candidates - Closest first
+   */
+  private selectNeighbours(candidates: Array<Candidate<K>>, count: number): Array<Candidate<K>> {
+    const selected: Array<Candidate<K>> = [];
+    const pruned: Array<Candidate<K>> = [];
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const diverse = selected.every(({ node }) => this.distance(candidate.node.vector, node.vector) > candidate.distance);
+      (diverse ? selected : pruned).push(candidate);
+    }
+    for (const candidate of pruned) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Replace a node's links on a layer with the best of the given candidates
+   */
+  private relink(node: HNSWNode<K>, layer: number, candidates: Array<HNSWNode<K>>): void {
+    const unique = new Set(candidates.filter(candidate => candidate !== node && !candidate.removed));
+    const byDistance = Array.from(unique, candidate => ({ node: candidate, distance: this.distance(node.vector, candidate.vector) }))
+      .sort((a, b) => a.distance - b.distance);
+    node.links[layer] = this.selectNeighbours(byDistance, this.maxLinks(layer)).map(({ node: neighbour }) => neighbour);
+  }
+}
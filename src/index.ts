@@ -1,6 +1,8 @@
 // Main exports
 export { Monarch } from './monarch';
 export { Collection } from './collection';
+export { Cursor } from './cursor';
+export type { CursorSource, CursorTextSearch } from './cursor';
 
 // Configuration
 export type { MonarchConfig } from './monarch-config';
@@ -16,11 +18,66 @@ export type {
   Document,
   Query,
   UpdateOperation,
+  UpdateOperators,
+  PushModifiers,
+  FindOptions,
+  Projection,
+  UpdateOptions,
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  SortSpecification,
+  TextScoreMeta,
+  TextHighlightsMeta,
+  TextSearchOptions,
+  TextSearchResult,
+  TextHighlightOptions,
+  TextBM25Options,
+  IndexSpecification,
+  IndexOptions,
   PersistenceAdapter,
   TransactionOptions,
   SchemaDefinition,
   ChangeStreamOptions,
+  GeofenceRegion,
+  GeofenceDefinition,
+  GeofenceEvent,
+  GeofenceListenerOptions,
   QueryPlan,
+  ExplainOptions,
+  ExplainVerbosity,
+  ExplainPlan,
+  ExplainResult,
+  PlanExecutionStats,
+  QueryProfile,
+  AggregationPipeline,
+  AggregationStage,
+  AggregationResult,
+  AggregationStats,
+  AggregateOptions,
+  AggregationMemoryStats,
+  BucketStage,
+  BucketAutoStage,
+  MergeStage,
+  SetWindowFieldsStage,
+  WindowFrame,
+  WindowBound,
+  WindowUnit,
+  GroupStage,
+  LookupStage,
+  GraphLookupStage,
+  GeoNearStage,
+  // Geospatial Types
+  Point,
+  Polygon,
+  MultiPolygon,
+  MultiPoint,
+  LineString,
+  MultiLineString,
+  GeometryCollection,
+  Geometry,
+  GeoQuery,
+  GeoNearQuery,
+  GeoWithinQuery,
   // Data Structure Types
   DataStructureType,
   ListEntry,
@@ -89,6 +146,23 @@ export { TransactionManager } from './transaction-manager';
 export { ChangeStreamsManager } from './change-streams';
 export { SchemaValidator } from './schema-validator';
 export { QueryOptimizer } from './query-optimizer';
+export { QueryProfiler } from './query-profiler';
+export { AggregationEngine } from './aggregation-engine';
+export type { AggregationContext, LookupSource, OutputTarget } from './aggregation-engine';
+export { AggregationMemory } from './aggregation-memory';
+export { ExpressionEngine } from './expression-engine';
+export { FullTextSearchEngine } from './full-text-search';
+export type { TextIndexDefinition } from './full-text-search';
+export { TextQueryParser } from './text-query';
+export type { TextQuery, TextQueryClause } from './text-query';
+export { TextAnalyzer } from './text-analysis';
+export type { TextAnalyzerDefinition, TextFilterSpec, TextToken, TokenFilter } from './text-analysis';
+export { STEMMERS } from './text-stemmers';
+export type { Stemmer } from './text-stemmers';
+export { TTLManager } from './ttl-manager';
+export type { TTLOptions, TTLStats } from './ttl-manager';
+export { AdvancedIndexingEngine } from './advanced-indexing';
+export type { AdvancedIndexInfo } from './advanced-indexing';
 export { OptimizedDataStructures as DataStructures } from './optimized-data-structures';
 export { GraphDatabase } from './graph-database';
 
@@ -164,6 +238,12 @@ export {
   BitmapSet,
   globalMemoryMonitor
 } from './memory-optimizer';
+export { GeospatialEngine, GeospatialIndex } from './geospatial-engine';
+export type { GeoNearMatch } from './geospatial-engine';
+export { RTree } from './rtree';
+export type { BoundingBox } from './rtree';
+export { HNSWIndex } from './hnsw';
+export type { HNSWOptions } from './hnsw';
 export { ComplianceManager } from './security-compliance';
 export type {
   AuditLogEntry,
@@ -0,0 +1,49 @@
+/**
+ * Binary min-heap of items by priority
+ */
+export class MinHeap<T> {
+  private items: Array<{ item: T; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): { item: T; priority: number } | undefined {
+    return this.items[0];
+  }
+
+  push(item: T, priority: number): void {
+    const items = this.items;
+    items.push({ item, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= priority) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): { item: T; priority: number } | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
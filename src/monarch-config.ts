@@ -12,6 +12,7 @@ import { SecurityManager } from './security-manager';
 import { ClusteringManagerImpl } from './clustering-manager';
 import { AIMLIntegration } from './ai-ml-integration';
 import { ScriptingEngineImpl } from './scripting-engine';
+import { TTLOptions } from './ttl-manager';
 
 /**
  * Configuration for Monarch database instance
@@ -69,6 +70,12 @@ export interface MonarchConfig {
     };
   };
 
+  /**
+   * TTL index sweeper configuration
+   * Expired documents are removed every sweepIntervalMs (default 60 seconds) unless disabled
+   */
+  ttl?: TTLOptions;
+
   /**
    * Concurrency and performance configuration
    */
@@ -1,4 +1,4 @@
-import { PersistenceAdapter, TransactionOptions, SchemaDefinition, ChangeStreamOptions, QueryPlan, DurabilityOptions } from './types';
+import { PersistenceAdapter, TransactionOptions, SchemaDefinition, ChangeStreamOptions, QueryPlan, DurabilityOptions, GeofenceDefinition, GeofenceEvent, GeofenceListenerOptions } from './types';
 import { Collection } from './collection';
 import { FileSystemAdapter } from './adapters/filesystem';
 import { IndexedDBAdapter } from './adapters/indexeddb';
@@ -18,6 +18,7 @@ import { GraphDatabase } from './graph-database';
 import { VectorEngine } from './vector-engine';
 import { QuantumAPI } from './quantum-api';
 import { TimeSeriesEngine } from './time-series-engine';
+import { TTLManager, TTLOptions, TTLStats } from './ttl-manager';
 import { globalConcurrencyManager } from './concurrency-manager';
 import { ValidationError, ResourceLimitError } from './errors';
 import { logger } from './logger';
@@ -44,6 +45,7 @@ export class Monarch {
   private changeStreams: ChangeStreamsManager;
   private schemaValidator: SchemaValidator;
   private queryOptimizer: QueryOptimizer;
+  private ttlManager: TTLManager;
   
   // Lazy-loaded optional enterprise features
   private _durabilityManager?: DurabilityManagerImpl;
@@ -116,8 +118,14 @@ export class Monarch {
     // Initialize required managers (using factory or default)
     this.transactionManager = this.config.transactionManagerFactory?.() || new TransactionManager();
     this.changeStreams = new ChangeStreamsManager();
+    this.collectionManager.setChangeCallback(event => this.changeStreams.emit(event));
     this.schemaValidator = new SchemaValidator();
     this.queryOptimizer = new QueryOptimizer(this.config.quantum?.optimizer?.adaptiveLearning || false);
+    this.ttlManager = new TTLManager(
+      () => this.collectionManager.getAllCollections(),
+      () => this.persistExpiredDocuments()
+    );
+    this.ttlManager.configure({ enabled: true, ...this.config.ttl });
 
     // Initialize advanced engines
     this.vectorEngine = new VectorEngine();
@@ -440,6 +448,75 @@ export class Monarch {
     return this.changeStreams.getStats();
   }
 
+  /**
+   * Register a named geofence (polygon or circle) on a collection's location field
+   */
+  addGeofence(definition: GeofenceDefinition): void {
+    this.changeStreams.addGeofence(definition);
+  }
+
+  /**
+   * Remove a geofence
+   */
+  removeGeofence(collection: string, name: string): boolean {
+    return this.changeStreams.removeGeofence(collection, name);
+  }
+
+  /**
+   * Get registered geofences
+   */
+  getGeofences(collection?: string): GeofenceDefinition[] {
+    return this.changeStreams.getGeofences(collection);
+  }
+
+  /**
+   * Listen for documents entering, leaving or dwelling in geofences
+   */
+  watchGeofences(options: GeofenceListenerOptions, callback: (event: GeofenceEvent) => void): string {
+    return this.changeStreams.addGeofenceListener(options, callback);
+  }
+
+  /**
+   * Remove a geofence listener
+   */
+  unwatchGeofences(listenerId: string): boolean {
+    return this.changeStreams.removeGeofenceListener(listenerId);
+  }
+
+  // ===== TTL METHODS =====
+
+  /**
+   * Change the TTL sweep interval or start / stop the background sweeper
+   */
+  configureTTL(options: TTLOptions): void {
+    this.ttlManager.configure(options);
+  }
+
+  /**
+   * Remove expired documents from all collections now instead of waiting for the next sweep
+   *
+   * @returns Number of documents removed
+   */
+  async sweepExpiredDocuments(): Promise<number> {
+    return this.ttlManager.sweep();
+  }
+
+  /**
+   * Get TTL sweeper statistics
+   */
+  getTTLStats(): TTLStats {
+    return this.ttlManager.getStats();
+  }
+
+  /**
+   * Save after a sweep removed documents, so expired data does not come back on load
+   */
+  private async persistExpiredDocuments(): Promise<void> {
+    if (this.adapter) {
+      await this.save();
+    }
+  }
+
   // ===== QUERY OPTIMIZATION METHODS =====
 
   /**
@@ -482,14 +559,8 @@ export class Monarch {
    * Create a new collection
    */
   addCollection(name: string): Collection {
-    const collection = this.collectionManager.createCollection(name);
-
-    // Wire up change event callback to change streams
-    collection.setChangeCallback((event) => {
-      this.changeStreams.emit(event);
-    });
-
-    return collection;
+    // The collection manager wires change events to change streams
+    return this.collectionManager.createCollection(name);
   }
 
   /**
@@ -1289,6 +1360,13 @@ export class Monarch {
     return this.vectorEngine.searchSimilar(collection, queryVector, options);
   }
 
+  /**
+   * Remove a vector embedding (and its entries in vector indexes)
+   */
+  removeVector(collection: string, docId: string): void {
+    return this.vectorEngine.removeVector(collection, docId);
+  }
+
   /**
    * Create a vector index
    */
@@ -1296,6 +1374,13 @@ export class Monarch {
     return this.vectorEngine.createVectorIndex(collection, options);
   }
 
+  /**
+   * Measure the recall@k of a vector index against exact search
+   */
+  measureVectorRecall(indexName: string, queries: number[][], options?: { k?: number; efSearch?: number }): Promise<any> {
+    return this.vectorEngine.measureRecall(indexName, queries, options);
+  }
+
   /**
    * Generate embeddings using built-in models
    */
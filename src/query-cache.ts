@@ -1,5 +1,6 @@
 import { Document, Query } from './types';
 import { QuantumCacheManager, quantumCacheManager } from './algorithms/quantum-cache';
+import { pathsOverlap } from './utils';
 
 interface CacheEntry {
   result: Document[];
@@ -61,7 +62,17 @@ export class QueryCache {
   }
 
   private sortObjectKeys(obj: any): any {
-    if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+    // JSON would turn these into {} or drop them, so distinct queries would share a key
+    if (obj instanceof RegExp) {
+      return { $$regex: obj.toString() };
+    }
+    if (typeof obj === 'function') {
+      return { $$function: obj.toString() };
+    }
+    if (Array.isArray(obj)) {
+      return obj.map(item => this.sortObjectKeys(item));
+    }
+    if (obj === null || typeof obj !== 'object' || obj instanceof Date) {
       return obj;
     }
 
@@ -124,6 +135,26 @@ export class QueryCache {
     return [...entry.result]; // Return a copy to prevent external mutations
   }
 
+  /**
+   * Check whether a query has a live cached result without touching LRU order or hit counts
+   */
+  has(query: Query): boolean {
+    if (!query || typeof query !== 'object') {
+      return false;
+    }
+
+    const key = this.getCacheKey(query);
+    if (this.quantumEnabled) {
+      const quantumResult = quantumCacheManager.get(key);
+      if (quantumResult !== undefined && quantumResult !== null) {
+        return true;
+      }
+    }
+
+    const entry = this.cache.get(key);
+    return !!entry && Date.now() - entry.timestamp <= this.ttl;
+  }
+
   /**
    * Cache a query result
    */
@@ -216,6 +247,35 @@ export class QueryCache {
     });
   }
 
+  /**
+   * Invalidate cache entries whose query reads a dot-notation path that overlaps
+   * the changed path (same field, a parent or a child). Queries using logical
+   * operators are always invalidated since their fields are not top-level keys.
+   */
+  invalidateByPath(path: string): void {
+    const keysToDelete: string[] = [];
+
+    for (const [key] of this.cache) {
+      let query: Record<string, unknown>;
+      try {
+        query = JSON.parse(key);
+      } catch {
+        keysToDelete.push(key);
+        continue;
+      }
+
+      const affected = Object.keys(query).some(field => field.startsWith('$') || pathsOverlap(field, path));
+      if (affected) {
+        keysToDelete.push(key);
+      }
+    }
+
+    keysToDelete.forEach(key => {
+      this.cache.delete(key);
+      this.accessOrder.delete(key);
+    });
+  }
+
   private shouldInvalidateKey(cacheKey: string, fieldName: string): boolean {
     try {
       const query = JSON.parse(cacheKey);
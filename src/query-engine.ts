@@ -1,8 +1,29 @@
-import { Document, Query, QueryPlan } from './types';
+import { Document, Query, QueryPlan, ExplainVerbosity, ExplainPlan, ExplainResult, PlanExecutionStats } from './types';
 import { ValidationError } from './errors';
 import { QueryValidator } from './validators';
 import { ERROR_MESSAGES } from './constants';
 import { QueryOptimizer } from './query-optimizer';
+import { SortedIndex, IndexRange, rangeFromCondition, multikeyRange } from './sorted-index';
+import { AdvancedIndexingEngine } from './advanced-indexing';
+import { AdvancedQueryEngine } from './advanced-queries';
+
+/**
+ * Candidate document IDs produced by one index
+ */
+interface IndexCandidates {
+  size: number;
+  ids: Iterable<string>;
+  contains(docId: string): boolean;
+}
+
+/**
+ * One way of answering a query from indexes
+ */
+interface AccessPlan {
+  stage: 'IXSCAN' | 'INDEX_INTERSECTION';
+  indexes: string[];
+  candidates: IndexCandidates[];
+}
 
 export class QueryEngine {
   private queryOptimizer: QueryOptimizer = new QueryOptimizer();
@@ -19,10 +40,16 @@ export class QueryEngine {
    * @param documents - Map of document IDs to documents
    * @param indices - Map of field names to index maps
    * @param query - Query object to execute
+   * @param advanced - Compound / unique indexes of the collection, if any
    * @returns Array of matching documents
    * @throws ValidationError if parameters or query are invalid
    */
-  execute(documents: Map<string, Document>, indices: Map<string, Map<any, Set<string>>>, query: Query): Document[] {
+  execute(
+    documents: Map<string, Document>,
+    indices: Map<string, Map<any, Set<string>>>,
+    query: Query,
+    advanced?: AdvancedIndexingEngine
+  ): Document[] {
     // Validate inputs using specific error types
     if (!documents || !indices || !query) {
       throw new ValidationError(
@@ -36,7 +63,7 @@ export class QueryEngine {
     QueryValidator.validate(query);
 
     // Check if we can use an index for optimization (fastest path)
-    const indexOptimized = this.tryIndexOptimization(documents, indices, query);
+    const indexOptimized = this.tryIndexOptimization(documents, indices, query, advanced);
     if (indexOptimized !== null) {
       return indexOptimized;
     }
@@ -59,193 +86,380 @@ export class QueryEngine {
 
   /**
    * Attempt to optimize query using indices
-   * Currently supports simple equality queries on indexed fields
-   * 
+   * Candidates come from planIndexScan and are re-checked against the full query,
+   * except for a lone equality condition which the index answers exactly
+   *
    * @param documents - Map of document IDs to documents
    * @param indices - Map of field names to index maps
    * @param query - Query object
+   * @param advanced - Compound / unique indexes of the collection, if any
    * @returns Optimized results if index can be used, null otherwise
    */
   private tryIndexOptimization(
     documents: Map<string, Document>,
     indices: Map<string, Map<any, Set<string>>>,
-    query: Query
+    query: Query,
+    advanced?: AdvancedIndexingEngine
   ): Document[] | null {
-    // For now, only optimize simple equality queries on indexed fields
-    const queryKeys = Object.keys(query);
-
-    if (queryKeys.length === 1) {
-      const field = queryKeys[0];
-      const value = query[field];
-
-      // Check if it's a simple equality match (not an operator object)
-      if (typeof value !== 'object' || value === null) {
-        const indexMap = indices.get(field);
-        if (indexMap) {
-          const docIds = indexMap.get(value);
-          if (docIds) {
-            // Pre-allocate result array for better performance
-            const results: Document[] = new Array(docIds.size);
-            let index = 0;
-            for (const docId of docIds) {
-              const doc = documents.get(docId);
-              if (doc) {
-                results[index++] = doc;
-              }
-            }
-            // Return exact size array (no null slots)
-            return results.slice(0, index);
-          }
-          return []; // No documents found
-        }
-      }
+    const candidates = this.planIndexScan(indices, query, advanced);
+    if (candidates === null) {
+      return null;
     }
 
-    return null; // No optimization possible
+    const exact = this.isExactIndexMatch(indices, query);
+    const results: Document[] = [];
+
+    for (const docId of candidates) {
+      const doc = documents.get(docId);
+      if (doc && (exact || this.matchesQuery(doc, query))) {
+        results.push(doc);
+      }
+    }
+    return results;
   }
 
   /**
-   * Check if a document matches the query
+   * Choose indexes for a query and list the candidate document IDs
    *
-   * Implements AND logic: all query conditions must match.
-   * Short-circuits on first non-matching condition for performance.
+   * Every equality or `$in` condition on a single-field index, and every compound index whose
+   * leading fields have equality conditions (a prefix), yields a candidate set; several sets are
+   * intersected, smallest first. Without equality candidates, a range on an indexed field
+   * (or on the first field of a compound index) is walked instead.
+   * Candidates are a superset of the matches and are produced lazily.
    *
-   * @param doc - Document to check
-   * @param query - Query object with field conditions
-   * @returns true if document matches all query conditions
+   * @param advanced - Compound / unique indexes of the collection, if any
+   * @returns Candidate document IDs, or null if no index applies (full scan needed)
    */
-  private matchesQuery(doc: Document, query: Query): boolean {
-    // Handle top-level logical operators
-    if (query.$and) {
-      return query.$and.every((subQuery: Query) => this.matchesQuery(doc, subQuery));
-    }
-    if (query.$or) {
-      return query.$or.some((subQuery: Query) => this.matchesQuery(doc, subQuery));
+  planIndexScan(
+    indices: Map<string, Map<any, Set<string>>>,
+    query: Query,
+    advanced?: AdvancedIndexingEngine
+  ): Iterable<string> | null {
+    const [winning] = this.accessPlans(indices, query, advanced);
+    return winning ? this.planIds(winning) : null;
+  }
+
+  /**
+   * Execute a query and report how it was answered
+   * The winning plan is the one execute() uses; with 'allPlansExecution' every rejected
+   * plan is run as well so their costs can be compared
+   *
+   * @param documents - Map of document IDs to documents
+   * @param indices - Map of field names to index maps
+   * @param query - Query object to explain
+   * @param advanced - Compound / unique indexes of the collection, if any
+   * @param verbosity - How much to execute; 'queryPlanner' only plans
+   * @returns Plans and, unless only planning, execution statistics
+   * @throws ValidationError if the query is invalid
+   */
+  explain(
+    documents: Map<string, Document>,
+    indices: Map<string, Map<any, Set<string>>>,
+    query: Query,
+    advanced?: AdvancedIndexingEngine,
+    verbosity: ExplainVerbosity = 'queryPlanner'
+  ): Omit<ExplainResult, 'collection' | 'cacheHit'> {
+    QueryValidator.validate(query);
+
+    const planningStart = performance.now();
+    const plans = this.accessPlans(indices, query, advanced);
+    const planningTimeMillis = performance.now() - planningStart;
+
+    const describe = (plan: AccessPlan): ExplainPlan => ({ stage: plan.stage, indexes: plan.indexes });
+    const winningPlan: ExplainPlan = plans.length > 0
+      ? describe(plans[0])
+      : { stage: 'COLLSCAN', indexes: [] };
+    const explanation: Omit<ExplainResult, 'collection' | 'cacheHit'> = {
+      query,
+      verbosity,
+      winningPlan,
+      rejectedPlans: plans.slice(1).map(describe)
+    };
+
+    if (verbosity === 'queryPlanner') {
+      return explanation;
     }
 
-    // Handle regular field conditions
-    for (const [field, condition] of Object.entries(query)) {
-      const value = this.getNestedValue(doc, field);
-      if (!this.matchesCondition(value, condition)) {
-        return false;
-      }
+    const stats = this.executePlan(documents, indices, query, plans[0] ?? null);
+    explanation.executionStats = {
+      ...stats,
+      stages: [
+        { stage: 'PLAN', executionTimeMillis: planningTimeMillis },
+        { stage: winningPlan.stage, executionTimeMillis: stats.executionTimeMillis }
+      ]
+    };
+    explanation.executionStats.executionTimeMillis += planningTimeMillis;
+
+    if (verbosity === 'allPlansExecution') {
+      explanation.allPlansExecution = plans.slice(1).map(plan => ({
+        plan: describe(plan),
+        ...this.executePlan(documents, indices, query, plan)
+      }));
     }
-    return true;
+
+    return explanation;
   }
 
   /**
-   * Check if a value matches a condition
-   *
-   * Handles both simple equality and operator-based conditions.
-   * Operators are evaluated using evaluateOperators().
-   *
-   * @param value - Document field value
-   * @param condition - Query condition (simple value or operator object)
-   * @returns true if value matches condition
+   * Run one plan (or a collection scan) while counting index keys and documents touched
    */
-  private matchesCondition(value: any, condition: any): boolean {
-    if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
-      // Handle operators
-      return this.evaluateOperators(value, condition);
+  private executePlan(
+    documents: Map<string, Document>,
+    indices: Map<string, Map<any, Set<string>>>,
+    query: Query,
+    plan: AccessPlan | null
+  ): PlanExecutionStats {
+    const start = performance.now();
+    let keysExamined = 0;
+    let docsExamined = 0;
+    let nReturned = 0;
+
+    if (plan === null) {
+      for (const doc of documents.values()) {
+        docsExamined++;
+        if (this.matchesQuery(doc, query)) nReturned++;
+      }
     } else {
-      // Simple equality match
-      return this.deepEqual(value, condition);
+      const counted = plan.candidates.map(candidate => ({
+        size: candidate.size,
+        ids: this.countIds(candidate.ids, () => keysExamined++),
+        contains: (docId: string) => {
+          keysExamined++;
+          return candidate.contains(docId);
+        }
+      }));
+      const exact = plan.stage === 'IXSCAN' && this.isExactIndexMatch(indices, query);
+
+      for (const docId of this.planIds({ ...plan, candidates: counted })) {
+        const doc = documents.get(docId);
+        if (!doc) continue;
+        docsExamined++;
+        if (exact || this.matchesQuery(doc, query)) nReturned++;
+      }
+    }
+
+    return { keysExamined, docsExamined, nReturned, executionTimeMillis: performance.now() - start };
+  }
+
+  private *countIds(ids: Iterable<string>, onKey: () => void): Generator<string> {
+    for (const docId of ids) {
+      onKey();
+      yield docId;
     }
   }
 
   /**
-   * Evaluate query operators against a value
+   * Access plans for a query, best first
+   * Equality candidates are intersected into the winning plan, with each of them alone as an
+   * alternative; range scans follow in index order and only win without any equality candidate
    *
-   * @param value - Document field value
-   * @param operators - Object containing operator conditions
-   * @returns true if all operators match, false otherwise
-   * @throws ValidationError for unknown operators
+   * @returns Plans, empty when no index applies
    */
-  private evaluateOperators(value: any, operators: { [key: string]: any }): boolean {
-    for (const [operator, operand] of Object.entries(operators)) {
-      switch (operator) {
-        case '$eq':
-          if (!this.deepEqual(value, operand)) return false;
-          break;
-        case '$gt':
-          if (!(value > operand)) return false;
-          break;
-        case '$gte':
-          if (!(value >= operand)) return false;
-          break;
-        case '$lt':
-          if (!(value < operand)) return false;
-          break;
-        case '$lte':
-          if (!(value <= operand)) return false;
-          break;
-        case '$ne':
-          if (this.deepEqual(value, operand)) return false;
-          break;
-        case '$in':
-          if (!Array.isArray(operand) || !operand.some(item => this.deepEqual(value, item))) return false;
-          break;
-        case '$nin':
-          if (!Array.isArray(operand) || operand.some(item => this.deepEqual(value, item))) return false;
-          break;
-        case '$regex':
-          const regex = operand instanceof RegExp ? operand : new RegExp(operand);
-          if (typeof value !== 'string' || !regex.test(value)) return false;
-          break;
-        case '$exists':
-          const shouldExist = operand;
-          const actuallyExists = value !== undefined;
-          if (shouldExist !== actuallyExists) return false;
-          break;
-        case '$all':
-          if (!Array.isArray(value) || !Array.isArray(operand)) return false;
-          if (!operand.every(item => value.some(val => this.deepEqual(val, item)))) return false;
-          break;
-        case '$size':
-          if (!Array.isArray(value) || value.length !== operand) return false;
-          break;
-        default:
-          throw new ValidationError(
-            ERROR_MESSAGES.QUERY_UNKNOWN_OPERATOR(operator),
-            'operator',
-            operator
-          );
+  private accessPlans(
+    indices: Map<string, Map<any, Set<string>>>,
+    query: Query,
+    advanced?: AdvancedIndexingEngine
+  ): AccessPlan[] {
+    const fields = Object.keys(query);
+    // Top-level logical operators are evaluated on their own, keep the scan for them
+    if (fields.length === 0 || fields.some(field => field.startsWith('$'))) {
+      return [];
+    }
+
+    const equalities: Array<{ index: string; candidates: IndexCandidates }> = [];
+    const ranges: Array<{ index: string; candidates: IndexCandidates }> = [];
+
+    for (const field of fields) {
+      const indexMap = indices.get(field);
+      if (!indexMap) continue;
+
+      const condition = query[field];
+      const equality = this.equalityValue(condition);
+      if (equality.found) {
+        const ids = indexMap.get(equality.value) ?? new Set<string>();
+        equalities.push({ index: field, candidates: { size: ids.size, ids, contains: docId => ids.has(docId) } });
+        continue;
+      }
+
+      if (this.isOnlyOperator(condition, '$in') && Array.isArray(condition.$in) &&
+          condition.$in.every((value: any) => this.isEqualityValue(value))) {
+        const sets = condition.$in.map((value: any) => indexMap.get(value)).filter(Boolean) as Set<string>[];
+        equalities.push({
+          index: field,
+          candidates: {
+            size: sets.reduce((total, ids) => total + ids.size, 0),
+            ids: { [Symbol.iterator]: () => this.unionIds(sets) },
+            contains: docId => sets.some(ids => ids.has(docId))
+          }
+        });
+        continue;
+      }
+
+      const range = rangeFromCondition(condition);
+      if (range && indexMap instanceof SortedIndex) {
+        const bounds = indexMap.multikey ? multikeyRange(range) : range;
+        ranges.push({ index: field, candidates: this.rangeCandidates(() => this.rangeIds(indexMap, bounds)) });
+      }
+    }
+
+    for (const index of advanced?.getIndexes() ?? []) {
+      const prefix: any[] = [];
+      for (const field of index.fields) {
+        const equality = this.equalityValue(query[field]);
+        if (!equality.found) break;
+        prefix.push(equality.value);
+      }
+
+      // Sparse indexes leave out documents missing the fields, which a null equality matches
+      if (index.sparse && prefix.includes(null)) continue;
+
+      if (prefix.length > 0) {
+        const ids = new Set(advanced!.lookup(index.name, prefix));
+        equalities.push({ index: index.name, candidates: { size: ids.size, ids, contains: docId => ids.has(docId) } });
+      } else {
+        const range = rangeFromCondition(query[index.fields[0]]);
+        if (range) {
+          ranges.push({ index: index.name, candidates: this.rangeCandidates(() => advanced!.lookup(index.name, [], range)) });
+        }
       }
     }
-    return true;
+
+    const single = ({ index, candidates }: { index: string; candidates: IndexCandidates }): AccessPlan =>
+      ({ stage: 'IXSCAN', indexes: [index], candidates: [candidates] });
+    const plans: AccessPlan[] = [];
+
+    if (equalities.length > 1) {
+      plans.push({
+        stage: 'INDEX_INTERSECTION',
+        indexes: equalities.map(equality => equality.index),
+        candidates: equalities.map(equality => equality.candidates)
+      });
+    }
+    plans.push(...equalities.map(single), ...ranges.map(single));
+    return plans;
   }
 
   /**
-   * Get nested value from document using dot notation
+   * Candidate IDs of a plan: one index directly, several intersected
    */
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : undefined;
-    }, obj);
+  private planIds(plan: AccessPlan): Iterable<string> {
+    return plan.candidates.length === 1 ? plan.candidates[0].ids : this.intersectIds(plan.candidates);
   }
 
   /**
-   * Deep equality check for objects and arrays
+   * Candidates of a range walk; re-iterable so a plan can be executed more than once
+   * Their size is unknown without walking, which range plans never need
    */
-  private deepEqual(a: any, b: any): boolean {
-    if (a === b) return true;
+  private rangeCandidates(walk: () => Iterable<string>): IndexCandidates {
+    const ids = { [Symbol.iterator]: () => this.distinctIds(walk()) };
+    return {
+      size: Infinity,
+      ids,
+      contains: docId => {
+        for (const id of ids) {
+          if (id === docId) return true;
+        }
+        return false;
+      }
+    };
+  }
 
-    if (a == null || b == null) return a === b;
+  /**
+   * A lone equality condition on a single-field index needs no re-check
+   */
+  private isExactIndexMatch(indices: Map<string, Map<any, Set<string>>>, query: Query): boolean {
+    const fields = Object.keys(query);
+    return fields.length === 1 && indices.has(fields[0]) && this.isEqualityValue(query[fields[0]]);
+  }
 
-    if (Array.isArray(a) && Array.isArray(b)) {
-      if (a.length !== b.length) return false;
-      return a.every((val, idx) => this.deepEqual(val, b[idx]));
+  /**
+   * IDs present in every candidate set, iterating the smallest set
+   */
+  private *intersectIds(candidates: IndexCandidates[]): Generator<string> {
+    const [smallest, ...others] = [...candidates].sort((a, b) => a.size - b.size);
+    for (const docId of smallest.ids) {
+      if (others.every(candidate => candidate.contains(docId))) {
+        yield docId;
+      }
     }
+  }
 
-    if (typeof a === 'object' && typeof b === 'object') {
-      const keysA = Object.keys(a);
-      const keysB = Object.keys(b);
+  /**
+   * Value of a plain equality or primitive `$eq` condition
+   */
+  private equalityValue(condition: any): { found: boolean; value?: any } {
+    if (condition === undefined) {
+      return { found: false };
+    }
+    if (this.isEqualityValue(condition)) {
+      return { found: true, value: condition };
+    }
+    if (this.isOnlyOperator(condition, '$eq') && this.isEqualityValue(condition.$eq)) {
+      return { found: true, value: condition.$eq };
+    }
+    return { found: false };
+  }
 
-      if (keysA.length !== keysB.length) return false;
+  private *unionIds(sets: Set<string>[]): Generator<string> {
+    const seen = new Set<string>();
+    for (const ids of sets) {
+      for (const docId of ids) {
+        if (!seen.has(docId)) {
+          seen.add(docId);
+          yield docId;
+        }
+      }
+    }
+  }
 
-      return keysA.every(key => keysB.includes(key) && this.deepEqual(a[key], b[key]));
+  private *rangeIds(index: SortedIndex, range: IndexRange): Generator<string> {
+    for (const [, ids] of index.range(range)) {
+      yield* ids;
     }
+  }
+
+  /**
+   * Drop repeated IDs; a document with an array value sits under several keys of a multikey index
+   */
+  private *distinctIds(ids: Iterable<string>): Generator<string> {
+    const seen = new Set<string>();
+    for (const docId of ids) {
+      if (!seen.has(docId)) {
+        seen.add(docId);
+        yield docId;
+      }
+    }
+  }
+
+  private isEqualityValue(value: any): boolean {
+    return typeof value !== 'object' || value === null;
+  }
+
+  private isOnlyOperator(condition: any, operator: string): boolean {
+    return typeof condition === 'object' && condition !== null && !Array.isArray(condition) &&
+      Object.keys(condition).length === 1 && operator in condition;
+  }
+
+  /**
+   * Check a single document against a query without consulting any index
+   *
+   * @param doc - Document to check
+   * @param query - Query object with field conditions
+   * @returns true if document matches all query conditions
+   */
+  matches(doc: Document, query: Query): boolean {
+    return this.matchesQuery(doc, query);
+  }
 
-    return false;
+  /**
+   * Check if a document matches the query
+   * Evaluation is shared with aggregation and update conditions (AdvancedQueryEngine)
+   *
+   * @param doc - Document to check
+   * @param query - Query object with field conditions
+   * @returns true if document matches all query conditions
+   */
+  private matchesQuery(doc: Document, query: Query): boolean {
+    return AdvancedQueryEngine.matches(doc, query);
   }
 }
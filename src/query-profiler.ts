@@ -11,9 +11,16 @@ export class QueryProfiler {
 
   /**
    * Profile a query execution
+   *
+   * @param indexesUsed - Indexes of the plan that answered the query; empty for a collection scan
    */
-  profileQuery(query: any, executionTime: number, documentsExamined: number, documentsReturned: number): QueryProfile {
-    const indexesUsed: string[] = this.analyzeIndexUsage(query);
+  profileQuery(
+    query: any,
+    executionTime: number,
+    documentsExamined: number,
+    documentsReturned: number,
+    indexesUsed: string[] = []
+  ): QueryProfile {
     const optimizationHints: string[] = this.generateOptimizationHints(query, executionTime, documentsExamined, documentsReturned);
 
     const profile: QueryProfile = {
@@ -117,6 +124,7 @@ export class QueryProfiler {
 
   /**
    * Analyze query patterns and suggest indexes
+   * Only queries that ran without an index count towards single-field suggestions
    */
   suggestIndexes(): Array<{ fields: string[]; reason: string; impact: 'high' | 'medium' | 'low' }> {
     const suggestions: Array<{ fields: string[]; reason: string; impact: 'high' | 'medium' | 'low' }> = [];
@@ -135,7 +143,7 @@ export class QueryProfiler {
 
     // Suggest compound indexes for multi-field queries
     const multiFieldQueries = this.profiles.filter(p =>
-      Object.keys(p.query).length > 1 && p.executionTime > 50
+      this.queryFields(p.query).length > 1 && (p.executionTime > 50 || p.indexesUsed.length === 0)
     );
 
     if (multiFieldQueries.length > 5) {
@@ -160,18 +168,6 @@ export class QueryProfiler {
     logger.info('Query profiles cleared');
   }
 
-  private analyzeIndexUsage(query: any): string[] {
-    // This would integrate with the actual indexing system
-    // For now, return mock data
-    const indexesUsed: string[] = [];
-
-    if (Object.keys(query).length > 0) {
-      indexesUsed.push('default_index');
-    }
-
-    return indexesUsed;
-  }
-
   private generateOptimizationHints(query: any, executionTime: number, documentsExamined: number, documentsReturned: number): string[] {
     const hints: string[] = [];
 
@@ -254,7 +250,8 @@ export class QueryProfiler {
     const patterns: Record<string, number> = {};
 
     for (const profile of this.profiles) {
-      for (const field of Object.keys(profile.query)) {
+      if (profile.indexesUsed.length > 0) continue;
+      for (const field of this.queryFields(profile.query)) {
         patterns[field] = (patterns[field] || 0) + 1;
       }
     }
@@ -266,7 +263,7 @@ export class QueryProfiler {
     const fieldCounts: Record<string, number> = {};
 
     for (const profile of profiles) {
-      for (const field of Object.keys(profile.query)) {
+      for (const field of this.queryFields(profile.query)) {
         fieldCounts[field] = (fieldCounts[field] || 0) + 1;
       }
     }
@@ -278,4 +275,11 @@ export class QueryProfiler {
       .map(([field]) => field)
       .sort();
   }
+
+  /**
+   * Field paths of a query, without top-level operators such as $or
+   */
+  private queryFields(query: any): string[] {
+    return Object.keys(query).filter(field => !field.startsWith('$'));
+  }
 }
@@ -0,0 +1,385 @@
+import { MinHeap } from './min-heap';
+
+/**
+ * Axis-aligned box: [minX, minY, maxX, maxY] (for geodata [minLng, minLat, maxLng, maxLat])
+ */
+export type BoundingBox = [number, number, number, number];
+
+interface RTreeEntry<T> {
+  bbox: BoundingBox;
+  value: T;
+}
+
+interface RTreeNode<T> {
+  bbox: BoundingBox;
+  leaf: boolean;
+  height: number; // 1 for leaves
+  children: Array<RTreeNode<T> | RTreeEntry<T>>; // Entries in leaves, nodes otherwise
+}
+
+/**
+ * R-Tree
+ * Spatial index of values by bounding box. Inserts descend to the child needing the least
+ * enlargement and split overflowing nodes the R*-tree way (the axis with the smallest margin,
+ * then the distribution with the least overlap). Removals condense the path and reinsert the
+ * entries of underfull nodes, so the tree stays balanced. `load` builds a packed tree with
+ * Sort-Tile-Recursive bulk loading.
+ *
+ * Box search is O(log n + k) for well-distributed data, and nearest() walks nodes best-first
+ * by a caller-supplied lower bound, so any distance (e.g. great-circle) can prune the search.
+ */
+export class RTree<T> {
+  private root: RTreeNode<T>;
+  private readonly minEntries: number;
+  private count = 0;
+
+  constructor(private readonly maxEntries = 16) {
+    this.maxEntries = Math.max(4, maxEntries);
+    this.minEntries = Math.max(2, Math.ceil(this.maxEntries * 0.4));
+    this.root = createNode([], true, 1);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get height(): number {
+    return this.root.height;
+  }
+
+  insert(bbox: BoundingBox, value: T): void {
+    this.insertAt({ bbox: [...bbox] as BoundingBox, value }, 1);
+    this.count++;
+  }
+
+  /**
+   * Add many entries; an empty tree is bulk loaded (faster to build and to query)
+   */
+  load(entries: Array<{ bbox: BoundingBox; value: T }>): void {
+    if (this.count > 0 || entries.length < this.maxEntries) {
+      entries.forEach(({ bbox, value }) => this.insert(bbox, value));
+      return;
+    }
+    this.root = this.pack(entries.map(({ bbox, value }) => ({ bbox: [...bbox] as BoundingBox, value })), 1);
+    this.count = entries.length;
+  }
+
+  /**
+   * Remove the entry holding a value; `bbox` must be the one it was inserted with
+   *
+   * @returns Whether an entry was removed
+   */
+  remove(bbox: BoundingBox, value: T): boolean {
+    const path = this.findLeaf(this.root, bbox, value, []);
+    if (!path) return false;
+
+    const leaf = path[path.length - 1];
+    leaf.children.splice(leaf.children.findIndex(child => (child as RTreeEntry<T>).value === value), 1);
+    this.count--;
+    this.condense(path);
+    return true;
+  }
+
+  clear(): void {
+    this.root = createNode([], true, 1);
+    this.count = 0;
+  }
+
+  /**
+   * Values whose box intersects the given box
+   */
+  search(bbox: BoundingBox): T[] {
+    const results: T[] = [];
+    if (!intersects(this.root.bbox, bbox)) return results;
+
+    const stack: Array<RTreeNode<T>> = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const child of node.children) {
+        if (!intersects(child.bbox, bbox)) continue;
+        if (node.leaf) {
+          results.push((child as RTreeEntry<T>).value);
+        } else if (contains(bbox, child.bbox)) {
+          this.collect(child as RTreeNode<T>, results);
+        } else {
+          stack.push(child as RTreeNode<T>);
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Nearest values first, visiting nodes in order of the smallest distance they could hold
+   *
+   * @param boxDistance - Lower bound of the distance to anything inside a box
+   * @param valueDistance - Exact distance to an entry (default: its box distance)
+   * @param limit - Values returned at most
+   * @param maxDistance - Values farther away are skipped
+   */
+  nearest(
+    boxDistance: (bbox: BoundingBox) => number,
+    valueDistance: (value: T, bbox: BoundingBox) => number = (_, bbox) => boxDistance(bbox),
+    limit = Infinity,
+    maxDistance = Infinity
+  ): Array<{ value: T; distance: number }> {
+    const results: Array<{ value: T; distance: number }> = [];
+    if (this.count === 0) return results;
+
+    const queue = new MinHeap<{ node?: RTreeNode<T>; entry?: RTreeEntry<T>; exact: boolean }>();
+    queue.push({ node: this.root, exact: false }, boxDistance(this.root.bbox));
+
+    while (queue.size > 0 && results.length < limit) {
+      const { item, priority } = queue.pop()!;
+      if (priority > maxDistance) break;
+
+      if (item.entry) {
+        if (item.exact) {
+          results.push({ value: item.entry.value, distance: priority });
+        } else {
+          // Bound reached: queue again with the exact distance, which may be larger
+          queue.push({ entry: item.entry, exact: true }, valueDistance(item.entry.value, item.entry.bbox));
+        }
+        continue;
+      }
+
+      const node = item.node!;
+      for (const child of node.children) {
+        const bound = boxDistance(child.bbox);
+        if (bound > maxDistance) continue;
+        queue.push(node.leaf ? { entry: child as RTreeEntry<T>, exact: false } : { node: child as RTreeNode<T>, exact: false }, bound);
+      }
+    }
+    return results;
+  }
+
+  all(): T[] {
+    const results: T[] = [];
+    this.collect(this.root, results);
+    return results;
+  }
+
+  private collect(node: RTreeNode<T>, results: T[]): void {
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current.leaf) {
+        current.children.forEach(child => results.push((child as RTreeEntry<T>).value));
+      } else {
+        stack.push(...(current.children as Array<RTreeNode<T>>));
+      }
+    }
+  }
+
+  /**
+   * Insert an entry (or, when reinserting, a subtree) into a node at the given height
+   */
+  private insertAt(item: RTreeEntry<T> | RTreeNode<T>, height: number): void {
+    const path: Array<RTreeNode<T>> = [];
+    let node = this.root;
+    path.push(node);
+    while (node.height > height) {
+      node = chooseSubtree(node, item.bbox);
+      path.push(node);
+    }
+
+    node.children.push(item);
+    extend(node.bbox, item.bbox);
+
+    // Split overflowing nodes bottom-up, widening the boxes along the way
+    for (let level = path.length - 1; level >= 0; level--) {
+      const current = path[level];
+      if (current.children.length > this.maxEntries) {
+        const sibling = this.split(current);
+        if (level === 0) {
+          this.root = createNode([current, sibling], false, current.height + 1);
+        } else {
+          path[level - 1].children.push(sibling);
+        }
+      }
+      if (level > 0) {
+        path[level - 1].bbox = boundsOf(path[level - 1].children);
+      }
+    }
+  }
+
+  /**
+   * R* split: sort along the axis whose distributions have the smallest total margin, then
+   * cut where the two halves overlap least (least total area on ties)
+   *
+   * @returns The new node holding the second half; `node` keeps the first
+   */
+  private split(node: RTreeNode<T>): RTreeNode<T> {
+    const m = this.minEntries;
+    const total = node.children.length;
+    const byMinX = [...node.children].sort((a, b) => a.bbox[0] - b.bbox[0] || a.bbox[2] - b.bbox[2]);
+    const byMinY = [...node.children].sort((a, b) => a.bbox[1] - b.bbox[1] || a.bbox[3] - b.bbox[3]);
+
+    const marginSum = (sorted: typeof node.children) => {
+      let sum = 0;
+      for (let k = m; k <= total - m; k++) {
+        sum += margin(boundsOf(sorted.slice(0, k))) + margin(boundsOf(sorted.slice(k)));
+      }
+      return sum;
+    };
+    const sorted = marginSum(byMinX) <= marginSum(byMinY) ? byMinX : byMinY;
+
+    let bestIndex = m;
+    let bestOverlap = Infinity;
+    let bestArea = Infinity;
+    for (let k = m; k <= total - m; k++) {
+      const left = boundsOf(sorted.slice(0, k));
+      const right = boundsOf(sorted.slice(k));
+      const overlap = intersectionArea(left, right);
+      const combined = area(left) + area(right);
+      if (overlap < bestOverlap || (overlap === bestOverlap && combined < bestArea)) {
+        bestIndex = k;
+        bestOverlap = overlap;
+        bestArea = combined;
+      }
+    }
+
+    node.children = sorted.slice(0, bestIndex);
+    node.bbox = boundsOf(node.children);
+    return createNode(sorted.slice(bestIndex), node.leaf, node.height);
+  }
+
+  private findLeaf(node: RTreeNode<T>, bbox: BoundingBox, value: T, path: Array<RTreeNode<T>>): Array<RTreeNode<T>> | null {
+    path.push(node);
+    if (node.leaf) {
+      if (node.children.some(child => (child as RTreeEntry<T>).value === value)) {
+        return path;
+      }
+    } else {
+      for (const child of node.children) {
+        if (contains(child.bbox, bbox)) {
+          const found = this.findLeaf(child as RTreeNode<T>, bbox, value, path);
+          if (found) return found;
+        }
+      }
+    }
+    path.pop();
+    return null;
+  }
+
+  /**
+   * After a removal: drop underfull nodes along the path, shrink the boxes, reinsert the
+   * orphaned entries and subtrees at their height, and lower the root while it has one child
+   */
+  private condense(path: Array<RTreeNode<T>>): void {
+    const orphans: Array<RTreeNode<T>> = [];
+    for (let level = path.length - 1; level > 0; level--) {
+      const node = path[level];
+      const parent = path[level - 1];
+      if (node.children.length < this.minEntries) {
+        parent.children.splice(parent.children.indexOf(node), 1);
+        orphans.push(node);
+      } else {
+        node.bbox = boundsOf(node.children);
+      }
+    }
+    this.root.bbox = boundsOf(this.root.children);
+
+    for (const orphan of orphans) {
+      for (const child of orphan.children) {
+        this.insertAt(child, orphan.height);
+      }
+    }
+
+    while (!this.root.leaf && this.root.children.length === 1) {
+      this.root = this.root.children[0] as RTreeNode<T>;
+    }
+    if (!this.root.leaf && this.root.children.length === 0) {
+      this.root = createNode([], true, 1);
+    }
+  }
+
+  /**
+   * Sort-Tile-Recursive packing: sort by x into vertical slices, each slice by y into runs of
+   * maxEntries, and build the level above from the resulting nodes the same way
+   */
+  private pack(items: Array<RTreeEntry<T> | RTreeNode<T>>, height: number): RTreeNode<T> {
+    const M = this.maxEntries;
+    if (items.length <= M) {
+      return createNode(items, height === 1, height);
+    }
+
+    const nodeCount = Math.ceil(items.length / M);
+    const sliceCount = Math.ceil(Math.sqrt(nodeCount));
+    const sliceSize = sliceCount * M;
+    const centerX = (bbox: BoundingBox) => bbox[0] + bbox[2];
+    const centerY = (bbox: BoundingBox) => bbox[1] + bbox[3];
+
+    items.sort((a, b) => centerX(a.bbox) - centerX(b.bbox));
+    const nodes: Array<RTreeNode<T>> = [];
+    for (let i = 0; i < items.length; i += sliceSize) {
+      const slice = items.slice(i, i + sliceSize).sort((a, b) => centerY(a.bbox) - centerY(b.bbox));
+      for (let j = 0; j < slice.length; j += M) {
+        nodes.push(createNode(slice.slice(j, j + M), height === 1, height));
+      }
+    }
+    return this.pack(nodes, height + 1);
+  }
+}
+
+function createNode<T>(children: Array<RTreeNode<T> | RTreeEntry<T>>, leaf: boolean, height: number): RTreeNode<T> {
+  return { bbox: boundsOf(children), leaf, height, children };
+}
+
+/**
+ * Child whose box grows least to take the new box (smallest area on ties)
+ */
+function chooseSubtree<T>(node: RTreeNode<T>, bbox: BoundingBox): RTreeNode<T> {
+  let best = node.children[0] as RTreeNode<T>;
+  let bestEnlargement = Infinity;
+  let bestArea = Infinity;
+  for (const child of node.children as Array<RTreeNode<T>>) {
+    const childArea = area(child.bbox);
+    const enlargement = area(union(child.bbox, bbox)) - childArea;
+    if (enlargement < bestEnlargement || (enlargement === bestEnlargement && childArea < bestArea)) {
+      best = child;
+      bestEnlargement = enlargement;
+      bestArea = childArea;
+    }
+  }
+  return best;
+}
+
+function boundsOf(items: Array<{ bbox: BoundingBox }>): BoundingBox {
+  const bbox: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+  items.forEach(item => extend(bbox, item.bbox));
+  return bbox;
+}
+
+function extend(target: BoundingBox, bbox: BoundingBox): void {
+  target[0] = Math.min(target[0], bbox[0]);
+  target[1] = Math.min(target[1], bbox[1]);
+  target[2] = Math.max(target[2], bbox[2]);
+  target[3] = Math.max(target[3], bbox[3]);
+}
+
+function union(a: BoundingBox, b: BoundingBox): BoundingBox {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+function area(bbox: BoundingBox): number {
+  return (bbox[2] - bbox[0]) * (bbox[3] - bbox[1]);
+}
+
+function margin(bbox: BoundingBox): number {
+  return (bbox[2] - bbox[0]) + (bbox[3] - bbox[1]);
+}
+
+function intersectionArea(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const height = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return a[0] <= b[2] && a[1] <= b[3] && a[2] >= b[0] && a[3] >= b[1];
+}
+
+function contains(outer: BoundingBox, inner: BoundingBox): boolean {
+  return outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3];
+}
@@ -0,0 +1,282 @@
+import { compareValues, sameTypeBracket } from './utils';
+
+/**
+ * Bounds for walking a sorted index
+ * When any bound is given, only values in that bound's type bracket are visited
+ * (a numeric range never returns strings), matching range query semantics
+ */
+export interface IndexRange {
+  min?: any;
+  minInclusive?: boolean;
+  max?: any;
+  maxInclusive?: boolean;
+}
+
+/**
+ * Skip list node holding one distinct indexed value
+ * `backward` links level 0 in reverse so descending walks stay lazy
+ */
+class SortedIndexNode {
+  constructor(
+    public key: any,
+    public forward: Array<SortedIndexNode | null>,
+    public backward: SortedIndexNode | null = null
+  ) {}
+}
+
+/**
+ * Sorted Index
+ * Value -> document IDs index that keeps its distinct values in a skip list ordered by
+ * compareValues. Equality lookups stay O(1) through the Map, inserting or removing a
+ * distinct value is O(log n), and range scans are O(log n + k) in either direction.
+ *
+ * Values are document ID sets, or the next level of a compound index.
+ * `multikey` is set once any document contributed the elements of an array value.
+ *
+ * Extends Map so existing index maintenance (set/delete on the value map) keeps the
+ * skip list in sync without changes at the call sites.
+ */
+export class SortedIndex<V = Set<string>> extends Map<any, V> {
+  private static readonly MAX_LEVEL = 16;
+  private static readonly PROBABILITY = 0.25;
+
+  multikey = false;
+
+  private head = new SortedIndexNode(undefined, new Array(SortedIndex.MAX_LEVEL).fill(null));
+  private tail: SortedIndexNode | null = null;
+
+  set(key: any, value: V): this {
+    const isNew = !super.has(key);
+    super.set(key, value);
+    if (isNew) {
+      this.insertNode(key);
+    }
+    return this;
+  }
+
+  delete(key: any): boolean {
+    const deleted = super.delete(key);
+    if (deleted) {
+      this.removeNode(key);
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.head = new SortedIndexNode(undefined, new Array(SortedIndex.MAX_LEVEL).fill(null));
+    this.tail = null;
+  }
+
+  /**
+   * Walk indexed values and their document IDs in sort order
+   *
+   * @param range - Optional bounds; omitted bounds are open
+   * @param reverse - Walk from the largest value down
+   */
+  *range(range: IndexRange = {}, reverse = false): Generator<[any, V]> {
+    const hasMin = range.min !== undefined;
+    const hasMax = range.max !== undefined;
+    const bracket = hasMin ? range.min : range.max;
+    const bounded = hasMin || hasMax;
+
+    let node = reverse ? this.seekLast(range) : this.seekFirst(range);
+
+    while (node) {
+      const key = node.key;
+
+      if (bounded && !sameTypeBracket(key, bracket)) {
+        // Values are grouped by bracket: past the bound's bracket nothing else can match
+        const order = compareValues(key, bracket);
+        if (reverse ? order < 0 : order > 0) return;
+      } else {
+        if (reverse ? !this.aboveMin(key, range) : !this.belowMax(key, range)) return;
+        yield [key, super.get(key) as V];
+      }
+
+      node = reverse ? node.backward : node.forward[0];
+    }
+  }
+
+  /**
+   * First node not below the lower bound
+   */
+  private seekFirst(range: IndexRange): SortedIndexNode | null {
+    if (range.min === undefined) {
+      return this.head.forward[0];
+    }
+
+    let current = this.head;
+    for (let i = SortedIndex.MAX_LEVEL - 1; i >= 0; i--) {
+      let next = current.forward[i];
+      while (next && !this.aboveMin(next.key, range)) {
+        current = next;
+        next = current.forward[i];
+      }
+    }
+    return current.forward[0];
+  }
+
+  /**
+   * Last node not above the upper bound
+   */
+  private seekLast(range: IndexRange): SortedIndexNode | null {
+    if (range.max === undefined) {
+      return this.tail;
+    }
+
+    let current = this.head;
+    for (let i = SortedIndex.MAX_LEVEL - 1; i >= 0; i--) {
+      let next = current.forward[i];
+      while (next && this.belowMax(next.key, range)) {
+        current = next;
+        next = current.forward[i];
+      }
+    }
+    return current === this.head ? null : current;
+  }
+
+  private aboveMin(key: any, range: IndexRange): boolean {
+    if (range.min === undefined) return true;
+    const order = compareValues(key, range.min);
+    return range.minInclusive === false ? order > 0 : order >= 0;
+  }
+
+  private belowMax(key: any, range: IndexRange): boolean {
+    if (range.max === undefined) return true;
+    const order = compareValues(key, range.max);
+    return range.maxInclusive === false ? order < 0 : order <= 0;
+  }
+
+  /**
+   * Insert a distinct value after any values comparing equal to it
+   */
+  private insertNode(key: any): void {
+    const update: SortedIndexNode[] = new Array(SortedIndex.MAX_LEVEL);
+    let current = this.head;
+
+    for (let i = SortedIndex.MAX_LEVEL - 1; i >= 0; i--) {
+      let next = current.forward[i];
+      while (next && compareValues(next.key, key) <= 0) {
+        current = next;
+        next = current.forward[i];
+      }
+      update[i] = current;
+    }
+
+    const node = new SortedIndexNode(key, new Array(this.randomLevel()).fill(null));
+    for (let i = 0; i < node.forward.length; i++) {
+      node.forward[i] = update[i].forward[i];
+      update[i].forward[i] = node;
+    }
+
+    node.backward = update[0] === this.head ? null : update[0];
+    if (node.forward[0]) {
+      node.forward[0].backward = node;
+    } else {
+      this.tail = node;
+    }
+  }
+
+  /**
+   * Remove the node for a value; distinct Map keys may compare equal
+   * (e.g. two Date objects with the same time), so the node is matched by identity
+   */
+  private removeNode(key: any): void {
+    const update: SortedIndexNode[] = new Array(SortedIndex.MAX_LEVEL);
+    let current = this.head;
+
+    for (let i = SortedIndex.MAX_LEVEL - 1; i >= 0; i--) {
+      let next = current.forward[i];
+      while (next && compareValues(next.key, key) < 0) {
+        current = next;
+        next = current.forward[i];
+      }
+      update[i] = current;
+    }
+
+    let target = update[0].forward[0];
+    while (target && !Object.is(target.key, key) && compareValues(target.key, key) === 0) {
+      target = target.forward[0];
+    }
+    if (!target || !Object.is(target.key, key)) return;
+
+    for (let i = 0; i < target.forward.length; i++) {
+      let predecessor = update[i];
+      while (predecessor.forward[i] && predecessor.forward[i] !== target) {
+        predecessor = predecessor.forward[i] as SortedIndexNode;
+      }
+      predecessor.forward[i] = target.forward[i];
+    }
+
+    if (target.forward[0]) {
+      target.forward[0].backward = target.backward;
+    } else {
+      this.tail = target.backward;
+    }
+  }
+
+  private randomLevel(): number {
+    let level = 1;
+    while (Math.random() < SortedIndex.PROBABILITY && level < SortedIndex.MAX_LEVEL) {
+      level++;
+    }
+    return level;
+  }
+}
+
+/**
+ * Translate a query condition into index bounds
+ *
+ * @returns Bounds for `$gt`/`$gte`/`$lt`/`$lte` on numbers, strings or dates
+ *          (all in one type bracket), or null if the condition has no usable range
+ */
+export function rangeFromCondition(condition: any): IndexRange | null {
+  if (typeof condition !== 'object' || condition === null || Array.isArray(condition) || condition instanceof Date) {
+    return null;
+  }
+
+  const range: IndexRange = {};
+  let bracket: any;
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (!['$gt', '$gte', '$lt', '$lte'].includes(operator)) continue;
+
+    const comparable = (typeof operand === 'number' && !Number.isNaN(operand)) ||
+      typeof operand === 'string' || operand instanceof Date;
+    if (!comparable || (bracket !== undefined && !sameTypeBracket(operand, bracket))) {
+      return null;
+    }
+    bracket = operand;
+
+    if (operator === '$gt' || operator === '$gte') {
+      const inclusive = operator === '$gte';
+      const order = range.min === undefined ? 1 : compareValues(operand, range.min);
+      if (order > 0 || (order === 0 && !inclusive)) {
+        range.min = operand;
+        range.minInclusive = inclusive;
+      }
+    } else {
+      const inclusive = operator === '$lte';
+      const order = range.max === undefined ? -1 : compareValues(operand, range.max);
+      if (order < 0 || (order === 0 && !inclusive)) {
+        range.max = operand;
+        range.maxInclusive = inclusive;
+      }
+    }
+  }
+
+  return bracket === undefined ? null : range;
+}
+
+/**
+ * Bounds safe to scan on a multikey index
+ * Each range operator may be satisfied by a different array element ([3, 9] matches
+ * { $gt: 4, $lt: 6 }), so only one side of a two-sided range can be used
+ */
+export function multikeyRange(range: IndexRange): IndexRange {
+  if (range.min === undefined || range.max === undefined) {
+    return range;
+  }
+  return { min: range.min, minInclusive: range.minInclusive };
+}
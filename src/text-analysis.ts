@@ -0,0 +1,299 @@
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { STEMMERS } from './text-stemmers';
+
+/**
+ * A term produced by a text analyzer
+ */
+export interface TextToken {
+  term: string;
+  position: number; // Word index in the text, counting words dropped by filters
+  exact?: string; // The term analyzed without ASCII folding, if that differs (for diacritic-sensitive search)
+}
+
+/**
+ * Custom filter step: receives the tokens so far and returns the tokens to keep
+ */
+export type TokenFilter = (tokens: TextToken[]) => TextToken[];
+
+export type TextFilterSpec =
+  | 'lowercase'
+  | 'asciifolding'
+  | { type: 'stopwords'; language?: string; words?: string[] }
+  | { type: 'stemmer'; language: string }
+  | { type: 'ngram' | 'edgeNgram'; minGram: number; maxGram: number; preserveOriginal?: boolean }
+  | TokenFilter;
+
+/**
+ * Analyzer pipeline: a tokenizer splitting text into words, then filters applied in order
+ */
+export interface TextAnalyzerDefinition {
+  tokenizer?: 'standard' | 'whitespace' | RegExp; // A RegExp matches the words (default: standard)
+  filters?: TextFilterSpec[];
+}
+
+/**
+ * Filters run at query time too, except n-gram filters which only expand indexed words:
+ * a query word is matched against the grams as a whole
+ */
+interface CompiledFilter {
+  apply: TokenFilter;
+  stage: 'normalize' | 'term' | 'index';
+}
+
+const STOPWORDS: Record<string, string[]> = {
+  english: [
+    'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had',
+    'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no',
+    'not', 'of', 'on', 'or', 'our', 'she', 'so', 'such', 'than', 'that', 'the', 'their', 'then',
+    'there', 'these', 'they', 'this', 'those', 'to', 'was', 'we', 'were', 'which', 'who', 'will',
+    'with', 'would', 'you', 'your'
+  ],
+  french: [
+    'a', 'à', 'au', 'aux', 'avec', 'c', 'ce', 'ces', 'd', 'dans', 'de', 'des', 'du', 'elle', 'en',
+    'est', 'et', 'être', 'eux', 'il', 'ils', 'j', 'je', 'l', 'la', 'le', 'les', 'leur', 'lui', 'm',
+    'ma', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'n', 'ne', 'nos', 'notre', 'nous', 'on', 'ou',
+    'où', 'par', 'pas', 'pour', 'qu', 'que', 'qui', 's', 'sa', 'se', 'ses', 'son', 'sont', 'sur',
+    't', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y'
+  ],
+  german: [
+    'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'da',
+    'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'doch', 'du', 'ein', 'eine', 'einem', 'einen',
+    'einer', 'eines', 'er', 'es', 'für', 'hat', 'ich', 'ihr', 'im', 'in', 'ist', 'ja', 'mit', 'nach',
+    'nicht', 'noch', 'nur', 'oder', 'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'von',
+    'vor', 'war', 'was', 'wie', 'wir', 'zu', 'zum', 'zur'
+  ],
+  spanish: [
+    'a', 'al', 'algo', 'como', 'con', 'de', 'del', 'el', 'él', 'ella', 'ellos', 'en', 'es', 'esta',
+    'está', 'este', 'fue', 'ha', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'mí',
+    'no', 'nos', 'o', 'para', 'pero', 'por', 'que', 'se', 'si', 'sí', 'sin', 'su', 'sus', 'te',
+    'tu', 'tú', 'un', 'una', 'uno', 'y', 'ya', 'yo'
+  ],
+  italian: [
+    'a', 'ad', 'al', 'alla', 'alle', 'anche', 'che', 'chi', 'ci', 'con', 'da', 'dal', 'dalla',
+    'degli', 'dei', 'del', 'della', 'delle', 'di', 'e', 'è', 'ed', 'gli', 'ha', 'i', 'il', 'in',
+    'io', 'la', 'le', 'lo', 'ma', 'mi', 'ne', 'nel', 'nella', 'non', 'o', 'per', 'più', 'se', 'si',
+    'su', 'sua', 'suo', 'tra', 'tu', 'un', 'una', 'uno'
+  ],
+  portuguese: [
+    'a', 'à', 'ao', 'aos', 'as', 'às', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'é',
+    'ela', 'ele', 'em', 'entre', 'era', 'esta', 'está', 'eu', 'foi', 'há', 'isso', 'já', 'mais',
+    'mas', 'me', 'na', 'não', 'nas', 'no', 'nos', 'o', 'os', 'ou', 'para', 'pela', 'pelo', 'por',
+    'que', 'se', 'sem', 'seu', 'sua', 'um', 'uma'
+  ],
+  dutch: [
+    'aan', 'al', 'als', 'bij', 'dan', 'dat', 'de', 'der', 'die', 'dit', 'door', 'een', 'en', 'er',
+    'het', 'hij', 'hoe', 'ik', 'in', 'is', 'je', 'maar', 'met', 'mij', 'naar', 'niet', 'nog', 'of',
+    'om', 'ook', 'op', 'over', 'te', 'tot', 'uit', 'van', 'voor', 'was', 'wat', 'we', 'wel', 'wij',
+    'zal', 'ze', 'zich', 'zijn', 'zo'
+  ]
+};
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: 'english', fr: 'french', de: 'german', es: 'spanish', it: 'italian', pt: 'portuguese', nl: 'dutch'
+};
+
+// Letters NFKD does not decompose
+const FOLDED_LETTERS: Record<string, string> = { ß: 'ss', æ: 'ae', ø: 'o', œ: 'oe', đ: 'd', ł: 'l', þ: 'th' };
+
+function foldToAscii(term: string): string {
+  return term
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[ßæøœđłþ]/g, letter => FOLDED_LETTERS[letter]);
+}
+
+function invalid(reason: string, value: unknown): ValidationError {
+  return new ValidationError(ERROR_MESSAGES.TEXT_ANALYZER_INVALID(reason), 'analyzer', value);
+}
+
+/**
+ * Text Analyzer
+ * Turns text into index terms. Each text index analyzes a document with the analyzer of its
+ * language (the index's `defaultLanguage`, or the document's `languageOverride` field) and a
+ * query with the analyzer of `$language`.
+ *
+ * Built-in analyzers: `english`, `french`, `german`, `spanish`, `italian`, `portuguese` and
+ * `dutch` (also by ISO code) lowercase, drop stop words, stem and then fold to ASCII, so that the
+ * stemmers see accented endings; `none` only lowercases and folds. Custom analyzers are
+ * registered under a name and selected like a language.
+ */
+export class TextAnalyzer {
+  private static registry = new Map<string, TextAnalyzer>();
+  private static builtIn = new Set<string>();
+
+  private readonly tokenizer: RegExp;
+  private readonly filters: CompiledFilter[];
+
+  constructor(definition: TextAnalyzerDefinition) {
+    const tokenizer = definition.tokenizer ?? 'standard';
+    if (tokenizer instanceof RegExp) {
+      this.tokenizer = new RegExp(tokenizer.source, tokenizer.flags.includes('g') ? tokenizer.flags : tokenizer.flags + 'g');
+    } else if (tokenizer === 'standard') {
+      this.tokenizer = /[\p{L}\p{M}\p{N}_]+/gu;
+    } else if (tokenizer === 'whitespace') {
+      this.tokenizer = /\S+/g;
+    } else {
+      throw invalid(`unknown tokenizer '${String(tokenizer)}'`, tokenizer);
+    }
+    this.filters = (definition.filters ?? []).map(spec => TextAnalyzer.compileFilter(spec));
+  }
+
+  /**
+   * Register a custom analyzer, selectable wherever a language is
+   *
+   * @throws ValidationError if the name is a built-in language or the definition is invalid
+   */
+  static register(name: string, definition: TextAnalyzerDefinition): void {
+    TextAnalyzer.registerBuiltIns();
+    if (TextAnalyzer.builtIn.has(name) || LANGUAGE_CODES[name] !== undefined) {
+      throw new ValidationError(ERROR_MESSAGES.TEXT_ANALYZER_BUILTIN(name), 'name', name);
+    }
+    TextAnalyzer.registry.set(name, new TextAnalyzer(definition));
+  }
+
+  /**
+   * Analyzer of a language or registered analyzer name
+   *
+   * @throws ValidationError if there is none
+   */
+  static get(language: string): TextAnalyzer {
+    TextAnalyzer.registerBuiltIns();
+    const analyzer = TextAnalyzer.registry.get(language) ?? TextAnalyzer.registry.get(LANGUAGE_CODES[language]);
+    if (!analyzer) {
+      throw new ValidationError(ERROR_MESSAGES.TEXT_LANGUAGE_UNKNOWN(language), 'language', language);
+    }
+    return analyzer;
+  }
+
+  static has(language: string): boolean {
+    TextAnalyzer.registerBuiltIns();
+    return TextAnalyzer.registry.has(language) || LANGUAGE_CODES[language] !== undefined;
+  }
+
+  /**
+   * Index terms of a text
+   */
+  analyze(text: string): TextToken[] {
+    return this.run(text, ['normalize', 'term', 'index']);
+  }
+
+  /**
+   * Terms of query words: like analyze() but without expanding words into n-grams
+   */
+  analyzeQuery(text: string): TextToken[] {
+    return this.run(text, ['normalize', 'term']);
+  }
+
+  /**
+   * Words of a text, only lowercased and folded (for matching prefixes and misspellings)
+   */
+  normalize(text: string): string[] {
+    return this.run(text, ['normalize']).map(token => token.term);
+  }
+
+  /**
+   * Character range of each word by position, as the tokenizer split the text
+   */
+  wordSpans(text: string): Array<[number, number]> {
+    return Array.from(text.matchAll(this.tokenizer), match => [match.index!, match.index! + match[0].length]);
+  }
+
+  private run(text: string, stages: Array<CompiledFilter['stage']>): TextToken[] {
+    let tokens: TextToken[] = Array.from(text.matchAll(this.tokenizer), (match, position) => ({ term: match[0], position }));
+    for (const filter of this.filters) {
+      if (stages.includes(filter.stage)) {
+        tokens = filter.apply(tokens);
+      }
+    }
+    return tokens.filter(token => token.term.length > 0);
+  }
+
+  private static compileFilter(spec: TextFilterSpec): CompiledFilter {
+    if (typeof spec === 'function') {
+      return { apply: spec, stage: 'term' };
+    }
+    if (spec === 'lowercase') {
+      return {
+        apply: tokens => tokens.map(token => ({ ...token, term: token.term.toLowerCase(), exact: token.exact?.toLowerCase() })),
+        stage: 'normalize'
+      };
+    }
+    if (spec === 'asciifolding') {
+      return {
+        apply: tokens => tokens.map(token => {
+          const term = foldToAscii(token.term);
+          return term === token.term ? token : { ...token, term, exact: token.exact ?? token.term };
+        }),
+        stage: 'normalize'
+      };
+    }
+    if (typeof spec !== 'object' || spec === null) {
+      throw invalid(`unknown filter '${String(spec)}'`, spec);
+    }
+
+    switch (spec.type) {
+      case 'stopwords': {
+        const words = spec.words ?? STOPWORDS[LANGUAGE_CODES[spec.language ?? ''] ?? spec.language ?? 'english'];
+        if (!Array.isArray(words)) {
+          throw invalid(`no stop words for '${spec.language}'`, spec);
+        }
+        // Stop words also match written without their accents
+        const stopwords = new Set(words.flatMap(word => [word, foldToAscii(word)]));
+        return {
+          apply: tokens => tokens.filter(token => !stopwords.has(token.term) && !stopwords.has(token.exact ?? token.term)),
+          stage: 'term'
+        };
+      }
+      case 'stemmer': {
+        const stem = STEMMERS[LANGUAGE_CODES[spec.language] ?? spec.language];
+        if (!stem) {
+          throw invalid(`no stemmer for '${spec.language}'`, spec);
+        }
+        return {
+          apply: tokens => tokens.map(token => ({
+            ...token,
+            term: stem(token.term),
+            exact: token.exact === undefined ? undefined : stem(token.exact)
+          })),
+          stage: 'term'
+        };
+      }
+      case 'ngram':
+      case 'edgeNgram': {
+        const { minGram, maxGram } = spec;
+        if (!Number.isInteger(minGram) || !Number.isInteger(maxGram) || minGram < 1 || maxGram < minGram) {
+          throw invalid('n-gram sizes must be integers with 1 <= minGram <= maxGram', spec);
+        }
+        const edge = spec.type === 'edgeNgram';
+        return {
+          apply: tokens => tokens.flatMap(({ term, position }) => {
+            const grams = new Set<string>(spec.preserveOriginal ? [term] : []);
+            for (let size = minGram; size <= Math.min(maxGram, term.length); size++) {
+              for (let start = 0; start <= (edge ? 0 : term.length - size); start++) {
+                grams.add(term.slice(start, start + size));
+              }
+            }
+            return Array.from(grams, gram => ({ term: gram, position }));
+          }),
+          stage: 'index'
+        };
+      }
+      default:
+        throw invalid(`unknown filter '${(spec as { type: unknown }).type}'`, spec);
+    }
+  }
+
+  private static registerBuiltIns(): void {
+    if (TextAnalyzer.builtIn.size > 0) return;
+
+    TextAnalyzer.registry.set('none', new TextAnalyzer({ filters: ['lowercase', 'asciifolding'] }));
+    TextAnalyzer.builtIn.add('none');
+    for (const language of Object.keys(STEMMERS)) {
+      TextAnalyzer.registry.set(language, new TextAnalyzer({
+        filters: ['lowercase', { type: 'stopwords', language }, { type: 'stemmer', language }, 'asciifolding']
+      }));
+      TextAnalyzer.builtIn.add(language);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES, LIMITS } from './constants';
+
+/**
+ * One search term or quoted phrase of a text query
+ */
+export interface TextQueryClause {
+  kind: 'term' | 'phrase';
+  text: string; // The term or the words of the phrase, as written
+  field?: string; // Only match in this field (`title:foo`)
+  negated: boolean; // Documents matching it are excluded (`-foo`)
+  prefix: boolean; // Matches terms starting with it (`foo*`)
+  fuzziness: number; // Matches terms within this edit distance (`foo~1`); 0 for exact
+}
+
+/**
+ * Parsed text query: alternatives separated by `OR`, each a list of clauses
+ */
+export type TextQuery = TextQueryClause[][];
+
+/**
+ * Text Query Parser
+ * Parses the `$search` syntax of text indexes.
+ *
+ * - `coffee beans` - documents with any of the words
+ * - `"green tea"` - the exact phrase; every phrase of a query must match
+ * - `-decaf`, `-"instant coffee"` - excludes documents with the word or phrase
+ * - `espresso OR "cold brew"` - either side; each side is matched as a query of its own
+ * - `brew*` - words starting with `brew`
+ * - `expresso~1` - words within one edit (`~` alone allows two)
+ * - `title:coffee`, `title:"green tea"` - only in that field
+ */
+export class TextQueryParser {
+  /**
+   * @throws ValidationError if a fuzziness is above LIMITS.TEXT_MAX_FUZZINESS
+   */
+  static parse(query: string): TextQuery {
+    const alternatives: TextQuery = [];
+    let clauses: TextQueryClause[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      if (/\s/.test(query[i])) {
+        i++;
+        continue;
+      }
+
+      const word = /^\S+/.exec(query.slice(i))![0];
+      if (word === 'OR') {
+        if (clauses.length > 0) alternatives.push(clauses);
+        clauses = [];
+        i += word.length;
+        continue;
+      }
+
+      const negated = query[i] === '-';
+      if (negated) i++;
+
+      const scope = /^([A-Za-z_][\w.]*):(?=\S)/.exec(query.slice(i));
+      const field = scope?.[1];
+      if (scope) i += scope[0].length;
+
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        const text = query.slice(i + 1, end === -1 ? query.length : end);
+        i = end === -1 ? query.length : end + 1;
+        clauses.push({ kind: 'phrase', text, field, negated, prefix: false, fuzziness: 0 });
+        continue;
+      }
+
+      let text = /^[^\s"]*/.exec(query.slice(i))![0];
+      i += text.length;
+
+      let prefix = false;
+      let fuzziness = 0;
+      const fuzzy = /~(\d*)$/.exec(text);
+      if (fuzzy) {
+        fuzziness = fuzzy[1] === '' ? LIMITS.TEXT_MAX_FUZZINESS : Number(fuzzy[1]);
+        if (fuzziness > LIMITS.TEXT_MAX_FUZZINESS) {
+          throw new ValidationError(ERROR_MESSAGES.TEXT_QUERY_FUZZINESS_INVALID(text, LIMITS.TEXT_MAX_FUZZINESS), '$search', query);
+        }
+        text = text.slice(0, fuzzy.index);
+      } else if (text.endsWith('*')) {
+        prefix = true;
+        text = text.slice(0, -1);
+      }
+
+      if (text.length > 0) {
+        clauses.push({ kind: 'term', text, field, negated, prefix, fuzziness });
+      }
+    }
+
+    if (clauses.length > 0) alternatives.push(clauses);
+    return alternatives;
+  }
+}
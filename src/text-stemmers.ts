@@ -0,0 +1,827 @@
+/**
+ * Stemmers for text analysis
+ *
+ * English uses the Porter algorithm, the other languages the Snowball algorithms: standard
+ * suffixes first, then verb suffixes when none was found, then residual endings (final vowels,
+ * doubled consonants). Each step removes the longest suffix it lists if that lies within the
+ * step's region (R1, R2 or RV). Words are expected lowercase with their accents, which is what
+ * the built-in analyzers feed them (they fold to ASCII after stemming), as several endings differ
+ * from a plain word only by an accent (Italian `erò`, French `ée`). Spanish and Italian attached
+ * pronouns are not removed.
+ */
+
+export type Stemmer = (word: string) => string;
+
+// ---------------------------------------------------------------------------------------------
+// Porter stemmer (English)
+// ---------------------------------------------------------------------------------------------
+
+const PORTER_STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+];
+
+const PORTER_STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const PORTER_STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion',
+  'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+].sort((a, b) => b.length - a.length);
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i];
+  if ('aeiou'.includes(char)) return false;
+  // y is a vowel after a consonant
+  return char === 'y' ? i === 0 || !isConsonant(word, i - 1) : true;
+}
+
+/**
+ * Number of vowel-consonant sequences in a stem ([C](VC){m}[V])
+ */
+function measure(stem: string): number {
+  let m = 0;
+  for (let i = 1; i < stem.length; i++) {
+    if (isConsonant(stem, i) && !isConsonant(stem, i - 1)) m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  return Array.from(stem).some((_, i) => !isConsonant(stem, i));
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Stem ends consonant-vowel-consonant, the last not w, x or y (e.g. -hop, not -how)
+ */
+function endsCvc(word: string): boolean {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1]);
+}
+
+/**
+ * Replace the first listed suffix the word ends with, if what precedes it has a measure above minMeasure
+ */
+function replaceSuffix(word: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+export function porterStem(word: string): string {
+  if (word.length <= 2) return word;
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses') || w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !w.endsWith('ss')) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: -ed and -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = ['ed', 'ing'].find(s => w.endsWith(s));
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y to i
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2 and 3: double and derivational suffixes
+  w = replaceSuffix(w, PORTER_STEP2, 0);
+  w = replaceSuffix(w, PORTER_STEP3, 0);
+
+  // Step 4: remaining suffixes of longer stems
+  const suffix = PORTER_STEP4.find(s => w.endsWith(s));
+  if (suffix) {
+    const stem = w.slice(0, -suffix.length);
+    if (measure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem))) {
+      w = stem;
+    }
+  }
+
+  // Step 5: final -e and -ll
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsCvc(stem))) w = stem;
+  }
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Snowball stemmers
+// ---------------------------------------------------------------------------------------------
+
+interface Regions {
+  r1: number;
+  r2: number;
+  rv: number;
+}
+
+/**
+ * Suffixes longest first, so the first one a word ends with is the longest
+ */
+function bySuffixLength(...suffixes: string[]): string[] {
+  return suffixes.sort((a, b) => b.length - a.length);
+}
+
+function longestSuffix(word: string, suffixes: string[]): string | undefined {
+  return suffixes.find(suffix => word.endsWith(suffix));
+}
+
+/**
+ * Longest of the suffixes that lies within the region starting at `start`
+ */
+function longestSuffixWithin(word: string, suffixes: string[], start: number): string | undefined {
+  return longestSuffix(word.slice(start), suffixes);
+}
+
+/**
+ * Whether a word ends with `ending` starting at or after `start`
+ */
+function endsWithin(word: string, ending: string, start: number): boolean {
+  return word.endsWith(ending) && word.length - ending.length >= start;
+}
+
+function dropEnding(word: string, ending: string): string {
+  return word.slice(0, word.length - ending.length);
+}
+
+/**
+ * Start of the region after the first non-vowel following a vowel, searching from `from`
+ */
+function regionStart(word: string, vowels: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!vowels.includes(word[i]) && vowels.includes(word[i - 1])) {
+      return i + 1;
+    }
+  }
+  return word.length;
+}
+
+/**
+ * R1 and R2; R1 starts no earlier than `minR1` (3 for German and Dutch) but R2 is found from
+ * the unadjusted R1
+ */
+function standardRegions(word: string, vowels: string, minR1: number = 0): Omit<Regions, 'rv'> {
+  const r1 = regionStart(word, vowels, 0);
+  return { r1: Math.max(r1, minR1), r2: regionStart(word, vowels, r1) };
+}
+
+/**
+ * RV of Spanish, Italian and Portuguese: after the next vowel if the second letter is a
+ * consonant, after the next consonant if the word starts with two vowels, otherwise after the
+ * third letter
+ */
+function romanceRv(word: string, vowels: string): number {
+  if (word.length < 2) return word.length;
+  const isVowel = (i: number) => vowels.includes(word[i]);
+  const seek = (vowel: boolean) => {
+    for (let i = 2; i < word.length; i++) {
+      if (isVowel(i) === vowel) return i + 1;
+    }
+    return word.length;
+  };
+  if (!isVowel(1)) return seek(true);
+  return isVowel(0) ? seek(false) : 3;
+}
+
+/**
+ * Uppercase the letters that act as consonants where they stand, from left to right, so a letter
+ * marked already does not count as a vowel for the next one
+ */
+function markConsonants(
+  word: string,
+  vowels: string,
+  isConsonant: (char: string, afterVowel: boolean, beforeVowel: boolean) => boolean
+): string {
+  let marked = '';
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    const afterVowel = i > 0 && vowels.includes(marked[i - 1]);
+    const beforeVowel = i + 1 < word.length && vowels.includes(word[i + 1]);
+    marked += isConsonant(char, afterVowel, beforeVowel) ? char.toUpperCase() : char;
+  }
+  return marked;
+}
+
+/**
+ * Consonant test for letters that are consonants between two vowels
+ */
+function betweenVowels(letters: string) {
+  return (char: string, afterVowel: boolean, beforeVowel: boolean) => letters.includes(char) && afterVowel && beforeVowel;
+}
+
+// French ---------------------------------------------------------------------------------------
+
+const FRENCH_VOWELS = 'aeiouyâàëéêèïîôûù';
+
+const FRENCH_STANDARD = ['ance', 'iqUe', 'isme', 'able', 'iste', 'eux', 'ances', 'iqUes', 'ismes', 'ables', 'istes'];
+const FRENCH_ATION = ['atrice', 'ateur', 'ation', 'atrices', 'ateurs', 'ations'];
+const FRENCH_ITE = ['ité', 'ités'];
+const FRENCH_IF = ['if', 'ive', 'ifs', 'ives'];
+const FRENCH_STEP1 = bySuffixLength(
+  ...FRENCH_STANDARD, ...FRENCH_ATION, ...FRENCH_ITE, ...FRENCH_IF,
+  'logie', 'logies', 'usion', 'ution', 'usions', 'utions', 'ence', 'ences', 'ement', 'ements',
+  'eaux', 'aux', 'euse', 'euses', 'issement', 'issements', 'amment', 'emment', 'ment', 'ments'
+);
+
+const FRENCH_I_VERB = bySuffixLength(
+  'îmes', 'ît', 'it', 'îtes', 'i', 'ie', 'ies', 'ir', 'ira', 'irai', 'iraIent', 'irais', 'irait', 'iras',
+  'irent', 'irez', 'iriez', 'irions', 'irons', 'iront', 'is', 'issaIent', 'issais', 'issait', 'issant',
+  'issante', 'issantes', 'issants', 'isse', 'issent', 'isses', 'issez', 'issiez', 'issions', 'issons'
+);
+
+const FRENCH_ER_VERB = [
+  'é', 'ée', 'ées', 'és', 'èrent', 'er', 'era', 'erai', 'eraIent', 'erais', 'erait', 'eras', 'erez', 'eriez',
+  'erions', 'erons', 'eront', 'ez', 'iez'
+];
+const FRENCH_A_VERB = [
+  'âmes', 'ât', 'âtes', 'a', 'ai', 'aIent', 'ais', 'ait', 'ant', 'ante', 'antes', 'ants', 'as', 'asse',
+  'assent', 'asses', 'assiez', 'assions'
+];
+const FRENCH_VERB = bySuffixLength('ions', ...FRENCH_ER_VERB, ...FRENCH_A_VERB);
+
+const FRENCH_ADVERB = ['amment', 'emment', 'ment', 'ments'];
+
+const FRENCH_RESIDUAL = bySuffixLength('ion', 'ier', 'ière', 'Ier', 'Ière', 'e', 'ë');
+
+/**
+ * RV: after the third letter if the word starts with two vowels (or par, col or tap), otherwise
+ * after the first vowel that does not start it
+ */
+function frenchRv(word: string): number {
+  const isVowel = (i: number) => FRENCH_VOWELS.includes(word[i]);
+  if (/^(par|col|tap)/.test(word) || (word.length >= 2 && isVowel(0) && isVowel(1))) {
+    return 3;
+  }
+  for (let i = 1; i < word.length; i++) {
+    if (isVowel(i)) return i + 1;
+  }
+  return word.length;
+}
+
+/**
+ * Uppercase the letters that act as consonants: u and i between vowels, y next to a vowel and
+ * the u of qu. A vowel marks the letter after it before that letter is tested, so a y before i
+ * and a vowel stays a vowel.
+ */
+function frenchPrelude(word: string): string {
+  const chars = word.split('');
+  const isVowel = (i: number) => i < chars.length && FRENCH_VOWELS.includes(chars[i]);
+  for (let i = 0; i < chars.length; i++) {
+    const next = chars[i + 1] ?? '';
+    if (isVowel(i) && (next === 'y' || (/^[ui]$/.test(next) && isVowel(i + 2)))) {
+      chars[i + 1] = next.toUpperCase();
+    } else if (chars[i] === 'y' && isVowel(i + 1)) {
+      chars[i] = 'Y';
+    } else if (chars[i] === 'q' && next === 'u') {
+      chars[i + 1] = 'U';
+    }
+  }
+  return chars.join('');
+}
+
+/**
+ * Step 1: standard suffixes (nouns, adjectives and adverbs)
+ */
+function frenchStandardSuffix(w: string, suffix: string, { r1, r2, rv }: Regions): string {
+  const stem = dropEnding(w, suffix);
+  const start = stem.length;
+  // ic, left by some suffixes, goes within R2 and becomes iqU outside it
+  const withoutIc = (word: string) => word.endsWith('ic') ? dropEnding(word, 'ic') + (endsWithin(word, 'ic', r2) ? '' : 'iqU') : word;
+
+  if (FRENCH_STANDARD.includes(suffix)) {
+    return start >= r2 ? stem : w;
+  }
+  if (FRENCH_ATION.includes(suffix)) {
+    return start >= r2 ? withoutIc(stem) : w;
+  }
+  if (FRENCH_ITE.includes(suffix)) {
+    if (start < r2) return w;
+    if (stem.endsWith('abil')) return dropEnding(stem, 'abil') + (endsWithin(stem, 'abil', r2) ? '' : 'abl');
+    if (stem.endsWith('ic')) return withoutIc(stem);
+    return endsWithin(stem, 'iv', r2) ? dropEnding(stem, 'iv') : stem;
+  }
+  if (FRENCH_IF.includes(suffix)) {
+    if (start < r2) return w;
+    return endsWithin(stem, 'at', r2) ? withoutIc(dropEnding(stem, 'at')) : stem;
+  }
+
+  switch (suffix) {
+    case 'logie':
+    case 'logies':
+      return start >= r2 ? stem + 'log' : w;
+    case 'usion':
+    case 'ution':
+    case 'usions':
+    case 'utions':
+      return start >= r2 ? stem + 'u' : w;
+    case 'ence':
+    case 'ences':
+      return start >= r2 ? stem + 'ent' : w;
+    case 'ement':
+    case 'ements': {
+      if (start < rv) return w;
+      if (endsWithin(stem, 'iv', r2)) {
+        const rest = dropEnding(stem, 'iv');
+        return endsWithin(rest, 'at', r2) ? dropEnding(rest, 'at') : rest;
+      }
+      if (stem.endsWith('eus')) {
+        if (endsWithin(stem, 'eus', r2)) return dropEnding(stem, 'eus');
+        return endsWithin(stem, 'eus', r1) ? dropEnding(stem, 'eus') + 'eux' : stem;
+      }
+      const ending = ['abl', 'iqU', 'ièr', 'Ièr'].find(candidate => stem.endsWith(candidate));
+      if (ending === 'abl' || ending === 'iqU') {
+        return endsWithin(stem, ending, r2) ? dropEnding(stem, ending) : stem;
+      }
+      if (ending) {
+        return endsWithin(stem, ending, rv) ? dropEnding(stem, ending) + 'i' : stem;
+      }
+      return stem;
+    }
+    case 'eaux':
+      return stem + 'eau';
+    case 'aux':
+      return start >= r1 ? stem + 'al' : w;
+    case 'euse':
+    case 'euses':
+      if (start >= r2) return stem;
+      return start >= r1 ? stem + 'eux' : w;
+    case 'issement':
+    case 'issements':
+      return start >= r1 && !FRENCH_VOWELS.includes(stem[start - 1]) ? stem : w;
+    case 'amment':
+      return start >= rv ? stem + 'ant' : w;
+    case 'emment':
+      return start >= rv ? stem + 'ent' : w;
+    default: // ment, ments
+      return start - 1 >= rv && FRENCH_VOWELS.includes(stem[start - 1]) ? stem : w;
+  }
+}
+
+/**
+ * Steps 2a and 2b: verb suffixes, those starting with i first
+ */
+function frenchVerbSuffix(w: string, { r2, rv }: Regions): string {
+  const iSuffix = longestSuffixWithin(w, FRENCH_I_VERB, rv);
+  if (iSuffix) {
+    const stem = dropEnding(w, iSuffix);
+    if (stem.length - 1 >= rv && !FRENCH_VOWELS.includes(stem[stem.length - 1])) {
+      return stem;
+    }
+  }
+
+  const suffix = longestSuffixWithin(w, FRENCH_VERB, rv);
+  if (!suffix) return w;
+  const stem = dropEnding(w, suffix);
+  if (suffix === 'ions') {
+    return stem.length >= r2 ? stem : w;
+  }
+  if (FRENCH_A_VERB.includes(suffix) && endsWithin(stem, 'e', rv)) {
+    return dropEnding(stem, 'e');
+  }
+  return stem;
+}
+
+/**
+ * Step 4: a final s, then -ion, -ier and a mute e, when no other suffix was removed
+ */
+function frenchResidualSuffix(word: string, { r2, rv }: Regions): string {
+  let w = word;
+  if (/[^aiousè]s$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  const suffix = longestSuffixWithin(w, FRENCH_RESIDUAL, rv);
+  if (!suffix) return w;
+  const stem = dropEnding(w, suffix);
+  if (suffix === 'ion') {
+    return stem.length >= r2 && /[st]$/.test(stem) && stem.length - 1 >= rv ? stem : w;
+  }
+  if (suffix === 'ë') {
+    return endsWithin(stem, 'gu', rv) ? stem : w;
+  }
+  return suffix === 'e' ? stem : stem + 'i';
+}
+
+function frenchStem(word: string): string {
+  let w = frenchPrelude(word);
+  const regions = { ...standardRegions(w, FRENCH_VOWELS), rv: frenchRv(w) };
+
+  const suffix = longestSuffix(w, FRENCH_STEP1);
+  const standard = suffix ? frenchStandardSuffix(w, suffix, regions) : w;
+  // Adverbs in -ment may still carry a verb suffix, and go on to the residual step if not
+  let removed = standard !== w && !FRENCH_ADVERB.includes(suffix!);
+  w = standard;
+  if (!removed) {
+    const verb = frenchVerbSuffix(w, regions);
+    removed = verb !== w;
+    w = verb;
+  }
+
+  if (removed) {
+    w = w.replace(/Y$/, 'i').replace(/ç$/, 'c');
+  } else {
+    w = frenchResidualSuffix(w, regions);
+  }
+
+  if (/(enn|onn|ett|ell|eill)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  // é or è before the final consonants loses its accent
+  w = w.replace(/[éè](?=[^aeiouyâàëéêèïîôûù]+$)/, 'e');
+  return w.toLowerCase();
+}
+
+// Spanish, Italian and Portuguese --------------------------------------------------------------
+
+/**
+ * Suffix groups of a Romance step 1: what each group's suffixes are replaced with, and the
+ * endings removed after them when those lie in R2
+ */
+interface RomanceSuffixGroup {
+  suffixes: string[];
+  region: 'r1' | 'r2' | 'rv';
+  replacement?: string;
+  then?: string[]; // Endings removed in R2 (the first found)
+  before?: Record<string, string>; // Ending removed in R2 before the one found (-at before -iv)
+}
+
+function romanceStandardSuffix(w: string, groups: RomanceSuffixGroup[], regions: Regions): string {
+  const all = bySuffixLength(...groups.flatMap(group => group.suffixes));
+  const suffix = longestSuffix(w, all);
+  if (!suffix) return w;
+  const group = groups.find(candidate => candidate.suffixes.includes(suffix))!;
+  if (!endsWithin(w, suffix, regions[group.region])) return w;
+
+  let stem = dropEnding(w, suffix) + (group.replacement ?? '');
+  const ending = group.then?.find(candidate => endsWithin(stem, candidate, regions.r2));
+  if (ending) {
+    stem = dropEnding(stem, ending);
+    const next = group.before?.[ending];
+    if (next && endsWithin(stem, next, regions.r2)) {
+      stem = dropEnding(stem, next);
+    }
+  }
+  return stem;
+}
+
+const SPANISH_VOWELS = 'aeiouáéíóúü';
+
+const SPANISH_STEP1: RomanceSuffixGroup[] = [
+  {
+    region: 'r2',
+    suffixes: [
+      'anza', 'anzas', 'ico', 'ica', 'icos', 'icas', 'ismo', 'ismos', 'able', 'ables', 'ible', 'ibles',
+      'ista', 'istas', 'oso', 'osa', 'osos', 'osas', 'amiento', 'amientos', 'imiento', 'imientos'
+    ]
+  },
+  { region: 'r2', suffixes: ['adora', 'ador', 'ación', 'adoras', 'adores', 'aciones', 'ante', 'antes', 'ancia', 'ancias'], then: ['ic'] },
+  { region: 'r2', suffixes: ['logía', 'logías'], replacement: 'log' },
+  { region: 'r2', suffixes: ['ución', 'uciones'], replacement: 'u' },
+  { region: 'r2', suffixes: ['encia', 'encias'], replacement: 'ente' },
+  { region: 'r1', suffixes: ['amente'], then: ['iv', 'os', 'ic', 'ad'], before: { iv: 'at' } },
+  { region: 'r2', suffixes: ['mente'], then: ['ante', 'able', 'ible'] },
+  { region: 'r2', suffixes: ['idad', 'idades'], then: ['abil', 'ic', 'iv'] },
+  { region: 'r2', suffixes: ['iva', 'ivo', 'ivas', 'ivos'], then: ['at'] }
+];
+
+const SPANISH_Y_VERB = bySuffixLength('ya', 'ye', 'yan', 'yen', 'yeron', 'yendo', 'yo', 'yó', 'yas', 'yes', 'yais', 'yamos');
+
+const SPANISH_GU_VERB = ['en', 'es', 'éis', 'emos'];
+const SPANISH_VERB = bySuffixLength(
+  ...SPANISH_GU_VERB,
+  'arían', 'arías', 'arán', 'arás', 'aríais', 'aría', 'aréis', 'aríamos', 'aremos', 'ará', 'aré',
+  'erían', 'erías', 'erán', 'erás', 'eríais', 'ería', 'eréis', 'eríamos', 'eremos', 'erá', 'eré',
+  'irían', 'irías', 'irán', 'irás', 'iríais', 'iría', 'iréis', 'iríamos', 'iremos', 'irá', 'iré',
+  'aba', 'ada', 'ida', 'ía', 'ara', 'iera', 'ad', 'ed', 'id', 'ase', 'iese', 'aste', 'iste', 'an',
+  'aban', 'ían', 'aran', 'ieran', 'asen', 'iesen', 'aron', 'ieron', 'ado', 'ido', 'ando', 'iendo',
+  'ió', 'ar', 'er', 'ir', 'as', 'abas', 'adas', 'idas', 'ías', 'aras', 'ieras', 'ases', 'ieses', 'ís',
+  'áis', 'abais', 'íais', 'arais', 'ierais', 'aseis', 'ieseis', 'asteis', 'isteis', 'ados', 'idos',
+  'amos', 'ábamos', 'íamos', 'imos', 'áramos', 'iéramos', 'iésemos', 'ásemos'
+);
+
+const SPANISH_RESIDUAL = bySuffixLength('os', 'a', 'o', 'á', 'í', 'ó', 'e', 'é');
+
+function spanishStem(word: string): string {
+  const regions = { ...standardRegions(word, SPANISH_VOWELS), rv: romanceRv(word, SPANISH_VOWELS) };
+  const { rv } = regions;
+  let w = romanceStandardSuffix(word, SPANISH_STEP1, regions);
+
+  if (w === word) {
+    const ySuffix = longestSuffixWithin(w, SPANISH_Y_VERB, rv);
+    if (ySuffix && dropEnding(w, ySuffix).endsWith('u')) {
+      w = dropEnding(w, ySuffix);
+    } else {
+      const suffix = longestSuffixWithin(w, SPANISH_VERB, rv);
+      if (suffix) {
+        w = dropEnding(w, suffix);
+        if (SPANISH_GU_VERB.includes(suffix) && w.endsWith('gu')) {
+          w = w.slice(0, -1);
+        }
+      }
+    }
+  }
+
+  // Residual vowels; after -gue and -gué the u goes too
+  const residual = longestSuffixWithin(w, SPANISH_RESIDUAL, rv);
+  if (residual) {
+    w = dropEnding(w, residual);
+    if ((residual === 'e' || residual === 'é') && w.endsWith('gu') && endsWithin(w, 'u', rv)) {
+      w = w.slice(0, -1);
+    }
+  }
+  // Acute accents only mark stress, so they are dropped from the stem
+  return w.replace(/[áéíóú]/g, letter => letter.normalize('NFD')[0]);
+}
+
+const ITALIAN_VOWELS = 'aeiouàèìòù';
+
+const ITALIAN_STEP1: RomanceSuffixGroup[] = [
+  {
+    region: 'r2',
+    suffixes: [
+      'anza', 'anze', 'ico', 'ici', 'ica', 'ice', 'iche', 'ichi', 'ismo', 'ismi', 'abile', 'abili',
+      'ibile', 'ibili', 'ista', 'iste', 'isti', 'oso', 'osi', 'osa', 'ose', 'mente', 'atrice',
+      'atrici', 'ante', 'anti', 'istà', 'istè', 'istì'
+    ]
+  },
+  { region: 'r2', suffixes: ['azione', 'azioni', 'atore', 'atori'], then: ['ic'] },
+  { region: 'r2', suffixes: ['logia', 'logie'], replacement: 'log' },
+  { region: 'r2', suffixes: ['uzione', 'uzioni', 'usione', 'usioni'], replacement: 'u' },
+  { region: 'r2', suffixes: ['enza', 'enze'], replacement: 'ente' },
+  { region: 'rv', suffixes: ['amento', 'amenti', 'imento', 'imenti'] },
+  { region: 'r1', suffixes: ['amente'], then: ['iv', 'os', 'ic', 'abil'], before: { iv: 'at' } },
+  { region: 'r2', suffixes: ['ità'], then: ['abil', 'ic', 'iv'] },
+  { region: 'r2', suffixes: ['ivo', 'ivi', 'iva', 'ive'], then: ['at'], before: { at: 'ic' } }
+];
+
+const ITALIAN_VERB = bySuffixLength(
+  'ammo', 'ando', 'ano', 'are', 'arono', 'asse', 'assero', 'assi', 'assimo', 'ata', 'ate', 'ati',
+  'ato', 'ava', 'avamo', 'avano', 'avate', 'avi', 'avo', 'emmo', 'enda', 'ende', 'endi', 'endo',
+  'erà', 'erai', 'eranno', 'ere', 'erebbe', 'erebbero', 'erei', 'eremmo', 'eremo', 'ereste',
+  'eresti', 'erete', 'erò', 'erono', 'essero', 'ete', 'eva', 'evamo', 'evano', 'evate', 'evi',
+  'evo', 'iamo', 'immo', 'irà', 'irai', 'iranno', 'ire', 'irebbe', 'irebbero', 'irei', 'iremmo',
+  'iremo', 'ireste', 'iresti', 'irete', 'irò', 'irono', 'isca', 'iscano', 'isce', 'isci', 'isco',
+  'iscono', 'issero', 'ita', 'ite', 'iti', 'ito', 'iva', 'ivamo', 'ivano', 'ivate', 'ivi', 'ivo',
+  'ono', 'uta', 'ute', 'uti', 'uto', 'ar', 'ir'
+);
+
+function italianStem(word: string): string {
+  // Acute accents become grave ones
+  const graves: Record<string, string> = { á: 'à', é: 'è', í: 'ì', ó: 'ò', ú: 'ù' };
+  const marked = markConsonants(word.replace(/[áéíóú]/g, letter => graves[letter]).replace(/qu/g, 'qU'), ITALIAN_VOWELS, betweenVowels('ui'));
+  const regions = { ...standardRegions(marked, ITALIAN_VOWELS), rv: romanceRv(marked, ITALIAN_VOWELS) };
+  const { rv } = regions;
+  let w = romanceStandardSuffix(marked, ITALIAN_STEP1, regions);
+
+  if (w === marked) {
+    const suffix = longestSuffixWithin(w, ITALIAN_VERB, rv);
+    if (suffix) {
+      w = dropEnding(w, suffix);
+    }
+  }
+
+  // A final vowel, with an i before it; then -ch and -gh lose the h
+  if (/[aeioàèìò]$/.test(w) && w.length - 1 >= rv) {
+    w = w.slice(0, -1);
+    if (endsWithin(w, 'i', rv)) w = w.slice(0, -1);
+  }
+  if (/[cg]h$/.test(w) && endsWithin(w, w.slice(-2), rv)) {
+    w = w.slice(0, -1);
+  }
+  return w.toLowerCase();
+}
+
+// ã and õ are written a~ and o~, so that the nasal mark counts as a consonant
+const PORTUGUESE_VOWELS = 'aeiouáéíóúâêô';
+
+const PORTUGUESE_STEP1: RomanceSuffixGroup[] = [
+  {
+    region: 'r2',
+    suffixes: [
+      'eza', 'ezas', 'ico', 'ica', 'icos', 'icas', 'ismo', 'ismos', 'ável', 'ível', 'ista', 'istas',
+      'oso', 'osa', 'osos', 'osas', 'amento', 'amentos', 'imento', 'imentos', 'adora', 'ador', 'aça~o',
+      'adoras', 'adores', 'aço~es', 'ante', 'antes', 'ância'
+    ]
+  },
+  { region: 'r2', suffixes: ['logia', 'logias'], replacement: 'log' },
+  { region: 'r2', suffixes: ['uça~o', 'uço~es'], replacement: 'u' },
+  { region: 'r2', suffixes: ['ência', 'ências'], replacement: 'ente' },
+  { region: 'r1', suffixes: ['amente'], then: ['iv', 'os', 'ic', 'ad'], before: { iv: 'at' } },
+  { region: 'r2', suffixes: ['mente'], then: ['ante', 'avel', 'ível'] },
+  { region: 'r2', suffixes: ['idade', 'idades'], then: ['abil', 'ic', 'iv'] },
+  { region: 'r2', suffixes: ['iva', 'ivo', 'ivas', 'ivos'], then: ['at'] }
+];
+
+const PORTUGUESE_VERB = bySuffixLength(
+  'ada', 'ida', 'ia', 'aria', 'eria', 'iria', 'ará', 'ara', 'erá', 'era', 'irá', 'ava', 'asse', 'esse',
+  'isse', 'aste', 'este', 'iste', 'ei', 'arei', 'erei', 'irei', 'am', 'iam', 'ariam', 'eriam', 'iriam',
+  'aram', 'eram', 'iram', 'avam', 'em', 'arem', 'erem', 'irem', 'assem', 'essem', 'issem', 'ado',
+  'ido', 'ando', 'endo', 'indo', 'ara~o', 'era~o', 'ira~o', 'ar', 'er', 'ir', 'as', 'adas', 'idas',
+  'ias', 'arias', 'erias', 'irias', 'arás', 'aras', 'erás', 'eras', 'irás', 'avas', 'es', 'ardes',
+  'erdes', 'irdes', 'ares', 'eres', 'ires', 'asses', 'esses', 'isses', 'astes', 'estes', 'istes', 'is',
+  'ais', 'eis', 'íeis', 'aríeis', 'eríeis', 'iríeis', 'áreis', 'areis', 'éreis', 'ereis', 'íreis',
+  'ireis', 'ásseis', 'ésseis', 'ísseis', 'áveis', 'ados', 'idos', 'ámos', 'amos', 'íamos', 'aríamos',
+  'eríamos', 'iríamos', 'áramos', 'éramos', 'íramos', 'ávamos', 'emos', 'aremos', 'eremos', 'iremos',
+  'ássemos', 'êssemos', 'íssemos', 'imos', 'armos', 'ermos', 'irmos', 'eu', 'iu', 'ou', 'ira', 'iras'
+);
+
+const PORTUGUESE_RESIDUAL = bySuffixLength('os', 'a', 'i', 'o', 'á', 'í', 'ó');
+
+function portugueseStem(word: string): string {
+  const nasal = word.replace(/ã/g, 'a~').replace(/õ/g, 'o~');
+  const regions = { ...standardRegions(nasal, PORTUGUESE_VOWELS), rv: romanceRv(nasal, PORTUGUESE_VOWELS) };
+  const { rv } = regions;
+  let w = romanceStandardSuffix(nasal, PORTUGUESE_STEP1, regions);
+
+  // -ira after e becomes -ir
+  if (w === nasal && /e(ira|iras)$/.test(w)) {
+    const suffix = w.endsWith('iras') ? 'iras' : 'ira';
+    if (endsWithin(w, suffix, rv)) w = dropEnding(w, suffix) + 'ir';
+  }
+
+  if (w === nasal) {
+    const suffix = longestSuffixWithin(w, PORTUGUESE_VERB, rv);
+    if (suffix) {
+      w = dropEnding(w, suffix);
+    }
+  }
+
+  if (w !== nasal) {
+    if (w.endsWith('ci') && endsWithin(w, 'i', rv)) w = w.slice(0, -1);
+  } else {
+    const residual = longestSuffixWithin(w, PORTUGUESE_RESIDUAL, rv);
+    if (residual) w = dropEnding(w, residual);
+  }
+
+  // A final e, with the u of -gue and the i of -cie; a final ç becomes c
+  if (/[eéê]$/.test(w) && w.length - 1 >= rv) {
+    w = w.slice(0, -1);
+    if ((w.endsWith('gu') || w.endsWith('ci')) && w.length - 1 >= rv) w = w.slice(0, -1);
+  } else if (w.endsWith('ç')) {
+    w = w.slice(0, -1) + 'c';
+  }
+  return w.replace(/a~/g, 'ã').replace(/o~/g, 'õ');
+}
+
+// German and Dutch ----------------------------------------------------------------------------
+
+const GERMAN_VOWELS = 'aeiouyäöü';
+const GERMAN_STEP1 = bySuffixLength('em', 'ern', 'er', 'e', 'en', 'es', 's');
+const GERMAN_STEP2 = bySuffixLength('en', 'er', 'est', 'st');
+const GERMAN_STEP3 = bySuffixLength('end', 'ung', 'ig', 'ik', 'isch', 'lich', 'heit', 'keit');
+
+function germanStem(word: string): string {
+  let w = markConsonants(word.replace(/ß/g, 'ss'), GERMAN_VOWELS, betweenVowels('uy'));
+  const { r1, r2 } = standardRegions(w, GERMAN_VOWELS, 3);
+
+  // Step 1: inflections; s only after a letter that can end a stem before it
+  const step1 = longestSuffix(w, GERMAN_STEP1);
+  if (step1 && endsWithin(w, step1, r1)) {
+    const stem = dropEnding(w, step1);
+    if (step1 !== 's' || /[bdfghklmnrt]$/.test(stem)) {
+      w = ['e', 'en', 'es'].includes(step1) && stem.endsWith('niss') ? stem.slice(0, -1) : stem;
+    }
+  }
+
+  // Step 2: -en, -er, -est, and -st after at least three letters
+  const step2 = longestSuffix(w, GERMAN_STEP2);
+  if (step2 && endsWithin(w, step2, r1)) {
+    const stem = dropEnding(w, step2);
+    if (step2 !== 'st' || (stem.length >= 4 && /[bdfghklmnt]$/.test(stem))) {
+      w = stem;
+    }
+  }
+
+  // Step 3: derivational suffixes in R2
+  const step3 = longestSuffix(w, GERMAN_STEP3);
+  if (step3 && endsWithin(w, step3, r2)) {
+    const stem = dropEnding(w, step3);
+    if (step3 === 'end' || step3 === 'ung') {
+      w = endsWithin(stem, 'ig', r2) && !stem.endsWith('eig') ? dropEnding(stem, 'ig') : stem;
+    } else if (step3 === 'ig' || step3 === 'ik' || step3 === 'isch') {
+      if (!stem.endsWith('e')) w = stem;
+    } else if (step3 === 'lich' || step3 === 'heit') {
+      const ending = ['er', 'en'].find(candidate => endsWithin(stem, candidate, r1));
+      w = ending ? dropEnding(stem, ending) : stem;
+    } else {
+      const ending = ['lich', 'ig'].find(candidate => endsWithin(stem, candidate, r2));
+      w = ending ? dropEnding(stem, ending) : stem;
+    }
+  }
+  // Umlauts were vowels for the regions; the stem drops them
+  return w.toLowerCase().replace(/[äöü]/g, letter => letter.normalize('NFD')[0]);
+}
+
+const DUTCH_VOWELS = 'aeiouyè';
+const DUTCH_STEP1 = bySuffixLength('heden', 'ene', 'en', 'se', 's');
+const DUTCH_STEP3 = bySuffixLength('end', 'ing', 'ig', 'lijk', 'baar', 'bar');
+
+function dutchUndouble(word: string): string {
+  return /(kk|dd|tt)$/.test(word) ? word.slice(0, -1) : word;
+}
+
+function dutchStem(word: string): string {
+  // Acute accents and umlauts are dropped; i between vowels and y at the start or after a vowel are consonants
+  const unaccented = word.replace(/[áäéëíïóöúü]/g, letter => letter.normalize('NFD')[0]);
+  let w = markConsonants(unaccented.replace(/^y/, 'Y'), DUTCH_VOWELS, (char, afterVowel, beforeVowel) =>
+    char === 'y' ? afterVowel : char === 'i' && afterVowel && beforeVowel);
+  const { r1, r2 } = standardRegions(w, DUTCH_VOWELS, 3);
+  const isVowel = (char: string | undefined) => char !== undefined && DUTCH_VOWELS.includes(char);
+
+  // -en after a consonant, unless it ends gem-
+  const removeEn = (word: string, ending: string) => {
+    const stem = dropEnding(word, ending);
+    return endsWithin(word, ending, r1) && stem.length > 0 && !isVowel(stem[stem.length - 1]) && !stem.endsWith('gem')
+      ? dutchUndouble(stem)
+      : word;
+  };
+  // A final e after a consonant
+  let eFound = false;
+  const removeE = (word: string) => {
+    if (!endsWithin(word, 'e', r1) || word.length < 2 || isVowel(word[word.length - 2])) return word;
+    eFound = true;
+    return dutchUndouble(word.slice(0, -1));
+  };
+
+  const step1 = longestSuffix(w, DUTCH_STEP1);
+  if (step1 === 'heden') {
+    if (endsWithin(w, step1, r1)) w = dropEnding(w, step1) + 'heid';
+  } else if (step1 === 'en' || step1 === 'ene') {
+    w = removeEn(w, step1);
+  } else if (step1 && endsWithin(w, step1, r1)) {
+    const stem = dropEnding(w, step1);
+    if (stem.length > 0 && !isVowel(stem[stem.length - 1]) && !stem.endsWith('j')) w = stem;
+  }
+
+  w = removeE(w);
+
+  if (endsWithin(w, 'heid', r2) && !w.endsWith('cheid')) {
+    w = removeEn(dropEnding(w, 'heid'), 'en');
+  }
+
+  const step3 = longestSuffix(w, DUTCH_STEP3);
+  if (step3 && endsWithin(w, step3, r2)) {
+    const stem = dropEnding(w, step3);
+    if (step3 === 'end' || step3 === 'ing') {
+      w = endsWithin(stem, 'ig', r2) && !stem.endsWith('eig') ? dropEnding(stem, 'ig') : dutchUndouble(stem);
+    } else if (step3 === 'ig') {
+      if (!stem.endsWith('e')) w = stem;
+    } else if (step3 === 'lijk') {
+      w = removeE(stem);
+    } else if (step3 === 'baar' || eFound) {
+      w = stem;
+    }
+  }
+
+  // Step 4: a doubled vowel between consonants is halved (loop, lopen)
+  w = w.replace(/(?<=[^aeiouyè])(aa|ee|oo|uu)(?=[^aeiouyèI]$)/, vowels => vowels[0]);
+  return w.toLowerCase();
+}
+
+/**
+ * Built-in stemmers by language
+ */
+export const STEMMERS: Record<string, Stemmer> = {
+  english: porterStem,
+  french: frenchStem,
+  german: germanStem,
+  spanish: spanishStem,
+  italian: italianStem,
+  portuguese: portugueseStem,
+  dutch: dutchStem
+};
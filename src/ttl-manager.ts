@@ -0,0 +1,147 @@
+import { Collection } from './collection';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES, LIMITS } from './constants';
+import { logger } from './logger';
+
+export interface TTLOptions {
+  enabled?: boolean; // Run the background sweeper (default: true)
+  sweepIntervalMs?: number; // Time between sweeps (default: LIMITS.TTL_SWEEP_INTERVAL)
+}
+
+export interface TTLStats {
+  running: boolean;
+  sweepIntervalMs: number;
+  sweeps: number;
+  lastSweepAt?: number;
+  lastSweepExpired: number;
+  expiredTotal: number;
+  expiredByCollection: Record<string, number>;
+}
+
+/**
+ * TTL Manager
+ * Periodically removes documents whose TTL index date has passed, across all collections.
+ * Removals go through the collections, so indexes stay current and remove change events are
+ * emitted; the owner is notified after each sweep that expired documents so it can persist them.
+ */
+export class TTLManager {
+  private sweepIntervalMs: number = LIMITS.TTL_SWEEP_INTERVAL;
+  private timer?: ReturnType<typeof setInterval>;
+  private sweeping = false;
+  private sweeps = 0;
+  private lastSweepAt?: number;
+  private lastSweepExpired = 0;
+  private expiredTotal = 0;
+  private expiredByCollection: Record<string, number> = {};
+
+  constructor(
+    private getCollections: () => Collection[],
+    private onExpired: (removed: number) => Promise<void> | void = () => {},
+    private scheduler: { setInterval: typeof setInterval; clearInterval: typeof clearInterval } = {
+      setInterval: globalThis.setInterval.bind(globalThis),
+      clearInterval: globalThis.clearInterval.bind(globalThis)
+    }
+  ) {}
+
+  /**
+   * Change the sweep interval and/or start or stop the sweeper
+   *
+   * @throws ValidationError if the interval is not a positive number
+   */
+  configure(options: TTLOptions): void {
+    if (options.sweepIntervalMs !== undefined) {
+      const interval = options.sweepIntervalMs;
+      if (typeof interval !== 'number' || !Number.isFinite(interval) || interval < LIMITS.MIN_TTL_SWEEP_INTERVAL) {
+        throw new ValidationError(
+          ERROR_MESSAGES.TTL_SWEEP_INTERVAL_INVALID(LIMITS.MIN_TTL_SWEEP_INTERVAL),
+          'sweepIntervalMs',
+          interval
+        );
+      }
+      this.sweepIntervalMs = interval;
+    }
+
+    const enabled = options.enabled ?? this.isRunning();
+    this.stop();
+    if (enabled) {
+      this.start();
+    }
+  }
+
+  /**
+   * Start sweeping in the background
+   * The timer does not keep the process alive on its own
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = this.scheduler.setInterval(() => {
+      this.sweep().catch(error => {
+        logger.error('TTL sweep failed', { error: (error as Error).message });
+      });
+    }, this.sweepIntervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.scheduler.clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Remove expired documents from every collection now
+   * A sweep that starts while another is still persisting is skipped
+   *
+   * @param now - Reference time in epoch milliseconds
+   * @returns Number of documents removed
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      let removed = 0;
+      for (const collection of this.getCollections()) {
+        const count = collection.removeExpired(now);
+        if (count > 0) {
+          const name = collection.getName();
+          this.expiredByCollection[name] = (this.expiredByCollection[name] || 0) + count;
+          removed += count;
+        }
+      }
+
+      this.sweeps++;
+      this.lastSweepAt = now;
+      this.lastSweepExpired = removed;
+      this.expiredTotal += removed;
+
+      if (removed > 0) {
+        logger.info('TTL sweep removed expired documents', { removed });
+        await this.onExpired(removed);
+      }
+      return removed;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  getStats(): TTLStats {
+    return {
+      running: this.isRunning(),
+      sweepIntervalMs: this.sweepIntervalMs,
+      sweeps: this.sweeps,
+      lastSweepAt: this.lastSweepAt,
+      lastSweepExpired: this.lastSweepExpired,
+      expiredTotal: this.expiredTotal,
+      expiredByCollection: { ...this.expiredByCollection }
+    };
+  }
+}
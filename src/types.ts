@@ -23,6 +23,69 @@ export interface UpdateOperation {
   [key: string]: any;
 }
 
+// Update Operator Types
+export interface PushModifiers {
+  $each: any[];
+  $slice?: number;
+  $sort?: 1 | -1 | Record<string, 1 | -1>;
+  $position?: number;
+}
+
+export interface UpdateOperators {
+  $set?: Record<string, any>;
+  $unset?: Record<string, any>;
+  $inc?: Record<string, number>;
+  $mul?: Record<string, number>;
+  $min?: Record<string, any>;
+  $max?: Record<string, any>;
+  $rename?: Record<string, string>;
+  $push?: Record<string, any | PushModifiers>;
+  $pull?: Record<string, any>;
+  $pullAll?: Record<string, any[]>;
+  $addToSet?: Record<string, any | { $each: any[] }>;
+  $pop?: Record<string, 1 | -1>;
+  $currentDate?: Record<string, true | { $type: 'date' | 'timestamp' }>;
+  $setOnInsert?: Record<string, any>;
+}
+
+// Relevance of a document to the `$text` search of its query
+export interface TextScoreMeta {
+  $meta: 'textScore';
+}
+
+// Fragments of a document's text around the words its `$text` search matched
+export interface TextHighlightsMeta {
+  $meta: 'textHighlights';
+}
+
+export type SortSpecification = Record<string, 1 | -1 | TextScoreMeta>;
+
+export type Projection = Record<string, 0 | 1 | boolean | TextScoreMeta | TextHighlightsMeta>;
+
+export interface FindOptions {
+  sort?: SortSpecification; // Order of the returned documents
+  projection?: Projection; // Fields to include (1) or exclude (0)
+  skip?: number; // Number of documents to skip
+  limit?: number; // Maximum number of documents to return
+}
+
+export interface ExplainOptions {
+  verbosity?: ExplainVerbosity; // 'queryPlanner' only plans; the others execute the query (default: 'queryPlanner')
+}
+
+export interface UpdateOptions {
+  upsert?: boolean; // Insert a document built from the query and update when nothing matches (default: false)
+}
+
+export interface FindOneAndUpdateOptions extends UpdateOptions {
+  sort?: SortSpecification; // Picks which document is modified when several match
+  returnDocument?: 'before' | 'after'; // Return the document as it was before or after the change (default: 'before')
+}
+
+export interface FindOneAndDeleteOptions {
+  sort?: SortSpecification; // Picks which document is removed when several match
+}
+
 export interface BulkInsertOptions {
   batchSize?: number; // Number of documents to process per batch (default: 10000)
   skipValidation?: boolean; // Skip document validation for performance (default: false)
@@ -55,6 +118,7 @@ export interface AggregationPipeline {
 
 export type AggregationStage =
   | { $match: Query }
+  | { $geoNear: GeoNearStage }
   | { $group: GroupStage }
   | { $sort: Record<string, 1 | -1> }
   | { $limit: number }
@@ -62,35 +126,144 @@ export type AggregationStage =
   | { $project: Record<string, any> }
   | { $unwind: string | { path: string; preserveNullAndEmptyArrays?: boolean } }
   | { $lookup: LookupStage }
+  | { $graphLookup: GraphLookupStage }
   | { $addFields: Record<string, any> }
-  | { $replaceRoot: { newRoot: any } };
+  | { $replaceRoot: { newRoot: any } }
+  | { $facet: Record<string, AggregationStage[]> }
+  | { $bucket: BucketStage }
+  | { $bucketAuto: BucketAutoStage }
+  | { $sortByCount: any }
+  | { $count: string }
+  | { $sample: { size: number } }
+  | { $setWindowFields: SetWindowFieldsStage }
+  | { $out: string | { coll: string } }
+  | { $merge: string | MergeStage };
+
+export interface GeoNearStage {
+  near: Point | [number, number]; // Origin, as a GeoJSON point or [longitude, latitude]
+  distanceField: string; // Output field for the distance in meters (times distanceMultiplier)
+  key?: string; // Location field (default: that of the collection's only 2dsphere index)
+  maxDistance?: number; // Meters
+  minDistance?: number; // Meters
+  query?: Query; // Further conditions on the documents
+  distanceMultiplier?: number; // E.g. 0.001 for kilometers
+  includeLocs?: string; // Output field for the location the distance was measured to
+  spherical?: boolean; // Accepted for compatibility; distances are always great-circle
+}
 
 export interface GroupStage {
   _id: any; // Group key expression
   [field: string]: any; // Accumulator expressions
 }
 
+export interface MergeStage {
+  into: string | { coll: string }; // Target collection, created if missing
+  on?: string | string[]; // Fields identifying the target document of an output document (default: _id)
+  let?: Record<string, any>; // Variables of a whenMatched pipeline (default: { new: '$$ROOT' })
+  whenMatched?: 'replace' | 'keepExisting' | 'merge' | 'fail' | AggregationStage[]; // Default: merge
+  whenNotMatched?: 'insert' | 'discard' | 'fail'; // Default: insert
+}
+
+export interface BucketStage {
+  groupBy: any; // Expression placing each document between two boundaries
+  boundaries: any[]; // Ascending lower bounds; the last value is the upper bound of the last bucket
+  default?: any; // _id of the bucket for values outside the boundaries (error if omitted)
+  output?: Record<string, any>; // Accumulators per bucket (default: { count: { $sum: 1 } })
+}
+
+export interface BucketAutoStage {
+  groupBy: any; // Expression to bucket by
+  buckets: number; // Number of buckets to spread the documents over evenly
+  output?: Record<string, any>; // Accumulators per bucket (default: { count: { $sum: 1 } })
+}
+
+export type WindowBound = number | 'current' | 'unbounded';
+
+export type WindowUnit = 'week' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond';
+
+/**
+ * Frame of a window function: positions relative to the current document (`documents`) or
+ * sortBy values relative to the current one (`range`, scaled by `unit` for dates)
+ */
+export interface WindowFrame {
+  documents?: [WindowBound, WindowBound];
+  range?: [WindowBound, WindowBound];
+  unit?: WindowUnit;
+}
+
+export interface SetWindowFieldsStage {
+  partitionBy?: any; // Expression splitting the input into independent partitions
+  sortBy?: Record<string, 1 | -1>; // Order within each partition
+  output: Record<string, { window?: WindowFrame; [operator: string]: any }>; // Field -> window operator
+}
+
 export interface LookupStage {
   from: string; // Collection to join with
-  localField: string; // Field from input documents
-  foreignField: string; // Field from documents of the "from" collection
+  localField?: string; // Field from input documents (equality form)
+  foreignField?: string; // Field from documents of the "from" collection (equality form)
+  let?: Record<string, any>; // Variables for the pipeline, evaluated against each input document
+  pipeline?: AggregationStage[]; // Stages run on the joined documents (pipeline form)
   as: string; // Output array field
 }
 
-export interface AggregationResult {
-  documents: Document[];
+export interface GraphLookupStage {
+  from: string; // Collection to search
+  startWith: any; // Expression giving the first connectToField value(s) to look for
+  connectFromField: string; // Field of found documents whose values are looked for next
+  connectToField: string; // Field of the "from" collection matched against those values
+  as: string; // Output array field
+  maxDepth?: number; // Recursion depth limit; 0 only returns direct matches (default: unlimited)
+  depthField?: string; // Field added to found documents holding their depth
+  restrictSearchWithMatch?: Query; // Only documents matching this query are found or followed
+}
+
+export interface AggregationStats {
   executionTime: number;
   stagesExecuted: number;
   documentsProcessed: number;
 }
 
+export interface AggregateOptions {
+  allowDiskUse?: boolean; // Let $sort and $group write to temporary files over the memory limit (default: false)
+  maxMemoryBytes?: number; // Memory one blocking stage may hold (default: LIMITS.AGGREGATION_MAX_MEMORY)
+  tempDirectory?: string; // Where spill files go (default: the OS temporary directory)
+}
+
+export interface AggregationMemoryStats {
+  peakBytes: number; // Most memory a blocking stage held (estimated)
+  spills: number; // Sorted runs written to disk
+  spilledBytes: number;
+}
+
+export interface AggregationResult extends AggregationStats {
+  documents: Document[];
+  memory: AggregationMemoryStats;
+  // Per sub-pipeline, keyed like '$facet.byTier' or '$lookup.orders' (nested: '$facet.a.$lookup.b');
+  // a $lookup sub-pipeline runs once per input document and its stats are summed over the runs
+  subPipelines?: Record<string, AggregationStats>;
+}
+
 // Full-Text Search Types
 export interface TextSearchOptions {
-  language?: string;
+  language?: string; // Analyzer of the query words (default: the index's defaultLanguage)
   caseSensitive?: boolean;
-  diacriticSensitive?: boolean;
+  diacriticSensitive?: boolean; // Words only match terms written with the same diacritics
   scoreField?: string;
-  limit?: number;
+  limit?: number; // Maximum number of results (default: all)
+  boosts?: Record<string, number>; // Score multiplier per field on top of the index weights
+  highlight?: boolean | TextHighlightOptions; // Fill TextSearchResult.highlights
+}
+
+export interface TextHighlightOptions {
+  preTag?: string; // Before each matched word (default: <em>)
+  postTag?: string; // After each matched word (default: </em>)
+  fragmentSize?: number; // Characters of text per fragment (default: LIMITS.TEXT_HIGHLIGHT_FRAGMENT_SIZE)
+  maxFragments?: number; // Best fragments returned (default: LIMITS.TEXT_HIGHLIGHT_MAX_FRAGMENTS)
+}
+
+export interface TextBM25Options {
+  k1?: number; // Term frequency saturation (default: LIMITS.TEXT_BM25_K1)
+  b?: number; // Field length normalization, 0 to 1 (default: LIMITS.TEXT_BM25_B)
 }
 
 export interface TextSearchResult {
@@ -105,17 +278,26 @@ export interface Point {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+export interface GeoNearQuery {
+  $geometry: Point;
+  $maxDistance?: number; // Meters
+  $minDistance?: number; // Meters
+}
+
+// Region of `$geoWithin`: a GeoJSON polygon, a longitude/latitude box, a polygon given by its
+// vertices, or a circle of a radius in radians (divide meters by the Earth's radius, 6371e3)
+export type GeoWithinQuery =
+  | { $geometry: Polygon | MultiPolygon }
+  | { $box: [[number, number], [number, number]] }
+  | { $polygon: Array<[number, number]> }
+  | { $centerSphere: [[number, number], number] };
+
 export interface GeoQuery {
-  $near?: {
-    $geometry: Point;
-    $maxDistance?: number;
-    $minDistance?: number;
-  };
-  $geoWithin?: {
-    $geometry: Polygon | MultiPolygon | Point;
-  };
+  $near?: GeoNearQuery;
+  $nearSphere?: GeoNearQuery;
+  $geoWithin?: GeoWithinQuery;
   $geoIntersects?: {
-    $geometry: any;
+    $geometry: Geometry;
   };
 }
 
@@ -129,7 +311,33 @@ export interface MultiPolygon {
   coordinates: number[][][][];
 }
 
+export interface MultiPoint {
+  type: 'MultiPoint';
+  coordinates: Array<[number, number]>;
+}
+
+export interface LineString {
+  type: 'LineString';
+  coordinates: Array<[number, number]>; // At least two positions
+}
+
+export interface MultiLineString {
+  type: 'MultiLineString';
+  coordinates: Array<Array<[number, number]>>;
+}
+
+export interface GeometryCollection {
+  type: 'GeometryCollection';
+  geometries: Geometry[];
+}
+
+// Polygon rings are closed (first position repeated last); rings after the first are holes.
+// Edges between positions more than 180° of longitude apart cross the antimeridian.
+export type Geometry = Point | MultiPoint | LineString | MultiLineString | Polygon | MultiPolygon | GeometryCollection;
+
 // Advanced Indexing Types
+export type IndexSpecification = Record<string, 1 | -1 | 'text' | '2dsphere'>;
+
 export interface IndexOptions {
   unique?: boolean;
   sparse?: boolean;
@@ -138,8 +346,10 @@ export interface IndexOptions {
   expireAfterSeconds?: number;
   text?: boolean;
   weights?: Record<string, number>;
-  defaultLanguage?: string;
-  languageOverride?: string;
+  defaultLanguage?: string; // Text indexes: a language or registered TextAnalyzer (default: english)
+  languageOverride?: string; // Text indexes: document field naming its language (default: language)
+  bm25?: TextBM25Options; // Text indexes: scoring parameters
+  geo?: boolean; // 2dsphere index (reported by listIndexes)
 }
 
 // Database Operations Types
@@ -296,6 +506,34 @@ export interface ChangeStreamListener {
   lastEventTime?: number;
 }
 
+// Region of a geofence: a GeoJSON polygon, or a circle around a point
+export type GeofenceRegion = Polygon | MultiPolygon | { center: [number, number]; radius: number }; // Radius in meters
+
+export interface GeofenceDefinition {
+  name: string; // Unique per collection
+  collection: string;
+  field: string; // Location field of the tracked documents
+  region: GeofenceRegion;
+  dwellTime?: number; // Milliseconds inside before dwell events are emitted (default 0)
+}
+
+export interface GeofenceEvent {
+  type: 'enter' | 'exit' | 'dwell';
+  geofence: string;
+  collection: string;
+  document: Document;
+  location: Geometry | null; // After the change (null once the location is removed)
+  previousLocation: Geometry | null;
+  dwellTime?: number; // Milliseconds since the document entered, on dwell events
+  timestamp: number;
+}
+
+export interface GeofenceListenerOptions {
+  collection?: string;
+  geofence?: string;
+  events?: Array<GeofenceEvent['type']>;
+}
+
 export interface EventFilter {
   id: string;
   collection?: string;
@@ -339,6 +577,37 @@ export interface QueryStep {
   selectivity: number;
 }
 
+export type ExplainVerbosity = 'queryPlanner' | 'executionStats' | 'allPlansExecution';
+
+/**
+ * Access path of a query: a collection scan, one index, several indexes intersected, a
+ * search of the text index, or a nearest-first walk of a 2dsphere index
+ */
+export interface ExplainPlan {
+  stage: 'COLLSCAN' | 'IXSCAN' | 'INDEX_INTERSECTION' | 'TEXT' | 'GEO_NEAR_2DSPHERE';
+  indexes: string[];
+}
+
+export interface PlanExecutionStats {
+  keysExamined: number;
+  docsExamined: number;
+  nReturned: number;
+  executionTimeMillis: number;
+}
+
+export interface ExplainResult {
+  collection: string;
+  query: Query;
+  verbosity: ExplainVerbosity;
+  winningPlan: ExplainPlan;
+  rejectedPlans: ExplainPlan[];
+  cacheHit: boolean;
+  executionStats?: PlanExecutionStats & {
+    stages: Array<{ stage: string; executionTimeMillis: number }>;
+  };
+  allPlansExecution?: Array<PlanExecutionStats & { plan: ExplainPlan }>;
+}
+
 // Data Structure Types
 export type DataStructureType = 'document' | 'list' | 'set' | 'hash' | 'sorted-set' | 'stream' | 'geospatial' | 'time-series' | 'graph';
 
@@ -0,0 +1,335 @@
+import { Document, Query, UpdateOperation, PushModifiers } from './types';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { QueryEngine } from './query-engine';
+import { splitPath, getValueByPath, deepEqual, compareValues } from './utils';
+
+/**
+ * Result of applying an update to a single document
+ */
+export interface UpdateApplyResult {
+  document: Document;
+  touchedPaths: string[];
+  modified: boolean;
+}
+
+/**
+ * Working state for one update: the copy being built and the containers already
+ * copied, so each object along a touched path is cloned at most once
+ */
+interface UpdateContext {
+  root: Document;
+  copied: Set<object>;
+  touched: string[];
+  isInsert: boolean;
+}
+
+/**
+ * Update Operator Engine
+ * Applies MongoDB-style update operators ($set, $inc, $push, ...) with dot-path support.
+ * The original document is never mutated: containers along each touched path are
+ * copied on write, untouched subtrees are shared with the original.
+ */
+export class UpdateOperatorEngine {
+  private static readonly matcher = new QueryEngine();
+
+  /**
+   * Check whether an update object uses operators rather than plain field values
+   */
+  static isOperatorUpdate(changes: UpdateOperation): boolean {
+    return Object.keys(changes).some(key => key.startsWith('$'));
+  }
+
+  /**
+   * Apply an operator update to a document
+   * Assumes the update has already been validated by QueryValidator.validateUpdateOperation
+   *
+   * @param doc - Current document (left untouched)
+   * @param update - Update operators to apply
+   * @param isInsert - Whether the update creates the document (upsert); enables $setOnInsert
+   * @returns The updated copy, the paths that were written and whether anything changed
+   * @throws ValidationError if an operator cannot be applied to the current field value
+   */
+  static apply(doc: Document, update: UpdateOperation, isInsert = false): UpdateApplyResult {
+    const ctx: UpdateContext = { root: { ...doc }, copied: new Set(), touched: [], isInsert };
+    ctx.copied.add(ctx.root);
+
+    for (const [operator, fields] of Object.entries(update)) {
+      for (const [path, argument] of Object.entries(fields as Record<string, any>)) {
+        this.applyOperator(ctx, operator, path, argument);
+      }
+    }
+
+    const modified = ctx.touched.some(path => !deepEqual(getValueByPath(doc, path), getValueByPath(ctx.root, path)));
+    return { document: ctx.root, touchedPaths: ctx.touched, modified };
+  }
+
+  /**
+   * Build the document an upsert inserts: the query's equality conditions
+   * (including `$eq` and those nested in `$and`) followed by the update
+   */
+  static buildUpsertDocument(query: Query, update: UpdateOperation): Document {
+    const equalities: Record<string, any> = {};
+    this.collectEqualities(query, equalities);
+
+    const seed = Object.keys(equalities).length > 0
+      ? this.apply({}, { $set: equalities }, true).document
+      : {};
+
+    if (this.isOperatorUpdate(update)) {
+      return this.apply(seed, update, true).document;
+    }
+    return { ...seed, ...update };
+  }
+
+  private static collectEqualities(query: Query, equalities: Record<string, any>): void {
+    for (const [field, condition] of Object.entries(query)) {
+      if (field === '$and' && Array.isArray(condition)) {
+        condition.forEach((subQuery: Query) => this.collectEqualities(subQuery, equalities));
+      } else if (field.startsWith('$')) {
+        continue;
+      } else if (this.isOperatorObject(condition)) {
+        if ('$eq' in condition) {
+          equalities[field] = condition.$eq;
+        }
+      } else {
+        equalities[field] = condition;
+      }
+    }
+  }
+
+  private static isOperatorObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) &&
+      Object.keys(value).some(key => key.startsWith('$'));
+  }
+
+  private static applyOperator(ctx: UpdateContext, operator: string, path: string, argument: any): void {
+    const current = getValueByPath(ctx.root, path);
+
+    switch (operator) {
+      case '$set':
+        this.setPath(ctx, path, argument);
+        break;
+
+      case '$setOnInsert':
+        if (ctx.isInsert) {
+          this.setPath(ctx, path, argument);
+        }
+        break;
+
+      case '$unset':
+        this.unsetPath(ctx, path);
+        break;
+
+      case '$inc':
+      case '$mul': {
+        if (current !== undefined && typeof current !== 'number') {
+          throw new ValidationError(ERROR_MESSAGES.UPDATE_NON_NUMERIC_FIELD(operator, path), path, current);
+        }
+        const base = current ?? 0;
+        this.setPath(ctx, path, operator === '$inc' ? base + argument : base * argument);
+        break;
+      }
+
+      case '$min':
+        if (current === undefined || compareValues(argument, current) < 0) {
+          this.setPath(ctx, path, argument);
+        }
+        break;
+
+      case '$max':
+        if (current === undefined || compareValues(argument, current) > 0) {
+          this.setPath(ctx, path, argument);
+        }
+        break;
+
+      case '$rename':
+        if (current !== undefined) {
+          this.unsetPath(ctx, path);
+          this.setPath(ctx, argument, current);
+        }
+        break;
+
+      case '$currentDate':
+        this.setPath(ctx, path, argument === true || argument.$type === 'date' ? new Date() : Date.now());
+        break;
+
+      case '$push':
+        this.setPath(ctx, path, this.push(this.requireArray(operator, path, current), argument));
+        break;
+
+      case '$addToSet': {
+        const array = [...this.requireArray(operator, path, current)];
+        const values = this.isModifierObject(argument) ? argument.$each : [argument];
+        for (const value of values) {
+          if (!array.some(item => deepEqual(item, value))) {
+            array.push(value);
+          }
+        }
+        this.setPath(ctx, path, array);
+        break;
+      }
+
+      case '$pull':
+        if (current !== undefined) {
+          const array = this.requireArray(operator, path, current);
+          this.setPath(ctx, path, array.filter(item => !this.pullMatches(item, argument)));
+        }
+        break;
+
+      case '$pullAll':
+        if (current !== undefined) {
+          const array = this.requireArray(operator, path, current);
+          this.setPath(ctx, path, array.filter(item => !argument.some((value: any) => deepEqual(item, value))));
+        }
+        break;
+
+      case '$pop':
+        if (current !== undefined) {
+          const array = this.requireArray(operator, path, current);
+          this.setPath(ctx, path, argument === 1 ? array.slice(0, -1) : array.slice(1));
+        }
+        break;
+
+      default:
+        throw new ValidationError(ERROR_MESSAGES.UPDATE_UNKNOWN_OPERATOR(operator), 'updateOperator', operator);
+    }
+  }
+
+  /**
+   * Apply $push with optional $each/$position/$sort/$slice modifiers
+   */
+  private static push(array: any[], argument: any): any[] {
+    if (!this.isModifierObject(argument)) {
+      return [...array, argument];
+    }
+
+    const modifiers = argument as PushModifiers;
+    let result = [...array];
+
+    if (modifiers.$position === undefined) {
+      result.push(...modifiers.$each);
+    } else {
+      const position = modifiers.$position < 0
+        ? Math.max(0, result.length + modifiers.$position)
+        : Math.min(result.length, modifiers.$position);
+      result.splice(position, 0, ...modifiers.$each);
+    }
+
+    if (modifiers.$sort !== undefined) {
+      const sort = modifiers.$sort;
+      result.sort((a, b) => {
+        if (typeof sort === 'number') {
+          return compareValues(a, b) * sort;
+        }
+        for (const [field, direction] of Object.entries(sort)) {
+          const order = compareValues(getValueByPath(a, field), getValueByPath(b, field));
+          if (order !== 0) return order * direction;
+        }
+        return 0;
+      });
+    }
+
+    if (modifiers.$slice !== undefined) {
+      result = modifiers.$slice >= 0
+        ? result.slice(0, modifiers.$slice)
+        : result.slice(modifiers.$slice);
+    }
+
+    return result;
+  }
+
+  /**
+   * Decide whether an array element is removed by a $pull condition
+   * Operator conditions and sub-document queries are evaluated with the query engine,
+   * anything else is compared for equality
+   */
+  private static pullMatches(item: any, condition: any): boolean {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition) || condition instanceof Date) {
+      return deepEqual(item, condition);
+    }
+
+    const isOperatorCondition = Object.keys(condition).some(key => key.startsWith('$'));
+    if (isOperatorCondition) {
+      return this.matcher.matches({ value: item }, { value: condition });
+    }
+
+    if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
+      return this.matcher.matches(item, condition);
+    }
+    return false;
+  }
+
+  private static isModifierObject(argument: any): argument is { $each: any[] } {
+    return typeof argument === 'object' && argument !== null && !Array.isArray(argument) &&
+      Array.isArray(argument.$each);
+  }
+
+  private static requireArray(operator: string, path: string, value: any): any[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      throw new ValidationError(ERROR_MESSAGES.UPDATE_NON_ARRAY_FIELD(operator, path), path, value);
+    }
+    return value;
+  }
+
+  /**
+   * Walk to the parent container of a path, copying every container on the way
+   *
+   * @param create - Create missing intermediate objects instead of stopping
+   * @returns The (copied) parent container, or undefined if the path does not exist
+   */
+  private static resolveParent(ctx: UpdateContext, parts: string[], create: boolean): any {
+    let parent: any = ctx.root;
+
+    for (let i = 0; i < parts.length - 1; i++) {
+      const key = parts[i];
+      let child = parent[key];
+
+      if (child === undefined || child === null) {
+        if (!create) return undefined;
+        child = {};
+        ctx.copied.add(child);
+      } else if (typeof child !== 'object' || child instanceof Date) {
+        if (!create) return undefined;
+        throw new ValidationError(ERROR_MESSAGES.UPDATE_PATH_NOT_TRAVERSABLE(parts.join('.')), parts.join('.'), child);
+      } else if (!ctx.copied.has(child)) {
+        child = Array.isArray(child) ? [...child] : { ...child };
+        ctx.copied.add(child);
+      }
+
+      parent[key] = child;
+      parent = child;
+    }
+
+    return parent;
+  }
+
+  private static setPath(ctx: UpdateContext, path: string, value: any): void {
+    const parts = splitPath(path);
+    const parent = this.resolveParent(ctx, parts, true);
+    parent[parts[parts.length - 1]] = value;
+    this.touch(ctx, path);
+  }
+
+  private static unsetPath(ctx: UpdateContext, path: string): void {
+    const parts = splitPath(path);
+    const parent = this.resolveParent(ctx, parts, false);
+    const key = parts[parts.length - 1];
+    if (parent === undefined || !(key in parent)) return;
+
+    if (Array.isArray(parent)) {
+      // Removing an array element by path keeps positions stable, as MongoDB does
+      parent[Number(key)] = null;
+    } else {
+      delete parent[key];
+    }
+    this.touch(ctx, path);
+  }
+
+  private static touch(ctx: UpdateContext, path: string): void {
+    if (!ctx.touched.includes(path)) {
+      ctx.touched.push(path);
+    }
+  }
+}
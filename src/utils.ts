@@ -1,3 +1,5 @@
+import { TextHighlightsMeta, TextScoreMeta } from './types';
+
 // Use a counter-based approach with timestamp for better uniqueness
 let idCounter = 0;
 
@@ -63,3 +65,292 @@ export function isMainModule(): boolean {
   // Fallback - assume not main module if we can't determine
   return false;
 }
+
+/**
+ * Split a dot-notation path into its segments
+ */
+export function splitPath(path: string): string[] {
+  return path.split('.');
+}
+
+/**
+ * Resolve a dot-notation path against an object
+ * Numeric segments index into arrays (e.g. `items.0.name`)
+ */
+export function getValueByPath(obj: any, path: string): any {
+  let current = obj;
+  for (const part of splitPath(path)) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Resolve a dot-notation path against an object, descending into arrays
+ * A non-numeric segment applied to an array continues into each element, so `items.sku`
+ * yields the `sku` of every item (query semantics). Missing values are left out.
+ */
+export function getValuesByPath(obj: any, path: string): any[] {
+  const values: any[] = [];
+  collectPathValues(obj, splitPath(path), 0, values);
+  return values;
+}
+
+function collectPathValues(current: any, parts: string[], position: number, values: any[]): void {
+  if (position === parts.length) {
+    if (current !== undefined) values.push(current);
+    return;
+  }
+  if (current === null || current === undefined || typeof current !== 'object') {
+    return;
+  }
+
+  const part = parts[position];
+  if (Array.isArray(current) && !/^\d+$/.test(part)) {
+    for (const element of current) {
+      // Nested arrays are not traversed
+      if (!Array.isArray(element)) {
+        collectPathValues(element, parts, position, values);
+      }
+    }
+    return;
+  }
+  collectPathValues(current[part], parts, position + 1, values);
+}
+
+/**
+ * Values a document contributes to an index on a dot-notation path
+ * Arrays are multikey: each distinct element is indexed instead of the array itself,
+ * including arrays met along the path. A missing path or an empty array contributes no keys.
+ */
+export function indexKeys(doc: any, path: string): any[] {
+  const keys = new Set<any>();
+  for (const value of getValuesByPath(doc, path)) {
+    if (Array.isArray(value)) {
+      value.forEach(element => element !== undefined && keys.add(element));
+    } else {
+      keys.add(value);
+    }
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Whether a path holds, or runs through, an array in this document
+ * Such a document makes an index on the path multikey
+ */
+export function isMultikeyPath(doc: any, path: string): boolean {
+  const values = getValuesByPath(doc, path);
+  return values.length > 1 || values.some(value => Array.isArray(value));
+}
+
+/**
+ * Check whether two dot-notation paths overlap (equal, or one is a prefix of the other)
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+  if (a === b) return true;
+  return a.startsWith(b + '.') || b.startsWith(a + '.');
+}
+
+/**
+ * Deep equality check for documents, arrays and dates
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a === b;
+
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!deepEqual(a[i], b[i])) return false;
+    }
+    return true;
+  }
+
+  if (typeof a === 'object' && typeof b === 'object') {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+    for (const key of keysA) {
+      if (!Object.prototype.hasOwnProperty.call(b, key) || !deepEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Rank of a value's type in the canonical cross-type sort order
+ * (null < numbers < strings < objects < arrays < booleans < dates)
+ */
+function typeOrder(value: any): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number') return 1;
+  if (typeof value === 'string') return 2;
+  if (value instanceof Date) return 6;
+  if (Array.isArray(value)) return 4;
+  if (typeof value === 'boolean') return 5;
+  return 3;
+}
+
+/**
+ * Compare two values for sorting
+ * Values of different types are ordered by type, values of the same type naturally
+ *
+ * @returns negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareValues(a: any, b: any): number {
+  const orderA = typeOrder(a);
+  const orderB = typeOrder(b);
+  if (orderA !== orderB) return orderA - orderB;
+
+  switch (orderA) {
+    case 0:
+      return 0;
+    case 1:
+      return a - b;
+    case 2:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 5:
+      return (a ? 1 : 0) - (b ? 1 : 0);
+    case 6:
+      return a.getTime() - b.getTime();
+    case 4: {
+      const length = Math.min(a.length, b.length);
+      for (let i = 0; i < length; i++) {
+        const result = compareValues(a[i], b[i]);
+        if (result !== 0) return result;
+      }
+      return a.length - b.length;
+    }
+    default: {
+      const keysA = Object.keys(a);
+      const keysB = Object.keys(b);
+      const length = Math.min(keysA.length, keysB.length);
+      for (let i = 0; i < length; i++) {
+        if (keysA[i] !== keysB[i]) return keysA[i] < keysB[i] ? -1 : 1;
+        const result = compareValues(a[keysA[i]], b[keysB[i]]);
+        if (result !== 0) return result;
+      }
+      return keysA.length - keysB.length;
+    }
+  }
+}
+
+/**
+ * Check whether two values belong to the same type bracket of the sort order
+ * Range comparisons only match values within the operand's bracket
+ */
+export function sameTypeBracket(a: any, b: any): boolean {
+  return typeOrder(a) === typeOrder(b);
+}
+
+/**
+ * Compare two documents by a sort specification such as `{ age: -1, name: 1 }`
+ * Array fields sort by their smallest element ascending and their largest descending,
+ * the order a multikey index walk produces. `{ $meta: 'textScore' }` puts higher scores first.
+ *
+ * @param textScore - Relevance of a document to the `$text` search (0 when not given)
+ * @returns negative if a sorts first, positive if b sorts first, 0 if tied
+ */
+export function compareBySort(
+  a: any,
+  b: any,
+  sort: Record<string, 1 | -1 | TextScoreMeta>,
+  textScore?: (doc: any) => number
+): number {
+  for (const [field, direction] of Object.entries(sort)) {
+    if (isTextScoreMeta(direction)) {
+      const result = (textScore?.(b) ?? 0) - (textScore?.(a) ?? 0);
+      if (result !== 0) return result;
+      continue;
+    }
+    const result = compareValues(
+      sortKey(getValueByPath(a, field), direction),
+      sortKey(getValueByPath(b, field), direction)
+    );
+    if (result !== 0) return result * direction;
+  }
+  return 0;
+}
+
+/**
+ * Whether a sort or projection value is `{ $meta: 'textScore' }`
+ */
+export function isTextScoreMeta(value: unknown): value is TextScoreMeta {
+  return typeof value === 'object' && value !== null && (value as TextScoreMeta).$meta === 'textScore';
+}
+
+/**
+ * Whether a projection value is `{ $meta: 'textHighlights' }`
+ */
+export function isTextHighlightsMeta(value: unknown): value is TextHighlightsMeta {
+  return typeof value === 'object' && value !== null && (value as TextHighlightsMeta).$meta === 'textHighlights';
+}
+
+/**
+ * Value an array field sorts by; an empty array sorts like a missing field
+ */
+function sortKey(value: any, direction: 1 | -1): any {
+  if (!Array.isArray(value)) return value;
+  if (value.length === 0) return undefined;
+  return value.reduce((best, element) => (compareValues(element, best) * direction < 0 ? element : best));
+}
+
+/**
+ * Apply an inclusion (`{ name: 1 }`) or exclusion (`{ password: 0 }`) projection to a document
+ * Dot paths are supported; `_id` is kept unless explicitly excluded. The input is not mutated.
+ */
+export function projectDocument(doc: any, projection: Record<string, any>): any {
+  const fields = Object.entries(projection);
+  const inclusive = fields.some(([field, spec]) => field !== '_id' && spec);
+
+  if (!inclusive) {
+    let result = { ...doc };
+    for (const [field, spec] of fields) {
+      if (!spec) {
+        result = withoutPath(result, splitPath(field));
+      }
+    }
+    return result;
+  }
+
+  const result: any = {};
+  if (projection._id === undefined || projection._id) {
+    if (doc._id !== undefined) result._id = doc._id;
+  }
+  for (const [field, spec] of fields) {
+    if (field === '_id' || !spec) continue;
+    const value = getValueByPath(doc, field);
+    if (value === undefined) continue;
+
+    const parts = splitPath(field);
+    let target = result;
+    for (let i = 0; i < parts.length - 1; i++) {
+      target[parts[i]] = target[parts[i]] ?? {};
+      target = target[parts[i]];
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return result;
+}
+
+function withoutPath(obj: any, parts: string[]): any {
+  if (obj === null || typeof obj !== 'object' || !(parts[0] in obj)) return obj;
+
+  const copy = Array.isArray(obj) ? [...obj] : { ...obj };
+  if (parts.length === 1) {
+    delete copy[parts[0]];
+  } else {
+    copy[parts[0]] = withoutPath(obj[parts[0]], parts.slice(1));
+  }
+  return copy;
+}
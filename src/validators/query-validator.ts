@@ -61,8 +61,11 @@ export class QueryValidator {
     if (typeof obj !== 'object' || obj === null) return;
 
     for (const [key, value] of Object.entries(obj)) {
-      // Handle logical operators ($and, $or) - their values are arrays of subqueries
-      if (key === '$and' || key === '$or') {
+      // Expressions, JavaScript and text search specs have their own syntax, checked on evaluation
+      if (this.isOpaqueOperator(key)) continue;
+
+      // Handle logical operators ($and, $or, $nor) - their values are arrays of subqueries
+      if (key === '$and' || key === '$or' || key === '$nor') {
         if (Array.isArray(value)) {
           // Recursively validate each subquery in the array
           for (const subQuery of value) {
@@ -135,14 +138,35 @@ export class QueryValidator {
    */
   static isValidOperator(operator: string): boolean {
     const validOperators = [
-      '$gt', '$gte', '$lt', '$lte', '$ne', '$in', '$nin', '$eq', '$regex',
-      '$exists', '$all', '$size', '$and', '$or'
+      '$gt', '$gte', '$lt', '$lte', '$ne', '$in', '$nin', '$eq', '$regex', '$options',
+      '$exists', '$type', '$all', '$size', '$elemMatch', '$mod', '$not', '$and', '$or', '$nor',
+      '$bitsAllSet', '$bitsAllClear', '$bitsAnySet', '$bitsAnyClear', '$comment',
+      '$where', '$text', '$expr', '$jsonSchema', '$near', '$nearSphere', '$geoWithin', '$geoIntersects'
+    ];
+    return validOperators.includes(operator);
+  }
+
+  /**
+   * Operators whose operand is not a query (and so is not checked for query operators)
+   */
+  static isOpaqueOperator(operator: string): boolean {
+    return ['$where', '$text', '$expr', '$jsonSchema', '$comment', '$near', '$nearSphere', '$geoWithin', '$geoIntersects'].includes(operator);
+  }
+
+  /**
+   * Check if an update operator is valid
+   */
+  static isValidUpdateOperator(operator: string): boolean {
+    const validOperators = [
+      '$set', '$unset', '$inc', '$mul', '$min', '$max', '$rename', '$push',
+      '$pull', '$pullAll', '$addToSet', '$pop', '$currentDate', '$setOnInsert'
     ];
     return validOperators.includes(operator);
   }
 
   /**
    * Validate update operation
+   * Plain field values are merged into the document; `$`-prefixed keys are update operators
    * @throws ValidationError if update operation is invalid
    */
   static validateUpdateOperation(changes: Record<string, unknown>): void {
@@ -150,6 +174,11 @@ export class QueryValidator {
       throw new ValidationError(ERROR_MESSAGES.UPDATE_MUST_SPECIFY_FIELD, 'updateChanges', changes);
     }
 
+    if (Object.keys(changes).some(key => key.startsWith('$'))) {
+      this.validateUpdateOperators(changes);
+      return;
+    }
+
     // Check for dangerous operations
     if ('_id' in changes) {
       throw new ValidationError(ERROR_MESSAGES.UPDATE_ID_FORBIDDEN, 'updateChanges', '_id');
@@ -170,4 +199,100 @@ export class QueryValidator {
       }
     }
   }
+
+  /**
+   * Validate an operator-style update ($set, $inc, $push, ...)
+   * @throws ValidationError if an operator, its arguments or its paths are invalid
+   */
+  static validateUpdateOperators(changes: Record<string, unknown>): void {
+    const seenPaths: string[] = [];
+
+    for (const [operator, argument] of Object.entries(changes)) {
+      if (!operator.startsWith('$')) {
+        throw new ValidationError(ERROR_MESSAGES.UPDATE_MIXED_OPERATORS, 'updateChanges', operator);
+      }
+      if (!this.isValidUpdateOperator(operator)) {
+        throw new ValidationError(ERROR_MESSAGES.UPDATE_UNKNOWN_OPERATOR(operator), 'updateOperator', operator);
+      }
+      if (typeof argument !== 'object' || argument === null || Array.isArray(argument) ||
+          Object.keys(argument).length === 0) {
+        throw new ValidationError(
+          ERROR_MESSAGES.UPDATE_OPERATOR_ARGUMENT_INVALID(operator),
+          'updateOperator',
+          argument
+        );
+      }
+
+      for (const [path, value] of Object.entries(argument as Record<string, unknown>)) {
+        const paths = operator === '$rename' ? [path, value as string] : [path];
+        this.validateUpdateValue(operator, path, value);
+
+        for (const target of paths) {
+          if (target === '_id' || target.startsWith('_id.')) {
+            throw new ValidationError(ERROR_MESSAGES.UPDATE_ID_FORBIDDEN, 'updateChanges', '_id');
+          }
+          const conflict = seenPaths.find(seen => seen === target ||
+            seen.startsWith(target + '.') || target.startsWith(seen + '.'));
+          if (conflict !== undefined) {
+            throw new ValidationError(ERROR_MESSAGES.UPDATE_PATH_CONFLICT(target, conflict), 'updatePath', target);
+          }
+          seenPaths.push(target);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate the argument of a single update operator for one path
+   */
+  private static validateUpdateValue(operator: string, path: string, value: unknown): void {
+    const fail = (expected: string): never => {
+      throw new ValidationError(ERROR_MESSAGES.UPDATE_VALUE_INVALID(operator, path, expected), path, value);
+    };
+    const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+      typeof v === 'object' && v !== null && !Array.isArray(v) && !(v instanceof Date);
+
+    if (path.length === 0 || path.split('.').some(part => part.length === 0)) {
+      fail('a valid field path');
+    }
+
+    switch (operator) {
+      case '$inc':
+      case '$mul':
+        if (typeof value !== 'number' || !Number.isFinite(value)) fail('a finite number');
+        break;
+      case '$rename':
+        if (typeof value !== 'string' || value.length === 0) fail('a target field path');
+        if (value === path) fail('a target different from the source');
+        break;
+      case '$pop':
+        if (value !== 1 && value !== -1) fail('1 or -1');
+        break;
+      case '$pullAll':
+        if (!Array.isArray(value)) fail('an array of values');
+        break;
+      case '$currentDate':
+        if (value !== true && !(isPlainObject(value) && (value.$type === 'date' || value.$type === 'timestamp'))) {
+          fail("true or { $type: 'date' | 'timestamp' }");
+        }
+        break;
+      case '$addToSet':
+        if (isPlainObject(value) && '$each' in value && !Array.isArray(value.$each)) fail('$each to be an array');
+        break;
+      case '$push':
+        if (isPlainObject(value) && Object.keys(value).some(key => key.startsWith('$'))) {
+          if (!Array.isArray(value.$each)) fail('$each to be an array when modifiers are used');
+          for (const modifier of Object.keys(value)) {
+            if (!['$each', '$slice', '$sort', '$position'].includes(modifier)) fail(`a known modifier (got ${modifier})`);
+          }
+          if (value.$slice !== undefined && !Number.isInteger(value.$slice)) fail('$slice to be an integer');
+          if (value.$position !== undefined && !Number.isInteger(value.$position)) fail('$position to be an integer');
+          if (value.$sort !== undefined && value.$sort !== 1 && value.$sort !== -1 &&
+              !(isPlainObject(value.$sort) && Object.values(value.$sort).every(dir => dir === 1 || dir === -1))) {
+            fail('$sort to be 1, -1 or a { field: 1 | -1 } specification');
+          }
+        }
+        break;
+    }
+  }
 }
@@ -1,5 +1,8 @@
 import { Document } from './types';
 import { logger } from './logger';
+import { ValidationError } from './errors';
+import { ERROR_MESSAGES } from './constants';
+import { HNSWIndex, HNSWOptions } from './hnsw';
 
 /**
  * Vector Search and AI/ML Embeddings Engine for Monarch Database
@@ -42,7 +45,8 @@ export class VectorEngine {
       metric = 'cosine',
       includeMetadata = true,
       includeScores = true,
-      indexName
+      indexName,
+      efSearch
     } = options;
 
     let candidates: Array<{ docId: string; score: number; entry: VectorEntry }> = [];
@@ -50,7 +54,7 @@ export class VectorEngine {
     if (indexName) {
       const index = this.indexes.get(indexName);
       if (!index) throw new Error(`Index ${indexName} not found`);
-      candidates = this.indexedSearch(index, queryVector, metric);
+      candidates = this.indexedSearch(index, queryVector, metric, limit, efSearch);
     } else {
       candidates = this.bruteForceSearch(collection, queryVector, metric);
     }
@@ -80,8 +84,18 @@ export class VectorEngine {
 
   /**
    * Create a vector index for faster search
+   * An `hnsw` index keeps an HNSW graph for approximate search, tuned by `M`, `efConstruction`
+   * and `efSearch` (see measureRecall); searches with another metric than the index's scan every vector.
+   *
+   * @throws ValidationError if the HNSW parameters are invalid
    */
   createVectorIndex(collection: string, options: VectorIndexOptions): string {
+    const { M = 16, efConstruction = 200, efSearch = 50 } = options;
+    const isCount = (value: number, min: number) => Number.isInteger(value) && value >= min;
+    if (!isCount(M, 2) || !isCount(efConstruction, 1) || !isCount(efSearch, 1)) {
+      throw new ValidationError(ERROR_MESSAGES.VECTOR_HNSW_OPTIONS_INVALID, 'hnsw', { M, efConstruction, efSearch });
+    }
+
     const indexName = `vector_${collection}_${Date.now()}`;
     const index: VectorIndex = {
       name: indexName,
@@ -90,6 +104,7 @@ export class VectorEngine {
       metric: options.metric || 'cosine',
       indexType: options.indexType || 'flat',
       vectors: new Map(),
+      hnswOptions: { M, efConstruction, efSearch },
       createdAt: Date.now()
     };
 
@@ -146,6 +161,46 @@ export class VectorEngine {
     });
   }
 
+  /**
+   * Measure how many of the true k nearest neighbours an index finds (recall@k), against an
+   * exact flat search of the same collection and metric, to tune M and efSearch
+   *
+   * @param options.efSearch - Candidates per search (default: the index's efSearch)
+   */
+  async measureRecall(indexName: string, queries: number[][], options: { k?: number; efSearch?: number } = {}): Promise<VectorRecallResult> {
+    const index = this.indexes.get(indexName);
+    if (!index) throw new Error(`Index ${indexName} not found`);
+    const { k = 10, efSearch } = options;
+
+    let found = 0;
+    let expected = 0;
+    let indexedTime = 0;
+    let flatTime = 0;
+    for (const query of queries) {
+      let start = performance.now();
+      const approximate = this.indexedSearch(index, query, index.metric, k, efSearch);
+      indexedTime += performance.now() - start;
+
+      start = performance.now();
+      const exact = this.bruteForceSearch(index.collection, query, index.metric)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      flatTime += performance.now() - start;
+
+      const approximateIds = new Set(approximate.map(({ docId }) => docId));
+      found += exact.filter(({ docId }) => approximateIds.has(docId)).length;
+      expected += exact.length;
+    }
+
+    return {
+      k,
+      queries: queries.length,
+      recall: expected === 0 ? 1 : found / expected,
+      indexedTimeMs: queries.length === 0 ? 0 : indexedTime / queries.length,
+      flatTimeMs: queries.length === 0 ? 0 : flatTime / queries.length
+    };
+  }
+
   /**
    * Generate embeddings using various models
    */
@@ -353,6 +408,7 @@ export class VectorEngine {
     for (const index of this.indexes.values()) {
       if (index.collection === collection) {
         index.vectors.delete(key);
+        index.hnsw?.remove(docId);
       }
     }
 
@@ -426,7 +482,7 @@ export class VectorEngine {
       if (!key.startsWith(`${collection}:`)) continue;
 
       const score = this.similarityToScore(this.distance(queryVector, entry.vector, metric), metric);
-      const docId = key.split(':')[1];
+      const docId = key.slice(collection.length + 1);
 
       candidates.push({ docId, score, entry });
     }
@@ -434,10 +490,19 @@ export class VectorEngine {
     return candidates;
   }
 
-  private indexedSearch(index: VectorIndex, queryVector: number[], metric: DistanceMetric) {
-    // For now, implement basic indexed search
-    // In production, this would use specialized algorithms like HNSW, IVF, etc.
-    return this.bruteForceSearch(index.collection, queryVector, metric);
+  /**
+   * Search through an index: its HNSW graph when it has one built for the metric, else every vector
+   */
+  private indexedSearch(index: VectorIndex, queryVector: number[], metric: DistanceMetric, limit: number, efSearch?: number) {
+    if (!index.hnsw || metric !== index.metric) {
+      return this.bruteForceSearch(index.collection, queryVector, metric);
+    }
+
+    return index.hnsw.search(this.graphVector(queryVector, metric), limit, efSearch).map(({ id: docId, distance }) => ({
+      docId,
+      score: this.similarityToScore(distance, metric),
+      entry: this.vectors.get(`${index.collection}:${docId}`)!
+    }));
   }
 
   private updateIndexes(collection: string, docId: string, vector: number[]): void {
@@ -450,13 +515,29 @@ export class VectorEngine {
           timestamp: Date.now(),
           dimension: vector.length
         });
+        index.hnsw?.insert(docId, this.graphVector(vector, index.metric));
       }
     }
   }
 
   private buildHNSWIndex(index: VectorIndex): void {
-    // Simplified HNSW implementation - in production would use a proper HNSW library
-    logger.debug('HNSW index building not fully implemented - using flat search');
+    const { metric } = index;
+    const distance = metric === 'cosine'
+      ? (a: number[], b: number[]) => 1 - this.dotProduct(a, b)
+      : (a: number[], b: number[]) => this.distance(a, b, metric);
+    index.hnsw = new HNSWIndex<string>(distance, index.hnswOptions);
+    for (const [key, { vector }] of index.vectors) {
+      index.hnsw.insert(key.slice(index.collection.length + 1), this.graphVector(vector, metric));
+    }
+  }
+
+  /**
+   * Vector as kept in an HNSW graph: unit length for cosine, so distance is 1 - dot product
+   */
+  private graphVector(vector: number[], metric: DistanceMetric): number[] {
+    if (metric !== 'cosine') return vector;
+    const norm = Math.sqrt(this.dotProduct(vector, vector));
+    return norm === 0 ? vector : vector.map(value => value / norm);
   }
 
   private buildIVFIndex(index: VectorIndex): void {
@@ -814,6 +895,8 @@ interface VectorIndex {
   metric: DistanceMetric;
   indexType: 'flat' | 'hnsw' | 'ivf';
   vectors: Map<string, VectorEntry>;
+  hnswOptions: HNSWOptions;
+  hnsw?: HNSWIndex<string>; // Graph of an hnsw index, by docId
   createdAt: number;
 }
 
@@ -824,6 +907,7 @@ interface VectorSearchOptions {
   includeMetadata?: boolean;
   includeScores?: boolean;
   indexName?: string;
+  efSearch?: number; // HNSW candidates for this search (default: the index's efSearch)
 }
 
 interface VectorSearchResult {
@@ -832,12 +916,20 @@ interface VectorSearchResult {
   metadata?: any;
 }
 
-interface VectorIndexOptions {
+interface VectorIndexOptions extends HNSWOptions {
   dimension: number;
   metric?: DistanceMetric;
   indexType?: 'flat' | 'hnsw' | 'ivf';
 }
 
+interface VectorRecallResult {
+  k: number;
+  queries: number;
+  recall: number; // Share of the exact k nearest neighbours found, 0 to 1
+  indexedTimeMs: number; // Average per query
+  flatTimeMs: number;
+}
+
 interface KMeansResult {
   centroids: number[][];
   clusters: number[][][];
@@ -0,0 +1,724 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Monarch, ValidationError, DataIntegrityError, ResourceLimitError, AggregationEngine } from '../src';
+
+describe('Collection.aggregate', () => {
+  let db: Monarch;
+  let orders: any;
+  let customers: any;
+  let products: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    customers = db.addCollection('customers');
+    customers.insert([
+      { code: 'c1', name: 'Ada', tier: 'gold' },
+      { code: 'c2', name: 'Linus', tier: 'silver' },
+      { code: 'c3', name: 'Grace', tier: 'gold' }
+    ]);
+
+    products = db.addCollection('products');
+    products.insert([
+      { sku: 'p1', title: 'Lamp', stock: 4 },
+      { sku: 'p2', title: 'Desk', stock: 0 },
+      { sku: 'p3', title: 'Chair', stock: 12 }
+    ]);
+
+    orders = db.addCollection('orders');
+    orders.insert([
+      { number: 1, customer: 'c1', items: ['p1', 'p3'], quantity: 2 },
+      { number: 2, customer: 'c2', items: ['p2'], quantity: 5 },
+      { number: 3, customer: 'c1', items: [], quantity: 1 },
+      { number: 4, customer: 'c9', items: ['p3'], quantity: 20 },
+      { number: 5, items: ['p1'], quantity: 1 }
+    ]);
+  });
+
+  it('should run a pipeline given as an array or as { stages }', async () => {
+    const pipeline = [{ $match: { quantity: { $gte: 2 } } }, { $sort: { quantity: -1 } }, { $limit: 2 }];
+
+    const fromArray = await orders.aggregate(pipeline);
+    const fromObject = await orders.aggregate({ stages: pipeline });
+    expect(fromArray.map((doc: any) => doc.number)).toEqual([4, 2]);
+    expect(fromObject).toEqual(fromArray);
+
+    await expect(orders.aggregate({ nope: true })).rejects.toThrow(ValidationError);
+  });
+
+  it('should answer a leading $match from indexes', async () => {
+    orders.createIndex('customer');
+    const explanation = orders.explain({ customer: 'c1' });
+    expect(explanation.winningPlan.indexes).toEqual(['customer']);
+
+    const result = await orders.aggregate([{ $match: { customer: 'c1' } }, { $project: { number: 1 } }]);
+    expect(result).toEqual([{ number: 1 }, { number: 3 }]);
+  });
+
+  it('should leave stored documents unchanged when stages write dotted paths', async () => {
+    const shipments = db.addCollection('shipments');
+    shipments.insert({ _id: 's1', customer: 'c1', order: { items: ['a', 'b', 'c'], total: 3 } });
+
+    const unwound = await shipments.aggregate([{ $unwind: '$order.items' }]);
+    expect(unwound.map((doc: any) => doc.order.items)).toEqual(['a', 'b', 'c']);
+    const [withCountry] = await shipments.aggregate([{ $addFields: { 'order.country': 'FR' } }]);
+    expect(withCountry.order).toEqual({ items: ['a', 'b', 'c'], total: 3, country: 'FR' });
+    const [joined] = await shipments.aggregate([
+      { $lookup: { from: 'customers', localField: 'customer', foreignField: 'code', as: 'order.customer' } }
+    ]);
+    expect(joined.order.customer.map((doc: any) => doc.name)).toEqual(['Ada']);
+
+    expect(await shipments.find({})).toEqual([{ _id: 's1', customer: 'c1', order: { items: ['a', 'b', 'c'], total: 3 } }]);
+  });
+
+  it('should join with the equality form of $lookup', async () => {
+    const result = await orders.aggregate([
+      { $lookup: { from: 'customers', localField: 'customer', foreignField: 'code', as: 'buyer' } },
+      { $sort: { number: 1 } }
+    ]);
+
+    expect(result.map((doc: any) => doc.buyer.map((buyer: any) => buyer.name))).toEqual([
+      ['Ada'], ['Linus'], ['Ada'], [], []
+    ]);
+    // Input documents are not modified
+    expect(orders.find({ number: 1 })[0].buyer).toBeUndefined();
+  });
+
+  it('should match array elements and missing fields in $lookup', async () => {
+    products.createIndex('sku');
+    const result = await orders.aggregate([
+      { $lookup: { from: 'products', localField: 'items', foreignField: 'sku', as: 'products' } },
+      { $sort: { number: 1 } }
+    ]);
+    expect(result.map((doc: any) => doc.products.map((product: any) => product.sku).sort())).toEqual([
+      ['p1', 'p3'], ['p2'], [], ['p3'], ['p1']
+    ]);
+
+    // A missing local field matches foreign documents without the field
+    products.insert({ title: 'Unlisted' });
+    const unlisted = await orders.aggregate([
+      { $match: { number: 5 } },
+      { $lookup: { from: 'products', localField: 'customer', foreignField: 'sku', as: 'products' } }
+    ]);
+    expect(unlisted[0].products.map((product: any) => product.title)).toEqual(['Unlisted']);
+  });
+
+  it('should join with the pipeline and let form of $lookup', async () => {
+    const result = await customers.aggregate([
+      { $match: { tier: 'gold' } },
+      {
+        $lookup: {
+          from: 'orders',
+          let: { code: '$code' },
+          pipeline: [
+            { $match: { quantity: { $gte: 2 } } },
+            { $match: { $expr: { $eq: ['$customer', '$$code'] } } },
+            { $project: { number: 1, quantity: 1 } }
+          ],
+          as: 'largeOrders'
+        }
+      }
+    ]);
+
+    expect(result.map((doc: any) => [doc.name, doc.largeOrders])).toEqual([
+      ['Ada', [{ number: 1, quantity: 2 }]],
+      ['Grace', []]
+    ]);
+  });
+
+  it('should nest $lookup stages and combine both forms', async () => {
+    const result = await customers.aggregate([
+      { $match: { code: 'c1' } },
+      {
+        $lookup: {
+          from: 'orders',
+          localField: 'code',
+          foreignField: 'customer',
+          let: { tier: '$tier' },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$$tier', 'gold'] } } },
+            { $lookup: { from: 'products', localField: 'items', foreignField: 'sku', as: 'products' } },
+            { $project: { number: 1, products: 1 } }
+          ],
+          as: 'orders'
+        }
+      }
+    ]);
+
+    const [ada] = result;
+    expect(ada.orders.map((order: any) => order.number)).toEqual([1, 3]);
+    expect(ada.orders[0].products.map((product: any) => product.title).sort()).toEqual(['Chair', 'Lamp']);
+  });
+
+  it('should join nothing from unknown collections and reject malformed stages', async () => {
+    const result = await orders.aggregate([
+      { $match: { number: 1 } },
+      { $lookup: { from: 'missing', localField: 'customer', foreignField: 'code', as: 'buyer' } }
+    ]);
+    expect(result[0].buyer).toEqual([]);
+
+    await expect(orders.aggregate([{ $lookup: { from: 'customers', localField: 'customer', as: 'buyer' } }]))
+      .rejects.toThrow(ValidationError);
+    await expect(orders.aggregate([{ $lookup: { from: 'customers', pipeline: [{ $match: { $expr: '$$nope' } }], as: 'x' } }]))
+      .rejects.toThrow(ValidationError);
+  });
+});
+
+describe('Analytical aggregation stages', () => {
+  let db: Monarch;
+  let sales: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    sales = db.addCollection('sales');
+    sales.insert([
+      { item: 'pen', price: 2, qty: 10, region: 'eu' },
+      { item: 'pen', price: 3, qty: 4, region: 'us' },
+      { item: 'book', price: 12, qty: 2, region: 'eu' },
+      { item: 'lamp', price: 40, qty: 1, region: 'eu' },
+      { item: 'desk', price: 150, qty: 1, region: 'us' },
+      { item: 'book', price: 15, qty: 3, region: 'apac' }
+    ]);
+  });
+
+  it('should group with accumulator expressions', async () => {
+    const result = await sales.aggregate([
+      { $group: {
+          _id: '$region',
+          orders: { $sum: 1 },
+          units: { $sum: '$qty' },
+          avgPrice: { $avg: '$price' },
+          cheapest: { $min: '$price' },
+          items: { $addToSet: '$item' },
+          first: { $first: '$item' }
+        }
+      },
+      { $sort: { orders: -1 } }
+    ]);
+
+    expect(result[0]).toEqual({ _id: 'eu', orders: 3, units: 13, avgPrice: 18, cheapest: 2, items: ['pen', 'book', 'lamp'], first: 'pen' });
+    await expect(sales.aggregate([{ $group: { _id: null, total: '$sum' } }])).rejects.toThrow(ValidationError);
+  });
+
+  it('should count, sort by count and sample', async () => {
+    expect(await sales.aggregate([{ $match: { region: 'eu' } }, { $count: 'euSales' }])).toEqual([{ euSales: 3 }]);
+    expect(await sales.aggregate([{ $match: { region: 'none' } }, { $count: 'n' }])).toEqual([]);
+    await expect(sales.aggregate([{ $count: '$n' }])).rejects.toThrow(ValidationError);
+
+    const byRegion = await sales.aggregate([{ $sortByCount: '$region' }]);
+    expect(byRegion).toEqual([{ _id: 'eu', count: 3 }, { _id: 'us', count: 2 }, { _id: 'apac', count: 1 }]);
+
+    const sample = await sales.aggregate([{ $sample: { size: 4 } }]);
+    expect(sample).toHaveLength(4);
+    expect(new Set(sample.map((doc: any) => doc._id)).size).toBe(4);
+    expect(await sales.aggregate([{ $sample: { size: 50 } }])).toHaveLength(6);
+  });
+
+  it('should bucket by boundaries with a default bucket', async () => {
+    const result = await sales.aggregate([
+      { $bucket: {
+          groupBy: '$price',
+          boundaries: [0, 10, 50],
+          default: 'expensive',
+          output: { count: { $sum: 1 }, items: { $push: '$item' } }
+        }
+      }
+    ]);
+
+    expect(result).toEqual([
+      { _id: 0, count: 2, items: ['pen', 'pen'] },
+      { _id: 10, count: 3, items: ['book', 'lamp', 'book'] },
+      { _id: 'expensive', count: 1, items: ['desk'] }
+    ]);
+
+    await expect(sales.aggregate([{ $bucket: { groupBy: '$price', boundaries: [0, 10] } }])).rejects.toThrow(ValidationError);
+    await expect(sales.aggregate([{ $bucket: { groupBy: '$price', boundaries: [10, 0] } }])).rejects.toThrow(ValidationError);
+  });
+
+  it('should spread documents evenly with $bucketAuto', async () => {
+    const result = await sales.aggregate([{ $bucketAuto: { groupBy: '$price', buckets: 3 } }]);
+    expect(result).toEqual([
+      { _id: { min: 2, max: 12 }, count: 2 },
+      { _id: { min: 12, max: 40 }, count: 2 },
+      { _id: { min: 40, max: 150 }, count: 2 }
+    ]);
+
+    // Equal values are never split across buckets, so fewer buckets than requested may come out
+    const byItem = await sales.aggregate([{ $bucketAuto: { groupBy: '$item', buckets: 4 } }]);
+    expect(byItem.map((bucket: any) => bucket._id)).toEqual([
+      { min: 'book', max: 'desk' }, { min: 'desk', max: 'pen' }, { min: 'pen', max: 'pen' }
+    ]);
+  });
+
+  it('should run facets over the same input and report their statistics', async () => {
+    const regions = db.addCollection('regions');
+    regions.insert([{ code: 'eu', name: 'Europe' }, { code: 'us', name: 'United States' }]);
+
+    const result = await AggregationEngine.execute(sales.find({}), {
+      stages: [
+        { $facet: {
+            byRegion: [{ $sortByCount: '$region' }, { $limit: 2 }],
+            priceBands: [{ $bucketAuto: { groupBy: '$price', buckets: 2 } }],
+            total: [{ $count: 'sales' }],
+            named: [
+              { $match: { region: 'eu' } },
+              { $lookup: { from: 'regions', let: { region: '$region' }, pipeline: [{ $match: { $expr: { $eq: ['$code', '$$region'] } } }], as: 'region' } }
+            ]
+          }
+        }
+      ]
+    }, { resolveCollection: name => db.getCollection(name) });
+
+    const [facets] = result.documents;
+    expect(facets.byRegion).toEqual([{ _id: 'eu', count: 3 }, { _id: 'us', count: 2 }]);
+    expect(facets.priceBands.map((band: any) => band.count)).toEqual([3, 3]);
+    expect(facets.total).toEqual([{ sales: 6 }]);
+    expect(facets.named.map((doc: any) => doc.region[0].name)).toEqual(['Europe', 'Europe', 'Europe']);
+
+    expect(Object.keys(result.subPipelines!)).toEqual([
+      '$facet.byRegion', '$facet.priceBands', '$facet.total', '$facet.named.$lookup.region', '$facet.named'
+    ]);
+    expect(result.subPipelines!['$facet.byRegion']).toMatchObject({ stagesExecuted: 2, documentsProcessed: 6 });
+    // The $lookup sub-pipeline ran once per European sale
+    expect(result.subPipelines!['$facet.named.$lookup.region'].stagesExecuted).toBe(3);
+  });
+});
+
+describe('Window functions', () => {
+  let db: Monarch;
+  let readings: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    readings = db.addCollection('readings');
+    const hour = (h: number) => new Date(Date.UTC(2026, 0, 1, h));
+    readings.insert([
+      { sensor: 'a', at: hour(0), value: 10 },
+      { sensor: 'b', at: hour(0), value: 5 },
+      { sensor: 'a', at: hour(1), value: 20 },
+      { sensor: 'a', at: hour(2), value: 20 },
+      { sensor: 'b', at: hour(2), value: 7 },
+      { sensor: 'a', at: hour(4), value: 50 }
+    ]);
+  });
+
+  const windowed = (output: Record<string, any>, sortBy: any = { at: 1 }) => readings.aggregate([
+    { $setWindowFields: { partitionBy: '$sensor', sortBy, output } }
+  ]);
+
+  it('should compute running totals and moving averages per partition', async () => {
+    const result = await windowed({
+      runningTotal: { $sum: '$value', window: { documents: ['unbounded', 'current'] } },
+      movingAvg: { $avg: '$value', window: { documents: [-1, 1] } },
+      partitionMax: { $max: '$value' },
+      lastTwoHours: { $push: '$value', window: { range: [-1, 'current'], unit: 'hour' } }
+    });
+
+    const a = result.filter((doc: any) => doc.sensor === 'a');
+    expect(a.map((doc: any) => doc.runningTotal)).toEqual([10, 30, 50, 100]);
+    expect(a.map((doc: any) => doc.movingAvg)).toEqual([15, 50 / 3, 30, 35]);
+    expect(a.map((doc: any) => doc.partitionMax)).toEqual([50, 50, 50, 50]);
+    expect(a.map((doc: any) => doc.lastTwoHours)).toEqual([[10], [10, 20], [20, 20], [50]]);
+
+    const b = result.filter((doc: any) => doc.sensor === 'b');
+    expect(b.map((doc: any) => doc.runningTotal)).toEqual([5, 12]);
+    // Partitions come out one after another, stored documents are untouched
+    expect(result.map((doc: any) => doc.sensor)).toEqual(['a', 'a', 'a', 'a', 'b', 'b']);
+    expect(readings.find({ sensor: 'a' })[0].runningTotal).toBeUndefined();
+  });
+
+  it('should rank, number and shift documents', async () => {
+    const result = await windowed({
+      rank: { $rank: {} },
+      denseRank: { $denseRank: {} },
+      number: { $documentNumber: {} },
+      previous: { $shift: { output: '$value', by: -1, default: 0 } },
+      next: { $shift: { output: '$value', by: 1 } }
+    }, { value: -1 });
+
+    const a = result.filter((doc: any) => doc.sensor === 'a');
+    expect(a.map((doc: any) => doc.value)).toEqual([50, 20, 20, 10]);
+    expect(a.map((doc: any) => doc.rank)).toEqual([1, 2, 2, 4]);
+    expect(a.map((doc: any) => doc.denseRank)).toEqual([1, 2, 2, 3]);
+    expect(a.map((doc: any) => doc.number)).toEqual([1, 2, 3, 4]);
+    expect(a.map((doc: any) => doc.previous)).toEqual([0, 50, 20, 20]);
+    expect(a.map((doc: any) => doc.next)).toEqual([20, 20, 10, null]);
+  });
+
+  it('should compute exponential moving averages and derivatives', async () => {
+    const result = await windowed({
+      ema: { $expMovingAvg: { input: '$value', N: 3 } },
+      latest: { $expMovingAvg: { input: '$value', N: 1 } },
+      perHour: { $derivative: { input: '$value', unit: 'hour' }, window: { documents: [-1, 'current'] } }
+    });
+
+    const a = result.filter((doc: any) => doc.sensor === 'a');
+    expect(a.map((doc: any) => doc.ema)).toEqual([10, 15, 17.5, 33.75]);
+    expect(a.map((doc: any) => doc.latest)).toEqual([10, 20, 20, 50]);
+    expect(a.map((doc: any) => doc.perHour)).toEqual([null, 10, 0, 15]);
+  });
+
+  it('should not write dotted outputs into stored documents', async () => {
+    const meters = db.addCollection('meters') as any;
+    meters.insert([
+      { site: 'x', value: 3, meta: { unit: 'kWh' } },
+      { site: 'x', value: 1, meta: { unit: 'kWh' } }
+    ]);
+
+    const result = await meters.aggregate([
+      { $setWindowFields: { partitionBy: '$site', sortBy: { value: 1 }, output: { 'meta.n': { $documentNumber: {} } } } }
+    ]);
+
+    expect(result.map((doc: any) => doc.meta)).toEqual([{ unit: 'kWh', n: 1 }, { unit: 'kWh', n: 2 }]);
+    expect(meters.find({}).map((doc: any) => doc.meta)).toEqual([{ unit: 'kWh' }, { unit: 'kWh' }]);
+  });
+
+  it('should slide frames over large partitions', async () => {
+    const ticks = db.addCollection('ticks') as any;
+    const size = 8000;
+    ticks.insert(Array.from({ length: size }, (_, i) => ({ t: Math.floor(i / 2), value: i % 7 })));
+
+    const result = await ticks.aggregate([
+      { $setWindowFields: { sortBy: { t: -1 }, output: {
+        total: { $sum: '$value', window: { documents: ['unbounded', 'current'] } },
+        lastThree: { $sum: '$value', window: { documents: [-2, 'current'] } },
+        nearby: { $count: {}, window: { range: [-1, 1] } },
+        highest: { $max: '$value', window: { documents: ['unbounded', 'current'] } }
+      } } }
+    ]);
+
+    const values = result.map((doc: any) => doc.value);
+    let total = 0;
+    let highest = -Infinity;
+    result.forEach((doc: any, i: number) => {
+      total += values[i];
+      highest = Math.max(highest, values[i]);
+      expect(doc.total).toBe(total);
+      expect(doc.highest).toBe(highest);
+      expect(doc.lastThree).toBe(values.slice(Math.max(0, i - 2), i + 1).reduce((a: number, b: number) => a + b, 0));
+      expect(doc.nearby).toBe(doc.t === 0 || doc.t === size / 2 - 1 ? 4 : 6);
+    });
+  });
+
+  it('should reject malformed window definitions', async () => {
+    await expect(readings.aggregate([{ $setWindowFields: { output: { rank: { $rank: {} } } } }])).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $sum: '$value', $avg: '$value' } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $median: '$value' } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $sum: '$value', window: { documents: [0.5, 1] } } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $derivative: { input: '$value' } } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $expMovingAvg: { input: '$value', N: 0 } } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $expMovingAvg: { input: '$value', alpha: 1 } } })).rejects.toThrow(ValidationError);
+    await expect(windowed({ x: { $sum: '$value', window: { range: [-1, 0] } } }, { sensor: 1, at: 1 })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('$out and $merge', () => {
+  let db: Monarch;
+  let sales: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    sales = db.addCollection('sales');
+    sales.insert([
+      { region: 'eu', day: '2026-05-01', amount: 10 },
+      { region: 'eu', day: '2026-05-02', amount: 15 },
+      { region: 'us', day: '2026-05-01', amount: 40 },
+      { region: 'apac', day: '2026-05-02', amount: 5 }
+    ]);
+  });
+
+  const rollup = (day: string, output: any) => sales.aggregate([
+    { $match: { day } },
+    { $group: { _id: '$region', total: { $sum: '$amount' } } },
+    output
+  ]);
+
+  it('should replace a target collection with $out, creating it when missing', async () => {
+    const events: any[] = [];
+    db.watch({ collection: 'totals' }, event => events.push(event));
+
+    expect(await rollup('2026-05-01', { $out: 'totals' })).toEqual([]);
+    const totals = db.getCollection('totals') as any;
+    expect(totals.find({}).map((doc: any) => doc._id).sort()).toEqual(['eu', 'us']);
+
+    totals.createIndex('total');
+    await rollup('2026-05-02', { $out: { coll: 'totals' } });
+    expect(totals.find({}).map((doc: any) => doc._id).sort()).toEqual(['apac', 'eu']);
+    expect(totals.find({ total: 15 })).toEqual([{ _id: 'eu', total: 15 }]);
+    expect(totals.find({ total: 40 })).toEqual([]);
+    expect(totals.listIndexes().map((index: any) => index.name)).toContain('total');
+
+    expect(events.map(event => event.type)).toEqual(['insert', 'insert', 'remove', 'remove', 'insert', 'insert']);
+  });
+
+  it('should leave the $out target unchanged when a write fails', async () => {
+    const totals = db.addCollection('totals') as any;
+    totals.insert({ _id: 'old', total: 1, code: 'x' });
+    totals.createIndex({ code: 1 }, { unique: true });
+
+    await expect(sales.aggregate([{ $project: { _id: 0, code: 'same' } }, { $out: 'totals' }])).rejects.toThrow(DataIntegrityError);
+    expect(totals.find({})).toEqual([{ _id: 'old', total: 1, code: 'x' }]);
+    expect(totals.find({ code: 'x' })).toHaveLength(1);
+  });
+
+  it('should merge into existing documents by the on fields', async () => {
+    const totals = db.addCollection('totals') as any;
+    totals.insert([{ _id: 'eu', total: 100, manager: 'Ines' }, { _id: 'latam', total: 7 }]);
+    const events: any[] = [];
+    db.watch({ collection: 'totals' }, event => events.push(event));
+
+    await rollup('2026-05-01', { $merge: { into: 'totals' } });
+    expect(totals.find({ _id: 'eu' })).toEqual([{ _id: 'eu', total: 10, manager: 'Ines' }]);
+    expect(totals.find({ _id: 'us' })).toEqual([{ _id: 'us', total: 40 }]);
+    expect(totals.find({ _id: 'latam' })).toEqual([{ _id: 'latam', total: 7 }]);
+    expect(events.map(event => event.type)).toEqual(['update', 'insert']);
+
+    await rollup('2026-05-02', { $merge: { into: 'totals', whenMatched: 'replace', whenNotMatched: 'discard' } });
+    expect(totals.find({ _id: 'eu' })).toEqual([{ _id: 'eu', total: 15 }]);
+    expect(totals.find({ _id: 'apac' })).toEqual([]);
+
+    await rollup('2026-05-01', { $merge: { into: 'totals', whenMatched: 'keepExisting' } });
+    expect(totals.find({ _id: 'eu' })).toEqual([{ _id: 'eu', total: 15 }]);
+  });
+
+  it('should run a whenMatched pipeline with the output document as $$new', async () => {
+    const daily = db.addCollection('daily') as any;
+    daily.insert({ region: 'eu', runs: 1, total: 3 });
+
+    await sales.aggregate([
+      { $project: { _id: 0, region: 1, amount: 1 } },
+      { $merge: {
+        into: 'daily',
+        on: 'region',
+        whenMatched: [{ $addFields: { runs: { $add: ['$runs', 1] }, total: { $add: ['$total', '$$new.amount'] } } }]
+      } }
+    ]);
+
+    // Both eu sales fold into the existing document, the others are inserted once each
+    expect(daily.find({ region: 'eu' })).toMatchObject([{ region: 'eu', runs: 3, total: 28 }]);
+    expect(daily.find({}).map((doc: any) => doc.region).sort()).toEqual(['apac', 'eu', 'us']);
+  });
+
+  it('should write nothing when a document is rejected', async () => {
+    const totals = db.addCollection('totals') as any;
+    totals.insert({ _id: 'us', total: 1 });
+
+    await expect(rollup('2026-05-01', { $merge: { into: 'totals', whenMatched: 'fail' } })).rejects.toThrow(DataIntegrityError);
+    await expect(rollup('2026-05-01', { $merge: { into: 'totals', whenNotMatched: 'fail' } })).rejects.toThrow(DataIntegrityError);
+    expect(totals.find({})).toEqual([{ _id: 'us', total: 1 }]);
+  });
+
+  it('should only allow $out and $merge at the end of the outermost pipeline', async () => {
+    await expect(sales.aggregate([{ $out: 'totals' }, { $limit: 1 }])).rejects.toThrow(ValidationError);
+    await expect(sales.aggregate([{ $facet: { all: [{ $merge: 'totals' }] } }])).rejects.toThrow(ValidationError);
+    await expect(sales.aggregate([{ $merge: { into: 'totals', whenMatched: 'upsert' } }])).rejects.toThrow(ValidationError);
+    await expect(sales.aggregate([{ $merge: { into: 'totals', on: 'missing' } }])).rejects.toThrow(ValidationError);
+    await expect(AggregationEngine.execute([], { stages: [{ $out: 'totals' }] })).rejects.toThrow(ValidationError);
+    expect(db.getCollection('totals')).toBeUndefined();
+  });
+});
+
+describe('$graphLookup', () => {
+  let db: Monarch;
+  let employees: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    employees = db.addCollection('employees');
+    employees.insert([
+      { _id: 'dev', name: 'Dev', reportsTo: 'Andrew' },
+      { _id: 'eliot', name: 'Eliot', reportsTo: 'Dev' },
+      { _id: 'ron', name: 'Ron', reportsTo: 'Eliot', active: false },
+      { _id: 'andrew', name: 'Andrew', reportsTo: null },
+      { _id: 'asya', name: 'Asya', reportsTo: 'Ron' },
+      { _id: 'dan', name: 'Dan', reportsTo: 'Andrew' }
+    ]);
+  });
+
+  const chain = (extra: any = {}) => employees.aggregate([
+    { $match: { name: 'Asya' } },
+    { $graphLookup: {
+      from: 'employees', startWith: '$reportsTo', connectFromField: 'reportsTo', connectToField: 'name', as: 'managers', ...extra
+    } }
+  ]);
+
+  it('should follow the connect fields up to the root', async () => {
+    const [asya] = await chain({ depthField: 'level' });
+
+    expect(asya.managers.map((doc: any) => [doc.name, doc.level])).toEqual([
+      ['Ron', 0], ['Eliot', 1], ['Dev', 2], ['Andrew', 3]
+    ]);
+    // Stored documents do not get the depth field
+    expect(employees.find({ name: 'Ron' })[0].level).toBeUndefined();
+  });
+
+  it('should not write a dotted depthField into the other collection', async () => {
+    const staff = db.addCollection('staff') as any;
+    staff.insert([
+      { _id: 'lead', name: 'Lead', reportsTo: null, meta: { team: 'core' } },
+      { _id: 'dev', name: 'Dev', reportsTo: 'Lead', meta: { team: 'core' } }
+    ]);
+    const tickets = db.addCollection('tickets') as any;
+    tickets.insert({ _id: 't1', owner: 'Dev' });
+
+    const [ticket] = await tickets.aggregate([
+      { $graphLookup: {
+        from: 'staff', startWith: '$owner', connectFromField: 'reportsTo', connectToField: 'name', as: 'chain', depthField: 'meta.depth'
+      } }
+    ]);
+
+    expect(ticket.chain.map((doc: any) => [doc.name, doc.meta])).toEqual([
+      ['Dev', { team: 'core', depth: 0 }], ['Lead', { team: 'core', depth: 1 }]
+    ]);
+    expect(staff.find({}).map((doc: any) => doc.meta)).toEqual([{ team: 'core' }, { team: 'core' }]);
+  });
+
+  it('should stop at maxDepth and only traverse documents matching restrictSearchWithMatch', async () => {
+    const [limited] = await chain({ maxDepth: 1 });
+    expect(limited.managers.map((doc: any) => doc.name)).toEqual(['Ron', 'Eliot']);
+
+    const [restricted] = await chain({ restrictSearchWithMatch: { active: { $ne: false } } });
+    expect(restricted.managers).toEqual([]);
+  });
+
+  it('should find descendants through array values and visit each document once', async () => {
+    const categories = db.addCollection('categories') as any;
+    categories.insert([
+      { _id: 'books', parent: null, children: ['fiction', 'science'] },
+      { _id: 'fiction', children: ['fantasy'] },
+      { _id: 'science', children: ['fantasy'] }, // Shares a child: reached once
+      { _id: 'fantasy', children: ['books'] } // Cycles back to the root
+    ]);
+
+    const [books] = await categories.aggregate([
+      { $match: { _id: 'books' } },
+      { $graphLookup: { from: 'categories', startWith: '$children', connectFromField: 'children', connectToField: '_id', as: 'tree', depthField: 'depth' } }
+    ]);
+    expect(books.tree.map((doc: any) => [doc._id, doc.depth])).toEqual([
+      ['fiction', 0], ['science', 0], ['fantasy', 1], ['books', 2]
+    ]);
+  });
+
+  it('should run one indexed find per round, shared between input documents', async () => {
+    employees.createIndex('name');
+    const find = vi.spyOn(employees, 'find');
+
+    const result = await employees.aggregate([
+      { $graphLookup: { from: 'employees', startWith: '$reportsTo', connectFromField: 'reportsTo', connectToField: 'name', as: 'managers' } }
+    ]);
+    expect(result.find((doc: any) => doc.name === 'Asya').managers).toHaveLength(4);
+    expect(result.find((doc: any) => doc.name === 'Dan').managers.map((doc: any) => doc.name)).toEqual(['Andrew']);
+    // The first round already looks up every manager name; deeper rounds reuse those matches
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(employees.explain(find.mock.calls[0][0]).winningPlan).toEqual({ stage: 'IXSCAN', indexes: ['name'] });
+  });
+
+  it('should validate the stage', async () => {
+    await expect(chain({ connectToField: undefined })).rejects.toThrow(ValidationError);
+    await expect(chain({ maxDepth: -1 })).rejects.toThrow(ValidationError);
+    await expect(chain({ restrictSearchWithMatch: 'active' })).rejects.toThrow(ValidationError);
+
+    const [unknown] = await chain({ from: 'nope' });
+    expect(unknown.managers).toEqual([]);
+  });
+});
+
+describe('Memory-bounded aggregation', () => {
+  let db: Monarch;
+  let events: any;
+  let tempDirectory: string;
+
+  const day = (n: number) => new Date(Date.UTC(2026, 0, 1 + n));
+
+  beforeEach(() => {
+    db = new Monarch();
+    events = db.addCollection('events');
+    events.insert(Array.from({ length: 300 }, (_, i) => ({
+      seq: i,
+      user: `user${i % 7}`,
+      amount: (i * 37) % 101,
+      at: day(i % 30)
+    })));
+    tempDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'monarch-aggregation-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDirectory, { recursive: true, force: true });
+  });
+
+  const spilling = { allowDiskUse: true, maxMemoryBytes: 4096, get tempDirectory() { return tempDirectory; } };
+
+  it('should sort in sorted runs on disk and merge them in order', async () => {
+    const input = events.find({});
+    const pipeline = { stages: [{ $sort: { amount: -1, at: 1 } } as any] };
+
+    const inMemory = await AggregationEngine.execute(input, pipeline);
+    const spilled = await AggregationEngine.execute(input, pipeline, spilling);
+
+    expect(inMemory.memory.spills).toBe(0);
+    expect(spilled.memory.spills).toBeGreaterThan(1);
+    expect(spilled.memory.spilledBytes).toBeGreaterThan(0);
+    // Same order, ties included, with dates read back as dates
+    expect(spilled.documents.map(doc => doc.seq)).toEqual(inMemory.documents.map(doc => doc.seq));
+    expect(spilled.documents[0].at).toBeInstanceOf(Date);
+
+    // Spill files are removed once the pipeline is done
+    expect(fs.readdirSync(tempDirectory)).toEqual([]);
+  });
+
+  it('should spill group partitions and combine them per key', async () => {
+    const pipeline = [
+      { $group: {
+        _id: '$user', total: { $sum: '$amount' }, average: { $avg: '$amount' }, count: { $count: {} },
+        first: { $first: '$seq' }, last: { $last: '$seq' }, latest: { $max: '$at' },
+        seqs: { $push: '$seq' }, days: { $addToSet: { $dayOfMonth: '$at' } }
+      } },
+      { $sort: { _id: 1 } }
+    ];
+
+    const expected = await events.aggregate(pipeline);
+    const spilled = await AggregationEngine.execute(events.find({}), { stages: pipeline as any }, spilling);
+    const result = spilled.documents;
+    expect(spilled.memory.spills).toBeGreaterThan(0);
+
+    expect(result).toEqual(expected.map((group: any) => ({ ...group, days: expect.arrayContaining(group.days) })));
+    expect(result[0]).toMatchObject({ _id: 'user0', count: 43, first: 0, last: 294 });
+    expect(result[0].seqs).toEqual(Array.from({ length: 43 }, (_, i) => i * 7));
+    expect(result[0].latest).toEqual(day(29));
+    expect(fs.readdirSync(tempDirectory)).toEqual([]);
+  });
+
+  it('should report the memory used and spills in the result', async () => {
+    const result = await AggregationEngine.execute(
+      events.find({}),
+      { stages: [{ $sortByCount: '$user' }, { $limit: 2 }] },
+      spilling
+    );
+    expect(result.documents).toEqual([{ _id: 'user0', count: 43 }, { _id: 'user1', count: 43 }]);
+    expect(result.memory.peakBytes).toBeGreaterThan(0);
+
+    // Streaming stages hold nothing
+    const streamed = await AggregationEngine.execute(events.find({}), { stages: [{ $match: { amount: { $gt: 50 } } }, { $limit: 5 }] });
+    expect(streamed.documents).toHaveLength(5);
+    expect(streamed.memory).toEqual({ peakBytes: 0, spills: 0, spilledBytes: 0 });
+  });
+
+  it('should fail with a ResourceLimitError over the budget without allowDiskUse', async () => {
+    const error = await events.aggregate([{ $sort: { amount: 1 } }], { maxMemoryBytes: 4096 }).catch((e: any) => e);
+    expect(error).toBeInstanceOf(ResourceLimitError);
+    expect(error.message).toContain('allowDiskUse');
+    expect(error.context).toMatchObject({ resource: 'aggregationMemory', limit: 4096 });
+
+    await expect(events.aggregate([{ $group: { _id: '$seq' } }], { maxMemoryBytes: 4096 })).rejects.toThrow(ResourceLimitError);
+
+    // Stages that need all their input at once cannot spill
+    await expect(events.aggregate([{ $sample: { size: 10 } }], { ...spilling })).rejects.toThrow('cannot spill');
+    await expect(events.aggregate([{ $facet: { all: [] } }], { maxMemoryBytes: 4096 })).rejects.toThrow(ResourceLimitError);
+  });
+
+  it('should validate the memory budget', async () => {
+    await expect(events.aggregate([], { maxMemoryBytes: 0 })).rejects.toThrow(ValidationError);
+    await expect(events.aggregate([], { maxMemoryBytes: 'lots' as any })).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { Monarch } from '../src';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Monarch, ValidationError } from '../src';
 
 describe('Change Streams', () => {
   let db: Monarch;
@@ -231,4 +231,108 @@ describe('Change Streams', () => {
       expect(events[0].timestamp).toBeLessThanOrEqual(afterInsert);
     });
   });
+
+  describe('Geofencing', () => {
+    const depot = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] };
+    let vans: any;
+    let fenceEvents: any[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      vans = db.addCollection('vans');
+      fenceEvents = [];
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const moveTo = (id: string, coordinates: number[], after = 0) => {
+      vi.advanceTimersByTime(after);
+      vans.update({ _id: id }, { $set: { location: { type: 'Point', coordinates } } });
+    };
+    const summary = () => fenceEvents.map(({ type, geofence, document, dwellTime }) =>
+      [type, geofence, document._id, ...(dwellTime === undefined ? [] : [dwellTime])]);
+
+    it('should emit enter, dwell and exit events from location changes', () => {
+      db.addGeofence({ name: 'depot', collection: 'vans', field: 'location', region: depot, dwellTime: 60_000 });
+      db.addGeofence({ name: 'customer', collection: 'vans', field: 'location', region: { center: [5, 5], radius: 1000 } });
+      db.watchGeofences({ collection: 'vans' }, event => fenceEvents.push(event));
+
+      vans.insert({ _id: 'van-1', location: { type: 'Point', coordinates: [0.5, 0.5] } });
+      moveTo('van-1', [0.6, 0.5], 30_000); // Not inside for long enough yet
+      moveTo('van-1', [0.7, 0.5], 30_000);
+      vans.update({ _id: 'van-1' }, { $set: { driver: 'Ann' } }); // Location unchanged
+      moveTo('van-1', [2, 2], 1000);
+      moveTo('van-1', [5.001, 5], 1000);
+      vans.update({ _id: 'van-1' }, { $unset: { location: 1 } });
+
+      expect(summary()).toEqual([
+        ['enter', 'depot', 'van-1'],
+        ['dwell', 'depot', 'van-1', 60_000],
+        ['exit', 'depot', 'van-1'],
+        ['enter', 'customer', 'van-1'],
+        ['exit', 'customer', 'van-1']
+      ]);
+      expect(fenceEvents[2].previousLocation).toEqual({ type: 'Point', coordinates: [0.7, 0.5] });
+      expect(fenceEvents[2].location).toEqual({ type: 'Point', coordinates: [2, 2] });
+      expect(fenceEvents[4].location).toBeNull();
+    });
+
+    it('should emit dwell once per stay inside a geofence', () => {
+      db.addGeofence({ name: 'depot', collection: 'vans', field: 'location', region: depot, dwellTime: 60_000 });
+      db.addGeofence({ name: 'yard', collection: 'vans', field: 'location', region: depot });
+      db.watchGeofences({ collection: 'vans' }, event => fenceEvents.push(event));
+
+      vans.insert({ _id: 'van-3', location: { type: 'Point', coordinates: [0.1, 0.1] } });
+      moveTo('van-3', [0.2, 0.1], 70_000);
+      moveTo('van-3', [0.3, 0.1], 10_000);
+      moveTo('van-3', [0.4, 0.1], 10_000);
+      moveTo('van-3', [2, 2], 1000);
+      moveTo('van-3', [0.5, 0.5], 1000); // A new stay dwells again
+      moveTo('van-3', [0.6, 0.5], 60_000);
+      moveTo('van-3', [0.7, 0.5], 1000);
+
+      expect(summary()).toEqual([
+        ['enter', 'depot', 'van-3'],
+        ['enter', 'yard', 'van-3'],
+        ['dwell', 'depot', 'van-3', 70_000],
+        ['dwell', 'yard', 'van-3', 70_000],
+        ['exit', 'depot', 'van-3'],
+        ['exit', 'yard', 'van-3'],
+        ['enter', 'depot', 'van-3'],
+        ['enter', 'yard', 'van-3'],
+        ['dwell', 'depot', 'van-3', 60_000],
+        ['dwell', 'yard', 'van-3', 60_000]
+      ]);
+    });
+
+    it('should filter listeners and manage geofences', () => {
+      db.addGeofence({ name: 'depot', collection: 'vans', field: 'location', region: depot });
+      db.watchGeofences({ geofence: 'depot', events: ['exit'] }, event => fenceEvents.push(event));
+      const all: any[] = [];
+      const listenerId = db.watchGeofences({}, event => all.push(event));
+
+      // A van already inside when the geofence is added starts dwelling at its next move
+      db.removeGeofence('vans', 'depot');
+      vans.insert({ _id: 'van-2', location: [0.5, 0.5] });
+      db.addGeofence({ name: 'depot', collection: 'vans', field: 'location', region: depot });
+      moveTo('van-2', [0.6, 0.6]);
+      moveTo('van-2', [3, 3]);
+
+      expect(summary()).toEqual([['exit', 'depot', 'van-2']]);
+      expect(all.map(({ type }) => type)).toEqual(['dwell', 'exit']);
+      expect(db.unwatchGeofences(listenerId)).toBe(true);
+      expect(db.getGeofences('vans')).toEqual([expect.objectContaining({ name: 'depot', field: 'location' })]);
+      expect(db.getChangeStreamStats()).toMatchObject({ geofences: 1, geofenceListeners: 1 });
+
+      expect(() => db.addGeofence({ name: 'depot', collection: 'vans', field: 'location', region: depot })).toThrow(ValidationError);
+      expect(() => db.addGeofence({ name: 'bad', collection: 'vans', field: 'location', region: { type: 'Point', coordinates: [0, 0] } as any })).toThrow(ValidationError);
+      expect(() => db.addGeofence({ name: 'bad', collection: 'vans', field: 'location', region: { center: [0, 0], radius: -1 } })).toThrow(ValidationError);
+      expect(() => db.addGeofence({ name: 'bad', collection: 'vans', field: 'location', region: depot, dwellTime: -5 } as any)).toThrow(ValidationError);
+      expect(db.removeGeofence('vans', 'depot')).toBe(true);
+      expect(db.removeGeofence('vans', 'depot')).toBe(false);
+    });
+  });
 });
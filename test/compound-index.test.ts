@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, DataIntegrityError, ValidationError } from '../src';
+import { QueryEngine } from '../src/query-engine';
+
+describe('Compound Indexes', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('orders');
+    collection.insert(Array.from({ length: 60 }, (_, i) => ({
+      sku: `s${i}`,
+      region: ['eu', 'us', 'apac'][i % 3],
+      status: i % 2 === 0 ? 'open' : 'closed',
+      total: i * 10
+    })));
+  });
+
+  it('should name compound indexes by spec and answer prefix queries like a scan', () => {
+    expect(collection.createIndex({ region: 1, status: 1, total: -1 })).toBe('region_1_status_1_total_-1');
+
+    const engine = new QueryEngine();
+    const queries = [
+      { region: 'eu' },
+      { region: 'us', status: 'open' },
+      { region: 'apac', status: 'closed', total: { $gte: 200 } },
+      { region: 'eu', status: { $eq: 'open' }, total: { $lt: 100 } },
+      { status: 'open' }
+    ];
+
+    for (const query of queries) {
+      const indexed = collection.find(query).map((doc: any) => doc.sku).sort();
+      const scanned = collection.find({}).filter((doc: any) => engine.matches(doc, query)).map((doc: any) => doc.sku).sort();
+      expect(indexed).toEqual(scanned);
+    }
+    expect(collection.find({ region: 'us', status: 'open' })).toHaveLength(10);
+  });
+
+  it('should reject invalid specifications and duplicate names', () => {
+    expect(() => collection.createIndex({ region: 2 })).toThrow(ValidationError);
+    expect(() => collection.createIndex({})).toThrow(ValidationError);
+
+    collection.createIndex({ region: 1, status: 1 });
+    expect(() => collection.createIndex({ region: 1, status: 1 })).toThrow(ValidationError);
+  });
+
+  it('should enforce unique constraints on insert without storing any of the batch', () => {
+    collection.createIndex({ sku: 1 }, { unique: true });
+
+    expect(() => collection.insert([{ sku: 'new' }, { sku: 's5' }])).toThrow(DataIntegrityError);
+    expect(collection.find({ sku: 'new' })).toHaveLength(0);
+    expect(collection.find({})).toHaveLength(60);
+
+    collection.insert({ sku: 'new' });
+    expect(collection.find({ sku: 'new' })).toHaveLength(1);
+  });
+
+  it('should enforce unique constraints on update and leave documents unchanged', () => {
+    collection.createIndex({ region: 1, sku: 1 }, { unique: true, name: 'region_sku' });
+
+    expect(() => collection.update({ region: 'eu' }, { $set: { sku: 'same' } })).toThrow(DataIntegrityError);
+    expect(collection.find({ sku: 'same' })).toHaveLength(0);
+
+    // Moving one document onto a free key is fine
+    expect(collection.update({ sku: 's0' }, { $set: { sku: 'same' } })).toBe(1);
+    expect(collection.find({ region: 'eu', sku: 'same' })).toHaveLength(1);
+    expect(collection.find({ region: 'eu', sku: 's0' })).toHaveLength(0);
+  });
+
+  it('should refuse to build a unique index over duplicate values', () => {
+    expect(() => collection.createIndex({ region: 1 }, { unique: true })).toThrow(DataIntegrityError);
+    expect(collection.listIndexes()).toHaveLength(0);
+  });
+
+  it('should leave documents without the fields out of sparse indexes', () => {
+    collection.insert({ sku: 'x1' });
+    collection.insert({ sku: 'x2' });
+    collection.createIndex({ coupon: 1 }, { unique: true, sparse: true });
+
+    collection.insert({ sku: 'x3', coupon: 'SAVE10' });
+    expect(() => collection.insert({ sku: 'x4', coupon: 'SAVE10' })).toThrow(DataIntegrityError);
+    expect(collection.find({ coupon: 'SAVE10' }).map((doc: any) => doc.sku)).toEqual(['x3']);
+    expect(collection.find({ coupon: { $exists: false } })).toHaveLength(62);
+  });
+
+  it('should intersect single-field indexes', () => {
+    collection.createIndex('region');
+    collection.createIndex('status');
+
+    const engine = new QueryEngine();
+    const plan = engine.planIndexScan((collection as any).indices, { region: 'eu', status: 'open' });
+    const ids = Array.from(plan!);
+    expect(ids).toHaveLength(10);
+
+    const docs = collection.find({ region: 'eu', status: 'open' });
+    expect(docs).toHaveLength(10);
+    expect(docs.every((doc: any) => doc.region === 'eu' && doc.status === 'open')).toBe(true);
+  });
+
+  it('should keep compound indexes current after updates and removals', () => {
+    collection.createIndex({ region: 1, total: 1 });
+
+    collection.update({ sku: 's4' }, { $set: { region: 'eu', total: 5000 } });
+    collection.remove({ sku: 's0' });
+
+    const totals = collection.find({ region: 'eu', total: { $gte: 0 } }).map((doc: any) => doc.total);
+    expect(totals).toContain(5000);
+    expect(totals).not.toContain(0);
+    expect(collection.find({ region: 'eu' })).toHaveLength(20);
+  });
+
+  it('should list and drop indexes of both kinds', async () => {
+    collection.createIndex('total');
+    collection.createIndex({ region: 1, status: -1 }, { name: 'by_region' });
+
+    expect(collection.listIndexes().map((index: any) => index.name)).toEqual(['total', 'by_region']);
+    expect(collection.getStats().indexCount).toBe(2);
+
+    await collection.dropIndex('by_region');
+    await collection.dropIndex('total');
+    expect(collection.listIndexes()).toEqual([]);
+    expect(collection.find({ region: 'us', status: 'open' })).toHaveLength(10);
+  });
+
+  it('should restore advanced indexes on deserialize', () => {
+    collection.createIndex({ sku: 1 }, { unique: true });
+    const restored = db.addCollection('restored') as any;
+    restored.deserialize(collection.serialize());
+
+    expect(restored.listIndexes().map((index: any) => index.name)).toEqual(['sku_1']);
+    expect(() => restored.insert({ sku: 's1' })).toThrow(DataIntegrityError);
+  });
+});
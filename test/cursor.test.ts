@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, Cursor, ValidationError } from '../src';
+
+describe('Cursor', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('people');
+    collection.insert([
+      { name: 'Alice', age: 30, city: 'NYC', profile: { email: 'a@x.io', phone: '1' } },
+      { name: 'Bob', age: 25, city: 'LA', profile: { email: 'b@x.io', phone: '2' } },
+      { name: 'Carol', age: 35, city: 'NYC', profile: { email: 'c@x.io', phone: '3' } },
+      { name: 'Dave', age: 25, city: 'SF', profile: { email: 'd@x.io', phone: '4' } },
+      { name: 'Eve', city: 'NYC' }
+    ]);
+  });
+
+  it('should return a lazily evaluated cursor from findCursor', async () => {
+    const cursor = collection.findCursor({ city: 'NYC' });
+    expect(cursor).toBeInstanceOf(Cursor);
+
+    collection.insert({ name: 'Frank', age: 40, city: 'NYC' });
+
+    const names = (await cursor.toArray()).map((doc: any) => doc.name);
+    expect(names).toEqual(['Alice', 'Carol', 'Eve', 'Frank']);
+  });
+
+  it('should sort by multiple fields with missing values first', async () => {
+    const docs = await collection.findCursor().sort({ age: 1, name: -1 }).toArray();
+    expect(docs.map((doc: any) => doc.name)).toEqual(['Eve', 'Dave', 'Bob', 'Alice', 'Carol']);
+  });
+
+  it('should apply skip and limit after sorting', async () => {
+    const docs = await collection.findCursor({ age: { $gte: 25 } }).sort({ age: -1 }).skip(1).limit(2).toArray();
+    expect(docs.map((doc: any) => doc.name)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should produce the same order with and without an index on the sort field', async () => {
+    const unindexed = await collection.findCursor().sort({ age: -1, name: 1 }).limit(4).toArray();
+    await collection.createIndex('age');
+    const indexed = await collection.findCursor().sort({ age: -1, name: 1 }).limit(4).toArray();
+
+    expect(indexed.map((doc: any) => doc.name)).toEqual(unindexed.map((doc: any) => doc.name));
+    expect(indexed.map((doc: any) => doc.name)).toEqual(['Carol', 'Alice', 'Bob', 'Dave']);
+  });
+
+  it('should project included and excluded fields, including dot paths', async () => {
+    const [included] = await collection.findCursor({ name: 'Alice' }).project({ name: 1, 'profile.email': 1 }).toArray();
+    expect(Object.keys(included).sort()).toEqual(['_id', 'name', 'profile']);
+    expect(included.profile).toEqual({ email: 'a@x.io' });
+
+    const [excluded] = await collection.findCursor({ name: 'Bob' }).project({ _id: 0, 'profile.phone': 0, city: 0 }).toArray();
+    expect(excluded).toEqual({ name: 'Bob', age: 25, profile: { email: 'b@x.io' } });
+
+    const [stored] = collection.find({ name: 'Bob' });
+    expect(stored.profile.phone).toBe('2');
+  });
+
+  it('should reject mixed projections and invalid options', () => {
+    expect(() => collection.findCursor().project({ name: 1, age: 0 })).toThrow(ValidationError);
+    expect(() => collection.findCursor().limit(-1)).toThrow(ValidationError);
+    expect(() => collection.findCursor().sort({ age: 2 })).toThrow(ValidationError);
+  });
+
+  it('should count matches, optionally honoring skip and limit', async () => {
+    const cursor = collection.findCursor({ city: 'NYC' }).skip(1).limit(5);
+    expect(await cursor.count()).toBe(3);
+    expect(await cursor.count(true)).toBe(2);
+  });
+
+  it('should support async iteration in batches and lock options once started', async () => {
+    const cursor = collection.findCursor().sort({ name: 1 }).batchSize(2);
+    const names: string[] = [];
+
+    for await (const doc of cursor) {
+      names.push(doc.name);
+    }
+
+    expect(names).toEqual(['Alice', 'Bob', 'Carol', 'Dave', 'Eve']);
+    expect(() => cursor.limit(1)).toThrow(ValidationError);
+  });
+
+  it('should pass sort and projection through findAsync', async () => {
+    const docs = await collection.findAsync({ city: 'NYC' }, { sort: { name: -1 }, projection: { name: 1, _id: 0 }, limit: 2 });
+    expect(docs).toEqual([{ name: 'Eve' }, { name: 'Carol' }]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, ValidationError } from '../src';
+
+describe('Collection.explain', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('orders');
+    collection.insert(Array.from({ length: 100 }, (_, i) => ({
+      sku: `s${i}`,
+      region: ['eu', 'us', 'apac', 'latam'][i % 4],
+      status: i % 2 === 0 ? 'open' : 'closed',
+      total: i
+    })));
+  });
+
+  it('should report a collection scan without indexes', () => {
+    const explanation = collection.explain({ region: 'eu' }, { verbosity: 'executionStats' });
+
+    expect(explanation.collection).toBe('orders');
+    expect(explanation.winningPlan).toEqual({ stage: 'COLLSCAN', indexes: [] });
+    expect(explanation.rejectedPlans).toEqual([]);
+    expect(explanation.executionStats).toMatchObject({ keysExamined: 0, docsExamined: 100, nReturned: 25 });
+    expect(explanation.executionStats.stages.map((stage: any) => stage.stage)).toEqual(['PLAN', 'COLLSCAN']);
+  });
+
+  it('should only plan by default', () => {
+    collection.createIndex('region');
+    const explanation = collection.explain({ region: 'eu' });
+
+    expect(explanation.verbosity).toBe('queryPlanner');
+    expect(explanation.winningPlan).toEqual({ stage: 'IXSCAN', indexes: ['region'] });
+    expect(explanation.executionStats).toBeUndefined();
+  });
+
+  it('should report the index that find actually uses', () => {
+    collection.createIndex('region');
+    const explanation = collection.explain({ region: 'eu' }, { verbosity: 'executionStats' });
+
+    expect(explanation.winningPlan).toEqual({ stage: 'IXSCAN', indexes: ['region'] });
+    expect(explanation.executionStats).toMatchObject({ keysExamined: 25, docsExamined: 25, nReturned: 25 });
+    expect(explanation.executionStats.nReturned).toBe(collection.find({ region: 'eu' }).length);
+  });
+
+  it('should count keys walked by a range scan on a compound index', () => {
+    collection.createIndex({ total: 1, status: 1 });
+    const explanation = collection.explain({ total: { $gte: 90 }, status: 'open' }, { verbosity: 'executionStats' });
+
+    expect(explanation.winningPlan).toEqual({ stage: 'IXSCAN', indexes: ['total_1_status_1'] });
+    expect(explanation.executionStats).toMatchObject({ keysExamined: 10, docsExamined: 10, nReturned: 5 });
+  });
+
+  it('should list rejected plans and execute them all on request', () => {
+    collection.createIndex('region');
+    collection.createIndex('status');
+    collection.createIndex('total');
+
+    const query = { region: 'eu', status: 'open', total: { $lt: 50 } };
+    const explanation = collection.explain(query, { verbosity: 'allPlansExecution' });
+
+    expect(explanation.winningPlan).toEqual({ stage: 'INDEX_INTERSECTION', indexes: ['region', 'status'] });
+    expect(explanation.rejectedPlans).toEqual([
+      { stage: 'IXSCAN', indexes: ['region'] },
+      { stage: 'IXSCAN', indexes: ['status'] },
+      { stage: 'IXSCAN', indexes: ['total'] }
+    ]);
+    expect(explanation.executionStats.nReturned).toBe(13);
+    expect(explanation.allPlansExecution.map((plan: any) => plan.nReturned)).toEqual([13, 13, 13]);
+    expect(explanation.allPlansExecution.map((plan: any) => plan.docsExamined)).toEqual([25, 50, 50]);
+  });
+
+  it('should report cache hits without changing the cache', () => {
+    const query = { status: 'open' };
+    expect(collection.explain(query).cacheHit).toBe(false);
+
+    collection.find(query);
+    expect(collection.explain(query).cacheHit).toBe(true);
+    expect(collection.explain({ status: 'closed' }, { verbosity: 'executionStats' }).cacheHit).toBe(false);
+    expect(collection.explain({ status: 'closed' }).cacheHit).toBe(false);
+  });
+
+  it('should feed executed plans into the query profiler', () => {
+    collection.createIndex('region');
+    for (let i = 0; i < 11; i++) {
+      collection.explain({ region: 'eu' }, { verbosity: 'executionStats' });
+      collection.explain({ status: 'open' }, { verbosity: 'executionStats' });
+    }
+    collection.explain({ total: 3 });
+
+    const profiler = collection.getQueryProfiler();
+    const profiles = profiler.getRecentProfiles();
+    expect(profiles).toHaveLength(22);
+    expect(profiles[0].indexesUsed).toEqual(['region']);
+    expect(profiles[1].indexesUsed).toEqual([]);
+    expect(profiles[1].documentsExamined).toBe(100);
+
+    // Only the field queried without an index is worth indexing
+    expect(profiler.suggestIndexes().map((suggestion: any) => suggestion.fields)).toEqual([['status']]);
+  });
+
+  it('should reject unknown verbosity', () => {
+    expect(() => collection.explain({ region: 'eu' }, { verbosity: 'everything' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, ValidationError, ExpressionEngine } from '../src';
+
+describe('Aggregation expressions', () => {
+  let db: Monarch;
+  let orders: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    orders = db.addCollection('orders');
+    orders.insert([
+      {
+        code: 'A-1', customer: '  Ada Lovelace ', placedAt: new Date('2026-03-01T23:30:00Z'), status: 'paid',
+        items: [{ sku: 'pen', price: 2.5, qty: 4 }, { sku: 'ink', price: 7.25, qty: 1 }], coupon: null
+      },
+      {
+        code: 'B-2', customer: 'Alan Turing', placedAt: new Date('2026-03-04T08:15:00Z'), status: 'refunded',
+        items: [{ sku: 'pad', price: 12, qty: 2 }], coupon: 'SPRING', budget: '30'
+      }
+    ]);
+  });
+
+  const evaluate = (expression: any, doc: any = {}) => ExpressionEngine.evaluate(doc, expression);
+
+  it('should compute arithmetic and conditionals in $project', async () => {
+    const [first, second] = await orders.aggregate([
+      { $sort: { code: 1 } },
+      { $project: {
+        code: 1,
+        total: { $round: [{ $sum: { $map: { input: '$items', as: 'item', in: { $multiply: ['$$item.price', '$$item.qty'] } } } }, 1] },
+        discount: { $ifNull: ['$coupon', 'none'] },
+        label: { $switch: {
+          branches: [{ case: { $eq: ['$status', 'paid'] }, then: 'settled' }, { case: { $eq: ['$status', 'refunded'] }, then: 'reversed' }],
+          default: 'pending'
+        } },
+        big: { $cond: { if: { $gte: [{ $size: '$items' }, 2] }, then: true, else: '$$REMOVE' } }
+      } }
+    ]);
+
+    // 17.25 rounds half to even
+    expect(first).toEqual({ code: 'A-1', total: 17.2, discount: 'none', label: 'settled', big: true });
+    expect(second).toEqual({ code: 'B-2', total: 24, discount: 'SPRING', label: 'reversed' });
+
+    expect(evaluate({ $subtract: [{ $add: [7, { $mod: [10, 4] }] }, { $divide: [9, 3] }] })).toBe(6);
+    expect(evaluate({ $round: [2.5, 0] })).toBe(2);
+    expect(evaluate({ $round: [3.5, 0] })).toBe(4);
+    expect(evaluate({ $trunc: [-2.789, 1] })).toBe(-2.7);
+    expect(evaluate({ $add: [1, null] })).toBeNull();
+  });
+
+  it('should evaluate string operators', async () => {
+    const [first] = await orders.aggregate([
+      { $match: { code: 'A-1' } },
+      { $addFields: {
+        name: { $trim: { input: '$customer' } },
+        initials: { $concat: [{ $substr: [{ $trim: { input: '$customer' } }, 0, 1] }, { $toLower: '$status' }] },
+        parts: { $split: ['$code', '-'] },
+        isA: { $regexMatch: { input: '$code', regex: '^a-', options: 'i' } }
+      } }
+    ]);
+
+    expect(first.name).toBe('Ada Lovelace');
+    expect(first.initials).toBe('Apaid');
+    expect(first.parts).toEqual(['A', '1']);
+    expect(first.isA).toBe(true);
+    expect(evaluate({ $concat: ['a', null] })).toBeNull();
+    expect(evaluate({ $toUpper: null })).toBe('');
+    expect(evaluate({ $strLenCP: 'héllo' })).toBe(5);
+  });
+
+  it('should evaluate array operators with scoped variables', () => {
+    const doc = { scores: [3, 8, 5, 10], tags: ['a', 'b'] };
+
+    expect(evaluate({ $filter: { input: '$scores', as: 'score', cond: { $gt: ['$$score', 4] }, limit: 2 } }, doc)).toEqual([8, 5]);
+    expect(evaluate({ $reduce: { input: '$scores', initialValue: 0, in: { $add: ['$$value', '$$this'] } } }, doc)).toBe(26);
+    expect(evaluate({ $arrayElemAt: ['$scores', -1] }, doc)).toBe(10);
+    expect(evaluate({ $in: ['b', '$tags'] }, doc)).toBe(true);
+    expect(evaluate({ $concatArrays: ['$tags', ['c']] }, doc)).toEqual(['a', 'b', 'c']);
+    expect(evaluate({ $slice: ['$scores', 1, 2] }, doc)).toEqual([8, 5]);
+    expect(evaluate({ $let: { vars: { top: { $max: '$scores' } }, in: { $multiply: ['$$top', 2] } } }, doc)).toBe(20);
+    expect(() => evaluate({ $size: '$missing' }, doc)).toThrow(ValidationError);
+  });
+
+  it('should extract, format and truncate dates in a time zone', async () => {
+    const placedAt = new Date('2026-03-01T23:30:00Z'); // A Sunday in UTC, a Monday in Tokyo
+    const doc = { placedAt };
+
+    expect(evaluate({ $year: '$placedAt' }, doc)).toBe(2026);
+    expect(evaluate({ $dayOfWeek: '$placedAt' }, doc)).toBe(1);
+    expect(evaluate({ $dayOfWeek: { date: '$placedAt', timezone: 'Asia/Tokyo' } }, doc)).toBe(2);
+    expect(evaluate({ $hour: { date: '$placedAt', timezone: '-05:00' } }, doc)).toBe(18);
+    expect(evaluate({ $dateToString: { date: '$placedAt', format: '%Y-%m-%d %H:%M %z', timezone: 'Asia/Kolkata' } }, doc))
+      .toBe('2026-03-02 05:00 +0530');
+    expect(evaluate({ $dateToString: { date: '$placedAt' } }, doc)).toBe('2026-03-01T23:30:00.000Z');
+    expect(evaluate({ $dateTrunc: { date: '$placedAt', unit: 'month', timezone: 'Asia/Tokyo' } }, doc))
+      .toEqual(new Date('2026-02-28T15:00:00Z'));
+    expect(evaluate({ $dateTrunc: { date: '$placedAt', unit: 'week', startOfWeek: 'monday' } }, doc))
+      .toEqual(new Date('2026-02-23T00:00:00Z'));
+    expect(evaluate({ $dateTrunc: { date: '$placedAt', unit: 'hour', binSize: 6 } }, doc))
+      .toEqual(new Date('2026-03-01T18:00:00Z'));
+
+    const byDay = await orders.aggregate([
+      { $group: { _id: { $dateToString: { date: '$placedAt', format: '%Y-%m-%d', timezone: 'America/New_York' } }, orders: { $sum: 1 } } }
+    ]);
+    expect(byDay.map((group: any) => group._id)).toEqual(['2026-03-01', '2026-03-04']);
+    expect(() => evaluate({ $year: { date: '$placedAt', timezone: 'Mars/Olympus' } }, doc)).toThrow(ValidationError);
+  });
+
+  it('should convert between types', () => {
+    expect(evaluate({ $toInt: '42' })).toBe(42);
+    expect(evaluate({ $toInt: 9.99 })).toBe(9);
+    expect(evaluate({ $toInt: true })).toBe(1);
+    expect(evaluate({ $toDouble: '2.5' })).toBe(2.5);
+    expect(evaluate({ $toString: 12 })).toBe('12');
+    expect(evaluate({ $toBool: 0 })).toBe(false);
+    expect(evaluate({ $toDate: '2026-03-01T00:00:00Z' })).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(evaluate({ $toDate: 0 })).toEqual(new Date(0));
+    expect(evaluate({ $toInt: null })).toBeNull();
+    expect(evaluate({ $convert: { input: 'abc', to: 'int', onError: -1 } })).toBe(-1);
+    expect(() => evaluate({ $toInt: 'abc' })).toThrow(ValidationError);
+    expect(() => evaluate({ $toDate: 'not a date' })).toThrow(ValidationError);
+  });
+
+  it('should power $expr in find', () => {
+    const over = orders.find({ $expr: { $gt: [{ $sum: '$items.price' }, { $toInt: { $ifNull: ['$budget', '9'] } }] } });
+    expect(over.map((doc: any) => doc.code)).toEqual(['A-1']);
+
+    const sunday = orders.find({ $expr: { $eq: [{ $dayOfWeek: '$placedAt' }, 1] } });
+    expect(sunday.map((doc: any) => doc.code)).toEqual(['A-1']);
+    expect(orders.find({ $expr: { $in: ['ink', '$items.sku'] } })).toHaveLength(1);
+  });
+
+  it('should reject unknown operators and malformed arguments', () => {
+    expect(() => evaluate({ $frobnicate: 1 })).toThrow(ValidationError);
+    expect(() => evaluate({ $add: [1, 2], $subtract: [3, 1] })).toThrow(ValidationError);
+    expect(() => evaluate({ $divide: [1, 0] })).toThrow(ValidationError);
+    expect(() => evaluate({ $subtract: [1] })).toThrow(ValidationError);
+    expect(() => evaluate({ $switch: { branches: [{ case: false, then: 1 }] } })).toThrow(ValidationError);
+    expect(() => evaluate({ $dateTrunc: { date: new Date(), unit: 'fortnight' } })).toThrow(ValidationError);
+    expect(() => evaluate('$$undefinedVariable')).toThrow(ValidationError);
+    expect(() => orders.find({ $expr: { $concat: ['$code', 5] } })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, ValidationError } from '../src';
+
+describe('Upsert and findOneAndModify', () => {
+  let db: Monarch;
+  let collection: any;
+  let events: any[];
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('jobs');
+    events = [];
+  });
+
+  describe('update with upsert', () => {
+    it('should insert a document built from the query equality fields and the update', () => {
+      const count = collection.update(
+        { name: 'visits', $and: [{ scope: { $eq: 'home' } }], hits: { $gt: 0 } },
+        { $inc: { hits: 1 }, $setOnInsert: { createdBy: 'system' } },
+        { upsert: true }
+      );
+
+      expect(count).toBe(1);
+      const [doc] = collection.find({ name: 'visits' });
+      expect(doc).toMatchObject({ name: 'visits', scope: 'home', hits: 1, createdBy: 'system' });
+      expect(doc._id).toBeDefined();
+    });
+
+    it('should update existing documents and ignore $setOnInsert when something matches', () => {
+      collection.insert({ name: 'visits', hits: 1 });
+
+      collection.update({ name: 'visits' }, { $inc: { hits: 1 }, $setOnInsert: { createdBy: 'system' } }, { upsert: true });
+
+      const docs = collection.find({ name: 'visits' });
+      expect(docs).toHaveLength(1);
+      expect(docs[0].hits).toBe(2);
+      expect(docs[0].createdBy).toBeUndefined();
+    });
+
+    it('should not insert without upsert', () => {
+      expect(collection.update({ name: 'missing' }, { $set: { a: 1 } })).toBe(0);
+      expect(collection.find({})).toHaveLength(0);
+    });
+  });
+
+  describe('findOneAndUpdate', () => {
+    beforeEach(() => {
+      collection.insert([
+        { task: 'a', status: 'pending', priority: 2 },
+        { task: 'b', status: 'pending', priority: 5 },
+        { task: 'c', status: 'done', priority: 9 }
+      ]);
+    });
+
+    it('should claim the highest priority job and return the document before the update', async () => {
+      const before = await collection.findOneAndUpdate(
+        { status: 'pending' },
+        { $set: { status: 'running' } },
+        { sort: { priority: -1 } }
+      );
+
+      expect(before.task).toBe('b');
+      expect(before.status).toBe('pending');
+      expect(collection.find({ status: 'running' }).map((doc: any) => doc.task)).toEqual(['b']);
+    });
+
+    it('should return the document after the update when requested', async () => {
+      const after = await collection.findOneAndUpdate(
+        { status: 'pending' },
+        { $inc: { priority: 10 } },
+        { sort: { priority: 1 }, returnDocument: 'after' }
+      );
+
+      expect(after.task).toBe('a');
+      expect(after.priority).toBe(12);
+    });
+
+    it('should return null when nothing matches and upsert when asked', async () => {
+      expect(await collection.findOneAndUpdate({ task: 'z' }, { $set: { status: 'x' } })).toBeNull();
+
+      const inserted = await collection.findOneAndUpdate(
+        { task: 'z' },
+        { $inc: { runs: 1 } },
+        { upsert: true, returnDocument: 'after' }
+      );
+      expect(inserted).toMatchObject({ task: 'z', runs: 1 });
+      expect(collection.find({ task: 'z' })).toHaveLength(1);
+    });
+
+    it('should emit a single update event with oldDocument populated', async () => {
+      db.watch({ collection: 'jobs' }, (event) => events.push(event));
+
+      await collection.findOneAndUpdate({ task: 'a' }, { $set: { status: 'running' } });
+
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('update');
+      expect(events[0].document.status).toBe('running');
+      expect(events[0].oldDocument.status).toBe('pending');
+    });
+
+    it('should keep indexes consistent', async () => {
+      await collection.createIndex('status');
+
+      await collection.findOneAndUpdate({ task: 'a' }, { $set: { status: 'running' } });
+
+      expect(collection.find({ status: 'running' }).map((doc: any) => doc.task)).toEqual(['a']);
+      expect(collection.find({ status: 'pending' }).map((doc: any) => doc.task)).toEqual(['b']);
+    });
+  });
+
+  describe('findOneAndReplace', () => {
+    it('should replace the whole document while keeping its _id', async () => {
+      const [original] = collection.insert({ task: 'a', status: 'pending', attempts: 3 });
+
+      const after = await collection.findOneAndReplace(
+        { task: 'a' },
+        { _id: 'ignored', task: 'a2', status: 'new' },
+        { returnDocument: 'after' }
+      );
+
+      expect(after).toEqual({ _id: original._id, task: 'a2', status: 'new' });
+      expect(collection.find({ task: 'a' })).toHaveLength(0);
+    });
+
+    it('should reject replacements containing update operators', async () => {
+      collection.insert({ task: 'a' });
+      await expect(collection.findOneAndReplace({ task: 'a' }, { $set: { task: 'b' } })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('findOneAndDelete', () => {
+    it('should remove and return the first document in sort order', async () => {
+      collection.insert([
+        { task: 'a', createdAt: 3 },
+        { task: 'b', createdAt: 1 },
+        { task: 'c', createdAt: 2 }
+      ]);
+      db.watch({ collection: 'jobs' }, (event) => events.push(event));
+
+      const removed = await collection.findOneAndDelete({}, { sort: { createdAt: 1 } });
+
+      expect(removed.task).toBe('b');
+      expect(collection.find({})).toHaveLength(2);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('remove');
+      expect(await collection.findOneAndDelete({ task: 'missing' })).toBeNull();
+    });
+  });
+});
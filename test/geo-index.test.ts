@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AggregationEngine, Collection, Monarch, ValidationError } from '../src';
+
+describe('2dsphere Indexes', () => {
+  let db: Monarch;
+  let places: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    places = db.addCollection('places');
+    places.insert([
+      { _id: 'paris', country: 'FR', location: { type: 'Point', coordinates: [2.3522, 48.8566] } },
+      { _id: 'london', country: 'GB', location: { type: 'Point', coordinates: [-0.1276, 51.5072] } },
+      { _id: 'brussels', country: 'BE', location: { type: 'Point', coordinates: [4.3517, 50.8503] } },
+      { _id: 'amsterdam', country: 'NL', location: { type: 'Point', coordinates: [4.9041, 52.3676] } },
+      { _id: 'berlin', country: 'DE', location: { type: 'Point', coordinates: [13.405, 52.52] } },
+      { _id: 'madrid', country: 'ES', location: { type: 'Point', coordinates: [-3.7038, 40.4168] } },
+      { _id: 'new-york', country: 'US', location: { type: 'Point', coordinates: [-74.006, 40.7128] } },
+      { _id: 'lyon', country: 'FR', location: [4.8357, 45.764] },
+      { _id: 'nowhere', country: 'FR' }
+    ]);
+  });
+
+  const ids = (docs: any[]) => docs.map(doc => doc._id);
+  const paris = { type: 'Point', coordinates: [2.3522, 48.8566] };
+
+  it('should order $near and $nearSphere matches by distance', () => {
+    const near = () => ids(places.find({ location: { $near: { $geometry: paris, $maxDistance: 500e3 } } }));
+    const unindexed = near();
+
+    expect(places.createIndex({ location: '2dsphere' })).toBe('location_2dsphere');
+    expect(near()).toEqual(['paris', 'brussels', 'london', 'lyon', 'amsterdam']);
+    expect(unindexed).toEqual(near());
+
+    expect(ids(places.find({ location: { $nearSphere: { $geometry: paris, $minDistance: 300e3, $maxDistance: 1000e3 } } })))
+      .toEqual(['london', 'lyon', 'amsterdam', 'berlin']);
+    expect(ids(places.find({ location: { $near: { $geometry: paris } }, country: 'FR' }))).toEqual(['paris', 'lyon']);
+    expect(ids(places.find({ location: { $near: [-73.9, 40.7] } })).slice(0, 2)).toEqual(['new-york', 'london']);
+
+    expect(places.listIndexes()).toContainEqual(expect.objectContaining({ name: 'location_2dsphere', fields: ['location'], options: { geo: true } }));
+    expect(() => places.find({ location: { $near: { $geometry: { type: 'Point', coordinates: [200, 0] } } } })).toThrow(ValidationError);
+    expect(() => places.find({ location: { $near: { $geometry: paris, $maxDistance: -1 } } })).toThrow(ValidationError);
+  });
+
+  it('should match $geoWithin regions and $geoIntersects geometries with or without the index', () => {
+    const queries = [
+      { location: { $geoWithin: { $box: [[-1, 48], [5, 53]] } } },
+      { location: { $geoWithin: { $centerSphere: [[2.3522, 48.8566], 300e3 / 6371e3] } } },
+      { location: { $geoWithin: { $polygon: [[-5, 40], [5, 40], [5, 50], [-5, 50]] } } },
+      { location: { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [[[3, 45], [15, 45], [15, 55], [3, 55], [3, 45]]] } } } },
+      { location: { $geoIntersects: { $geometry: { type: 'MultiPolygon', coordinates: [[[[-1, 51], [0, 51], [0, 52], [-1, 52], [-1, 51]]], [[[13, 52], [14, 52], [14, 53], [13, 53], [13, 52]]]] } } } },
+      { location: { $geoWithin: { $box: [[-1, 48], [5, 53]] } }, country: { $ne: 'GB' } }
+    ];
+    const expected = [
+      ['amsterdam', 'brussels', 'london', 'paris'],
+      ['brussels', 'paris'],
+      ['lyon', 'madrid', 'paris'],
+      ['amsterdam', 'berlin', 'brussels', 'lyon'],
+      ['berlin', 'london'],
+      ['amsterdam', 'brussels', 'paris']
+    ];
+
+    expect(queries.map(query => ids(places.find(query)).sort())).toEqual(expected);
+    places.createIndex({ location: '2dsphere' });
+    expect(queries.map(query => ids(places.find(query)).sort())).toEqual(expected);
+
+    // A delivery zone (polygon) intersects the points inside it, and is within regions holding all its vertices
+    places.insert({ _id: 'zone', location: { type: 'Polygon', coordinates: [[[2, 48.5], [3, 48.5], [3, 49], [2, 49], [2, 48.5]]] } });
+    expect(ids(places.find({ location: { $geoIntersects: { $geometry: paris } } })).sort()).toEqual(['paris', 'zone']);
+    expect(ids(places.find({ location: { $geoWithin: { $centerSphere: [[2.5, 48.75], 100e3 / 6371e3] } } })).sort()).toEqual(['paris', 'zone']);
+    expect(ids(places.find({ location: { $near: { $geometry: { type: 'Point', coordinates: [2.5, 48.7] }, $maxDistance: 1 } } }))).toEqual(['zone']);
+
+    expect(() => places.find({ location: { $geoWithin: { $box: [[0, 0]] } } })).toThrow(ValidationError);
+    expect(() => places.find({ location: { $geoIntersects: { $geometry: { type: 'Circle' } } } })).toThrow(ValidationError);
+  });
+
+  it('should explain geo queries with the 2dsphere index find uses', () => {
+    const near = { location: { $near: { $geometry: paris, $maxDistance: 500e3 } } };
+    const within = { location: { $geoWithin: { $box: [[-1, 48], [5, 53]] } }, country: { $ne: 'GB' } };
+
+    expect(places.explain(near, { verbosity: 'executionStats' }).executionStats).toMatchObject({ keysExamined: 0, docsExamined: 9, nReturned: 5 });
+    expect(places.explain(within).winningPlan).toEqual({ stage: 'COLLSCAN', indexes: [] });
+
+    places.createIndex({ location: '2dsphere' });
+    const nearest = places.explain(near, { verbosity: 'executionStats' });
+    expect(nearest.winningPlan).toEqual({ stage: 'GEO_NEAR_2DSPHERE', indexes: ['location_2dsphere'] });
+    expect(nearest.executionStats).toMatchObject({ keysExamined: 5, docsExamined: 5, nReturned: 5 });
+
+    const region = places.explain(within, { verbosity: 'executionStats' });
+    expect(region.winningPlan).toEqual({ stage: 'IXSCAN', indexes: ['location_2dsphere'] });
+    expect(region.executionStats).toMatchObject({ keysExamined: 4, docsExamined: 4, nReturned: 3 });
+    expect(region.executionStats.nReturned).toBe(places.find(within).length);
+    expect(places.getQueryProfiler().getRecentProfiles().map((profile: any) => profile.indexesUsed)).toEqual([
+      [], ['location_2dsphere'], ['location_2dsphere']
+    ]);
+  });
+
+  it('should keep the index current on insert, update and remove', async () => {
+    places.createIndex({ location: '2dsphere' });
+    const nearParis = () => ids(places.find({ location: { $near: { $geometry: paris, $maxDistance: 300e3 } } }));
+    expect(nearParis()).toEqual(['paris', 'brussels']);
+
+    places.insert({ _id: 'versailles', location: { type: 'Point', coordinates: [2.1301, 48.8049] } });
+    places.update({ _id: 'london' }, { $set: { 'location.coordinates': [2.2, 48.9] } });
+    places.update({ _id: 'nowhere' }, { $set: { location: [2.36, 48.86] } });
+    places.update({ _id: 'brussels' }, { $unset: { location: 1 } });
+    places.remove({ _id: 'paris' });
+    expect(nearParis()).toEqual(['nowhere', 'london', 'versailles']);
+
+    // The index definition survives persistence and is rebuilt from the documents
+    const restored = new Collection('places');
+    restored.deserialize(places.serialize());
+    expect(ids(restored.find({ location: { $near: { $geometry: paris, $maxDistance: 300e3 } } }))).toEqual(['nowhere', 'london', 'versailles']);
+
+    await places.dropIndex('location_2dsphere');
+    expect(nearParis()).toEqual(['nowhere', 'london', 'versailles']);
+    expect(places.listIndexes()).toEqual([]);
+  });
+
+  it('should output distances from a $geoNear stage', async () => {
+    places.createIndex({ location: '2dsphere' });
+
+    const results = await places.aggregate([
+      {
+        $geoNear: {
+          near: paris,
+          distanceField: 'dist.km',
+          distanceMultiplier: 0.001,
+          maxDistance: 900e3,
+          query: { country: { $ne: 'GB' } },
+          includeLocs: 'dist.location'
+        }
+      },
+      { $limit: 4 }
+    ]);
+    expect(ids(results)).toEqual(['paris', 'brussels', 'lyon', 'amsterdam']);
+    expect(results[0].dist).toEqual({ km: 0, location: paris });
+    expect(results[1].dist.km).toBeCloseTo(264, 0);
+    expect(results[2].dist.location).toEqual({ type: 'Point', coordinates: [4.8357, 45.764] });
+    expect(await places.findOne({ _id: 'brussels' })).not.toHaveProperty('dist');
+
+    // Without a collection the key is required and every document is measured
+    const { documents } = await AggregationEngine.execute(places.find({}), {
+      stages: [{ $geoNear: { near: [-74, 40.7], key: 'location', distanceField: 'meters', minDistance: 5000e3 } }]
+    });
+    expect(ids(documents)).toEqual(['london', 'madrid', 'paris', 'amsterdam', 'brussels', 'lyon', 'berlin']);
+    expect(documents[0].meters).toBeCloseTo(5570.7e3, -3);
+
+    await expect(places.aggregate([{ $match: {} }, { $geoNear: { near: paris, distanceField: 'd' } }])).rejects.toThrow(ValidationError);
+    await expect(places.aggregate([{ $geoNear: { near: paris } }])).rejects.toThrow(ValidationError);
+
+    // With several 2dsphere indexes the key must be named
+    expect(() => places.createIndex({ country: 1, location: '2dsphere' })).toThrow(ValidationError);
+    places.createIndex({ 'office.location': '2dsphere' });
+    await expect(places.aggregate([{ $geoNear: { near: paris, distanceField: 'd' } }])).rejects.toThrow(ValidationError);
+    expect(ids(await places.aggregate([{ $geoNear: { near: paris, key: 'location', distanceField: 'd', maxDistance: 1 } }]))).toEqual(['paris']);
+    await expect(AggregationEngine.execute([], { stages: [{ $geoNear: { near: paris, distanceField: 'd' } }] })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('GeoJSON Geometries', () => {
+  let db: Monarch;
+  let routes: any;
+
+  // A delivery zone with a hole (a pedestrian area) in the middle
+  const zone = {
+    type: 'Polygon',
+    coordinates: [
+      [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+      [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]]
+    ]
+  };
+
+  beforeEach(() => {
+    db = new Monarch();
+    routes = db.addCollection('routes');
+    routes.insert([
+      { _id: 'through', path: { type: 'LineString', coordinates: [[-5, 5], [15, 5]] } },
+      { _id: 'in-hole', path: { type: 'LineString', coordinates: [[4.5, 5], [5.5, 5]] } },
+      { _id: 'outside', path: { type: 'LineString', coordinates: [[20, 20], [30, 30]] } },
+      { _id: 'inner', path: { type: 'LineString', coordinates: [[1, 1], [3, 1], [3, 3]] } },
+      { _id: 'around-hole', path: { type: 'LineString', coordinates: [[3, 5], [7, 5]] } },
+      { _id: 'ring-zone', path: { type: 'Polygon', coordinates: [[[3, 3], [7, 3], [7, 7], [3, 7], [3, 3]]] } },
+      { _id: 'stops', path: { type: 'MultiPoint', coordinates: [[5, 5], [2, 2]] } },
+      { _id: 'branches', path: { type: 'MultiLineString', coordinates: [[[20, 0], [25, 0]], [[8, 8], [9, 9]]] } },
+      { _id: 'depot', path: { type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [50, 50] }, { type: 'LineString', coordinates: [[1, 1], [2, 2]] }] } },
+      { _id: 'edge', path: { type: 'Point', coordinates: [10, 5] } }
+    ]);
+  });
+
+  const ids = (docs: any[]) => docs.map(doc => doc._id).sort();
+
+  it('should intersect and contain lines, multi-geometries and collections, respecting holes', () => {
+    const intersecting = () => ids(routes.find({ path: { $geoIntersects: { $geometry: zone } } }));
+    const within = () => ids(routes.find({ path: { $geoWithin: { $geometry: zone } } }));
+    const expected = [['around-hole', 'branches', 'depot', 'edge', 'inner', 'ring-zone', 'stops', 'through'], ['edge', 'inner']];
+
+    expect([intersecting(), within()]).toEqual(expected);
+    routes.createIndex({ path: '2dsphere' });
+    expect([intersecting(), within()]).toEqual(expected);
+
+    // Routes entering the pedestrian area, and the distance to the nearest route
+    const hole = { type: 'Polygon', coordinates: [zone.coordinates[1]] };
+    expect(ids(routes.find({ path: { $geoIntersects: { $geometry: hole } } }))).toEqual(['around-hole', 'in-hole', 'ring-zone', 'stops', 'through']);
+    const [closest] = routes.find({ path: { $near: { $geometry: { type: 'Point', coordinates: [17, 17] } } } });
+    expect(closest._id).toBe('outside');
+  });
+
+  it('should handle geometries crossing the antimeridian', async () => {
+    const pacific = { type: 'Polygon', coordinates: [[[170, -10], [-170, -10], [-170, 10], [170, 10], [170, -10]]] };
+    routes.insert([
+      { _id: 'ferry', path: { type: 'LineString', coordinates: [[175, 0], [-175, 0]] } },
+      { _id: 'buoy', path: [-179, 5] },
+      { _id: 'crossing', path: { type: 'LineString', coordinates: [[160, 0], [-160, 0]] } }
+    ]);
+
+    const query = (operator: string) => ids(routes.find({ path: { [operator]: { $geometry: pacific } } }));
+    const expected = [['buoy', 'crossing', 'ferry'], ['buoy', 'ferry']];
+    expect([query('$geoIntersects'), query('$geoWithin')]).toEqual(expected);
+    routes.createIndex({ path: '2dsphere' });
+    expect([query('$geoIntersects'), query('$geoWithin')]).toEqual(expected);
+
+    const near = routes.find({ path: { $near: { $geometry: { type: 'Point', coordinates: [-179.5, 0] }, $maxDistance: 1000 } } });
+    expect(ids(near)).toEqual(['crossing', 'ferry']);
+
+    // Longitudes 180 and -180 are the same meridian, with or without the index
+    routes.insert({ _id: 'dateline', path: [180, 20] });
+    const dateline = (longitude: number) => ids(routes.find({ path: { $geoIntersects: { $geometry: { type: 'Point', coordinates: [longitude, 20] } } } }));
+    expect([dateline(180), dateline(-180)]).toEqual([['dateline'], ['dateline']]);
+    await routes.dropIndex('path_2dsphere');
+    expect([dateline(180), dateline(-180)]).toEqual([['dateline'], ['dateline']]);
+  });
+
+  it('should reject invalid GeoJSON with a ValidationError', async () => {
+    const open = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] };
+    const strayHole = { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]], [[5, 5], [6, 5], [6, 6], [5, 5]]] };
+    expect(() => routes.find({ path: { $geoIntersects: { $geometry: open } } })).toThrow(/Invalid GeoJSON geometry: .*first position/);
+    expect(() => routes.find({ path: { $geoWithin: { $geometry: strayHole } } })).toThrow(/hole must lie inside/);
+    expect(() => routes.find({ path: { $geoIntersects: { $geometry: { type: 'LineString', coordinates: [[0, 0]] } } } })).toThrow(ValidationError);
+
+    // Unindexed fields may hold anything; a 2dsphere index refuses invalid locations
+    routes.insert({ _id: 'draft', path: { type: 'LineString', coordinates: [[0, 0]] } });
+    expect(() => routes.createIndex({ path: '2dsphere' })).toThrow(ValidationError);
+    expect(routes.listIndexes()).toEqual([]);
+    routes.remove({ _id: 'draft' });
+
+    routes.createIndex({ path: '2dsphere' });
+    expect(() => routes.insert({ path: { type: 'Point', coordinates: [0, 100] } })).toThrow(ValidationError);
+    expect(() => routes.update({ _id: 'edge' }, { $set: { 'path.type': 'Polygon' } })).toThrow(ValidationError);
+    expect((await routes.findOne({ _id: 'edge' })).path).toEqual({ type: 'Point', coordinates: [10, 5] });
+    expect(await routes.count()).toBe(10);
+    routes.insert({ _id: 'unplanned' });
+    expect(await routes.count()).toBe(11);
+  });
+});
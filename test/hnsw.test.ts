@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { HNSWIndex } from '../src/hnsw';
+import { random } from './helpers/random';
+
+describe('HNSW Index', () => {
+  const next = random(11);
+  const dimension = 16;
+  const vectors = Array.from({ length: 2000 }, () => Array.from({ length: dimension }, () => next()));
+  const queries = Array.from({ length: 50 }, () => Array.from({ length: dimension }, () => next()));
+  const euclidean = (a: number[], b: number[]) => Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+
+  const exact = (query: number[], ids: number[], k: number) => ids
+    .map(id => ({ id, distance: euclidean(query, vectors[id]) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map(({ id }) => id);
+  const recall = (index: HNSWIndex<number>, ids: number[], k = 10) => {
+    let found = 0;
+    for (const query of queries) {
+      const approximate = new Set(index.search(query, k).map(({ id }) => id));
+      found += exact(query, ids, k).filter(id => approximate.has(id)).length;
+    }
+    return found / (queries.length * k);
+  };
+
+  it('should find nearly all true nearest neighbours, closest first', () => {
+    const index = new HNSWIndex<number>(euclidean, { M: 12, efConstruction: 100, efSearch: 64 });
+    vectors.forEach((vector, id) => index.insert(id, vector));
+
+    expect(index.size).toBe(2000);
+    expect(index.levels).toBeGreaterThan(1);
+    expect(recall(index, vectors.map((_, id) => id))).toBeGreaterThanOrEqual(0.95);
+
+    const results = index.search(queries[0], 20);
+    expect(results).toHaveLength(20);
+    expect(results.map(({ distance }) => distance)).toEqual([...results.map(({ distance }) => distance)].sort((a, b) => a - b));
+    expect(results[0].distance).toBeCloseTo(euclidean(queries[0], vectors[results[0].id]), 10);
+
+    // A larger candidate list never finds less
+    const narrow = index.search(queries[1], 10, 10);
+    const wide = index.search(queries[1], 10, 400);
+    expect(wide[9].distance).toBeLessThanOrEqual(narrow[9].distance);
+  });
+
+  it('should stay navigable through removals and updates', () => {
+    const index = new HNSWIndex<number>(euclidean, { M: 12, efConstruction: 100, efSearch: 64 });
+    vectors.forEach((vector, id) => index.insert(id, vector));
+
+    const kept = vectors.map((_, id) => id).filter(id => id % 2 === 0);
+    vectors.forEach((_, id) => {
+      if (id % 2 === 1) expect(index.remove(id)).toBe(true);
+    });
+    expect(index.remove(1)).toBe(false);
+    expect(index.size).toBe(1000);
+    expect(recall(index, kept)).toBeGreaterThanOrEqual(0.9);
+    for (const query of queries) {
+      expect(index.search(query, 10).every(({ id }) => id % 2 === 0)).toBe(true);
+    }
+
+    // Re-inserting an id moves it
+    index.insert(0, queries[2]);
+    expect(index.size).toBe(1000);
+    expect(index.search(queries[2], 1)).toEqual([{ id: 0, distance: 0 }]);
+
+    kept.forEach(id => index.remove(id));
+    expect(index.size).toBe(0);
+    expect(index.search(queries[0], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, DataIntegrityError } from '../src';
+import { QueryEngine } from '../src/query-engine';
+
+describe('Dot-path and Multikey Indexes', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('places');
+    collection.insert([
+      { name: 'a', tags: ['red', 'blue'], address: { city: 'Paris', zip: 75001 }, scores: [3, 9] },
+      { name: 'b', tags: ['green'], address: { city: 'Lyon', zip: 69001 }, scores: [5] },
+      { name: 'c', tags: ['red'], address: { city: 'Paris', zip: 75002 }, scores: [] },
+      { name: 'd', tags: 'red', address: { zip: 10001 } },
+      { name: 'e' }
+    ]);
+  });
+
+  const names = (docs: any[]) => docs.map(doc => doc.name).sort();
+
+  it('should match scalar conditions against array elements', () => {
+    expect(names(collection.find({ tags: 'red' }))).toEqual(['a', 'c', 'd']);
+    expect(names(collection.find({ tags: { $in: ['green', 'blue'] } }))).toEqual(['a', 'b']);
+    expect(names(collection.find({ tags: { $ne: 'red' } }))).toEqual(['b', 'e']);
+    expect(names(collection.find({ tags: ['red', 'blue'] }))).toEqual(['a']);
+  });
+
+  it('should index nested paths and array elements with the same results as a scan', () => {
+    const engine = new QueryEngine();
+    const queries = [
+      { tags: 'red' },
+      { tags: { $in: ['green', 'blue'] } },
+      { 'address.city': 'Paris' },
+      { 'address.zip': { $gte: 70000 } },
+      { scores: { $gt: 4 } },
+      { 'address.city': 'Paris', tags: 'blue' }
+    ];
+    const scanned = queries.map(query => names(collection.find({}).filter((doc: any) => engine.matches(doc, query))));
+
+    collection.createIndex('tags');
+    collection.createIndex('address.city');
+    collection.createIndex('address.zip');
+    collection.createIndex('scores');
+
+    const indices = (collection as any).indices;
+    expect(Array.from(indices.get('tags').keys()).sort()).toEqual(['blue', 'green', 'red']);
+    expect(Array.from(engine.planIndexScan(indices, { 'address.city': 'Paris' })!)).toHaveLength(2);
+
+    queries.forEach((query, i) => {
+      expect(names(collection.find(query))).toEqual(scanned[i]);
+    });
+    expect(names(collection.find({ scores: { $gt: 4 } }))).toEqual(['a', 'b']);
+    // Different elements of [3, 9] satisfy each bound
+    expect(names(collection.find({ scores: { $gt: 4, $lt: 5 } }))).toEqual(['a']);
+  });
+
+  it('should keep multikey entries current after updates and removals', () => {
+    collection.createIndex('tags');
+    collection.createIndex('address.city');
+
+    collection.update({ name: 'a' }, { $pull: { tags: 'red' } });
+    collection.update({ name: 'b' }, { $set: { 'address.city': 'Paris' } });
+    collection.remove({ name: 'c' });
+
+    expect(names(collection.find({ tags: 'red' }))).toEqual(['d']);
+    expect(names(collection.find({ tags: 'blue' }))).toEqual(['a']);
+    expect(names(collection.find({ 'address.city': 'Paris' }))).toEqual(['a', 'b']);
+  });
+
+  it('should enforce unique constraints across multikey entries', () => {
+    const users = db.addCollection('users') as any;
+    users.createIndex({ emails: 1 }, { unique: true });
+
+    users.insert({ name: 'x', emails: ['x@a.io', 'x@b.io'] });
+    users.insert({ name: 'y', emails: ['y@a.io', 'y@a.io'] });
+    expect(() => users.insert({ name: 'z', emails: ['z@a.io', 'x@b.io'] })).toThrow(DataIntegrityError);
+    expect(() => users.update({ name: 'y' }, { $push: { emails: 'x@a.io' } })).toThrow(DataIntegrityError);
+
+    expect(users.find({ emails: 'y@a.io' })).toHaveLength(1);
+    expect(users.find({ emails: 'z@a.io' })).toHaveLength(0);
+    expect(users.find({ emails: 'x@a.io' }).map((doc: any) => doc.name)).toEqual(['x']);
+  });
+
+  it('should return each multikey document once when sorting through the index', async () => {
+    const unindexed = await collection.findCursor().sort({ scores: 1 }).toArray();
+    collection.createIndex('scores');
+    const ascending = await collection.findCursor().sort({ scores: 1 }).toArray();
+    const descending = await collection.findCursor().sort({ scores: -1 }).toArray();
+
+    expect(ascending.map((doc: any) => doc.name)).toEqual(unindexed.map((doc: any) => doc.name));
+    expect(ascending.map((doc: any) => doc.name).slice(-2)).toEqual(['a', 'b']);
+    expect(descending.map((doc: any) => doc.name).slice(0, 2)).toEqual(['a', 'b']);
+  });
+});
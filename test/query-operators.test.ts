@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Monarch } from '../src';
+import { Monarch, ValidationError } from '../src';
+import { AggregationEngine } from '../src/aggregation-engine';
 
 describe('Query Operators', () => {
   let db: Monarch;
@@ -225,3 +226,91 @@ describe('Query Operators', () => {
     });
   });
 });
+
+describe('Query Operators - unified evaluator', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('inventory');
+    collection.insert([
+      { sku: 'a', qty: 10, price: 2.5, flags: 5, tags: ['red', 'sale'], items: [{ code: 'x', n: 1 }, { code: 'y', n: 7 }], note: 'Fresh Apples' },
+      { sku: 'b', qty: 25, price: 10, flags: 2, tags: ['blue'], items: [{ code: 'x', n: 9 }], note: 'ripe bananas' },
+      { sku: 'c', qty: 3, price: '4', flags: 7, tags: [], items: [], note: 'Apple pie' },
+      { sku: 'd', qty: null, price: 7.25 }
+    ]);
+  });
+
+  const skus = (docs: any[]) => docs.map(doc => doc.sku).sort();
+
+  it('should evaluate logical operators at the top level and combined with fields', () => {
+    expect(skus(collection.find({ $nor: [{ qty: { $gt: 5 } }, { sku: 'd' }] }))).toEqual(['c']);
+    expect(skus(collection.find({ qty: { $not: { $gte: 10 } } }))).toEqual(['c', 'd']);
+    expect(skus(collection.find({ sku: { $ne: 'b' }, $or: [{ qty: 10 }, { qty: 25 }] }))).toEqual(['a']);
+    expect(skus(collection.find({ $and: [{ qty: { $gt: 1 } }], price: 2.5 }))).toEqual(['a']);
+  });
+
+  it('should match types, modulo and bit operators', () => {
+    expect(skus(collection.find({ price: { $type: 'string' } }))).toEqual(['c']);
+    expect(skus(collection.find({ price: { $type: 'double' } }))).toEqual(['a', 'd']);
+    expect(skus(collection.find({ qty: { $type: 10 } }))).toEqual(['d']);
+    expect(skus(collection.find({ tags: { $type: 'array' } }))).toEqual(['a', 'b', 'c']);
+    expect(skus(collection.find({ qty: { $mod: [5, 0] } }))).toEqual(['a', 'b']);
+
+    expect(skus(collection.find({ flags: { $bitsAllSet: [0, 2] } }))).toEqual(['a', 'c']);
+    expect(skus(collection.find({ flags: { $bitsAllSet: 6 } }))).toEqual(['c']);
+    expect(skus(collection.find({ flags: { $bitsAnySet: [1] } }))).toEqual(['b', 'c']);
+    expect(skus(collection.find({ flags: { $bitsAllClear: [0] } }))).toEqual(['b']);
+    expect(skus(collection.find({ flags: { $bitsAnyClear: 7 } }))).toEqual(['a', 'b']);
+  });
+
+  it('should compare only values of the same type', () => {
+    expect(skus(collection.find({ price: { $gt: 3 } }))).toEqual(['b', 'd']);
+    expect(skus(collection.find({ price: { $gte: '0' } }))).toEqual(['c']);
+  });
+
+  it('should apply $regex with $options', () => {
+    expect(skus(collection.find({ note: { $regex: '^apple', $options: 'i' } }))).toEqual(['c']);
+    expect(skus(collection.find({ note: { $regex: 'app les', $options: 'ix' } }))).toEqual(['a']);
+    expect(skus(collection.find({ note: /bananas$/ }))).toEqual(['b']);
+    expect(skus(collection.find({ note: { $not: /apple/i } }))).toEqual(['b', 'd']);
+    expect(() => collection.find({ note: { $regex: 'a', $options: 'q' } })).toThrow(ValidationError);
+  });
+
+  it('should match scalar conditions against array elements and paths through arrays', () => {
+    expect(skus(collection.find({ tags: 'sale' }))).toEqual(['a']);
+    expect(skus(collection.find({ 'items.code': 'x' }))).toEqual(['a', 'b']);
+    expect(skus(collection.find({ 'items.n': { $gt: 8 } }))).toEqual(['b']);
+    expect(skus(collection.find({ 'items.0.code': 'x' }))).toEqual(['a', 'b']);
+    expect(skus(collection.find({ tags: { $size: 0 } }))).toEqual(['c']);
+    expect(skus(collection.find({ tags: { $all: ['sale', 'red'] } }))).toEqual(['a']);
+  });
+
+  it('should require one element to satisfy every $elemMatch condition', () => {
+    // x with n 1 and y with n 7: no single item is both code x and n > 5
+    expect(skus(collection.find({ items: { $elemMatch: { code: 'x', n: { $gt: 5 } } } }))).toEqual(['b']);
+    expect(skus(collection.find({ 'items.code': 'x', 'items.n': { $gt: 5 } }))).toEqual(['a', 'b']);
+    expect(skus(collection.find({ flags: { $exists: true }, tags: { $elemMatch: { $regex: '^r' } } }))).toEqual(['a']);
+  });
+
+  it('should evaluate $expr, $where and $text', () => {
+    expect(skus(collection.find({ $expr: { $gt: ['$qty', { $multiply: ['$flags', 3] }] } }))).toEqual(['b']);
+    expect(skus(collection.find({ $where: 'this.qty > 20' }))).toEqual(['b']);
+    expect(skus(collection.find({ $where: function (this: any) { return this.sku === 'c'; } }))).toEqual(['c']);
+    expect(skus(collection.find({ $text: { $search: 'apples bananas' } }))).toEqual(['a', 'b']);
+  });
+
+  it('should reject unknown operators and malformed operands', () => {
+    expect(() => collection.find({ qty: { $near: 5 } })).toThrow(ValidationError);
+    expect(() => collection.find({ qty: { $mod: [0, 1] } })).toThrow(ValidationError);
+    expect(() => collection.find({ $nor: {} })).toThrow(ValidationError);
+  });
+
+  it('should use the same evaluator for aggregation $match', async () => {
+    const result = await AggregationEngine.execute(collection.find({}), {
+      stages: [{ $match: { tags: 'blue', 'items.n': { $in: [9] } } }]
+    });
+    expect(result.documents.map((doc: any) => doc.sku)).toEqual(['b']);
+  });
+});
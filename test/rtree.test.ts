@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { RTree, BoundingBox } from '../src/rtree';
+import { GeospatialEngine, GeospatialIndex } from '../src/geospatial-engine';
+import { random } from './helpers/random';
+
+describe('R-Tree', () => {
+  const next = random(42);
+  const boxes: BoundingBox[] = Array.from({ length: 2000 }, () => {
+    const x = next() * 1000;
+    const y = next() * 1000;
+    return [x, y, x + next() * 20, y + next() * 20];
+  });
+  const intersecting = (query: BoundingBox, ids: number[]) =>
+    ids.filter(i => boxes[i][0] <= query[2] && boxes[i][2] >= query[0] && boxes[i][1] <= query[3] && boxes[i][3] >= query[1]);
+  const queries: BoundingBox[] = [[0, 0, 100, 100], [450, 450, 550, 560], [990, 0, 1200, 1200], [-10, -10, -1, -1], [0, 0, 1000, 1000]];
+  const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+
+  it('should find intersecting boxes through inserts and removals', () => {
+    const tree = new RTree<number>(8);
+    boxes.forEach((bbox, i) => tree.insert(bbox, i));
+    let ids = boxes.map((_, i) => i);
+
+    expect(tree.size).toBe(2000);
+    expect(tree.height).toBeLessThanOrEqual(6);
+    queries.forEach(query => expect(sorted(tree.search(query))).toEqual(intersecting(query, ids)));
+
+    // Removing most entries condenses the tree and keeps every remaining one reachable
+    for (let i = 0; i < boxes.length; i++) {
+      if (i % 4 !== 0) {
+        expect(tree.remove(boxes[i], i)).toBe(true);
+      }
+    }
+    expect(tree.remove(boxes[1], 1)).toBe(false);
+    ids = ids.filter(i => i % 4 === 0);
+
+    expect(tree.size).toBe(500);
+    expect(sorted(tree.all())).toEqual(ids);
+    queries.forEach(query => expect(sorted(tree.search(query))).toEqual(intersecting(query, ids)));
+  });
+
+  it('should bulk load a packed tree that still accepts changes', () => {
+    const tree = new RTree<number>();
+    tree.load(boxes.map((bbox, i) => ({ bbox, value: i })));
+    expect(tree.size).toBe(2000);
+    expect(tree.height).toBe(3);
+    queries.forEach(query => expect(sorted(tree.search(query))).toEqual(intersecting(query, boxes.map((_, i) => i))));
+
+    tree.insert([2000, 2000, 2001, 2001], -1);
+    expect(tree.search([1999, 1999, 2002, 2002])).toEqual([-1]);
+    boxes.forEach((bbox, i) => tree.remove(bbox, i));
+    expect(tree.all()).toEqual([-1]);
+  });
+
+  it('should return the nearest entries first', () => {
+    const tree = new RTree<number>(8);
+    boxes.forEach((bbox, i) => tree.insert(bbox, i));
+
+    const [x, y] = [500, 500];
+    const distance = ([minX, minY, maxX, maxY]: BoundingBox) =>
+      Math.hypot(Math.max(minX - x, 0, x - maxX), Math.max(minY - y, 0, y - maxY));
+    const expected = boxes.map((bbox, i) => ({ i, d: distance(bbox) })).sort((a, b) => a.d - b.d);
+
+    const nearest = tree.nearest(distance, undefined, 10);
+    expect(nearest.map(({ distance }) => distance)).toEqual(expected.slice(0, 10).map(({ d }) => d));
+
+    const within = tree.nearest(distance, undefined, Infinity, 30);
+    expect(within.length).toBe(expected.filter(({ d }) => d <= 30).length);
+    expect(new RTree<number>().nearest(distance)).toEqual([]);
+  });
+});
+
+describe('Geospatial Index', () => {
+  const next = random(7);
+  const points = Array.from({ length: 3000 }, (_, i) => ({
+    docId: `p${i}`,
+    geometry: { type: 'Point' as const, coordinates: [next() * 360 - 180, next() * 170 - 85] as [number, number] }
+  }));
+  const byDistance = (origin: [number, number]) => points
+    .map(({ docId, geometry }) => ({ docId, distance: GeospatialEngine.haversineDistance(origin, geometry.coordinates) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  it('should find nearest points by great-circle distance', () => {
+    const index = new GeospatialIndex();
+    index.load(points);
+
+    // Across the antimeridian and near a pole the nearest points are far apart in degrees
+    for (const origin of [[2.35, 48.85], [179.9, -10], [-30, 84]] as Array<[number, number]>) {
+      const nearest = index.findNearest({ type: 'Point', coordinates: origin }, Infinity, 5);
+      expect(nearest.map(({ docId }) => docId)).toEqual(byDistance(origin).slice(0, 5).map(({ docId }) => docId));
+    }
+
+    const origin: [number, number] = [10, 10];
+    const within = index.findNearest({ type: 'Point', coordinates: origin }, 1000e3, 100);
+    expect(within.map(({ docId }) => docId)).toEqual(byDistance(origin).filter(({ distance }) => distance <= 1000e3).map(({ docId }) => docId));
+  });
+
+  it('should keep box queries current on insert, move and remove', () => {
+    const index = new GeospatialIndex();
+    points.slice(0, 500).forEach(({ docId, geometry }) => index.insert(docId, geometry));
+    const inBox = ([minLng, minLat, maxLng, maxLat]: number[], count: number) => points.slice(0, count)
+      .filter(({ geometry: { coordinates: [lng, lat] } }) => lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat)
+      .map(({ docId }) => docId)
+      .sort();
+
+    expect(index.queryWithin([-20, -20, 40, 40]).sort()).toEqual(inBox([-20, -20, 40, 40], 500));
+
+    index.insert('p0', { type: 'Point', coordinates: [0.5, 0.5] });
+    expect(index.queryWithin([0, 0, 1, 1])).toContain('p0');
+    expect(index.size).toBe(500);
+
+    index.remove('p0');
+    expect(index.queryWithin([0, 0, 1, 1])).not.toContain('p0');
+    expect(index.findNearest({ type: 'Point', coordinates: [0.5, 0.5] }, Infinity, 1)[0].docId).not.toBe('p0');
+
+    index.insert('area', { type: 'Polygon', coordinates: [[[5, 5], [6, 5], [6, 6], [5, 6], [5, 5]]] });
+    expect(index.queryWithin([5.5, 5.5, 5.6, 5.6])).toEqual(['area']);
+  });
+});
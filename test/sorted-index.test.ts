@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch } from '../src';
+import { SortedIndex, rangeFromCondition } from '../src/sorted-index';
+import { QueryEngine } from '../src/query-engine';
+
+describe('Sorted Index', () => {
+  const keysOf = (entries: Iterable<[any, Set<string>]>) => Array.from(entries, ([key]) => key);
+
+  it('should keep distinct values ordered through set and delete', () => {
+    const index = new SortedIndex();
+    const values = Array.from({ length: 200 }, (_, i) => (i * 37) % 200);
+    values.forEach(value => index.set(value, new Set([`doc_${value}`])));
+    for (let value = 0; value < 200; value += 3) {
+      index.delete(value);
+    }
+
+    const expected = Array.from({ length: 200 }, (_, i) => i).filter(value => value % 3 !== 0);
+    expect(keysOf(index.range())).toEqual(expected);
+    expect(keysOf(index.range({}, true))).toEqual([...expected].reverse());
+    expect(index.size).toBe(expected.length);
+  });
+
+  it('should walk bounded ranges within the bound type bracket', () => {
+    const index = new SortedIndex();
+    [5, 'b', 1, null, 10, 'a', 7, true].forEach(value => index.set(value, new Set()));
+
+    expect(keysOf(index.range({ min: 5, minInclusive: false }))).toEqual([7, 10]);
+    expect(keysOf(index.range({ max: 7 }))).toEqual([1, 5, 7]);
+    expect(keysOf(index.range({ min: 1, max: 10, maxInclusive: false }, true))).toEqual([7, 5, 1]);
+    expect(keysOf(index.range({ min: 'a' }))).toEqual(['a', 'b']);
+  });
+
+  it('should translate range conditions into bounds', () => {
+    expect(rangeFromCondition({ $gt: 1, $gte: 1, $lt: 9 })).toEqual({ min: 1, minInclusive: false, max: 9, maxInclusive: false });
+    expect(rangeFromCondition({ $gt: 1, $lt: 'z' })).toBeNull();
+    expect(rangeFromCondition({ $in: [1, 2] })).toBeNull();
+    expect(rangeFromCondition(5)).toBeNull();
+  });
+
+  describe('indexed queries', () => {
+    let db: Monarch;
+    let collection: any;
+
+    beforeEach(() => {
+      db = new Monarch();
+      collection = db.addCollection('metrics');
+      const docs = Array.from({ length: 100 }, (_, i) => ({ seq: i, bucket: i % 10, label: `m${i}` }));
+      docs.push({ seq: 'n/a', bucket: 0, label: 'text' } as any);
+      collection.insert(docs);
+      collection.createIndex('seq');
+      collection.createIndex('bucket');
+    });
+
+    it('should serve range, $in and combined queries from the index with the same results as a scan', () => {
+      const queries = [
+        { seq: { $gte: 10, $lt: 15 } },
+        { seq: { $gt: 95 } },
+        { seq: { $lte: 2 }, bucket: 1 },
+        { bucket: { $in: [3, 4] }, seq: { $lt: 30 } },
+        { seq: { $gt: 90, $ne: 95 } }
+      ];
+      const engine = new QueryEngine();
+
+      for (const query of queries) {
+        const indexed = collection.find(query).map((doc: any) => doc.label).sort();
+        const scanned = collection.find({}).filter((doc: any) => engine.matches(doc, query)).map((doc: any) => doc.label).sort();
+        expect(indexed).toEqual(scanned);
+      }
+      expect(collection.find({ seq: { $gte: 10, $lt: 15 } })).toHaveLength(5);
+    });
+
+    it('should plan an index scan for range queries only on indexed fields', () => {
+      const engine = new QueryEngine();
+      const indices = new Map([['seq', new SortedIndex()]]);
+
+      expect(engine.planIndexScan(indices, { seq: { $gt: 5 } })).not.toBeNull();
+      expect(engine.planIndexScan(indices, { other: { $gt: 5 } })).toBeNull();
+      expect(engine.planIndexScan(indices, { $or: [{ seq: 1 }] })).toBeNull();
+    });
+
+    it('should keep range results current after updates and removals', () => {
+      collection.update({ seq: 12 }, { $set: { seq: 500 } });
+      collection.remove({ seq: 13 });
+
+      const seqs = collection.find({ seq: { $gte: 10, $lt: 15 } }).map((doc: any) => doc.seq).sort();
+      expect(seqs).toEqual([10, 11, 14]);
+      expect(collection.find({ seq: { $gt: 400 } }).map((doc: any) => doc.seq)).toEqual([500]);
+    });
+
+    it('should sort cursors in index order within a range', async () => {
+      const docs = await collection.findCursor({ seq: { $gte: 20, $lte: 80 } }).sort({ seq: -1 }).limit(3).toArray();
+      expect(docs.map((doc: any) => doc.seq)).toEqual([80, 79, 78]);
+    });
+  });
+});
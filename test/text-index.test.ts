@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FullTextSearchEngine, Monarch, STEMMERS, TextAnalyzer, ValidationError } from '../src';
+
+describe('Text Indexes', () => {
+  let db: Monarch;
+  let articles: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    articles = db.addCollection('articles');
+    articles.insert([
+      { _id: 'coffee', title: 'Brewing coffee at home', body: 'Grind the beans just before brewing.', views: 10 },
+      { _id: 'tea', title: 'Green tea basics', body: 'Steep the leaves, never boil them. Coffee drinkers may prefer it strong.', views: 30 },
+      { _id: 'beans', title: 'Roasting beans', body: 'Light roasts keep the origin flavours of coffee beans.', views: 20 },
+      { _id: 'bread', title: 'Sourdough', body: 'Feed the starter daily.', tags: ['baking', 'fermentation'], views: 5 }
+    ]);
+    articles.createIndex({ title: 'text', body: 'text' }, { weights: { title: 10 } });
+  });
+
+  const ids = (docs: any[]) => docs.map(doc => doc._id);
+
+  it('should find documents holding any search term through the index', async () => {
+    expect(ids(articles.find({ $text: { $search: 'coffee' } })).sort()).toEqual(['beans', 'coffee', 'tea']);
+    expect(ids(articles.find({ $text: { $search: 'sourdough leaves' } })).sort()).toEqual(['bread', 'tea']);
+    expect(articles.find({ $text: { $search: 'espresso' } })).toEqual([]);
+
+    // Other conditions filter the text matches
+    expect(ids(articles.find({ $text: { $search: 'coffee' }, views: { $gte: 20 } })).sort()).toEqual(['beans', 'tea']);
+    expect(ids(await articles.aggregate([{ $match: { $text: { $search: 'starter' } } }]))).toEqual(['bread']);
+
+    // Fields outside the index are not searched
+    expect(articles.find({ $text: { $search: 'fermentation' } })).toEqual([]);
+    expect(() => articles.find({ $text: { $search: 42 } })).toThrow(ValidationError);
+  });
+
+  it('should support phrases, negation, OR, prefix, fuzzy and field-scoped terms', () => {
+    const search = (terms: string) => ids(articles.find({ $text: { $search: terms } })).sort();
+
+    expect(search('"coffee beans"')).toEqual(['beans']);
+    expect(search('"brewing coffee"')).toEqual(['coffee']);
+    // Stop words keep their place in a phrase
+    expect(search('"grind beans"')).toEqual([]);
+    expect(search('"grind the beans"')).toEqual(['coffee']);
+    // With a phrase, other terms only add to the score
+    expect(search('"coffee beans" sourdough')).toEqual(['beans']);
+
+    expect(search('coffee -tea')).toEqual(['beans', 'coffee']);
+    expect(search('coffee -"green tea"')).toEqual(['beans', 'coffee']);
+    expect(search('-coffee')).toEqual([]);
+    expect(search('sourdough OR "green tea"')).toEqual(['bread', 'tea']);
+
+    expect(search('roast*')).toEqual(['beans']);
+    expect(search('sour*')).toEqual(['bread']);
+    expect(search('cofee')).toEqual([]);
+    expect(search('cofee~1')).toEqual(['beans', 'coffee', 'tea']);
+    expect(() => search('cofee~3')).toThrow(ValidationError);
+
+    expect(search('title:coffee')).toEqual(['coffee']);
+    expect(search('body:coffee')).toEqual(['beans', 'tea']);
+    expect(search('title:"green tea"')).toEqual(['tea']);
+    expect(() => search('tags:baking')).toThrow(ValidationError);
+  });
+
+  it('should project and sort by textScore, weighting fields', async () => {
+    const results = await articles.findAsync(
+      { $text: { $search: 'coffee' } },
+      { projection: { title: 1, score: { $meta: 'textScore' } }, sort: { score: { $meta: 'textScore' } } }
+    );
+
+    // A title match counts ten times as much as a body match; shorter texts score higher
+    expect(results.map((doc: any) => doc._id)).toEqual(['coffee', 'beans', 'tea']);
+    expect(Object.keys(results[0]).sort()).toEqual(['_id', 'score', 'title']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].score).toBeGreaterThan(results[2].score);
+
+    const byViews = await articles.findCursor({ $text: { $search: 'coffee' } }).sort({ views: -1 }).toArray();
+    expect(ids(byViews)).toEqual(['tea', 'beans', 'coffee']);
+
+    const top = await articles.findOneAndUpdate(
+      { $text: { $search: 'coffee' } },
+      { $inc: { views: 1 } },
+      { sort: { score: { $meta: 'textScore' } }, returnDocument: 'after' }
+    );
+    expect(top).toMatchObject({ _id: 'coffee', views: 11 });
+
+    await expect(articles.findAsync({ views: 10 }, { projection: { score: { $meta: 'textScore' } } })).rejects.toThrow(ValidationError);
+    expect(() => articles.findCursor({}).project({ score: { $meta: 'searchScore' } })).toThrow(ValidationError);
+  });
+
+  it('should explain $text queries as a text index search', () => {
+    const query = { $text: { $search: 'coffee' }, views: { $gte: 20 } };
+    expect(articles.explain(query).winningPlan).toEqual({ stage: 'TEXT', indexes: ['title_text_body_text'] });
+
+    const explanation = articles.explain(query, { verbosity: 'executionStats' });
+    expect(explanation.executionStats).toMatchObject({ keysExamined: 3, docsExamined: 3, nReturned: 2 });
+    expect(explanation.executionStats.nReturned).toBe(articles.find(query).length);
+    expect(articles.getQueryProfiler().getRecentProfiles()[0].indexesUsed).toEqual(['title_text_body_text']);
+  });
+
+  it('should keep the index current on insert, update and remove', () => {
+    const search = (terms: string) => ids(articles.find({ $text: { $search: terms } })).sort();
+
+    articles.insert({ _id: 'latte', title: 'Latte art', body: 'Steamed milk over espresso.' });
+    expect(search('espresso')).toEqual(['latte']);
+
+    articles.update({ _id: 'latte' }, { $set: { body: 'Steamed milk over a ristretto.' } });
+    expect(search('espresso')).toEqual([]);
+    expect(search('ristretto')).toEqual(['latte']);
+
+    articles.update({ _id: 'bread' }, { $set: { title: 'Sourdough with coffee' } });
+    expect(search('coffee')).toEqual(['beans', 'bread', 'coffee', 'tea']);
+
+    articles.remove({ _id: 'coffee' });
+    expect(search('coffee')).toEqual(['beans', 'bread', 'tea']);
+  });
+
+  it('should be listed, limited to one per collection and droppable', async () => {
+    expect(articles.listIndexes().find((index: any) => index.name === 'title_text_body_text')).toMatchObject({
+      fields: ['title', 'body'],
+      options: { text: true, weights: { title: 10, body: 1 } }
+    });
+    expect(() => articles.createIndex({ tags: 'text' })).toThrow(ValidationError);
+    expect(() => articles.createIndex({ title: 'text', views: 1 })).toThrow(ValidationError);
+
+    const other = db.addCollection('other') as any;
+    expect(() => other.createIndex({ title: 'text' }, { weights: { body: 2 } })).toThrow(ValidationError);
+    expect(() => other.createIndex({ title: 'text' }, { weights: { title: 0 } })).toThrow(ValidationError);
+
+    await articles.dropIndex('title_text_body_text');
+    // Without a text index, $text falls back to matching words anywhere in a document
+    expect(ids(articles.find({ $text: { $search: 'fermentation' } }))).toEqual(['bread']);
+  });
+
+  it('should be persisted with the collection', async () => {
+    let saved: any;
+    const adapter = { save: async (data: any) => { saved = JSON.parse(JSON.stringify(data)); }, load: async () => saved };
+    const source = new Monarch({ adapter });
+    const docs = source.addCollection('docs') as any;
+    docs.insert([{ _id: 'a', text: 'persistent search index' }, { _id: 'b', text: 'unrelated' }]);
+    docs.createIndex({ text: 'text' }, { name: 'search' });
+    await source.save();
+
+    const restored = new Monarch({ adapter });
+    await restored.load();
+    const loaded = restored.getCollection('docs') as any;
+    expect(loaded.listIndexes().map((index: any) => index.name)).toContain('search');
+    expect(ids(loaded.find({ $text: { $search: 'index' } }))).toEqual(['a']);
+  });
+
+  it('should analyze each document and query in its language', () => {
+    const posts = db.addCollection('posts') as any;
+    posts.insert([
+      { _id: 'en', text: 'Running shoes for the runners' },
+      { _id: 'de', text: 'Die Häuser der Stadt', language: 'german' },
+      { _id: 'fr', text: 'Le café de la forêt est chaud', language: 'fr' }
+    ]);
+    posts.createIndex({ text: 'text' });
+    const search = (operand: any) => ids(posts.find({ $text: operand })).sort();
+
+    expect(search({ $search: 'run' })).toEqual(['en']);
+    expect(search({ $search: 'the' })).toEqual([]);
+    expect(search({ $search: 'hauser', $language: 'german' })).toEqual(['de']);
+    expect(search({ $search: 'cafés', $language: 'french' })).toEqual(['fr']);
+    expect(search({ $search: 'le', $language: 'french' })).toEqual([]);
+
+    expect(search({ $search: 'forêts', $language: 'french', $diacriticSensitive: true })).toEqual(['fr']);
+    expect(search({ $search: 'forets', $language: 'french', $diacriticSensitive: true })).toEqual([]);
+
+    // Changing the language re-indexes the document
+    expect(search({ $search: 'cafe' })).toEqual([]);
+    posts.update({ _id: 'fr' }, { $set: { language: 'english' } });
+    expect(search({ $search: 'cafe' })).toEqual(['fr']);
+
+    expect(() => search({ $search: 'cafe', $language: 'klingon' })).toThrow(ValidationError);
+    expect(() => db.addCollection('klingon').createIndex({ text: 'text' }, { defaultLanguage: 'klingon' })).toThrow(ValidationError);
+  });
+
+  it('should give the forms of a word one stem in each language', () => {
+    const forms: Record<string, string[][]> = {
+      french: [
+        ['manger', 'mangeaient', 'mangerons', 'mange', 'manges'], ['cheval', 'chevaux'], ['finir', 'finissaient', 'finissons'],
+        ['heureux', 'heureuse', 'heureuses'], ['premier', 'première'], ['rapide', 'rapidement'],
+        // Verb endings that only lie within RV once shortened
+        ['acter', 'acterai'], ['allier', 'alliez']
+      ],
+      spanish: [['cantar', 'cantaba', 'cantando', 'cantaron', 'cantamos'], ['nino', 'ninos'], ['nacion', 'naciones'], ['amparar', 'amparamos']],
+      italian: [['parlare', 'parlava', 'parlando', 'parlato'], ['libro', 'libri'], ['nazione', 'nazioni']],
+      portuguese: [['falar', 'falava', 'falando', 'falaram'], ['livro', 'livros'], ['cidade', 'cidades']],
+      german: [['kind', 'kinder', 'kindern', 'kindes'], ['tag', 'tage', 'tagen'], ['laufen', 'laufe']],
+      dutch: [['lopen', 'loop'], ['katten', 'kat'], ['boeken', 'boek'], ['mogelijk', 'mogelijkheden']]
+    };
+    for (const [language, groups] of Object.entries(forms)) {
+      const stem = STEMMERS[language];
+      for (const group of groups) {
+        expect(group.map(stem), `${language} ${group[0]}`).toEqual(group.map(() => stem(group[0])));
+      }
+    }
+
+    const stable = db.addCollection('stable') as any;
+    stable.insert({ _id: 'horses', text: 'Les chevaux mangeaient' });
+    stable.createIndex({ text: 'text' }, { defaultLanguage: 'french' });
+    expect(ids(stable.find({ $text: { $search: 'cheval' } }))).toEqual(['horses']);
+    expect(ids(stable.find({ $text: { $search: 'manger' } }))).toEqual(['horses']);
+  });
+
+  it('should stem like the Snowball reference', () => {
+    // Sampled from the reference Snowball stemmers
+    const stems: Record<string, Array<[string, string]>> = {
+      italian: [
+        ['possono', 'poss'], ['potuto', 'pot'], ['venute', 'ven'], ['andata', 'andat'], ['sentiti', 'sent'],
+        ['libero', 'liber'], ['camera', 'camer'], ['parlerò', 'parl'], ['finirà', 'fin'], ['città', 'citt'],
+        ['perché', 'perc'], ['amichevolmente', 'amichevol'], ['abitazioni', 'abit'], ['cercheranno', 'cerc'],
+        ['pagherebbe', 'pagh'], ['attivamente', 'attiv'], ['creatività', 'creativ'], ['vendevano', 'vend']
+      ],
+      french: [
+        ['mangeaient', 'mang'], ['premières', 'premi'], ['été', 'été'], ['forêts', 'forêt'], ['développement', 'développ'],
+        ['acceptèrent', 'accept'], ['naïveté', 'naïvet'], ['hôpitaux', 'hôpital'], ['aiguë', 'aiguë']
+      ],
+      spanish: [
+        ['canción', 'cancion'], ['estábamos', 'estab'], ['comían', 'com'], ['pingüino', 'pingüin'], ['averigüé', 'averigü'],
+        ['naciones', 'nacion'], ['rápidamente', 'rapid'], ['leyó', 'ley']
+      ],
+      portuguese: [
+        ['coração', 'coraçã'], ['ações', 'açõ'], ['estávamos', 'estáv'], ['amigável', 'amig'], ['põe', 'põ'],
+        ['conheço', 'conhec'], ['portuguesa', 'portugues'], ['felizmente', 'feliz']
+      ],
+      german: [
+        ['häuser', 'haus'], ['straße', 'strass'], ['müsste', 'musst'], ['schönheit', 'schonheit'], ['größten', 'grosst'],
+        ['freundlichkeiten', 'freundlich']
+      ],
+      dutch: [
+        ['kopen', 'kop'], ['mogelijkheden', 'mogelijk'], ['geëerd', 'geeerd'], ['opgaven', 'opgav'], ['ideeën', 'ideeen'],
+        ['vrouwelijk', 'vrouwelijk']
+      ]
+    };
+    for (const [language, pairs] of Object.entries(stems)) {
+      expect(pairs.map(([word]) => [word, STEMMERS[language](word)]), language).toEqual(pairs);
+    }
+  });
+
+  it('should index with registered custom analyzers', () => {
+    TextAnalyzer.register('autocomplete', {
+      tokenizer: 'whitespace',
+      filters: ['lowercase', 'asciifolding', { type: 'edgeNgram', minGram: 2, maxGram: 10 }]
+    });
+    const products = db.addCollection('products') as any;
+    products.insert([{ _id: 'laptop', name: 'Laptop Pro' }, { _id: 'notebook', name: 'Paper notebook' }]);
+    products.createIndex({ name: 'text' }, { defaultLanguage: 'autocomplete' });
+
+    const search = (terms: string) => ids(products.find({ $text: { $search: terms } })).sort();
+    expect(search('lap')).toEqual(['laptop']);
+    expect(search('NOTE')).toEqual(['notebook']);
+    expect(search('pa')).toEqual(['notebook']);
+    expect(search('top')).toEqual([]);
+
+    expect(() => TextAnalyzer.register('english', { filters: ['lowercase'] })).toThrow(ValidationError);
+    expect(() => TextAnalyzer.register('grams', { filters: [{ type: 'ngram', minGram: 3, maxGram: 2 }] })).toThrow(ValidationError);
+    expect(() => TextAnalyzer.register('stems', { filters: [{ type: 'stemmer', language: 'klingon' }] })).toThrow(ValidationError);
+  });
+
+  it('should score with BM25, tunable per index and boosted per query', async () => {
+    const fruit = db.addCollection('fruit') as any;
+    fruit.insert([
+      { _id: 'short', text: 'apple' },
+      { _id: 'long', text: 'apple pie recipes with cinnamon, butter and brown sugar' },
+      { _id: 'other', text: 'pear' }
+    ]);
+    fruit.createIndex({ text: 'text' });
+    const scores = async (collection: any, search: any) => Object.fromEntries(
+      (await collection.findAsync({ $text: search }, { projection: { score: { $meta: 'textScore' } } }))
+        .map((doc: any) => [doc._id, doc.score])
+    );
+
+    // Matches in shorter texts score higher...
+    const normalized = await scores(fruit, { $search: 'apple' });
+    expect(normalized.short).toBeGreaterThan(normalized.long);
+
+    // ...unless length normalization is turned off
+    const flat = db.addCollection('flat') as any;
+    flat.insert(fruit.find({}));
+    flat.createIndex({ text: 'text' }, { bm25: { b: 0 } });
+    const unnormalized = await scores(flat, { $search: 'apple' });
+    expect(unnormalized.short).toBeCloseTo(unnormalized.long);
+    expect(flat.listIndexes().find((index: any) => index.name === 'text_text').options.bm25).toEqual({ k1: 1.2, b: 0 });
+    expect(() => db.addCollection('bad').createIndex({ text: 'text' }, { bm25: { b: 2 } })).toThrow(ValidationError);
+
+    // Boosts multiply the index weights
+    const boosted = await articles.findAsync(
+      { $text: { $search: 'coffee', $boosts: { body: 100 } } },
+      { sort: { score: { $meta: 'textScore' } } }
+    );
+    expect(ids(boosted)[0]).toBe('beans');
+    expect(() => articles.find({ $text: { $search: 'coffee', $boosts: { views: 2 } } })).toThrow(ValidationError);
+  });
+
+  it('should project highlighted fragments of the matched text', async () => {
+    const highlights = async (search: any) => Object.fromEntries(
+      (await articles.findAsync({ $text: search }, { projection: { snippets: { $meta: 'textHighlights' } } }))
+        .map((doc: any) => [doc._id, doc.snippets])
+    );
+
+    expect(await highlights({ $search: 'coffee', $highlight: { preTag: '**', postTag: '**' } })).toEqual({
+      coffee: ['Brewing **coffee** at home'],
+      beans: ['Light roasts keep the origin flavours of **coffee** beans.'],
+      tea: ['Steep the leaves, never boil them. **Coffee** drinkers may prefer it strong.']
+    });
+
+    // Phrases highlight where the whole phrase occurs; title fragments outrank body ones
+    expect(await highlights({ $search: '"coffee beans" roasting' })).toEqual({
+      beans: ['<em>Roasting</em> beans', 'Light <em>roasts</em> keep the origin flavours of <em>coffee</em> <em>beans</em>.']
+    });
+
+    // Long texts are cut around the matches
+    articles.insert({
+      _id: 'history',
+      title: 'History',
+      body: 'The history of tea goes back thousands of years. Today espresso machines are common in every office kitchen.'
+    });
+    expect((await highlights({ $search: 'espresso', $highlight: { fragmentSize: 20 } })).history)
+      .toEqual(['...Today <em>espresso</em>...']);
+
+    await expect(articles.findAsync({ views: 5 }, { projection: { snippets: { $meta: 'textHighlights' } } })).rejects.toThrow(ValidationError);
+    await expect(articles.findCursor({ $text: { $search: 'tea', $highlight: { fragmentSize: 0 } } })
+      .project({ snippets: { $meta: 'textHighlights' } }).toArray()).rejects.toThrow(ValidationError);
+  });
+
+  it('should fill search result highlights from the engine', () => {
+    const engine = new FullTextSearchEngine();
+    const docs: Record<string, any> = { n1: { _id: 'n1', body: 'Monarch adds highlighted snippets' } };
+    const name = engine.createTextIndex('notes', ['body']);
+    engine.updateIndex(name, docs.n1);
+
+    const [result] = engine.search(name, 'snippet', { highlight: true }, id => docs[id]);
+    expect(result.highlights).toEqual(['Monarch adds highlighted <em>snippets</em>']);
+    expect(engine.search(name, 'snippet')[0].highlights).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Monarch, ValidationError } from '../src';
+
+describe('TTL Indexes', () => {
+  const now = new Date('2026-01-01T12:00:00Z').getTime();
+  const minutesAgo = (minutes: number) => new Date(now - minutes * 60 * 1000);
+
+  let db: Monarch;
+  let sessions: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    db = new Monarch({ ttl: { sweepIntervalMs: 1000 } });
+    sessions = db.addCollection('sessions');
+    sessions.createIndex({ createdAt: 1 }, { expireAfterSeconds: 600 });
+    sessions.createIndex('user');
+    sessions.insert([
+      { user: 'old', createdAt: minutesAgo(30) },
+      { user: 'edge', createdAt: minutesAgo(10) },
+      { user: 'fresh', createdAt: minutesAgo(1) },
+      { user: 'millis', createdAt: minutesAgo(20).getTime() },
+      { user: 'array', createdAt: [minutesAgo(2), minutesAgo(15)] },
+      { user: 'text', createdAt: 'yesterday' },
+      { user: 'none' }
+    ]);
+  });
+
+  afterEach(() => {
+    db.configureTTL({ enabled: false });
+    vi.useRealTimers();
+  });
+
+  const users = () => sessions.find({}).map((doc: any) => doc.user).sort();
+
+  it('should remove documents whose date is older than expireAfterSeconds', () => {
+    expect(sessions.removeExpired()).toBe(4);
+    expect(users()).toEqual(['fresh', 'none', 'text']);
+
+    // Other indexes no longer see the removed documents
+    expect(sessions.find({ user: 'old' })).toHaveLength(0);
+    expect(sessions.removeExpired()).toBe(0);
+  });
+
+  it('should sweep in the background and emit remove events', async () => {
+    const events: any[] = [];
+    db.watch({ collection: 'sessions', operation: 'remove' }, event => events.push(event));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(users()).toEqual(['fresh', 'none', 'text']);
+    expect(events.map(event => event.document.user).sort()).toEqual(['array', 'edge', 'millis', 'old']);
+
+    // 'fresh' expires nine minutes later
+    await vi.advanceTimersByTimeAsync(9 * 60 * 1000);
+    expect(users()).toEqual(['none', 'text']);
+
+    const stats = db.getTTLStats();
+    expect(stats.running).toBe(true);
+    expect(stats.sweepIntervalMs).toBe(1000);
+    expect(stats.expiredTotal).toBe(5);
+    expect(stats.expiredByCollection).toEqual({ sessions: 5 });
+    expect(stats.sweeps).toBeGreaterThan(1);
+  });
+
+  it('should change the sweep interval and stop sweeping when disabled', async () => {
+    db.configureTTL({ sweepIntervalMs: 5000 });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(sessions.find({})).toHaveLength(7);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sessions.find({})).toHaveLength(3);
+
+    db.configureTTL({ enabled: false });
+    sessions.insert({ user: 'late', createdAt: minutesAgo(60) });
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sessions.find({ user: 'late' })).toHaveLength(1);
+    expect(db.getTTLStats().running).toBe(false);
+
+    expect(await db.sweepExpiredDocuments()).toBe(1);
+    expect(() => db.configureTTL({ sweepIntervalMs: 0 })).toThrow(ValidationError);
+  });
+
+  it('should persist the deletions through the adapter', async () => {
+    const saved: any[] = [];
+    const adapter = { save: vi.fn(async (data: any) => { saved.push(data); }), load: vi.fn(async () => ({})) };
+    const persisted = new Monarch({ adapter, ttl: { enabled: false } });
+    const codes = persisted.addCollection('otp') as any;
+    codes.createIndex({ issuedAt: 1 }, { expireAfterSeconds: 300 });
+    codes.insert([{ code: '1111', issuedAt: minutesAgo(6) }, { code: '2222', issuedAt: minutesAgo(1) }]);
+
+    expect(await persisted.sweepExpiredDocuments()).toBe(1);
+    expect(adapter.save).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(saved[0])).not.toContain('1111');
+    expect(JSON.stringify(saved[0])).toContain('2222');
+
+    // Nothing expired, nothing to save
+    expect(await persisted.sweepExpiredDocuments()).toBe(0);
+    expect(adapter.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid TTL index options', () => {
+    expect(() => sessions.createIndex({ a: 1, b: 1 }, { expireAfterSeconds: 60 })).toThrow(ValidationError);
+    expect(() => sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: -1 })).toThrow(ValidationError);
+
+    // expireAfterSeconds 0 expires documents at the date in the field
+    sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    sessions.insert({ user: 'due', expiresAt: new Date(now) });
+    expect(sessions.removeExpired()).toBe(5);
+  });
+});
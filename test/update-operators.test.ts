@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Monarch, ValidationError } from '../src';
+
+describe('Update Operators', () => {
+  let db: Monarch;
+  let collection: any;
+
+  beforeEach(() => {
+    db = new Monarch();
+    collection = db.addCollection('test');
+  });
+
+  describe('field operators', () => {
+    it('should $set and $unset dot paths without mutating the previous document', () => {
+      const [original] = collection.insert({ name: 'Alice', address: { city: 'NYC', zip: '10001' } });
+
+      collection.update({ name: 'Alice' }, { $set: { 'address.city': 'Paris', 'profile.age': 30 } });
+      collection.update({ name: 'Alice' }, { $unset: { 'address.zip': '' } });
+
+      const [doc] = collection.find({ name: 'Alice' });
+      expect(doc.address).toEqual({ city: 'Paris' });
+      expect(doc.profile).toEqual({ age: 30 });
+      expect(original.address).toEqual({ city: 'NYC', zip: '10001' });
+    });
+
+    it('should $inc and $mul numeric fields, creating missing ones', () => {
+      collection.insert({ name: 'counter', hits: 5, price: 10 });
+
+      collection.update({ name: 'counter' }, { $inc: { hits: 2, misses: 1 }, $mul: { price: 1.5, tax: 3 } });
+
+      const [doc] = collection.find({ name: 'counter' });
+      expect(doc.hits).toBe(7);
+      expect(doc.misses).toBe(1);
+      expect(doc.price).toBe(15);
+      expect(doc.tax).toBe(0);
+    });
+
+    it('should reject $inc on a non-numeric field', () => {
+      collection.insert({ name: 'Alice' });
+      expect(() => collection.update({ name: 'Alice' }, { $inc: { name: 1 } })).toThrow(ValidationError);
+    });
+
+    it('should apply $min, $max, $rename and $currentDate', () => {
+      collection.insert({ name: 'Alice', low: 10, high: 10, nick: 'Al' });
+
+      collection.update({ name: 'Alice' }, {
+        $min: { low: 3 },
+        $max: { high: 2 },
+        $rename: { nick: 'nickname' },
+        $currentDate: { updatedAt: true, seen: { $type: 'timestamp' } }
+      });
+
+      const [doc] = collection.find({ name: 'Alice' });
+      expect(doc.low).toBe(3);
+      expect(doc.high).toBe(10);
+      expect(doc.nick).toBeUndefined();
+      expect(doc.nickname).toBe('Al');
+      expect(doc.updatedAt).toBeInstanceOf(Date);
+      expect(typeof doc.seen).toBe('number');
+    });
+  });
+
+  describe('array operators', () => {
+    it('should $push with $each, $sort and $slice', () => {
+      collection.insert({ name: 'scores', values: [5, 1] });
+
+      collection.update({ name: 'scores' }, { $push: { values: { $each: [9, 3], $sort: -1, $slice: 3 } } });
+
+      expect(collection.find({ name: 'scores' })[0].values).toEqual([9, 5, 3]);
+    });
+
+    it('should $push a single value and honor $position', () => {
+      collection.insert({ name: 'list', items: ['b'] });
+
+      collection.update({ name: 'list' }, { $push: { items: 'c' } });
+      collection.update({ name: 'list' }, { $push: { items: { $each: ['a'], $position: 0 } } });
+
+      expect(collection.find({ name: 'list' })[0].items).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should $pull by value and by condition, and $pullAll', () => {
+      collection.insert({
+        name: 'Alice',
+        scores: [1, 5, 8, 10],
+        tags: ['a', 'b', 'c'],
+        items: [{ sku: 'x', qty: 0 }, { sku: 'y', qty: 3 }]
+      });
+
+      collection.update({ name: 'Alice' }, {
+        $pull: { scores: { $gte: 8 }, items: { qty: 0 } },
+        $pullAll: { tags: ['a', 'c'] }
+      });
+
+      const [doc] = collection.find({ name: 'Alice' });
+      expect(doc.scores).toEqual([1, 5]);
+      expect(doc.tags).toEqual(['b']);
+      expect(doc.items).toEqual([{ sku: 'y', qty: 3 }]);
+    });
+
+    it('should $addToSet without duplicates and $pop from either end', () => {
+      collection.insert({ name: 'Alice', tags: ['a'], queue: [1, 2, 3] });
+
+      collection.update({ name: 'Alice' }, { $addToSet: { tags: { $each: ['a', 'b', 'b'] } }, $pop: { queue: -1 } });
+      collection.update({ name: 'Alice' }, { $pop: { queue: 1 } });
+
+      const [doc] = collection.find({ name: 'Alice' });
+      expect(doc.tags).toEqual(['a', 'b']);
+      expect(doc.queue).toEqual([2]);
+    });
+
+    it('should reject $push on a non-array field', () => {
+      collection.insert({ name: 'Alice' });
+      expect(() => collection.update({ name: 'Alice' }, { $push: { name: 'x' } })).toThrow(ValidationError);
+    });
+  });
+
+  describe('index and cache maintenance', () => {
+    it('should keep indexes in sync with operator updates', () => {
+      collection.insert([{ name: 'Alice', visits: 1 }, { name: 'Bob', visits: 1 }]);
+      collection.createIndex('visits');
+
+      collection.update({ name: 'Alice' }, { $inc: { visits: 1 } });
+
+      expect(collection.find({ visits: 2 }).map((d: any) => d.name)).toEqual(['Alice']);
+      expect(collection.find({ visits: 1 }).map((d: any) => d.name)).toEqual(['Bob']);
+    });
+
+    it('should invalidate cached queries on touched dot paths', () => {
+      collection.insert({ name: 'Alice', address: { city: 'NYC' } });
+      expect(collection.find({ 'address.city': 'NYC' })).toHaveLength(1);
+
+      collection.update({ name: 'Alice' }, { $set: { 'address.city': 'Paris' } });
+
+      expect(collection.find({ 'address.city': 'NYC' })).toHaveLength(0);
+      expect(collection.find({ 'address.city': 'Paris' })).toHaveLength(1);
+    });
+
+    it('should support operators in updateDeep', () => {
+      collection.insert({ name: 'Alice', stats: { logins: 1 } });
+
+      collection.updateDeep({ name: 'Alice' }, { $inc: { 'stats.logins': 4 } });
+
+      expect(collection.find({ name: 'Alice' })[0].stats.logins).toBe(5);
+    });
+  });
+});
@@ -300,6 +300,35 @@ describe('QueryValidator', () => {
       expect(() => QueryValidator.validateUpdateOperation({ tags: ['a', 'b'] })).not.toThrow();
     });
 
+    it('should accept update operators', () => {
+      expect(() => QueryValidator.validateUpdateOperation({
+        $set: { 'address.city': 'Paris' },
+        $inc: { visits: 1 },
+        $push: { tags: { $each: ['a'], $slice: -5, $sort: 1 } }
+      })).not.toThrow();
+    });
+
+    it('should reject unknown update operators and mixed updates', () => {
+      expect(() => QueryValidator.validateUpdateOperation({ $bogus: { a: 1 } })).toThrow('Unknown update operator');
+      expect(() => QueryValidator.validateUpdateOperation({ $set: { a: 1 }, b: 2 })).toThrow(ValidationError);
+    });
+
+    it('should reject invalid operator arguments', () => {
+      expect(() => QueryValidator.validateUpdateOperation({ $inc: { a: 'one' } })).toThrow(ValidationError);
+      expect(() => QueryValidator.validateUpdateOperation({ $pop: { a: 2 } })).toThrow(ValidationError);
+      expect(() => QueryValidator.validateUpdateOperation({ $set: {} })).toThrow(ValidationError);
+      expect(() => QueryValidator.validateUpdateOperation({ $push: { a: { $slice: 2 } } })).toThrow(ValidationError);
+    });
+
+    it('should reject conflicting paths and _id changes through operators', () => {
+      expect(() => QueryValidator.validateUpdateOperation({
+        $set: { 'a.b': 1 },
+        $unset: { a: '' }
+      })).toThrow('conflict');
+      expect(() => QueryValidator.validateUpdateOperation({ $set: { _id: 'x' } })).toThrow('_id');
+      expect(() => QueryValidator.validateUpdateOperation({ $rename: { name: '_id' } })).toThrow('_id');
+    });
+
     // Note: QueryValidator.validateUpdateOperation does not validate field names
     // Field name validation is handled by DocumentValidator.validateFieldNames
     // when the full document is validated during the update operation
@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Monarch } from '../src/monarch';
+import { ValidationError } from '../src/errors';
+import { random } from './helpers/random';
 
 describe('Vector Search Capabilities', () => {
   let db: Monarch;
@@ -220,4 +222,53 @@ describe('Vector Search Capabilities', () => {
       }
     });
   });
+
+  describe('HNSW Vector Indexes', () => {
+    // Embeddings around a few topics, like real ones
+    const next = random(5);
+    const topics = Array.from({ length: 8 }, () => Array.from({ length: 32 }, () => next() - 0.5));
+    const embedding = (topic: number) => topics[topic % topics.length].map(value => value + (next() - 0.5) * 0.2);
+
+    // Node levels are drawn with Math.random: seed them too so recall is reproducible
+    beforeEach(() => {
+      vi.spyOn(Math, 'random').mockImplementation(random(17));
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should search an HNSW graph kept current on store and remove', async () => {
+      for (let i = 0; i < 600; i++) {
+        db.storeVector('articles', `a${i}`, embedding(i), { topic: i % topics.length });
+      }
+      const indexName = db.createVectorIndex('articles', { dimension: 32, indexType: 'hnsw', M: 8, efConstruction: 64, efSearch: 32 });
+
+      // Vectors stored or removed after the index was built are reflected in it
+      const late = embedding(3);
+      db.storeVector('articles', 'late', late, { topic: 3 });
+      for (let i = 0; i < 600; i += 3) {
+        db.removeVector('articles', `a${i}`);
+      }
+
+      const [best] = await db.searchVectors('articles', late, { indexName, limit: 5 });
+      expect(best).toMatchObject({ docId: 'late', metadata: { topic: 3 } });
+      expect(best.score).toBeCloseTo(1, 10);
+      const results = await db.searchVectors('articles', embedding(5), { indexName, limit: 20 });
+      expect(results).toHaveLength(20);
+      expect(results.every(({ docId }: any) => docId === 'late' || Number(docId.slice(1)) % 3 !== 0)).toBe(true);
+
+      const queries = Array.from({ length: 20 }, (_, i) => embedding(i));
+      const report = await db.measureVectorRecall(indexName, queries, { k: 10 });
+      expect(report).toMatchObject({ k: 10, queries: 20 });
+      expect(report.recall).toBeGreaterThanOrEqual(0.9);
+      expect((await db.measureVectorRecall(indexName, queries, { k: 10, efSearch: 200 })).recall).toBeGreaterThanOrEqual(0.95);
+    });
+
+    it('should reject invalid HNSW parameters', () => {
+      expect(() => db.createVectorIndex('articles', { dimension: 32, indexType: 'hnsw', M: 1 })).toThrow(ValidationError);
+      expect(() => db.createVectorIndex('articles', { dimension: 32, indexType: 'hnsw', efSearch: 0 })).toThrow(ValidationError);
+      expect(() => db.createVectorIndex('articles', { dimension: 32, indexType: 'hnsw', efConstruction: 1.5 })).toThrow(ValidationError);
+    });
+  });
 });
@@ -18,7 +18,7 @@ export default defineConfig({
       external: (id) => {
         // Externalize Node.js built-ins
         return id.startsWith('node:') || 
-               ['fs', 'path', 'http', 'crypto', 'util', 'stream'].includes(id);
+               ['fs', 'os', 'path', 'http', 'crypto', 'util', 'stream', 'string_decoder'].includes(id);
       },
       output: {
         globals: {},